@@ -0,0 +1,330 @@
+// ============= LOCAL MINING POOL SERVER =============
+//
+// A small pool for testing pooled mining on one machine, speaking the protocol
+// in src/lib/blockchain/pool.ts. It listens on 127.0.0.1 only and keeps its own
+// chain (and PPLNS window) in a JSON file. Block templates carry a single
+// coinbase that pays the current PPLNS window; pending transactions stay with
+// the wallets.
+//
+//   npm run pool -- --address GSC1Q... [--port 3333] [--chain .cache/pool-chain.json] [--window 1000]
+//
+// Start from a chain exported by the wallet (--chain) so the two share a
+// genesis block: wallets refuse to mine on a pool chain that starts elsewhere.
+// Without one the pool begins a new chain. A chain file that fails the full
+// validator keeps the pool from starting.
+
+import { randomUUID } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { dirname } from 'node:path';
+import { validateAddress } from '../src/lib/address';
+import { stringifyWithAmounts } from '../src/lib/blockchain/amount';
+import { ChainDocument, fromGSCBlock, readChainDocument, toGSCBlock } from '../src/lib/blockchain/adapters';
+import { createGenesisBlock } from '../src/lib/blockchain/consensus';
+import { MIN_DIFFICULTY, expectedHashes, getNextDifficulty } from '../src/lib/blockchain/difficulty';
+import { getBlockSubsidy, getIssuedSupply } from '../src/lib/blockchain/emission';
+import { ENCODING_VERSION } from '../src/lib/blockchain/encoding';
+import { calculateMerkleRoot } from '../src/lib/blockchain/merkle';
+import {
+  DEFAULT_PPLNS_WINDOW,
+  PPLNSLedger,
+  PoolJob,
+  PoolRequest,
+  PoolResponse,
+  PoolShare,
+  PoolStats,
+  PoolSubscription,
+  SESSION_NONCE_RANGE,
+  SHARE_DIFFICULTY_OFFSET,
+  ShareResult,
+  checkShare,
+  createPoolCoinbase,
+} from '../src/lib/blockchain/pool';
+import type { Block } from '../src/lib/blockchain/types';
+import { formatChainReport, validateBlock, validateChainDocument } from '../src/lib/blockchain/validator';
+
+const HOST = '127.0.0.1';
+// Templates are rebuilt this often so the coinbase follows the PPLNS window
+const JOB_REFRESH_INTERVAL = 30_000;
+const NOTIFY_TIMEOUT = 25_000;
+const HASHRATE_WINDOW = 60_000;
+// Templates kept for late shares; older ones are stale
+const MAX_JOBS = 10;
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+interface PoolFile {
+  chain: Block[];
+  shares: PoolShare[];
+}
+
+interface Session {
+  address: string | null;
+  nonceRange: [number, number];
+  submitted: Set<string>;
+}
+
+function readOptions(): { port: number; chainFile: string; address: string; window: number } {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+  return {
+    port: Number(option('port') ?? process.env.POOL_PORT ?? 3333),
+    chainFile: option('chain') ?? process.env.POOL_CHAIN ?? '.cache/pool-chain.json',
+    address: option('address') ?? process.env.POOL_ADDRESS ?? '',
+    window: Number(option('window') ?? DEFAULT_PPLNS_WINDOW),
+  };
+}
+
+class PoolServer {
+  private chain: Block[];
+  private pplns: PPLNSLedger;
+  private sessions = new Map<string, Session>();
+  private jobs = new Map<string, PoolJob>();
+  private currentJob!: PoolJob;
+  private jobCounter = 0;
+  private waiters = new Set<() => void>();
+  private acceptedShares: PoolShare[] = [];
+  private blocksFound = 0;
+
+  constructor(private chainFile: string, private poolAddress: string, windowSize: number, { chain, shares }: PoolFile) {
+    this.chain = chain;
+    this.pplns = new PPLNSLedger(windowSize, shares);
+    this.newJob(true);
+    setInterval(() => this.newJob(false), JOB_REFRESH_INTERVAL);
+  }
+
+  // The chain file is held to the full validator like any import: the pool must
+  // not hand out work on blocks the wallets would reject. Its pending
+  // transactions and balances are not the pool's concern.
+  static async load(chainFile: string): Promise<PoolFile> {
+    if (!existsSync(chainFile)) return { chain: [createGenesisBlock()], shares: [] };
+    const raw = JSON.parse(readFileSync(chainFile, 'utf8'));
+    const document = readChainDocument(raw);
+    if (document.chain.length === 0 && !document.unreadable) return { chain: [createGenesisBlock()], shares: [] };
+    const report = await validateChainDocument({ ...document, pending_transactions: [], balances: {} });
+    if (!report.valid) throw new Error(`${chainFile} failed validation: ${formatChainReport(report)}`);
+    return {
+      chain: document.chain.map(fromGSCBlock),
+      shares: Array.isArray(raw.pplns_shares) ? raw.pplns_shares : [],
+    };
+  }
+
+  private save(): void {
+    const document = { ...this.getChainDocument(), pplns_shares: this.pplns.getShares() };
+    mkdirSync(dirname(this.chainFile), { recursive: true });
+    writeFileSync(this.chainFile, stringifyWithAmounts(document));
+  }
+
+  getChainDocument(): ChainDocument {
+    return readChainDocument({ chain: this.chain.map(toGSCBlock) });
+  }
+
+  private get tip(): Block {
+    return this.chain[this.chain.length - 1];
+  }
+
+  private newJob(cleanJobs: boolean): void {
+    const height = this.tip.index + 1;
+    const difficulty = getNextDifficulty(this.chain);
+    const reward = getBlockSubsidy(height, getIssuedSupply(this.chain));
+    const coinbase = createPoolCoinbase(this.pplns.split(reward, this.poolAddress));
+    const transactions = [coinbase];
+
+    if (cleanJobs) this.jobs.clear();
+    this.currentJob = {
+      jobId: String(++this.jobCounter),
+      header: {
+        version: ENCODING_VERSION,
+        index: height,
+        timestamp: Date.now(),
+        transactions,
+        merkleRoot: calculateMerkleRoot(transactions),
+        previousHash: this.tip.hash,
+        nonce: 0,
+        difficulty,
+        miner: this.poolAddress,
+        reward,
+      },
+      difficulty,
+      shareDifficulty: Math.max(MIN_DIFFICULTY, difficulty - SHARE_DIFFICULTY_OFFSET),
+      cleanJobs,
+    };
+    this.jobs.set(this.currentJob.jobId, this.currentJob);
+    while (this.jobs.size > MAX_JOBS) this.jobs.delete(this.jobs.keys().next().value!);
+
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    waiters.forEach(wake => wake());
+  }
+
+  subscribe(): PoolSubscription {
+    const start = this.sessions.size * SESSION_NONCE_RANGE;
+    if (start + SESSION_NONCE_RANGE > Number.MAX_SAFE_INTEGER) throw new Error('Pool is full');
+    const sessionId = randomUUID();
+    const nonceRange: [number, number] = [start, start + SESSION_NONCE_RANGE];
+    this.sessions.set(sessionId, { address: null, nonceRange, submitted: new Set() });
+    return { sessionId, nonceRange };
+  }
+
+  authorize(sessionId: string, address: string): boolean {
+    const session = this.getSession(sessionId);
+    const validation = validateAddress(address, { allowLegacy: false });
+    if (!validation.valid || validation.type === 'system') throw new Error(validation.error ?? 'Invalid payout address');
+    session.address = address;
+    console.log(`Miner authorised: ${address}`);
+    return true;
+  }
+
+  async notify(sessionId: string, knownJobId: string | null): Promise<PoolJob> {
+    this.getSession(sessionId);
+    if (knownJobId !== this.currentJob.jobId) return this.currentJob;
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(wake);
+        resolve();
+      }, NOTIFY_TIMEOUT);
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      this.waiters.add(wake);
+    });
+    return this.currentJob;
+  }
+
+  async submit(sessionId: string, jobId: string, nonce: number): Promise<ShareResult> {
+    const session = this.getSession(sessionId);
+    if (!session.address) throw new Error('Not authorised');
+
+    const job = this.jobs.get(jobId);
+    if (!job) return { accepted: false, block: false, reason: 'stale job' };
+    const [start, end] = session.nonceRange;
+    if (!Number.isSafeInteger(nonce) || nonce < start || nonce >= end) {
+      return { accepted: false, block: false, reason: 'nonce outside the session range' };
+    }
+    const key = `${job.header.index}:${nonce}`;
+    if (session.submitted.has(key)) return { accepted: false, block: false, reason: 'duplicate share' };
+
+    const check = checkShare(job, nonce);
+    if (!check.share) return { accepted: false, block: false, reason: 'low difficulty share' };
+
+    session.submitted.add(key);
+    const share: PoolShare = { address: session.address, difficulty: job.shareDifficulty, timestamp: Date.now() };
+    this.pplns.add(share);
+    this.acceptedShares.push(share);
+
+    if (!check.block) return { accepted: true, block: false };
+
+    const block: Block = { ...job.header, nonce, hash: check.hash };
+    const valid = block.previousHash === this.tip.hash
+      && await validateBlock(block, this.chain);
+    if (!valid) return { accepted: true, block: false, reason: 'block rejected' };
+
+    this.chain.push(block);
+    this.blocksFound++;
+    this.sessions.forEach(other => other.submitted.clear());
+    console.log(`Block #${block.index} found by ${session.address}: ${block.hash}`);
+    this.save();
+    this.newJob(true);
+    return { accepted: true, block: true };
+  }
+
+  getStats(): PoolStats {
+    const since = Date.now() - HASHRATE_WINDOW;
+    this.acceptedShares = this.acceptedShares.filter(share => share.timestamp >= since);
+    const work = this.acceptedShares.reduce((sum, share) => sum + expectedHashes(share.difficulty), 0);
+    return {
+      miners: [...this.sessions.values()].filter(session => session.address).length,
+      hashRate: Math.round(work / (HASHRATE_WINDOW / 1000)),
+      height: this.tip.index,
+      blocksFound: this.blocksFound,
+      shareDifficulty: this.currentJob.shareDifficulty,
+      window: this.pplns.getPayoutShares(),
+    };
+  }
+
+  private getSession(sessionId: string): Session {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error('Unknown session; subscribe first');
+    return session;
+  }
+
+  async handle(request: PoolRequest): Promise<unknown> {
+    const params = Array.isArray(request.params) ? request.params : [];
+    switch (request.method) {
+      case 'mining.subscribe':
+        return this.subscribe();
+      case 'mining.authorize':
+        return this.authorize(String(params[0]), String(params[1]));
+      case 'mining.notify':
+        return this.notify(String(params[0]), params[1] === null ? null : String(params[1]));
+      case 'mining.submit':
+        return this.submit(String(params[0]), String(params[1]), Number(params[2]));
+      case 'pool.stats':
+        return this.getStats();
+      case 'pool.chain':
+        return this.getChainDocument();
+      default:
+        throw new Error(`Unknown method ${String(request.method)}`);
+    }
+  }
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function send(request: IncomingMessage, response: ServerResponse, status: number, body?: unknown): void {
+  const origin = request.headers.origin;
+  if (origin && LOCAL_ORIGIN.test(origin)) {
+    response.setHeader('Access-Control-Allow-Origin', origin);
+    response.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(body === undefined ? undefined : stringifyWithAmounts(body));
+}
+
+const options = readOptions();
+if (!validateAddress(options.address, { allowLegacy: false }).valid) {
+  console.error('A payout address for blocks mined before any shares is required: --address GSC1Q...');
+  process.exit(1);
+}
+
+let poolFile: PoolFile;
+try {
+  poolFile = await PoolServer.load(options.chainFile);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+const pool = new PoolServer(options.chainFile, options.address, options.window, poolFile);
+
+createServer(async (request, response) => {
+  if (request.method === 'OPTIONS') return send(request, response, 204);
+  if (request.method !== 'POST' || request.url !== '/rpc') return send(request, response, 404, { error: 'Not found' });
+
+  let rpc: PoolRequest;
+  try {
+    rpc = JSON.parse(await readBody(request));
+  } catch {
+    return send(request, response, 400, { id: null, result: null, error: 'Invalid JSON' });
+  }
+
+  let reply: PoolResponse;
+  try {
+    reply = { id: rpc.id, result: await pool.handle(rpc), error: null };
+  } catch (error) {
+    reply = { id: rpc.id, result: null, error: error instanceof Error ? error.message : String(error) };
+  }
+  send(request, response, 200, reply);
+}).listen(options.port, HOST, () => {
+  console.log(`GSC pool listening on http://${HOST}:${options.port}/rpc (chain: ${options.chainFile})`);
+});
@@ -5,6 +5,7 @@ import { Label } from "@/components/ui/label";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import { gscBlockchainService } from "@/services/gscBlockchain";
+import { validateBlockchainFile } from "@/utils/errorHandling";
 
 interface HeroSectionProps {
   showAdminPanel?: boolean;
@@ -140,13 +141,17 @@ const HeroSection = ({ showAdminPanel: externalShowAdminPanel, setShowAdminPanel
         total_supply: blockchainData.total_supply || 21750000000000
       };
 
-      const success = await gscBlockchainService.uploadBlockchain(processedData);
+      // Re-verify every block, signature and balance before anything is uploaded;
+      // a pre-series chain is uploaded converted
+      const chainDocument = await validateBlockchainFile(processedData);
+
+      const success = await gscBlockchainService.uploadBlockchain(chainDocument);
   
       if (success) {
         const toast = (await import("@/hooks/use-toast")).toast;
         toast({
           title: "Blockchain File Uploaded Successfully",
-          description: `Uploaded ${processedData.chain.length} blocks. All users will get this update automatically.`,
+          description: `Uploaded ${chainDocument.chain.length} blocks. All users will get this update automatically.`,
         });
       } else {
         throw new Error("Upload failed. Please try again.");
@@ -0,0 +1,409 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import { ArrowLeftRight, Copy, KeyRound, RefreshCw, Trash2, Undo2, Upload } from "lucide-react";
+import { gscBlockchainService, GSCSwap, GSCSwapState, GSCWallet } from "@/services/gscBlockchain";
+import FeePresetPicker from "@/components/wallet/FeePresetPicker";
+import {
+  MIN_TRANSACTION_FEE,
+  createHtlcContract,
+  describeLockTime,
+  formatAmount,
+  formatHtlcContract,
+  generateHtlcSecret,
+  getHtlcAddress,
+  hashHtlcSecret,
+  parseAmount,
+} from "@/lib/blockchain";
+import type { FeeEstimates, FeePriority } from "@/lib/blockchain";
+
+interface AtomicSwapWizardProps {
+  wallet: GSCWallet;
+  feeEstimates: FeeEstimates;
+  // Height of the next block, to turn a timeout in blocks into a block height
+  nextBlock: number;
+  // Called after a swap changed balances
+  onChange: () => void;
+}
+
+type Mode = "initiate" | "participate";
+
+const STATE_LABELS: Record<GSCSwapState, { label: string; className: string }> = {
+  "awaiting-funding": { label: "Awaiting funding", className: "bg-gray-600" },
+  funded: { label: "Funded", className: "bg-blue-600" },
+  claiming: { label: "Claim pending", className: "bg-yellow-600" },
+  claimed: { label: "Claimed", className: "bg-green-600" },
+  refundable: { label: "Refundable", className: "bg-orange-600" },
+  refunding: { label: "Refund pending", className: "bg-yellow-600" },
+  refunded: { label: "Refunded", className: "bg-gray-500" },
+};
+
+const copyText = (text: string, what: string) => {
+  navigator.clipboard.writeText(text);
+  toast({ title: "Copied", description: `${what} copied to clipboard` });
+};
+
+const reportError = (title: string, error: unknown) => {
+  toast({
+    title,
+    description: error instanceof Error ? error.message : `${error}`,
+    variant: "destructive",
+  });
+};
+
+const AtomicSwapWizard = ({ wallet, feeEstimates, nextBlock, onChange }: AtomicSwapWizardProps) => {
+  const [step, setStep] = useState<"terms" | "review">("terms");
+  const [mode, setMode] = useState<Mode>("initiate");
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [timeoutBlocks, setTimeoutBlocks] = useState("100");
+  const [counterpartyHash, setCounterpartyHash] = useState("");
+  const [secret, setSecret] = useState("");
+  const [feePriority, setFeePriority] = useState<FeePriority>("normal");
+  const fee = feeEstimates[feePriority].fee || MIN_TRANSACTION_FEE;
+  const [passphrase, setPassphrase] = useState("");
+  const [isFunding, setIsFunding] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [claimSecrets, setClaimSecrets] = useState<Record<string, string>>({});
+  const [, setRefreshes] = useState(0);
+
+  const swaps = gscBlockchainService.getSwaps(wallet.name);
+  const timeout = nextBlock + parseInt(timeoutBlocks, 10);
+  const hashLock = mode === "initiate" ? (secret ? hashHtlcSecret(secret) : "") : counterpartyHash.trim();
+
+  // The contract as it will be funded, or why the terms are unusable
+  let preview: { text: string; address: string } | { error: string };
+  try {
+    const contract = createHtlcContract(gscBlockchainService.getSwapFundingAddress(wallet), recipient, hashLock, timeout);
+    preview = { text: formatHtlcContract(contract), address: getHtlcAddress(contract) };
+  } catch (error) {
+    preview = { error: error instanceof Error ? error.message : `${error}` };
+  }
+
+  const resetTerms = () => {
+    setStep("terms");
+    setRecipient("");
+    setAmount("");
+    setCounterpartyHash("");
+    setSecret("");
+    setPassphrase("");
+  };
+
+  const handleReview = () => {
+    if (!((parseAmount(amount) ?? 0n) > 0n)) {
+      reportError("Check the swap terms", "Enter the amount to lock");
+      return;
+    }
+    if (!(parseInt(timeoutBlocks, 10) > 0)) {
+      reportError("Check the swap terms", "Enter the timeout in blocks");
+      return;
+    }
+    if (mode === "initiate") setSecret(generateHtlcSecret());
+    setStep("review");
+  };
+
+  const handleFund = async () => {
+    setIsFunding(true);
+    try {
+      const swap = await gscBlockchainService.createSwap(
+        wallet,
+        recipient.trim(),
+        parseAmount(amount) ?? 0n,
+        timeout,
+        hashLock,
+        mode === "initiate" ? secret : undefined,
+        passphrase || undefined,
+        fee
+      );
+      toast({
+        title: "Swap Funded",
+        description: `${amount} GSC locked at ${swap.address.substring(0, 20)}... until ${describeLockTime(timeout)}`,
+      });
+      resetTerms();
+      onChange();
+    } catch (error) {
+      reportError("Failed to fund swap", error);
+    } finally {
+      setIsFunding(false);
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      const swap = gscBlockchainService.importSwap(importText);
+      setImportText("");
+      setRefreshes(count => count + 1);
+      toast({ title: "Swap Imported", description: `Tracking the contract at ${swap.address.substring(0, 20)}...` });
+    } catch (error) {
+      reportError("Cannot import contract", error);
+    }
+  };
+
+  const handleClaim = async (swap: GSCSwap) => {
+    if (await gscBlockchainService.claimSwap(swap, claimSecrets[swap.address] || undefined, passphrase || undefined, fee)) {
+      onChange();
+    }
+  };
+
+  const handleRefund = async (swap: GSCSwap) => {
+    if (await gscBlockchainService.refundSwap(swap, passphrase || undefined, fee)) {
+      onChange();
+    }
+  };
+
+  const handleRemove = (swap: GSCSwap) => {
+    gscBlockchainService.removeSwap(swap.address);
+    setRefreshes(count => count + 1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5" />
+            New Atomic Swap
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {step === "terms" ? (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant={mode === "initiate" ? "default" : "outline"} onClick={() => setMode("initiate")}>
+                  Start a swap
+                </Button>
+                <Button variant={mode === "participate" ? "default" : "outline"} onClick={() => setMode("participate")}>
+                  Answer a swap
+                </Button>
+              </div>
+              <p className="text-xs text-gray-400">
+                {mode === "initiate"
+                  ? "A new secret is generated for you. Once your counterparty locks their side under its hash, claim it with the secret; that reveals the secret, which lets them claim these funds."
+                  : "Lock GSC under the hash lock of the contract your counterparty funded, with a shorter timeout than theirs. Claiming these funds reveals the secret, and leaves you time to claim their side with it."}
+              </p>
+              <div>
+                <Label className="text-gray-300">Counterparty Address</Label>
+                <Input
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                  placeholder="GSC1Q..."
+                  className="bg-gray-700 border-gray-600 text-white font-mono"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label className="text-gray-300">Amount (GSC)</Label>
+                  <Input
+                    type="number"
+                    step="0.00000001"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="bg-gray-700 border-gray-600 text-white"
+                  />
+                </div>
+                <div>
+                  <Label className="text-gray-300">Timeout (blocks)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={timeoutBlocks}
+                    onChange={(e) => setTimeoutBlocks(e.target.value)}
+                    className="bg-gray-700 border-gray-600 text-white"
+                  />
+                </div>
+              </div>
+              {mode === "participate" && (
+                <div>
+                  <Label className="text-gray-300">Hash Lock</Label>
+                  <Input
+                    value={counterpartyHash}
+                    onChange={(e) => setCounterpartyHash(e.target.value)}
+                    placeholder="SHA-256 of the secret, from your counterparty's contract"
+                    className="bg-gray-700 border-gray-600 text-white font-mono text-xs"
+                  />
+                </div>
+              )}
+              <Button onClick={handleReview} className="w-full">
+                Review Contract
+              </Button>
+            </>
+          ) : (
+            <>
+              {mode === "initiate" && (
+                <div className="p-3 bg-yellow-900/30 border border-yellow-700 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-yellow-400 text-sm font-medium flex items-center gap-2">
+                      <KeyRound className="w-4 h-4" />
+                      Secret
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => copyText(secret, "Secret")}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="font-mono text-xs break-all text-white">{secret}</div>
+                  <p className="text-xs text-yellow-200">
+                    Kept with the swap in this browser. Do not share it: whoever knows it can claim every contract under this hash lock.
+                  </p>
+                </div>
+              )}
+              {"error" in preview ? (
+                <p className="text-sm text-red-400">{preview.error}</p>
+              ) : (
+                <div className="p-3 bg-gray-700 rounded-lg space-y-2 text-sm">
+                  <div className="flex justify-between gap-4">
+                    <span className="text-gray-400">Hash lock</span>
+                    <span className="font-mono text-xs break-all text-right text-white">{hashLock}</span>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <span className="text-gray-400">Contract address</span>
+                    <span className="font-mono text-xs break-all text-right text-white">{preview.address}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Refundable from</span>
+                    <span className="text-white">{describeLockTime(timeout)}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-xs break-all text-gray-300">{preview.text}</span>
+                    <Button variant="ghost" size="sm" onClick={() => copyText(preview.text, "Contract")}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+              <div>
+                <Label className="text-gray-300">Fee</Label>
+                <FeePresetPicker estimates={feeEstimates} selected={feePriority} onSelect={setFeePriority} className="mt-1" />
+              </div>
+              {wallet.encrypted && (
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Wallet passphrase"
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              )}
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep("terms")} className="flex-1">
+                  Back
+                </Button>
+                <Button onClick={handleFund} disabled={"error" in preview || isFunding} className="flex-1">
+                  {isFunding ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <ArrowLeftRight className="w-4 h-4 mr-2" />}
+                  Fund {amount} GSC
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <CardTitle className="text-white">Import Contract</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder="htlc(<sender>,<recipient>,<hash lock>,<timeout>)"
+            className="bg-gray-700 border-gray-600 text-white font-mono text-xs"
+          />
+          <Button onClick={handleImport} variant="outline" className="w-full" disabled={!importText.trim()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Track Contract
+          </Button>
+        </CardContent>
+      </Card>
+
+      {swaps.length > 0 && (
+        <Card className="bg-gray-800 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center justify-between">
+              Swaps
+              <Button variant="ghost" size="sm" onClick={() => setRefreshes(count => count + 1)}>
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {wallet.encrypted && (
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Wallet passphrase, to claim or refund"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            )}
+            {swaps.map(swap => {
+              const status = gscBlockchainService.getSwapStatus(swap);
+              const badge = STATE_LABELS[status.state];
+              const canClaim = swap.role === "recipient" && status.state === "funded";
+              const canRefund = swap.role === "sender" && status.state === "refundable";
+              return (
+                <div key={swap.address} className="p-3 bg-gray-700 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-white text-sm">
+                        {swap.role === "sender" ? "You lock" : "You receive"}{" "}
+                        {status.balance > 0n ? `${formatAmount(status.balance)} GSC` : ""}
+                        <span className="text-gray-400"> · refundable from {describeLockTime(swap.contract.timeout)}</span>
+                      </div>
+                      <div className="font-mono text-xs text-gray-400 break-all">{swap.address}</div>
+                    </div>
+                    <Badge className={badge.className}>{badge.label}</Badge>
+                  </div>
+                  {status.secret && (
+                    <div className="flex items-center gap-2 text-xs">
+                      <KeyRound className="w-3 h-3 text-yellow-400" />
+                      <span className="font-mono break-all text-gray-300">{status.secret}</span>
+                      <Button variant="ghost" size="sm" onClick={() => copyText(status.secret!, "Secret")}>
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  )}
+                  {canClaim && !status.secret && (
+                    <Input
+                      value={claimSecrets[swap.address] ?? ""}
+                      onChange={(e) => setClaimSecrets(current => ({ ...current, [swap.address]: e.target.value }))}
+                      placeholder="Secret from your counterparty"
+                      className="bg-gray-800 border-gray-600 text-white font-mono text-xs"
+                    />
+                  )}
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => copyText(gscBlockchainService.getSwapContractText(swap), "Contract")}>
+                      <Copy className="w-4 h-4 mr-1" />
+                      Contract
+                    </Button>
+                    {canClaim && (
+                      <Button size="sm" onClick={() => handleClaim(swap)}>
+                        <KeyRound className="w-4 h-4 mr-1" />
+                        Claim
+                      </Button>
+                    )}
+                    {canRefund && (
+                      <Button size="sm" onClick={() => handleRefund(swap)}>
+                        <Undo2 className="w-4 h-4 mr-1" />
+                        Refund
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleRemove(swap)} className="ml-auto">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AtomicSwapWizard;
@@ -0,0 +1,47 @@
+import { cn } from "@/lib/utils";
+import { Clock } from "lucide-react";
+import { formatAmount, formatFeeRate, type Amount, type FeeEstimates, type FeePriority } from "@/lib/blockchain";
+
+interface FeePresetPickerProps {
+  estimates: FeeEstimates;
+  // The preset last picked, or null once the fee has been edited by hand.
+  // Presets can price the same fee, so the choice is tracked by key.
+  selected: FeePriority | null;
+  onSelect: (priority: FeePriority, fee: Amount) => void;
+  className?: string;
+}
+
+const PRESETS: { priority: FeePriority; label: string }[] = [
+  { priority: "slow", label: "Slow" },
+  { priority: "normal", label: "Normal" },
+  { priority: "fast", label: "Fast" },
+];
+
+const FeePresetPicker = ({ estimates, selected, onSelect, className }: FeePresetPickerProps) => (
+  <div className={cn("grid grid-cols-3 gap-2", className)}>
+    {PRESETS.map(({ priority, label }) => {
+      const estimate = estimates[priority];
+      return (
+        <button
+          key={priority}
+          type="button"
+          onClick={() => onSelect(priority, estimate.fee)}
+          title={`${formatFeeRate(estimate.feeRate)}, targets ${estimate.targetBlocks} block${estimate.targetBlocks === 1 ? "" : "s"}`}
+          className={cn(
+            "rounded-lg border p-2 text-left transition-colors",
+            selected === priority ? "border-gold bg-gold/10" : "border-border hover:bg-muted"
+          )}
+        >
+          <div className="text-xs font-medium">{label}</div>
+          <div className="font-mono text-sm">{formatAmount(estimate.fee, { decimals: 4 })}</div>
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Clock className="w-3 h-3" />
+            ~{estimate.expectedBlocks} block{estimate.expectedBlocks === 1 ? "" : "s"}
+          </div>
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default FeePresetPicker;
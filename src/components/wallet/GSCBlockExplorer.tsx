@@ -20,6 +20,7 @@ import {
   Check
 } from "lucide-react";
 import { gscBlockchainService, GSCBlock, GSCTransaction } from "@/services/gscBlockchain";
+import { formatAmount } from "@/lib/blockchain";
 import { toast } from "@/hooks/use-toast";
 
 const GSCBlockExplorer = () => {
@@ -239,7 +240,7 @@ const GSCBlockExplorer = () => {
                           </div>
                           <div>
                             <Label className="text-xs text-muted-foreground">Reward</Label>
-                            <p className="font-semibold text-green-600">{block.reward} GSC</p>
+                            <p className="font-semibold text-green-600">{formatAmount(block.reward, { trim: true })} GSC</p>
                           </div>
                         </div>
 
@@ -254,7 +255,7 @@ const GSCBlockExplorer = () => {
                                     {getTransactionType(tx).toUpperCase()}
                                   </Badge>
                                   <span className="text-sm font-semibold text-green-600">
-                                    {tx.amount} GSC
+                                    {formatAmount(tx.amount, { trim: true })} GSC
                                   </span>
                                 </div>
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
@@ -268,7 +269,7 @@ const GSCBlockExplorer = () => {
                                   </div>
                                   <div>
                                     <span className="text-muted-foreground">Fee: </span>
-                                    <span>{tx.fee} GSC</span>
+                                    <span>{formatAmount(tx.fee, { trim: true })} GSC</span>
                                   </div>
                                   <div>
                                     <span className="text-muted-foreground">TX ID: </span>
@@ -303,7 +304,7 @@ const GSCBlockExplorer = () => {
                           <Badge variant="outline">Block #{block.index}</Badge>
                         </div>
                         <div className="text-lg font-semibold text-green-600">
-                          {tx.amount} GSC
+                          {formatAmount(tx.amount, { trim: true })} GSC
                         </div>
                       </div>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
@@ -317,7 +318,7 @@ const GSCBlockExplorer = () => {
                         </div>
                         <div>
                           <Label className="text-xs text-muted-foreground">Fee</Label>
-                          <p>{tx.fee} GSC</p>
+                          <p>{formatAmount(tx.fee, { trim: true })} GSC</p>
                         </div>
                         <div>
                           <Label className="text-xs text-muted-foreground">Time</Label>
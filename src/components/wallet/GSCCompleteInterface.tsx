@@ -21,6 +21,7 @@ import {
   BookOpen
 } from "lucide-react";
 import { gscBlockchainService, GSCWallet } from "@/services/gscBlockchain";
+import { MIN_TRANSACTION_FEE, formatAmount, parseAmount } from "@/lib/blockchain";
 import GSCMenuBar from "./GSCMenuBar";
 import GSCTestRunner from "./GSCTestRunner";
 import GSCSimpleTest from "./GSCSimpleTest";
@@ -38,7 +39,7 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
   const [recipientAddress, setRecipientAddress] = useState("");
   const [sendAmount, setSendAmount] = useState("");
   const [sendLabel, setSendLabel] = useState("");
-  const [sendFee, setSendFee] = useState("0.1");
+  const [sendFee, setSendFee] = useState(() => formatAmount(MIN_TRANSACTION_FEE, { trim: true }));
   
   // Receive form state
   const [receiveLabel, setReceiveLabel] = useState("");
@@ -110,7 +111,7 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
     setRecipientAddress("");
     setSendAmount("");
     setSendLabel("");
-    setSendFee("0.1");
+    setSendFee(formatAmount(MIN_TRANSACTION_FEE, { trim: true }));
   };
 
   const clearReceiveForm = () => {
@@ -139,10 +140,10 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
       return;
     }
 
-    const amount = parseFloat(sendAmount);
-    const fee = parseFloat(sendFee);
+    const amount = parseAmount(sendAmount);
+    const fee = parseAmount(sendFee);
 
-    if (isNaN(amount) || amount <= 0) {
+    if (amount === null || amount <= 0n) {
       toast({
         title: "Error",
         description: "Please enter a valid amount",
@@ -151,10 +152,10 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
       return;
     }
 
-    if (fee < 0.1) {
+    if (fee === null || fee < MIN_TRANSACTION_FEE) {
       toast({
         title: "Error",
-        description: "Minimum fee is 0.1 GSC",
+        description: `Minimum fee is ${formatAmount(MIN_TRANSACTION_FEE, { trim: true })} GSC`,
         variant: "destructive",
       });
       return;
@@ -211,7 +212,7 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
       address,
       private_key,
       public_key,
-      balance: 0,
+      balance: 0n,
       created: new Date().toISOString(),
       encrypted: false
     };
@@ -281,7 +282,7 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium">GSC Balance:</span>
                     <span className="text-3xl font-bold text-green-600">
-                      {getActiveWalletData()?.balance.toFixed(8)} GSC
+                      {formatAmount(getActiveWalletData()?.balance ?? 0n)} GSC
                     </span>
                   </div>
                 </CardContent>
@@ -296,7 +297,7 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-muted-foreground">Total Supply:</span>
                     <span className="text-sm font-bold text-green-700">
-                      {blockchainStats.totalSupply.toLocaleString()} GSC
+                      {formatAmount(blockchainStats.totalSupply, { decimals: 0, grouped: true })} GSC
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
@@ -351,7 +352,7 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
                       <Input
                         id="overview-fee"
                         type="number"
-                        step="0.1"
+                        step="0.0001"
                         value={sendFee}
                         onChange={(e) => setSendFee(e.target.value)}
                         className="bg-gray-50"
@@ -386,7 +387,7 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
                               {tx.sender === getActiveWalletData()?.address ? "Sent" : "Received"}
                             </span>
                             <span className="font-mono">
-                              {tx.sender === getActiveWalletData()?.address ? "-" : "+"}{tx.amount.toFixed(8)}
+                              {tx.sender === getActiveWalletData()?.address ? "-" : "+"}{formatAmount(tx.amount)}
                             </span>
                             <span className="font-mono text-xs truncate">
                               {tx.sender === getActiveWalletData()?.address ? tx.receiver : tx.sender}
@@ -548,15 +549,15 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
                   <Input
                     id="send-fee-main"
                     type="number"
-                    step="0.1"
-                    min="0.1"
+                    step="0.0001"
+                    min={formatAmount(MIN_TRANSACTION_FEE, { trim: true })}
                     value={sendFee}
                     onChange={(e) => setSendFee(e.target.value)}
                     className="flex-1"
                   />
                   <span className="text-sm font-medium">GSC</span>
                 </div>
-                <p className="text-xs text-muted-foreground">Minimum fee: 0.1 GSC</p>
+                <p className="text-xs text-muted-foreground">Minimum fee: {formatAmount(MIN_TRANSACTION_FEE, { trim: true })} GSC</p>
               </div>
 
               {/* Buttons */}
@@ -690,11 +691,11 @@ const GSCCompleteInterface = ({ activeWallet }: GSCCompleteInterfaceProps) => {
                 </div>
                 <div>
                   <p className="text-sm font-medium">Total Supply</p>
-                  <p className="text-lg font-semibold">{blockchainStats.totalSupply.toLocaleString()} GSC</p>
+                  <p className="text-lg font-semibold">{formatAmount(blockchainStats.totalSupply, { decimals: 0, grouped: true })} GSC</p>
                 </div>
                 <div>
                   <p className="text-sm font-medium">Circulating Supply</p>
-                  <p className="text-lg font-semibold">{blockchainStats.circulatingSupply.toFixed(2)} GSC</p>
+                  <p className="text-lg font-semibold">{formatAmount(blockchainStats.circulatingSupply, { decimals: 2 })} GSC</p>
                 </div>
               </div>
             </CardContent>
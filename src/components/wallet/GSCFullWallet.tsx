@@ -27,6 +27,7 @@ import {
   Check
 } from "lucide-react";
 import { gscBlockchainService, GSCWallet } from "@/services/gscBlockchain";
+import { formatAmount, parseAmount, stringifyWithAmounts } from "@/lib/blockchain";
 
 const GSCFullWallet = () => {
   const [wallets, setWallets] = useState<GSCWallet[]>([]);
@@ -112,7 +113,7 @@ const GSCFullWallet = () => {
       return;
     }
 
-    const success = gscBlockchainService.sendTransaction(wallet, sendAddress, parseFloat(sendAmount));
+    const success = gscBlockchainService.sendTransaction(wallet, sendAddress, parseAmount(sendAmount) ?? 0n);
     if (success) {
       setSendAddress("");
       setSendAmount("");
@@ -152,7 +153,7 @@ const GSCFullWallet = () => {
                 <p className="text-sm text-gray-400">Active Wallet</p>
                 <p className="text-white font-medium">{selectedWallet}</p>
                 <p className="text-xs text-yellow-400">
-                  Balance: {getActiveWallet()?.balance?.toFixed(8) || "0.00000000"} GSC
+                  Balance: {formatAmount(getActiveWallet()?.balance ?? 0n)} GSC
                 </p>
               </div>
             )}
@@ -187,7 +188,7 @@ const GSCFullWallet = () => {
                           {wallet.address.substring(0, 20)}...
                         </div>
                         <div className="text-xs text-yellow-400">
-                          {wallet.balance.toFixed(8)} GSC
+                          {formatAmount(wallet.balance)} GSC
                         </div>
                       </DropdownMenuItem>
                     ))}
@@ -257,7 +258,7 @@ const GSCFullWallet = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="text-3xl font-bold text-green-400">
-                      {getActiveWallet()?.balance.toFixed(8)} GSC
+                      {formatAmount(getActiveWallet()?.balance ?? 0n)} GSC
                     </div>
                   </CardContent>
                 </Card>
@@ -312,7 +313,7 @@ const GSCFullWallet = () => {
                               <div className="text-xs text-gray-400">{new Date(tx.timestamp * 1000).toLocaleString()}</div>
                             </div>
                             <div className={`font-mono ${tx.sender === getActiveWallet()?.address ? "text-red-400" : "text-green-400"}`}>
-                              {tx.sender === getActiveWallet()?.address ? "-" : "+"}{tx.amount.toFixed(8)} GSC
+                              {tx.sender === getActiveWallet()?.address ? "-" : "+"}{formatAmount(tx.amount)} GSC
                             </div>
                           </div>
                         ))}
@@ -400,7 +401,7 @@ const GSCFullWallet = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-300">Total Supply:</span>
-                      <span className="text-white">{blockchainStats.totalSupply.toLocaleString()} GSC</span>
+                      <span className="text-white">{formatAmount(blockchainStats.totalSupply, { decimals: 0, grouped: true })} GSC</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-300">Network Status:</span>
@@ -579,7 +580,7 @@ const GSCFullWallet = () => {
       return;
     }
 
-    const success = gscBlockchainService.sendTransaction(wallet, sendAddress, parseFloat(sendAmount));
+    const success = gscBlockchainService.sendTransaction(wallet, sendAddress, parseAmount(sendAmount) ?? 0n);
     if (success) {
       setSendAddress("");
       setSendAmount("");
@@ -620,7 +621,7 @@ const GSCFullWallet = () => {
                   <p className="text-sm text-gray-400">Active Wallet</p>
                   <p className="text-white font-medium">{selectedWallet}</p>
                   <p className="text-xs text-yellow-400">
-                    Balance: {getActiveWallet()?.balance?.toFixed(8) || "0.00000000"} GSC
+                    Balance: {formatAmount(getActiveWallet()?.balance ?? 0n)} GSC
                   </p>
                 </div>
               )}
@@ -655,7 +656,7 @@ const GSCFullWallet = () => {
                             {wallet.address.substring(0, 20)}...
                           </div>
                           <div className="text-xs text-yellow-400">
-                            {wallet.balance.toFixed(8)} GSC
+                            {formatAmount(wallet.balance)} GSC
                           </div>
                         </DropdownMenuItem>
                       ))}
@@ -756,7 +757,7 @@ const GSCFullWallet = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="text-3xl font-bold text-green-400">
-                      {getActiveWallet()?.balance.toFixed(8)} GSC
+                      {formatAmount(getActiveWallet()?.balance ?? 0n)} GSC
                     </div>
                   </CardContent>
                 </Card>
@@ -811,7 +812,7 @@ const GSCFullWallet = () => {
                               <div className="text-xs text-gray-400">{new Date(tx.timestamp * 1000).toLocaleString()}</div>
                             </div>
                             <div className={`font-mono ${tx.sender === getActiveWallet()?.address ? "text-red-400" : "text-green-400"}`}>
-                              {tx.sender === getActiveWallet()?.address ? "-" : "+"}{tx.amount.toFixed(8)} GSC
+                              {tx.sender === getActiveWallet()?.address ? "-" : "+"}{formatAmount(tx.amount)} GSC
                             </div>
                           </div>
                         ))}
@@ -899,7 +900,7 @@ const GSCFullWallet = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-300">Total Supply:</span>
-                      <span className="text-white">{blockchainStats.totalSupply.toLocaleString()} GSC</span>
+                      <span className="text-white">{formatAmount(blockchainStats.totalSupply, { decimals: 0, grouped: true })} GSC</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-300">Network Status:</span>
@@ -1100,7 +1101,7 @@ const GSCFullWallet = () => {
                     }
                   };
                   
-                  const dataStr = JSON.stringify(backupData, null, 2);
+                  const dataStr = stringifyWithAmounts(backupData, 2);
                   const dataBlob = new Blob([dataStr], { type: 'application/json' });
                   const url = URL.createObjectURL(dataBlob);
                   
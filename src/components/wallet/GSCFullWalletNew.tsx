@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -28,9 +29,17 @@ import {
   MoreVertical,
   Trash2,
   Edit,
-  RefreshCw
+  RefreshCw,
+  Clock
 } from "lucide-react";
-import { gscBlockchainService, GSCWallet } from "@/services/gscBlockchain";
+import { gscBlockchainService, GSCScheduledTransaction, GSCWallet } from "@/services/gscBlockchain";
+import { isLegacyAddress } from "@/lib/address";
+import { validateMnemonic } from "@/lib/mnemonic";
+import MnemonicInput from "@/components/wallet/MnemonicInput";
+import FeePresetPicker from "@/components/wallet/FeePresetPicker";
+import AtomicSwapWizard from "@/components/wallet/AtomicSwapWizard";
+import { MIN_TRANSACTION_FEE, describeLockTime, formatAmount, getLockTimeKind, parseAmount, stringifyWithAmounts } from "@/lib/blockchain";
+import type { Amount, FeeEstimates, FeePriority, LockTimeKind } from "@/lib/blockchain";
 
 const GSCFullWallet = () => {
   const [wallets, setWallets] = useState<GSCWallet[]>([]);
@@ -44,25 +53,39 @@ const GSCFullWallet = () => {
   const [conflictWalletName, setConflictWalletName] = useState("");
   const [newWalletName, setNewWalletName] = useState("");
   const [pendingRestoreFile, setPendingRestoreFile] = useState<File | null>(null);
+  const [restoreWalletName, setRestoreWalletName] = useState("");
+  const [restoreMnemonic, setRestoreMnemonic] = useState("");
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+  const [createHDWallet, setCreateHDWallet] = useState(true);
+  const [createdMnemonic, setCreatedMnemonic] = useState<string[]>([]);
   
   // Form states
   const [walletName, setWalletName] = useState("");
   const [sendAddress, setSendAddress] = useState("");
   const [sendAmount, setSendAmount] = useState("");
-  const [sendFee, setSendFee] = useState("0.1");
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimates>(() => gscBlockchainService.getFeeEstimates());
+  const [sendFee, setSendFee] = useState(() => formatAmount(feeEstimates.normal.fee, { trim: true }));
+  const [sendFeePriority, setSendFeePriority] = useState<FeePriority | null>("normal");
   const [isSendingTransaction, setIsSendingTransaction] = useState(false);
   const [isSendingYellowSend, setIsSendingYellowSend] = useState(false);
+  const [scheduleSend, setScheduleSend] = useState(false);
+  const [lockKind, setLockKind] = useState<LockTimeKind>("time");
+  const [lockValue, setLockValue] = useState("");
+  const [scheduledTransactions, setScheduledTransactions] = useState<GSCScheduledTransaction[]>([]);
   
   // Transaction history state
   const [transactionHistory, setTransactionHistory] = useState<Array<{
     transaction: any;
     type: 'sent' | 'received';
-    amount: number;
+    amount: Amount;
     counterparty: string;
     timestamp: number;
     date: string;
+    pending: boolean;
   }>>([]);
   const [selectedTransaction, setSelectedTransaction] = useState<any>(null);
+  const [replacementFee, setReplacementFee] = useState("");
+  const [isReplacing, setIsReplacing] = useState(false);
   const [showTransactionDetails, setShowTransactionDetails] = useState(false);
   
   // Transaction Explorer state
@@ -78,8 +101,25 @@ const GSCFullWallet = () => {
     loadTransactionHistory();
   }, [selectedWallet]);
 
+  // Broadcast scheduled payments once the next block can include them
+  const refreshAfterRelease = useRef<() => void>();
+  refreshAfterRelease.current = () => {
+    loadWallets();
+    loadTransactionHistory();
+  };
+  useEffect(() => {
+    const timer = setInterval(async () => {
+      if (await gscBlockchainService.releaseScheduledTransactions() > 0) {
+        refreshAfterRelease.current?.();
+      }
+      setScheduledTransactions(gscBlockchainService.getScheduledTransactions());
+    }, 15000);
+    return () => clearInterval(timer);
+  }, []);
+
   const loadWallets = () => {
     try {
+      setFeeEstimates(gscBlockchainService.getFeeEstimates());
       const loadedWallets = gscBlockchainService.getWallets();
       console.log("=== LOADING WALLETS ===");
       console.log("Loaded wallets from service:", loadedWallets);
@@ -98,15 +138,16 @@ const GSCFullWallet = () => {
           return wallet;
         }
         
-        const balance = gscBlockchainService.getWalletBalance(wallet.address);
-        console.log(`Wallet ${wallet.address}: balance ${balance} GSC`);
+        const balance = gscBlockchainService.getWalletTotalBalance(wallet);
+        console.log(`Wallet ${wallet.address}: balance ${formatAmount(balance)} GSC`);
         return {
           ...wallet,
-          balance: balance || 0
+          balance
         };
       });
       
       setWallets(walletsWithRealBalance);
+      setScheduledTransactions(gscBlockchainService.getScheduledTransactions());
       console.log("Wallets with real balance:", walletsWithRealBalance);
       
       // Set first wallet as selected if none selected, but prioritize GSC1705641e65321ef23ac5fb3d470f39627
@@ -141,9 +182,8 @@ const GSCFullWallet = () => {
       
       if (activeWallet) {
         const transactions = gscBlockchainService.getTransactionHistory(activeWallet.address);
-        setTransactionHistory(transactions);
         // Transform raw transactions into the expected format
-        const transformedHistory = Array.isArray(history) ? history.map(tx => {
+        const transformedHistory = Array.isArray(transactions) ? transactions.map(tx => {
           if (!tx || !tx.tx_id) {
             console.warn("Invalid transaction object:", tx);
             return null;
@@ -159,7 +199,8 @@ const GSCFullWallet = () => {
             amount: isSent ? -tx.amount : tx.amount,
             counterparty: counterparty,
             timestamp: tx.timestamp,
-            date: date
+            date: date,
+            pending: gscBlockchainService.isTransactionPending(tx.tx_id)
           };
         }).filter(item => item !== null) : [];
         
@@ -174,19 +215,19 @@ const GSCFullWallet = () => {
     }
   };
 
-  const reloadWalletAndBlockchain = () => {
+  const reloadWalletAndBlockchain = async () => {
     console.log("=== RELOADING WALLET AND BLOCKCHAIN ===");
     loadWallets();
     loadTransactionHistory();
     // Automatically refresh blockchain data
-    gscBlockchainService.refreshBlockchainData();
+    await gscBlockchainService.refreshBlockchainData();
     toast({
       title: "Wallet Reloaded",
       description: "Wallet and blockchain data refreshed successfully",
     });
   };
 
-  const handleCreateWallet = () => {
+  const handleCreateWallet = async () => {
     if (!walletName.trim()) {
       toast({
         title: "Error",
@@ -197,7 +238,16 @@ const GSCFullWallet = () => {
     }
 
     try {
-      const newWallet = gscBlockchainService.createWallet(walletName);
+      let newWallet: GSCWallet;
+      if (createHDWallet) {
+        // Keep the dialog open so the recovery phrase can be written down
+        const mnemonic = gscBlockchainService.generateMnemonic();
+        newWallet = await gscBlockchainService.createHDWallet(walletName, mnemonic);
+        setCreatedMnemonic(mnemonic);
+      } else {
+        newWallet = await gscBlockchainService.createWallet(walletName);
+        setShowCreateWallet(false);
+      }
       setWallets(prev => [...prev, newWallet]);
       setSelectedWallet(newWallet.name);
       
@@ -206,7 +256,6 @@ const GSCFullWallet = () => {
         description: `Successfully created wallet: ${walletName}`,
       });
       
-      setShowCreateWallet(false);
       setWalletName("");
     } catch (error) {
       toast({
@@ -238,11 +287,24 @@ const GSCFullWallet = () => {
     }
 
     // Validate minimum fee
-    const feeAmount = parseFloat(sendFee);
-    if (isNaN(feeAmount) || feeAmount < 0.1) {
+    const feeAmount = parseAmount(sendFee);
+    if (feeAmount === null || feeAmount < MIN_TRANSACTION_FEE) {
+      toast({
+        title: "Error",
+        description: `Minimum transaction fee is ${formatAmount(MIN_TRANSACTION_FEE, { trim: true })} GSC`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Block heights as entered, times as Unix seconds
+    const lockTime = lockKind === "height"
+      ? parseInt(lockValue, 10)
+      : Math.floor(new Date(lockValue).getTime() / 1000);
+    if (scheduleSend && (!Number.isSafeInteger(lockTime) || lockTime <= 0 || getLockTimeKind(lockTime) !== lockKind)) {
       toast({
         title: "Error",
-        description: "Minimum transaction fee is 0.1 GSC",
+        description: lockKind === "height" ? "Enter the block height to send at" : "Enter the date and time to send at",
         variant: "destructive",
       });
       return;
@@ -258,16 +320,21 @@ const GSCFullWallet = () => {
       console.log("Wallet address:", wallet.address);
       console.log("Wallet balance (UI):", wallet.balance);
       console.log("Send address:", sendAddress);
-      console.log("Send amount:", parseFloat(sendAmount));
+      console.log("Send amount:", sendAmount);
       
       // Get fresh balance from blockchain service
       const freshBalance = gscBlockchainService.getWalletBalance(wallet.address);
       console.log("Fresh balance from service:", freshBalance);
 
-      const success = await gscBlockchainService.sendTransaction(wallet, sendAddress, parseFloat(sendAmount));
+      const success = scheduleSend
+        ? await gscBlockchainService.scheduleTransaction(wallet, sendAddress, parseAmount(sendAmount) ?? 0n, lockTime, feeAmount)
+        : await gscBlockchainService.sendTransaction(wallet, sendAddress, parseAmount(sendAmount) ?? 0n, undefined, feeAmount);
       if (success) {
         setSendAddress("");
         setSendAmount("");
+        setLockValue("");
+        setSendFee(formatAmount(gscBlockchainService.getFeeEstimates().normal.fee, { trim: true }));
+        setSendFeePriority("normal");
         loadWallets();
         loadTransactionHistory(); // Refresh transaction history after sending
       }
@@ -287,7 +354,7 @@ const GSCFullWallet = () => {
   const copyAddress = () => {
     const wallet = getActiveWallet();
     if (wallet) {
-      navigator.clipboard.writeText(wallet.address);
+      navigator.clipboard.writeText(gscBlockchainService.getCurrentReceiveAddress(wallet));
       toast({
         title: "Address Copied",
         description: "Wallet address copied to clipboard",
@@ -297,9 +364,42 @@ const GSCFullWallet = () => {
 
   const handleTransactionClick = (historyItem: any) => {
     setSelectedTransaction(historyItem.transaction);
+    setReplacementFee(formatAmount(historyItem.transaction.fee * 2n, { decimals: 2 }));
     setShowTransactionDetails(true);
   };
 
+  // Replace-by-fee for a pending transaction sent from the active wallet
+  const handleReplaceTransaction = async (cancel: boolean) => {
+    const wallet = getActiveWallet();
+    if (!wallet || !selectedTransaction) return;
+
+    setIsReplacing(true);
+    try {
+      const success = await gscBlockchainService.replaceTransaction(
+        wallet,
+        selectedTransaction.tx_id,
+        parseAmount(replacementFee) ?? 0n,
+        cancel
+      );
+      if (success) {
+        setShowTransactionDetails(false);
+        loadWallets();
+        loadTransactionHistory();
+      }
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
+  const canReplaceSelected = () => {
+    const wallet = getActiveWallet();
+    if (!wallet || !selectedTransaction || !gscBlockchainService.isTransactionPending(selectedTransaction.tx_id)) {
+      return false;
+    }
+    return selectedTransaction.sender === wallet.address
+      || !!wallet.hd?.addresses.some(entry => entry.address === selectedTransaction.sender);
+  };
+
   const copyTransactionId = () => {
     if (selectedTransaction?.tx_id) {
       navigator.clipboard.writeText(selectedTransaction.tx_id);
@@ -377,7 +477,8 @@ const GSCFullWallet = () => {
           walletData.name, 
           walletData.address, // Use exact address from backup file
           walletData.private_key,
-          walletData.public_key
+          walletData.public_key,
+          walletData.hd
         );
         
         // Always update balance from blockchain data, ignore backup file balance
@@ -394,7 +495,7 @@ const GSCFullWallet = () => {
         
         toast({
           title: "Wallet Imported",
-          description: `Successfully imported wallet: ${importedWallet.name}. Balance: ${importedWallet.balance.toFixed(8)} GSC`,
+          description: `Successfully imported wallet: ${importedWallet.name}. Balance: ${formatAmount(importedWallet.balance)} GSC`,
         });
         
         setShowRestoreWallet(false);
@@ -409,6 +510,70 @@ const GSCFullWallet = () => {
     reader.readAsText(file);
   };
 
+  const handleRestoreFromMnemonic = async () => {
+    if (!restoreWalletName.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a wallet name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const validation = validateMnemonic(restoreMnemonic);
+    if (!validation.valid) {
+      toast({
+        title: "Invalid Recovery Phrase",
+        description: validation.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const words = restoreMnemonic.trim().split(/\s+/);
+      const wallet = await gscBlockchainService.restoreHDWallet(restoreWalletName.trim(), words, restorePassphrase);
+
+      loadWallets();
+      setSelectedWallet(wallet.name);
+      toast({
+        title: "Wallet Restored",
+        description: `Wallet "${wallet.name}" restored with ${wallet.hd?.addresses.length || 1} address(es)`,
+      });
+
+      setShowRestoreWallet(false);
+      setRestoreWalletName("");
+      setRestoreMnemonic("");
+      setRestorePassphrase("");
+    } catch (error) {
+      toast({
+        title: "Restore Failed",
+        description: `Failed to restore wallet: ${error}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleNewReceiveAddress = () => {
+    const wallet = getActiveWallet();
+    if (!wallet?.hd) return;
+
+    try {
+      const entry = gscBlockchainService.deriveNextAddress(wallet.name);
+      loadWallets();
+      toast({
+        title: "New Address",
+        description: `Derived ${entry.path}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleNameConflictResolve = () => {
     if (!pendingRestoreFile || !newWalletName.trim()) {
       toast({
@@ -447,7 +612,8 @@ const GSCFullWallet = () => {
           newWalletName, 
           walletData.address, // Use exact address from backup file
           walletData.private_key,
-          walletData.public_key
+          walletData.public_key,
+          walletData.hd
         );
         
         // Always update balance from blockchain data, ignore backup file balance
@@ -464,7 +630,7 @@ const GSCFullWallet = () => {
         
         toast({
           title: "Wallet Imported",
-          description: `Successfully imported wallet: ${importedWallet.name}. Balance: ${importedWallet.balance.toFixed(8)} GSC`,
+          description: `Successfully imported wallet: ${importedWallet.name}. Balance: ${formatAmount(importedWallet.balance)} GSC`,
         });
         
         setShowNameConflict(false);
@@ -493,10 +659,11 @@ const GSCFullWallet = () => {
       public_key: wallet.public_key,
       balance: wallet.balance,
       created: wallet.created,
-      encrypted: wallet.encrypted
+      encrypted: wallet.encrypted,
+      hd: wallet.hd
     };
 
-    const dataStr = JSON.stringify(walletBackup, null, 2);
+    const dataStr = stringifyWithAmounts(walletBackup, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
     
@@ -517,6 +684,9 @@ const GSCFullWallet = () => {
   };
 
   const blockchainStats = gscBlockchainService.getBlockchainStats();
+  const activeWallet = getActiveWallet();
+  const activeBalanceDetails = activeWallet ? gscBlockchainService.getWalletBalanceDetails(activeWallet) : null;
+  const activeScheduled = activeWallet ? scheduledTransactions.filter(entry => entry.wallet === activeWallet.name) : [];
 
   return (
     <div className="w-full max-w-7xl mx-auto p-3 sm:p-4 lg:p-6 space-y-4 sm:space-y-6">
@@ -535,7 +705,7 @@ const GSCFullWallet = () => {
                 <p className="text-sm text-gray-400">Active Wallet</p>
                 <p className="text-white font-medium truncate max-w-[200px]">{selectedWallet}</p>
                 <p className="text-xs text-yellow-400">
-                  Balance: {getActiveWallet()?.balance?.toFixed(8) || "0.00000000"} GSC
+                  Balance: {formatAmount(getActiveWallet()?.balance ?? 0n)} GSC
                 </p>
               </div>
             )}
@@ -583,9 +753,19 @@ const GSCFullWallet = () => {
                           </div>
                           <div className="text-xs text-gray-400 mt-1">
                             {wallet.address.substring(0, 20)}...
+                            {wallet.hd && (
+                              <Badge variant="outline" className="ml-2 px-1 py-0 text-[10px] border-yellow-500/50 text-yellow-400">
+                                HD · {wallet.hd.addresses.length} addresses
+                              </Badge>
+                            )}
+                            {isLegacyAddress(wallet.address) && (
+                              <Badge variant="outline" className="ml-2 px-1 py-0 text-[10px] border-gray-500 text-gray-400">
+                                Legacy
+                              </Badge>
+                            )}
                           </div>
                           <div className="text-xs text-yellow-400">
-                            {(wallet.balance || 0).toFixed(8)} GSC
+                            {formatAmount(wallet.balance)} GSC
                           </div>
                         </DropdownMenuItem>
                       );
@@ -628,7 +808,7 @@ const GSCFullWallet = () => {
                     await supabaseBlockchainService.importFromServer();
                     
                     // Refresh blockchain while preserving existing wallets
-                    gscBlockchainService.refreshBlockchainData();
+                    await gscBlockchainService.refreshBlockchainData();
                     
                     // Reload wallets and transaction history
                     loadWallets();
@@ -696,6 +876,7 @@ const GSCFullWallet = () => {
               <TabsTrigger value="overview" className="data-[state=active]:bg-gray-600 text-xs sm:text-sm px-3 py-2 whitespace-nowrap">Overview</TabsTrigger>
               <TabsTrigger value="send" className="data-[state=active]:bg-gray-600 text-xs sm:text-sm px-3 py-2 whitespace-nowrap">Send</TabsTrigger>
               <TabsTrigger value="receive" className="data-[state=active]:bg-gray-600 text-xs sm:text-sm px-3 py-2 whitespace-nowrap">Receive</TabsTrigger>
+              <TabsTrigger value="swaps" className="data-[state=active]:bg-gray-600 text-xs sm:text-sm px-3 py-2 whitespace-nowrap">Swaps</TabsTrigger>
               <TabsTrigger value="statistics" className="data-[state=active]:bg-gray-600 text-xs sm:text-sm px-3 py-2 whitespace-nowrap">Statistics</TabsTrigger>
               <TabsTrigger value="blockchain" className="data-[state=active]:bg-gray-600 text-xs sm:text-sm px-3 py-2 whitespace-nowrap">Blockchain</TabsTrigger>
               <TabsTrigger value="explorer" className="data-[state=active]:bg-gray-600 text-xs sm:text-sm px-3 py-2 whitespace-nowrap">TX Explorer</TabsTrigger>
@@ -712,8 +893,19 @@ const GSCFullWallet = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl sm:text-3xl font-bold text-green-400">
-                    {getActiveWallet()?.balance.toFixed(8)} GSC
+                    {formatAmount(getActiveWallet()?.balance ?? 0n)} GSC
                   </div>
+                  {activeBalanceDetails && (
+                    <div className="mt-2 space-y-1 text-xs text-gray-400">
+                      <div>Confirmed: {formatAmount(activeBalanceDetails.confirmed)} GSC</div>
+                      {activeBalanceDetails.pendingIncoming > 0n && (
+                        <div className="text-yellow-400">Pending incoming: +{formatAmount(activeBalanceDetails.pendingIncoming)} GSC</div>
+                      )}
+                      {activeBalanceDetails.pendingOutgoing > 0n && (
+                        <div className="text-yellow-400">Pending outgoing: -{formatAmount(activeBalanceDetails.pendingOutgoing)} GSC</div>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -783,6 +975,9 @@ const GSCFullWallet = () => {
                             <div className="flex-1">
                               <div className="text-white font-medium mb-1">
                                 {historyItem.type === 'sent' ? 'Sent' : 'Received'}
+                                {historyItem.pending && (
+                                  <span className="ml-2 text-xs text-yellow-400">Pending</span>
+                                )}
                               </div>
                               <div className="font-mono text-blue-400 text-sm break-all">
                                 {historyItem.transaction.tx_id}
@@ -793,7 +988,7 @@ const GSCFullWallet = () => {
                             </div>
                             <div className="text-right ml-4">
                               <div className={`font-medium ${historyItem.type === 'sent' ? 'text-red-400' : 'text-green-400'}`}>
-                                {historyItem.amount > 0 ? '+' : ''}{(historyItem.amount || 0).toFixed(8)} GSC
+                                {historyItem.amount > 0n ? '+' : ''}{formatAmount(historyItem.amount)} GSC
                               </div>
                               <div className="text-gray-400 text-sm">
                                 {new Date((historyItem.timestamp || Date.now() / 1000) * 1000).toLocaleDateString()}
@@ -840,17 +1035,71 @@ const GSCFullWallet = () => {
                     />
                   </div>
                   <div>
-                    <Label className="text-gray-300">Fee (Minimum 0.1 GSC):</Label>
+                    <Label className="text-gray-300">Fee (Minimum {formatAmount(MIN_TRANSACTION_FEE, { trim: true })} GSC):</Label>
                     <Input
                       type="number"
-                      step="0.1"
-                      min="0.1"
+                      step="0.0001"
+                      min={formatAmount(MIN_TRANSACTION_FEE, { trim: true })}
                       value={sendFee}
-                      onChange={(e) => setSendFee(e.target.value)}
+                      onChange={(e) => {
+                        setSendFee(e.target.value);
+                        setSendFeePriority(null);
+                      }}
                       className="bg-gray-700 border-gray-600 text-white"
-                      placeholder="0.1"
+                      placeholder={formatAmount(MIN_TRANSACTION_FEE, { trim: true })}
+                    />
+                    <FeePresetPicker
+                      estimates={feeEstimates}
+                      selected={sendFeePriority}
+                      onSelect={(priority, fee) => {
+                        setSendFeePriority(priority);
+                        setSendFee(formatAmount(fee, { trim: true }));
+                      }}
+                      className="mt-2 text-gray-300"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="schedule-send" className="text-gray-300">
+                        Schedule for later
+                      </Label>
+                      <Switch id="schedule-send" checked={scheduleSend} onCheckedChange={setScheduleSend} />
+                    </div>
+                    {scheduleSend && (
+                      <>
+                        <div className="flex gap-2">
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant={lockKind === "time" ? "default" : "outline"}
+                            onClick={() => { setLockKind("time"); setLockValue(""); }}
+                          >
+                            At time
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant={lockKind === "height" ? "default" : "outline"}
+                            onClick={() => { setLockKind("height"); setLockValue(""); }}
+                          >
+                            At block
+                          </Button>
+                          <Input
+                            type={lockKind === "time" ? "datetime-local" : "number"}
+                            min={lockKind === "height" ? blockchainStats.totalBlocks : undefined}
+                            value={lockValue}
+                            onChange={(e) => setLockValue(e.target.value)}
+                            placeholder={`Block ${blockchainStats.totalBlocks} or later`}
+                            className="bg-gray-700 border-gray-600 text-white flex-1"
+                          />
+                        </div>
+                        <p className="text-xs text-gray-400">
+                          Signed now and kept in this browser, then broadcast automatically once it can be mined.
+                          The next block is {blockchainStats.totalBlocks}.
+                        </p>
+                      </>
+                    )}
+                  </div>
                   <Button onClick={handleSendTransaction} className="w-full" disabled={isSendingYellowSend}>
                     {isSendingYellowSend ? (
                       <>
@@ -859,13 +1108,49 @@ const GSCFullWallet = () => {
                       </>
                     ) : (
                       <>
-                        <Send className="w-4 h-4 mr-2" />
-                        Send
+                        {scheduleSend ? <Clock className="w-4 h-4 mr-2" /> : <Send className="w-4 h-4 mr-2" />}
+                        {scheduleSend ? "Schedule" : "Send"}
                       </>
                     )}
                   </Button>
                 </CardContent>
               </Card>
+
+              {activeScheduled.length > 0 && (
+                <Card className="bg-gray-800 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className="text-white">Scheduled Payments</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {activeScheduled.map(entry => (
+                      <div key={entry.transaction.tx_id} className="flex items-center justify-between gap-2 p-3 bg-gray-700 rounded-lg">
+                        <div className="min-w-0">
+                          <div className="text-white text-sm">
+                            {formatAmount(entry.transaction.amount, { trim: true })} GSC to <span className="font-mono">{entry.transaction.receiver.substring(0, 20)}...</span>
+                          </div>
+                          <div className="text-xs text-gray-400 flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            {describeLockTime(entry.transaction.lock_time!)}
+                          </div>
+                          {entry.last_error && (
+                            <div className="text-xs text-red-400">Last attempt failed: {entry.last_error}</div>
+                          )}
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            gscBlockchainService.cancelScheduledTransaction(entry.transaction.tx_id);
+                            setScheduledTransactions(gscBlockchainService.getScheduledTransactions());
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
 
             {/* Receive Tab */}
@@ -877,15 +1162,63 @@ const GSCFullWallet = () => {
                 <CardContent className="space-y-4">
                   <div className="p-3 sm:p-4 bg-gray-700 rounded-lg">
                     <div className="font-mono text-xs sm:text-sm break-all text-white leading-relaxed">
-                      {getActiveWallet()?.address}
+                      {getActiveWallet() && gscBlockchainService.getCurrentReceiveAddress(getActiveWallet()!)}
                     </div>
                   </div>
-                  <Button onClick={copyAddress} className="w-full py-2 sm:py-3">
-                    <Copy className="w-4 h-4 mr-2" />
-                    Copy Address
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button onClick={copyAddress} className="flex-1 py-2 sm:py-3">
+                      <Copy className="w-4 h-4 mr-2" />
+                      Copy Address
+                    </Button>
+                    {getActiveWallet()?.hd && (
+                      <Button onClick={handleNewReceiveAddress} variant="outline" className="py-2 sm:py-3">
+                        <Plus className="w-4 h-4 mr-2" />
+                        New Address
+                      </Button>
+                    )}
+                  </div>
                 </CardContent>
               </Card>
+
+              {getActiveWallet()?.hd && (
+                <Card className="bg-gray-800 border-gray-700">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-white text-lg">Account Addresses</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ScrollArea className="h-[250px]">
+                      <div className="space-y-2">
+                        {getActiveWallet()!.hd!.addresses.map(entry => (
+                          <div key={entry.address} className="flex justify-between items-center p-2 bg-gray-700 rounded">
+                            <div className="min-w-0">
+                              <div className="font-mono text-xs text-white break-all">{entry.address}</div>
+                              <div className="text-xs text-gray-400">
+                                {entry.path} · {entry.chain === 0 ? "receive" : "change"}
+                              </div>
+                            </div>
+                            <div className="text-xs text-yellow-400 ml-4 whitespace-nowrap">
+                              {formatAmount(gscBlockchainService.getWalletBalance(entry.address))} GSC
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Swaps Tab */}
+            <TabsContent value="swaps" className="space-y-6">
+              {activeWallet && (
+                <AtomicSwapWizard
+                  key={activeWallet.name}
+                  wallet={activeWallet}
+                  feeEstimates={feeEstimates}
+                  nextBlock={blockchainStats.totalBlocks}
+                  onChange={loadWallets}
+                />
+              )}
             </TabsContent>
 
             {/* Statistics Tab */}
@@ -902,7 +1235,11 @@ const GSCFullWallet = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-300">Total Supply:</span>
-                      <span className="text-white">{blockchainStats.totalSupply.toLocaleString()} GSC</span>
+                      <span className="text-white">{formatAmount(blockchainStats.totalSupply, { decimals: 0, grouped: true })} GSC</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Issued Supply:</span>
+                      <span className="text-white">{formatAmount(blockchainStats.issuedSupply, { trim: true, grouped: true })} GSC</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-300">Network Status:</span>
@@ -910,6 +1247,41 @@ const GSCFullWallet = () => {
                     </div>
                   </CardContent>
                 </Card>
+
+                <Card className="bg-gray-800 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className="text-white">Emission Schedule</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Block Subsidy:</span>
+                      <span className="text-white">{formatAmount(blockchainStats.blockSubsidy, { trim: true })} GSC</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-300">Next Halving:</span>
+                      <span className="text-white">
+                        #{blockchainStats.nextHalving.toLocaleString()} (in {(blockchainStats.nextHalving - blockchainStats.totalBlocks).toLocaleString()} blocks)
+                      </span>
+                    </div>
+                    <div className="space-y-1 text-sm">
+                      <div className="grid grid-cols-3 text-gray-400">
+                        <span>Height</span>
+                        <span className="text-right">Subsidy</span>
+                        <span className="text-right">Supply</span>
+                      </div>
+                      {blockchainStats.emissionSchedule.map((point) => (
+                        <div key={point.height} className="grid grid-cols-3">
+                          <span className="text-white">
+                            #{point.height.toLocaleString()}
+                            {!point.projected && <Badge className="ml-2 bg-blue-600">Tip</Badge>}
+                          </span>
+                          <span className="text-right text-white">{formatAmount(point.subsidy, { trim: true })}</span>
+                          <span className="text-right text-white">{formatAmount(point.supply, { trim: true, grouped: true })}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
               </div>
             </TabsContent>
 
@@ -1013,13 +1385,13 @@ const GSCFullWallet = () => {
                               <div className="p-3 bg-gray-600 rounded">
                                 <Label className="text-gray-300 text-sm">Amount:</Label>
                                 <div className="text-white font-medium mt-1">
-                                  {searchResult.amount?.toFixed(8)} GSC
+                                  {formatAmount(searchResult.amount)} GSC
                                 </div>
                               </div>
                               <div className="p-3 bg-gray-600 rounded">
                                 <Label className="text-gray-300 text-sm">Fee:</Label>
                                 <div className="text-white font-medium mt-1">
-                                  {searchResult.fee?.toFixed(8)} GSC
+                                  {formatAmount(searchResult.fee)} GSC
                                 </div>
                               </div>
                             </div>
@@ -1099,26 +1471,62 @@ const GSCFullWallet = () => {
         </div>
       )}
       {/* Create Wallet Dialog */}
-      <Dialog open={showCreateWallet} onOpenChange={setShowCreateWallet}>
+      <Dialog
+        open={showCreateWallet}
+        onOpenChange={(open) => {
+          setShowCreateWallet(open);
+          if (!open) setCreatedMnemonic([]);
+        }}
+      >
         <DialogContent className="bg-gray-800 border-gray-700">
           <DialogHeader>
             <DialogTitle className="text-white">Create New Wallet</DialogTitle>
           </DialogHeader>
-          <div className="space-y-4">
-            <div>
-              <Label className="text-gray-300">Wallet Name:</Label>
-              <Input
-                value={walletName}
-                onChange={(e) => setWalletName(e.target.value)}
-                placeholder="Enter wallet name..."
-                className="bg-gray-700 border-gray-600 text-white"
-              />
+          {createdMnemonic.length > 0 ? (
+            <div className="space-y-4">
+              <div className="text-sm text-yellow-400">
+                Write down this recovery phrase. It restores every address of this wallet.
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {createdMnemonic.map((word, index) => (
+                  <div key={index} className="p-2 bg-gray-700 rounded font-mono text-sm text-white">
+                    {index + 1}. {word}
+                  </div>
+                ))}
+              </div>
+              <Button
+                onClick={() => {
+                  setCreatedMnemonic([]);
+                  setShowCreateWallet(false);
+                }}
+                className="w-full"
+              >
+                I have written it down
+              </Button>
             </div>
-            <div className="flex gap-2">
-              <Button onClick={handleCreateWallet} className="flex-1">Create Wallet</Button>
-              <Button variant="outline" onClick={() => setShowCreateWallet(false)}>Cancel</Button>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <Label className="text-gray-300">Wallet Name:</Label>
+                <Input
+                  value={walletName}
+                  onChange={(e) => setWalletName(e.target.value)}
+                  placeholder="Enter wallet name..."
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="create-hd-wallet" className="text-gray-300">
+                  HD wallet (one recovery phrase, many addresses)
+                </Label>
+                <Switch id="create-hd-wallet" checked={createHDWallet} onCheckedChange={setCreateHDWallet} />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleCreateWallet} className="flex-1">Create Wallet</Button>
+                <Button variant="outline" onClick={() => setShowCreateWallet(false)}>Cancel</Button>
+              </div>
             </div>
-          </div>
+          )}
         </DialogContent>
       </Dialog>
 
@@ -1141,6 +1549,31 @@ const GSCFullWallet = () => {
             <div className="text-sm text-gray-400">
               Select a wallet backup file (.json or .backup) to import your wallet.
             </div>
+            <div className="border-t border-gray-700 pt-4 space-y-3">
+              <Label className="text-gray-300">Or restore from recovery phrase:</Label>
+              <Input
+                value={restoreWalletName}
+                onChange={(e) => setRestoreWalletName(e.target.value)}
+                placeholder="Wallet name..."
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+              <MnemonicInput
+                value={restoreMnemonic}
+                onChange={setRestoreMnemonic}
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+              <Input
+                type="password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+                placeholder="Passphrase (optional)"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+              <Button onClick={handleRestoreFromMnemonic} className="w-full">
+                <Key className="w-4 h-4 mr-2" />
+                Restore from Recovery Phrase
+              </Button>
+            </div>
             <div className="flex gap-2">
               <Button variant="outline" onClick={() => setShowRestoreWallet(false)} className="flex-1">Cancel</Button>
             </div>
@@ -1207,7 +1640,7 @@ const GSCFullWallet = () => {
           </DialogHeader>
           <div className="space-y-4">
             <div className="text-gray-300">
-              Private key for wallet "{selectedWallet}":
+              {getActiveWallet()?.hd ? "Account extended private key" : "Private key"} for wallet "{selectedWallet}":
             </div>
             <div className="p-4 bg-gray-700 rounded font-mono text-sm break-all text-white">
               {getActiveWallet()?.private_key || "No private key available"}
@@ -1337,13 +1770,13 @@ IMPORTANT: Keep this paper wallet secure and private!
                   <div className="p-4 bg-gray-700 rounded">
                     <Label className="text-gray-300 text-sm">Amount:</Label>
                     <div className="text-white font-medium mt-1">
-                      {selectedTransaction.amount?.toFixed(8)} GSC
+                      {formatAmount(selectedTransaction.amount)} GSC
                     </div>
                   </div>
                   <div className="p-4 bg-gray-700 rounded">
                     <Label className="text-gray-300 text-sm">Fee:</Label>
                     <div className="text-white font-medium mt-1">
-                      {selectedTransaction.fee?.toFixed(8)} GSC
+                      {formatAmount(selectedTransaction.fee)} GSC
                     </div>
                   </div>
                 </div>
@@ -1364,6 +1797,39 @@ IMPORTANT: Keep this paper wallet secure and private!
                 </div>
               </div>
               
+              {canReplaceSelected() && (
+                <div className="p-4 bg-gray-700 rounded space-y-3">
+                  <Label className="text-gray-300 text-sm">Stuck? Replace it with a higher fee (GSC):</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    value={replacementFee}
+                    onChange={(e) => setReplacementFee(e.target.value)}
+                    className="bg-gray-600 border-gray-500 text-white"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => handleReplaceTransaction(false)}
+                      disabled={isReplacing}
+                      className="flex-1 bg-yellow-600 hover:bg-yellow-700"
+                    >
+                      Bump fee
+                    </Button>
+                    <Button
+                      onClick={() => handleReplaceTransaction(true)}
+                      disabled={isReplacing}
+                      variant="destructive"
+                      className="flex-1"
+                    >
+                      Cancel transaction
+                    </Button>
+                  </div>
+                  <p className="text-gray-400 text-xs">
+                    Cancelling sends the amount back to you; only the new fee is spent if the replacement is mined first.
+                  </p>
+                </div>
+              )}
+              
               <div className="flex gap-2 pt-4">
                 <Button onClick={() => setShowTransactionDetails(false)} className="flex-1">
                   Close
@@ -29,6 +29,7 @@ import {
   LogOut
 } from "lucide-react";
 import { gscBlockchainService } from "@/services/gscBlockchain";
+import { stringifyWithAmounts } from "@/lib/blockchain";
 
 interface GSCMenuBarProps {
   onCreateWallet: (wallet: any) => void;
@@ -179,7 +180,7 @@ const GSCMenuBar = ({
         }
       };
 
-      const dataStr = JSON.stringify(backupData, null, 2);
+      const dataStr = stringifyWithAmounts(backupData, 2);
       const dataBlob = new Blob([dataStr], { type: 'application/json' });
       const url = URL.createObjectURL(dataBlob);
       
@@ -9,6 +9,9 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "@/hooks/use-toast";
 import { Send, Download, Copy, Check, QrCode, Wallet } from "lucide-react";
 import { gscBlockchainService, GSCWallet } from "@/services/gscBlockchain";
+import { validateAddress } from "@/lib/address";
+import { formatAmount, parseAmount, type FeePriority } from "@/lib/blockchain";
+import FeePresetPicker from "@/components/wallet/FeePresetPicker";
 
 interface GSCSendReceiveProps {
   activeWallet: GSCWallet | null;
@@ -18,6 +21,9 @@ interface GSCSendReceiveProps {
 const GSCSendReceive = ({ activeWallet, onTransactionComplete }: GSCSendReceiveProps) => {
   const [recipientAddress, setRecipientAddress] = useState("");
   const [sendAmount, setSendAmount] = useState("");
+  const [feeEstimates, setFeeEstimates] = useState(() => gscBlockchainService.getFeeEstimates());
+  const [feePriority, setFeePriority] = useState<FeePriority>("normal");
+  const fee = feeEstimates[feePriority].fee;
   const [isLoading, setIsLoading] = useState(false);
   const [copiedAddress, setCopiedAddress] = useState(false);
   const [showReceiveDialog, setShowReceiveDialog] = useState(false);
@@ -41,8 +47,8 @@ const GSCSendReceive = ({ activeWallet, onTransactionComplete }: GSCSendReceiveP
       return;
     }
 
-    const amount = parseFloat(sendAmount);
-    if (isNaN(amount) || amount <= 0) {
+    const amount = parseAmount(sendAmount);
+    if (amount === null || amount <= 0n) {
       toast({
         title: "Error",
         description: "Please enter a valid amount",
@@ -51,20 +57,20 @@ const GSCSendReceive = ({ activeWallet, onTransactionComplete }: GSCSendReceiveP
       return;
     }
 
-    if (!recipientAddress.startsWith("GSC1")) {
+    const addressCheck = validateAddress(recipientAddress.trim());
+    if (!addressCheck.valid) {
       toast({
         title: "Error",
-        description: "Invalid GSC address format",
+        description: addressCheck.error || "Invalid GSC address format",
         variant: "destructive",
       });
       return;
     }
 
-    const fee = 0.1; // Minimum fee
     if (activeWallet.balance < amount + fee) {
       toast({
         title: "Insufficient Balance",
-        description: `You need ${(amount + fee).toFixed(8)} GSC (including 0.1 GSC fee)`,
+        description: `You need ${formatAmount(amount + fee)} GSC (including ${formatAmount(fee, { trim: true })} GSC fee)`,
         variant: "destructive",
       });
       return;
@@ -73,16 +79,19 @@ const GSCSendReceive = ({ activeWallet, onTransactionComplete }: GSCSendReceiveP
     setIsLoading(true);
     
     try {
-      const success = gscBlockchainService.sendTransaction(activeWallet, recipientAddress, amount);
+      const success = await gscBlockchainService.sendTransaction(activeWallet, recipientAddress, amount, undefined, fee);
       
       if (success) {
+        const estimates = gscBlockchainService.getFeeEstimates();
         setRecipientAddress("");
         setSendAmount("");
+        setFeeEstimates(estimates);
+        setFeePriority("normal");
         onTransactionComplete();
         
         toast({
           title: "Transaction Sent",
-          description: `Successfully sent ${amount} GSC and broadcast to network`,
+          description: `Successfully sent ${formatAmount(amount, { trim: true })} GSC and broadcast to network`,
         });
       }
     } catch (error) {
@@ -145,16 +154,13 @@ const GSCSendReceive = ({ activeWallet, onTransactionComplete }: GSCSendReceiveP
                   <Label>Available Balance</Label>
                   <div className="p-3 bg-muted rounded-lg">
                     <p className="text-2xl font-bold text-green-600">
-                      {activeWallet.balance.toFixed(8)} GSC
+                      {formatAmount(activeWallet.balance)} GSC
                     </p>
                   </div>
                 </div>
                 <div className="space-y-2">
                   <Label>Transaction Fee</Label>
-                  <div className="p-3 bg-muted rounded-lg">
-                    <p className="text-lg font-semibold">0.1 GSC</p>
-                    <p className="text-xs text-muted-foreground">Minimum required fee</p>
-                  </div>
+                  <FeePresetPicker estimates={feeEstimates} selected={feePriority} onSelect={setFeePriority} />
                 </div>
               </div>
 
@@ -194,11 +200,11 @@ const GSCSendReceive = ({ activeWallet, onTransactionComplete }: GSCSendReceiveP
                     </div>
                     <div className="flex justify-between">
                       <span>Fee:</span>
-                      <span>0.1 GSC</span>
+                      <span>{formatAmount(fee, { trim: true })} GSC</span>
                     </div>
                     <div className="flex justify-between font-semibold border-t pt-1">
                       <span>Total:</span>
-                      <span>{(parseFloat(sendAmount || "0") + 0.1).toFixed(8)} GSC</span>
+                      <span>{formatAmount((parseAmount(sendAmount) ?? 0n) + fee)} GSC</span>
                     </div>
                   </div>
                 </div>
@@ -310,7 +316,7 @@ const GSCSendReceive = ({ activeWallet, onTransactionComplete }: GSCSendReceiveP
               <div className="text-center p-4 bg-muted rounded-lg">
                 <Label className="text-sm text-muted-foreground">Current Balance</Label>
                 <p className="text-3xl font-bold text-green-600 mt-1">
-                  {activeWallet.balance.toFixed(8)} GSC
+                  {formatAmount(activeWallet.balance)} GSC
                 </p>
               </div>
             </CardContent>
@@ -14,6 +14,8 @@ import {
   RefreshCw
 } from "lucide-react";
 import { GSCWalletTester } from "@/tests/gscWalletTests";
+import { runEncodingTests } from "@/tests/encoding.test";
+import { runLegacyTests } from "@/tests/legacy.test";
 
 interface TestResult {
   name: string;
@@ -21,6 +23,13 @@ interface TestResult {
   error?: string;
 }
 
+// Suites of the blockchain core, run after the wallet tests. Each reports
+// pass or fail as a whole; the console names the test that failed.
+const CORE_SUITES: { name: string; run: () => Promise<boolean> }[] = [
+  { name: 'Binary Encoding Suite', run: runEncodingTests },
+  { name: 'Legacy Addresses & Pre-Series Chains Suite', run: runLegacyTests },
+];
+
 const GSCTestRunner = () => {
   const [isRunning, setIsRunning] = useState(false);
   const [results, setResults] = useState<TestResult[]>([]);
@@ -42,13 +51,21 @@ const GSCTestRunner = () => {
       }, 200);
 
       await tester.runAllTests();
+      const suiteResults: TestResult[] = [];
+      for (const suite of CORE_SUITES) {
+        const passed = await suite.run();
+        suiteResults.push({ name: suite.name, passed, error: passed ? undefined : 'A test failed; see the console for which one' });
+      }
       
       clearInterval(progressInterval);
       setProgress(100);
       
       const testResults = tester.getResults();
-      setResults(testResults.results);
-      setSummary({ passed: testResults.passed, total: testResults.total });
+      setResults([...testResults.results, ...suiteResults]);
+      setSummary({
+        passed: testResults.passed + suiteResults.filter(result => result.passed).length,
+        total: testResults.total + suiteResults.length,
+      });
       
     } catch (error) {
       console.error('Test execution failed:', error);
@@ -206,8 +223,9 @@ const GSCTestRunner = () => {
                   <ul className="text-sm text-muted-foreground space-y-1">
                     <li>• GSC Exe Format Support</li>
                     <li>• Address Format Validation</li>
-                    <li>• Fee Structure (0.1 GSC min)</li>
+                    <li>• Fee Structure (minimum fee rate)</li>
                     <li>• Balance Refresh System</li>
+                    <li>• Binary Encoding & Legacy Claims</li>
                   </ul>
                 </div>
                 <div className="space-y-2">
@@ -9,6 +9,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "@/hooks/use-toast";
 import { Send, History, ArrowUpRight, ArrowDownLeft, Clock, CheckCircle } from "lucide-react";
 import { gscBlockchainService, GSCWallet, GSCTransaction } from "@/services/gscBlockchain";
+import { MIN_TRANSACTION_FEE, formatAmount, parseAmount } from "@/lib/blockchain";
 
 interface GSCTransactionManagerProps {
   activeWallet: GSCWallet | null;
@@ -53,8 +54,8 @@ const GSCTransactionManager = ({ activeWallet, onBalanceUpdate }: GSCTransaction
       return;
     }
 
-    const amount = parseFloat(sendAmount);
-    if (isNaN(amount) || amount <= 0) {
+    const amount = parseAmount(sendAmount);
+    if (amount === null || amount <= 0n) {
       toast({
         title: "Error",
         description: "Please enter a valid amount",
@@ -85,7 +86,7 @@ const GSCTransactionManager = ({ activeWallet, onBalanceUpdate }: GSCTransaction
         
         toast({
           title: "Transaction Sent",
-          description: `Successfully sent ${amount} GSC and broadcast to network`,
+          description: `Successfully sent ${formatAmount(amount, { trim: true })} GSC and broadcast to network`,
         });
       }
     } catch (error) {
@@ -151,14 +152,14 @@ const GSCTransactionManager = ({ activeWallet, onBalanceUpdate }: GSCTransaction
                   <Label htmlFor="balance">Available Balance</Label>
                   <div className="p-3 bg-muted rounded-lg">
                     <p className="text-2xl font-bold text-green-600">
-                      {activeWallet.balance.toFixed(8)} GSC
+                      {formatAmount(activeWallet.balance)} GSC
                     </p>
                   </div>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="fee">Transaction Fee</Label>
                   <div className="p-3 bg-muted rounded-lg">
-                    <p className="text-lg font-semibold">0.1 GSC</p>
+                    <p className="text-lg font-semibold">{formatAmount(MIN_TRANSACTION_FEE, { trim: true })} GSC</p>
                   </div>
                 </div>
               </div>
@@ -196,11 +197,11 @@ const GSCTransactionManager = ({ activeWallet, onBalanceUpdate }: GSCTransaction
                   </div>
                   <div className="flex justify-between">
                     <span>Fee:</span>
-                    <span>0.1 GSC</span>
+                    <span>{formatAmount(MIN_TRANSACTION_FEE, { trim: true })} GSC</span>
                   </div>
                   <div className="flex justify-between font-semibold border-t pt-1">
                     <span>Total:</span>
-                    <span>{(parseFloat(sendAmount || "0") + 0.1).toFixed(8)} GSC</span>
+                    <span>{formatAmount((parseAmount(sendAmount) ?? 0n) + MIN_TRANSACTION_FEE)} GSC</span>
                   </div>
                 </div>
               </div>
@@ -257,7 +258,7 @@ const GSCTransactionManager = ({ activeWallet, onBalanceUpdate }: GSCTransaction
                                   {type.toUpperCase()}
                                 </Badge>
                                 <span className="font-semibold">
-                                  {type === "sent" ? "-" : "+"}{tx.amount.toFixed(8)} GSC
+                                  {type === "sent" ? "-" : "+"}{formatAmount(tx.amount)} GSC
                                 </span>
                               </div>
                               <div className="text-sm text-muted-foreground">
@@ -278,7 +279,7 @@ const GSCTransactionManager = ({ activeWallet, onBalanceUpdate }: GSCTransaction
                             </div>
                             {tx.fee > 0 && (
                               <div className="text-xs text-muted-foreground">
-                                Fee: {tx.fee} GSC
+                                Fee: {formatAmount(tx.fee, { trim: true })} GSC
                               </div>
                             )}
                           </div>
@@ -9,7 +9,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/hooks/use-toast";
 import { Wallet, Plus, Upload, Download, Key, Eye, EyeOff, Copy, Check, Shield, AlertTriangle, QrCode } from "lucide-react";
 import { gscBlockchainService, GSCWallet } from "@/services/gscBlockchain";
+import { formatAmount } from "@/lib/blockchain";
+import { isLegacyAddress } from "@/lib/address";
 import QRCode from "@/components/ui/qr-code";
+import MnemonicInput from "@/components/wallet/MnemonicInput";
+import MultisigDialog from "@/components/wallet/MultisigDialog";
+import { validateMnemonic } from "@/lib/mnemonic";
 
 interface GSCWalletManagerProps {
   activeWallet: string | null;
@@ -32,6 +37,7 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [mnemonicImport, setMnemonicImport] = useState("");
+  const [mnemonicPassphrase, setMnemonicPassphrase] = useState("");
   const [showQRCode, setShowQRCode] = useState(false);
 
   useEffect(() => {
@@ -87,10 +93,11 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
       const generatedMnemonic = gscBlockchainService.generateMnemonic();
       setMnemonic(generatedMnemonic);
       
-      // Create wallet with enhanced security
+      // Create wallet with its key derived from the mnemonic
       const wallet = await gscBlockchainService.createWallet(
         newWalletName.trim(), 
-        newWalletPassphrase.trim() || undefined
+        newWalletPassphrase.trim() || undefined,
+        generatedMnemonic
       );
       
       setCreatedWallet(wallet);
@@ -146,7 +153,7 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
       
       toast({
         title: "Wallet Imported Successfully",
-        description: `Wallet "${wallet.name}" imported with balance: ${wallet.balance.toFixed(8)} GSC`,
+        description: `Wallet "${wallet.name}" imported with balance: ${formatAmount(wallet.balance)} GSC`,
       });
     } catch (error) {
       toast({
@@ -189,13 +196,14 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
     }
 
     try {
-      const mnemonicWords = mnemonicImport.trim().split(/\s+/);
-      if (mnemonicWords.length !== 12) {
-        throw new Error("Mnemonic must be exactly 12 words");
+      const validation = validateMnemonic(mnemonicImport);
+      if (!validation.valid) {
+        throw new Error(validation.error);
       }
 
-      // Generate address from mnemonic
-      const { address, privateKey } = await gscBlockchainService.generateAddressFromMnemonic(mnemonicWords);
+      // Derive the key from the BIP39 seed (mnemonic + optional passphrase)
+      const mnemonicWords = mnemonicImport.trim().split(/\s+/);
+      const { privateKey } = await gscBlockchainService.generateAddressFromMnemonic(mnemonicWords, mnemonicPassphrase);
       
       // Import the wallet
       const wallet = await gscBlockchainService.importWallet(importWalletName.trim(), privateKey);
@@ -205,6 +213,7 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
       setIsImportDialogOpen(false);
       setImportWalletName("");
       setMnemonicImport("");
+      setMnemonicPassphrase("");
       
       toast({
         title: "Wallet Restored Successfully",
@@ -275,6 +284,11 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
     });
   };
 
+  // Legacy funds move in two steps: commit, then claim once the commitment is mined
+  const handleClaimLegacyWallet = async (wallet: GSCWallet) => {
+    if (await gscBlockchainService.claimLegacyWallet(wallet)) loadWallets();
+  };
+
   const handleExportWalletBackup = (walletName: string) => {
     try {
       const backupData = gscBlockchainService.exportWalletBackup(walletName);
@@ -327,7 +341,7 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
                     <span className="font-medium">{wallet.name}</span>
                     <span className="text-xs text-muted-foreground">
                       {wallet.address.substring(0, 20)}... 
-                      ({wallet.balance.toFixed(4)} GSC)
+                      ({formatAmount(wallet.balance, { decimals: 4 })} GSC)
                     </span>
                   </div>
                 </SelectItem>
@@ -451,7 +465,7 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
                       
                       <div>
                         <Label className="text-sm font-semibold text-gray-800">Starting Balance:</Label>
-                        <p className="text-sm font-semibold text-gray-800 mt-1">{createdWallet.balance.toFixed(8)} GSC</p>
+                        <p className="text-sm font-semibold text-gray-800 mt-1">{formatAmount(createdWallet.balance)} GSC</p>
                       </div>
                     </div>
                   </div>
@@ -589,16 +603,22 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
                     />
                   </div>
                   <div>
-                    <Label htmlFor="mnemonic-phrase">12-Word Recovery Phrase</Label>
-                    <Input
+                    <Label htmlFor="mnemonic-phrase">Recovery Phrase</Label>
+                    <MnemonicInput
                       id="mnemonic-phrase"
                       value={mnemonicImport}
-                      onChange={(e) => setMnemonicImport(e.target.value)}
-                      placeholder="Enter your 12-word recovery phrase separated by spaces"
+                      onChange={setMnemonicImport}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="mnemonic-passphrase">Passphrase (optional)</Label>
+                    <Input
+                      id="mnemonic-passphrase"
+                      type="password"
+                      value={mnemonicPassphrase}
+                      onChange={(e) => setMnemonicPassphrase(e.target.value)}
+                      placeholder="Only if the phrase was created with one"
                     />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Enter all 12 words separated by spaces
-                    </p>
                   </div>
                   <Button onClick={handleImportFromMnemonic} className="w-full">
                     <Key className="w-4 h-4 mr-2" />
@@ -644,6 +664,14 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
             </DialogContent>
           </Dialog>
 
+          <MultisigDialog
+            wallets={wallets}
+            onWalletsChange={(addedWallet) => {
+              loadWallets();
+              if (addedWallet) onWalletChange(addedWallet);
+            }}
+          />
+
           <Button variant="outline" size="sm" onClick={handleExportBlockchain}>
             <Download className="w-4 h-4 mr-2" />
             Export
@@ -659,14 +687,18 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
               <Wallet className="w-5 h-5" />
               {getActiveWalletData()?.name}
             </CardTitle>
-            <CardDescription>GSC Blockchain Wallet</CardDescription>
+            <CardDescription>
+              {getActiveWalletData()?.multisig
+                ? `${getActiveWalletData()?.multisig?.m}-of-${getActiveWalletData()?.multisig?.public_keys.length} Multisig Wallet`
+                : "GSC Blockchain Wallet"}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <Label className="text-sm font-medium">Balance</Label>
                 <p className="text-2xl font-bold text-green-600">
-                  {getActiveWalletData()?.balance.toFixed(8)} GSC
+                  {formatAmount(getActiveWalletData()?.balance ?? 0n)} GSC
                 </p>
               </div>
               <div>
@@ -676,6 +708,23 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
                 </p>
               </div>
             </div>
+            {getActiveWalletData()?.multisig && (
+              <div>
+                <Label className="text-sm font-medium">Descriptor</Label>
+                <div className="flex items-start gap-2">
+                  <p className="font-mono text-xs break-all flex-1">
+                    {gscBlockchainService.getMultisigDescriptor(getActiveWalletData()!)}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copyToClipboard(gscBlockchainService.getMultisigDescriptor(getActiveWalletData()!), 'Descriptor')}
+                  >
+                    {copiedField === 'Descriptor' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  </Button>
+                </div>
+              </div>
+            )}
             <div>
               <Label className="text-sm font-medium">Created</Label>
               <p className="text-sm text-muted-foreground">
@@ -691,6 +740,16 @@ const GSCWalletManager = ({ activeWallet, onWalletChange }: GSCWalletManagerProp
                 <Download className="w-4 h-4 mr-2" />
                 Export Backup
               </Button>
+              {isLegacyAddress(getActiveWalletData()?.address ?? "") && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleClaimLegacyWallet(getActiveWalletData()!)}
+                >
+                  <Key className="w-4 h-4 mr-2" />
+                  {gscBlockchainService.getLegacyClaimState(getActiveWalletData()!) === "unclaimed" ? "Commit Legacy Claim" : "Claim Legacy Funds"}
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
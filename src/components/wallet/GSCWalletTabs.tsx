@@ -11,6 +11,7 @@ import GSCBlockExplorer from "./GSCBlockExplorer";
 import GSCSendReceive from "./GSCSendReceive";
 import GSCMenuBar from "./GSCMenuBar";
 import { gscBlockchainService, GSCWallet } from "@/services/gscBlockchain";
+import { formatAmount } from "@/lib/blockchain";
 
 interface GSCWalletTabsProps {
   activeWallet: string | null;
@@ -117,7 +118,7 @@ const GSCWalletTabs = ({ activeWallet }: GSCWalletTabsProps) => {
                     <div className="flex items-center justify-between">
                       <span className="text-sm font-medium">GSC Balance:</span>
                       <span className="text-2xl font-bold text-green-600">
-                        {getActiveWalletData()?.balance.toFixed(8)} GSC
+                        {formatAmount(getActiveWalletData()?.balance ?? 0n)} GSC
                       </span>
                     </div>
                   </div>
@@ -133,7 +134,7 @@ const GSCWalletTabs = ({ activeWallet }: GSCWalletTabsProps) => {
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Total Supply:</span>
-                      <span className="text-sm font-medium">{blockchainStats.totalSupply.toLocaleString()} GSC</span>
+                      <span className="text-sm font-medium">{formatAmount(blockchainStats.totalSupply, { decimals: 0, grouped: true })} GSC</span>
                     </div>
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Current Address:</span>
@@ -206,7 +207,7 @@ const GSCWalletTabs = ({ activeWallet }: GSCWalletTabsProps) => {
                               {tx.sender === getActiveWalletData()?.address ? "Sent" : "Received"}
                             </span>
                             <span className="font-mono">
-                              {tx.sender === getActiveWalletData()?.address ? "-" : "+"}{tx.amount.toFixed(8)}
+                              {tx.sender === getActiveWalletData()?.address ? "-" : "+"}{formatAmount(tx.amount)}
                             </span>
                             <span className="font-mono text-xs truncate">
                               {tx.sender === getActiveWalletData()?.address ? tx.receiver : tx.sender}
@@ -280,11 +281,11 @@ const GSCWalletTabs = ({ activeWallet }: GSCWalletTabsProps) => {
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <p className="text-sm font-medium">Total Supply</p>
-                      <p className="text-lg font-semibold">{blockchainStats.totalSupply.toLocaleString()} GSC</p>
+                      <p className="text-lg font-semibold">{formatAmount(blockchainStats.totalSupply, { decimals: 0, grouped: true })} GSC</p>
                     </div>
                     <div>
                       <p className="text-sm font-medium">Circulating Supply</p>
-                      <p className="text-lg font-semibold">{blockchainStats.circulatingSupply.toFixed(2)} GSC</p>
+                      <p className="text-lg font-semibold">{formatAmount(blockchainStats.circulatingSupply, { decimals: 2 })} GSC</p>
                     </div>
                   </div>
                 </div>
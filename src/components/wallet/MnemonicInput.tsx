@@ -0,0 +1,96 @@
+import { useMemo } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, AlertTriangle } from "lucide-react";
+import { BIP39_WORDLIST, isBip39Word, normalizeMnemonic, suggestWords, validateMnemonic } from "@/lib/mnemonic";
+
+interface MnemonicInputProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+const MnemonicInput = ({ id, value, onChange, className }: MnemonicInputProps) => {
+  const words = useMemo(() => normalizeMnemonic(value), [value]);
+  const validation = useMemo(() => validateMnemonic(words), [words]);
+
+  // The word being typed is the last one, unless the input ends with whitespace
+  const isTypingWord = value.length > 0 && !/\s$/.test(value);
+  const currentWord = isTypingWord ? words[words.length - 1] ?? "" : "";
+  const suggestions = currentWord && !isBip39Word(currentWord) ? suggestWords(currentWord, 6) : [];
+  // A prefix of a valid word is still being typed, so don't flag it yet
+  const isPartialWord = suggestions.length > 0 && BIP39_WORDLIST.some((w) => w.startsWith(currentWord));
+
+  const applySuggestion = (word: string) => {
+    onChange([...words.slice(0, -1), word].join(" ") + " ");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Enter your recovery phrase, words separated by spaces"
+        autoComplete="off"
+        autoCorrect="off"
+        autoCapitalize="none"
+        spellCheck={false}
+        className={cn("font-mono text-sm", className)}
+      />
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map((word) => (
+            <button
+              key={word}
+              type="button"
+              onClick={() => applySuggestion(word)}
+              className="px-2 py-0.5 rounded border border-border text-xs font-mono hover:bg-muted"
+            >
+              {word}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {words.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {words.map((word, index) => {
+            const pending = isPartialWord && index === words.length - 1;
+            const invalid = !pending && validation.invalidWords.find((w) => w.index === index);
+            return (
+              <span
+                key={index}
+                title={invalid?.suggestions.length ? `Did you mean: ${invalid.suggestions.join(", ")}?` : undefined}
+                className={cn(
+                  "px-1.5 py-0.5 rounded text-xs font-mono",
+                  invalid ? "bg-destructive/20 text-destructive" : "bg-muted text-muted-foreground"
+                )}
+              >
+                {index + 1}. {word}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {words.length > 0 && !isPartialWord && (
+        validation.valid ? (
+          <p className="flex items-center gap-1 text-xs text-success">
+            <CheckCircle2 className="w-3 h-3" />
+            Valid {words.length}-word recovery phrase
+          </p>
+        ) : (
+          <p className="flex items-center gap-1 text-xs text-destructive">
+            <AlertTriangle className="w-3 h-3" />
+            {validation.error}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default MnemonicInput;
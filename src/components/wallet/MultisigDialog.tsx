@@ -0,0 +1,362 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "@/hooks/use-toast";
+import { Check, Download, PenLine, Send, Upload, Users } from "lucide-react";
+import { gscBlockchainService, GSCTransaction, GSCWallet } from "@/services/gscBlockchain";
+import FeePresetPicker from "@/components/wallet/FeePresetPicker";
+import { MIN_TRANSACTION_FEE, SigningStatus, formatAmount, parseAmount, type FeePriority } from "@/lib/blockchain";
+
+interface MultisigDialogProps {
+  wallets: GSCWallet[];
+  // Called after wallets or balances changed, with the name of a wallet just added
+  onWalletsChange: (addedWallet?: string) => void;
+}
+
+interface LoadedFile {
+  text: string;
+  transaction: GSCTransaction;
+  status: SigningStatus;
+}
+
+const downloadFile = (contents: string, filename: string) => {
+  const blob = new Blob([contents], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const MultisigDialog = ({ wallets, onWalletsChange }: MultisigDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [walletName, setWalletName] = useState("");
+  const [required, setRequired] = useState("2");
+  const [publicKeys, setPublicKeys] = useState("");
+  const [descriptor, setDescriptor] = useState("");
+  const [proposer, setProposer] = useState("");
+  const [receiver, setReceiver] = useState("");
+  const [amount, setAmount] = useState("");
+  const [feePriority, setFeePriority] = useState<FeePriority | null>(null);
+  const [loaded, setLoaded] = useState<LoadedFile | null>(null);
+  const [signer, setSigner] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+
+  const multisigWallets = wallets.filter(wallet => wallet.multisig);
+  const keyWallets = wallets.filter(wallet => !wallet.multisig && !wallet.hd && wallet.private_key && wallet.public_key);
+  const feeEstimates = useMemo(() => (open ? gscBlockchainService.getFeeEstimates() : null), [open]);
+  const fee = feePriority && feeEstimates ? feeEstimates[feePriority].fee : MIN_TRANSACTION_FEE;
+  const cosigners = loaded
+    ? gscBlockchainService.getCosignerWallets({
+        m: loaded.status.required,
+        publicKeys: [...loaded.status.signers, ...loaded.status.missing],
+      })
+    : [];
+  const signerWallet = cosigners.find(wallet => wallet.name === signer);
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : `${error}`,
+      variant: "destructive",
+    });
+  };
+
+  const finishAdd = (wallet: GSCWallet, verb: string) => {
+    onWalletsChange(wallet.name);
+    setWalletName("");
+    setPublicKeys("");
+    setDescriptor("");
+    toast({
+      title: `Multisig Wallet ${verb}`,
+      description: `${wallet.multisig!.m}-of-${wallet.multisig!.public_keys.length} wallet "${wallet.name}" at ${wallet.address.substring(0, 20)}...`,
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      const keys = publicKeys.split(/[\s,]+/).filter(Boolean);
+      finishAdd(await gscBlockchainService.createMultisigWallet(walletName, Number(required), keys), "Created");
+    } catch (error) {
+      reportError("Failed to create multisig wallet", error);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      finishAdd(await gscBlockchainService.importMultisigWallet(walletName, descriptor), "Imported");
+    } catch (error) {
+      reportError("Failed to import multisig wallet", error);
+    }
+  };
+
+  const addLocalKey = (name: string) => {
+    const wallet = keyWallets.find(candidate => candidate.name === name);
+    if (wallet && !publicKeys.includes(wallet.public_key)) {
+      setPublicKeys(current => (current.trim() ? `${current.trim()}\n${wallet.public_key}` : wallet.public_key));
+    }
+  };
+
+  const handlePropose = async () => {
+    const wallet = multisigWallets.find(candidate => candidate.name === proposer);
+    if (!wallet) {
+      reportError("Failed to propose transaction", "Select a multisig wallet");
+      return;
+    }
+    try {
+      const file = await gscBlockchainService.proposeMultisigTransaction(wallet, receiver.trim(), parseAmount(amount) ?? 0n, fee);
+      downloadFile(file, `${wallet.name}_unsigned_${Date.now()}.psbt.json`);
+      setReceiver("");
+      setAmount("");
+      toast({
+        title: "Transaction Proposed",
+        description: `Pass the file to the cosigners; ${wallet.multisig!.m} must sign before it can be broadcast`,
+      });
+    } catch (error) {
+      reportError("Failed to propose transaction", error);
+    }
+  };
+
+  const loadFile = (text: string) => {
+    const { transaction, status } = gscBlockchainService.getPartiallySignedStatus(text);
+    setLoaded({ text, transaction, status });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      loadFile(await file.text());
+      setSigner("");
+    } catch (error) {
+      setLoaded(null);
+      reportError("Cannot read transaction file", error);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!loaded || !signerWallet) return;
+    try {
+      const signed = await gscBlockchainService.cosignPartiallySignedTransaction(loaded.text, signerWallet, passphrase || undefined);
+      loadFile(signed);
+      setPassphrase("");
+      downloadFile(signed, `${loaded.transaction.tx_id.substring(0, 12)}_signed_${Date.now()}.psbt.json`);
+      toast({ title: "Signed", description: `Signature added with "${signerWallet.name}"` });
+    } catch (error) {
+      reportError("Failed to sign", error);
+    }
+  };
+
+  const handleBroadcast = async () => {
+    if (!loaded) return;
+    if (await gscBlockchainService.broadcastPartiallySignedTransaction(loaded.text)) {
+      setLoaded(null);
+      onWalletsChange();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Users className="w-4 h-4 mr-2" />
+          Multisig
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Multisig Wallets
+          </DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="create" className="space-y-4">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="create">Create</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+            <TabsTrigger value="propose">Propose</TabsTrigger>
+            <TabsTrigger value="cosign">Co-sign</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="create" className="space-y-4">
+            <div>
+              <Label htmlFor="multisig-name">Wallet Name</Label>
+              <Input id="multisig-name" value={walletName} onChange={(e) => setWalletName(e.target.value)} placeholder="e.g. Treasury" />
+            </div>
+            <div>
+              <Label htmlFor="multisig-keys">Cosigner Public Keys</Label>
+              <Textarea
+                id="multisig-keys"
+                value={publicKeys}
+                onChange={(e) => setPublicKeys(e.target.value)}
+                placeholder="One compressed public key (66 hex characters) per line"
+                className="font-mono text-xs min-h-[120px]"
+              />
+              {keyWallets.length > 0 && (
+                <Select value="" onValueChange={addLocalKey}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue placeholder="Add the key of a local wallet" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {keyWallets.map(wallet => (
+                      <SelectItem key={wallet.name} value={wallet.name}>{wallet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="multisig-required">Required Signatures</Label>
+              <Input id="multisig-required" type="number" min={1} value={required} onChange={(e) => setRequired(e.target.value)} />
+              <p className="text-xs text-muted-foreground mt-1">
+                Every cosigner must enter the same keys and threshold to arrive at the same address
+              </p>
+            </div>
+            <Button onClick={handleCreate} className="w-full">
+              <Users className="w-4 h-4 mr-2" />
+              Create Multisig Wallet
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4">
+            <div>
+              <Label htmlFor="multisig-import-name">Wallet Name</Label>
+              <Input id="multisig-import-name" value={walletName} onChange={(e) => setWalletName(e.target.value)} placeholder="e.g. Treasury" />
+            </div>
+            <div>
+              <Label htmlFor="multisig-descriptor">Descriptor</Label>
+              <Textarea
+                id="multisig-descriptor"
+                value={descriptor}
+                onChange={(e) => setDescriptor(e.target.value)}
+                placeholder="multi(2,<public key>,<public key>,<public key>)"
+                className="font-mono text-xs min-h-[120px]"
+              />
+            </div>
+            <Button onClick={handleImport} className="w-full">
+              <Upload className="w-4 h-4 mr-2" />
+              Import Multisig Wallet
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="propose" className="space-y-4">
+            <div>
+              <Label>From</Label>
+              <Select value={proposer} onValueChange={setProposer}>
+                <SelectTrigger>
+                  <SelectValue placeholder={multisigWallets.length ? "Select a multisig wallet" : "No multisig wallets yet"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {multisigWallets.map(wallet => (
+                    <SelectItem key={wallet.name} value={wallet.name}>
+                      {wallet.name} ({formatAmount(wallet.balance, { decimals: 4 })} GSC)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="multisig-receiver">Recipient Address</Label>
+              <Input id="multisig-receiver" value={receiver} onChange={(e) => setReceiver(e.target.value)} placeholder="GSC1..." className="font-mono" />
+            </div>
+            <div>
+              <Label htmlFor="multisig-amount">Amount (GSC)</Label>
+              <Input id="multisig-amount" type="number" step="0.00000001" value={amount} onChange={(e) => setAmount(e.target.value)} />
+            </div>
+            {feeEstimates && (
+              <div>
+                <Label>Fee</Label>
+                <FeePresetPicker estimates={feeEstimates} selected={feePriority} onSelect={setFeePriority} className="mt-1" />
+              </div>
+            )}
+            <Button onClick={handlePropose} className="w-full">
+              <Download className="w-4 h-4 mr-2" />
+              Create Unsigned Transaction File
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="cosign" className="space-y-4">
+            <div>
+              <Label htmlFor="multisig-file">Partially-Signed Transaction File</Label>
+              <Input id="multisig-file" type="file" accept=".json" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </div>
+            {loaded && (
+              <>
+                <div className="rounded-lg border p-3 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Pays</span>
+                    <span className="font-mono">{formatAmount(loaded.transaction.amount, { trim: true })} GSC</span>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <span className="text-muted-foreground">To</span>
+                    <span className="font-mono text-xs break-all text-right">{loaded.transaction.receiver}</span>
+                  </div>
+                  <div className="flex justify-between gap-4">
+                    <span className="text-muted-foreground">From</span>
+                    <span className="font-mono text-xs break-all text-right">{loaded.transaction.sender}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Fee</span>
+                    <span className="font-mono">{formatAmount(loaded.transaction.fee, { trim: true })} GSC</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Signatures</span>
+                    <span className={loaded.status.complete ? "text-green-600 font-medium" : ""}>
+                      {loaded.status.signers.length} of {loaded.status.required} required
+                    </span>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  {[...loaded.status.signers, ...loaded.status.missing].map(key => (
+                    <div key={key} className="flex items-center gap-2 text-xs font-mono">
+                      {loaded.status.signers.includes(key)
+                        ? <Check className="w-3 h-3 text-green-600" />
+                        : <span className="w-3 h-3 rounded-full border" />}
+                      {key.substring(0, 24)}...
+                    </div>
+                  ))}
+                </div>
+                {!loaded.status.complete && (
+                  <div className="space-y-2">
+                    <Select value={signer} onValueChange={setSigner}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={cosigners.length ? "Sign with" : "No local wallet holds a cosigner key"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {cosigners.map(wallet => (
+                          <SelectItem key={wallet.name} value={wallet.name}>{wallet.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {signerWallet?.encrypted && (
+                      <Input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Wallet passphrase" />
+                    )}
+                    <Button onClick={handleSign} className="w-full" disabled={!signerWallet}>
+                      <PenLine className="w-4 h-4 mr-2" />
+                      Sign and Download
+                    </Button>
+                  </div>
+                )}
+                {loaded.status.complete && (
+                  <Button onClick={handleBroadcast} className="w-full">
+                    <Send className="w-4 h-4 mr-2" />
+                    Broadcast Transaction
+                  </Button>
+                )}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MultisigDialog;
@@ -19,7 +19,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { toast } from "@/hooks/use-toast";
 import { useBlockchain } from "@/hooks/useBlockchain";
-import { Wallet } from "@/lib/blockchain";
+import { Wallet, formatAmount } from "@/lib/blockchain";
 import {
   Wallet as WalletIcon,
   Plus,
@@ -133,7 +133,7 @@ const WalletManager = ({ activeWallet, onWalletChange }: WalletManagerProps) =>
                   <p className="font-medium truncate">{wallet.label}</p>
                   <p className="text-xs text-muted-foreground truncate">{wallet.address}</p>
                 </div>
-                <span className="text-xs text-gold ml-2">{getWalletBalance(wallet.address).toFixed(2)} GSC</span>
+                <span className="text-xs text-gold ml-2">{formatAmount(getWalletBalance(wallet.address), { decimals: 2 })} GSC</span>
               </DropdownMenuItem>
             ))
           )}
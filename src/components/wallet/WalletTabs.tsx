@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   LayoutDashboard, 
@@ -20,6 +20,8 @@ import BlockchainStatsTab from "./tabs/BlockchainStatsTab";
 import BlockchainTab from "./tabs/BlockchainTab";
 import TransactionExplorerTab from "./tabs/TransactionExplorerTab";
 import BlockchainExplorerTab from "./tabs/BlockchainExplorerTab";
+import { toast } from "@/hooks/use-toast";
+import { blockchainState } from "@/lib/blockchain";
 
 interface WalletTabsProps {
   activeWallet: string | null;
@@ -28,6 +30,17 @@ interface WalletTabsProps {
 const WalletTabs = ({ activeWallet }: WalletTabsProps) => {
   const [activeTab, setActiveTab] = useState("overview");
 
+  // Announce reorgs here rather than in useBlockchain, which every tab mounts
+  useEffect(() => blockchainState.onReorg((event) => {
+    const returned = event.returnedTransactions > 0
+      ? ` ${event.returnedTransactions} transaction(s) returned to the mempool.`
+      : '';
+    toast({
+      title: "Chain Reorganised",
+      description: `${event.depth} block(s) replaced by a heavier branch from height ${event.forkHeight + 1}.${returned}`,
+    });
+  }), []);
+
   const tabs = [
     { id: "overview", label: "Overview", icon: LayoutDashboard },
     { id: "send", label: "Send", icon: Send },
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useBlockchain } from "@/hooks/useBlockchain";
+import { formatAmount, getAddressDelta, isUtxoTransaction } from "@/lib/blockchain";
 import { 
   Globe, 
   Search, 
@@ -155,7 +156,7 @@ const BlockchainExplorerTab = () => {
               </div>
               <div>
                 <span className="text-xs text-muted-foreground">Reward</span>
-                <p className="text-sm text-gold font-medium mt-1">{blockResult.reward.toFixed(4)} GSC</p>
+                <p className="text-sm text-gold font-medium mt-1">{formatAmount(blockResult.reward, { decimals: 4 })} GSC</p>
               </div>
             </div>
           </div>
@@ -173,8 +174,13 @@ const BlockchainExplorerTab = () => {
                         COINBASE
                       </span>
                     )}
+                    {isUtxoTransaction(tx) && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-muted text-muted-foreground text-[10px]">
+                        {tx.inputs.length} IN · {tx.outputs.length} OUT
+                      </span>
+                    )}
                   </div>
-                  <span className="text-gold font-medium">{tx.amount.toFixed(4)} GSC</span>
+                  <span className="text-gold font-medium">{formatAmount(tx.amount, { decimals: 4 })} GSC</span>
                 </div>
               ))}
             </div>
@@ -196,31 +202,40 @@ const BlockchainExplorerTab = () => {
           </div>
 
           <div className="space-y-2">
-            {addressResult.transactions.map((tx: any) => (
-              <div key={tx.id} className="p-3 bg-muted/20 rounded-lg">
-                <div className="flex items-center justify-between mb-2">
-                  <div className="flex items-center gap-2">
-                    {tx.to === addressResult.address ? (
-                      <ArrowDownLeft className="w-4 h-4 text-success" />
-                    ) : (
-                      <ArrowUpRight className="w-4 h-4 text-destructive" />
-                    )}
-                    <span className="font-mono text-xs">{tx.id}</span>
+            {addressResult.transactions.map((tx: any) => {
+              // Net effect on this address; UTXO-style transactions may pay it change or one of several outputs
+              const delta = getAddressDelta(tx, addressResult.address);
+              const received = delta >= 0n;
+              const payees = isUtxoTransaction(tx)
+                ? tx.outputs.filter(output => output.address !== tx.from).length
+                : 1;
+              return (
+                <div key={tx.id} className="p-3 bg-muted/20 rounded-lg">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                      {received ? (
+                        <ArrowDownLeft className="w-4 h-4 text-success" />
+                      ) : (
+                        <ArrowUpRight className="w-4 h-4 text-destructive" />
+                      )}
+                      <span className="font-mono text-xs">{tx.id}</span>
+                    </div>
+                    <span className={`font-medium ${
+                      received ? 'text-success' : 'text-destructive'
+                    }`}>
+                      {received ? '+' : '-'}{formatAmount(received ? delta : -delta, { decimals: 4 })} GSC
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {received ? 'From: ' : 'To: '}
+                    <span className="font-mono">
+                      {(received ? tx.from : tx.to).slice(0, 20)}...
+                    </span>
+                    {!received && payees > 1 && ` and ${payees - 1} more`}
                   </div>
-                  <span className={`font-medium ${
-                    tx.to === addressResult.address ? 'text-success' : 'text-destructive'
-                  }`}>
-                    {tx.to === addressResult.address ? '+' : '-'}{tx.amount.toFixed(4)} GSC
-                  </span>
-                </div>
-                <div className="text-xs text-muted-foreground">
-                  {tx.to === addressResult.address ? 'From: ' : 'To: '}
-                  <span className="font-mono">
-                    {(tx.to === addressResult.address ? tx.from : tx.to).slice(0, 20)}...
-                  </span>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
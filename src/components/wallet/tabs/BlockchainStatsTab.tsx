@@ -1,4 +1,14 @@
 import { useBlockchain } from "@/hooks/useBlockchain";
+import {
+  MAX_SUPPLY,
+  TARGET_BLOCK_TIME,
+  amountToNumber,
+  formatAmount,
+  getBlockSubsidy,
+  getEmissionSchedule,
+  getNextHalvingHeight,
+  getRetargetInfo,
+} from "@/lib/blockchain";
 import { 
   Link2, 
   CheckCircle2, 
@@ -6,21 +16,34 @@ import {
   Hash,
   Coins,
   Clock,
-  Trophy
+  Trophy,
+  GitFork,
+  TrendingDown
 } from "lucide-react";
 
 const BlockchainStatsTab = () => {
-  const { blockchain, chainValid, getTotalSupply, wallets } = useBlockchain();
+  const { blockchain, chainValid, getTotalSupply, wallets, reorgs } = useBlockchain();
   
   const genesisBlock = blockchain[0];
   const latestBlock = blockchain[blockchain.length - 1];
   const totalSupply = getTotalSupply();
   const currentMiner = wallets[0]?.address ?? 'None';
+  const retargetInfo = getRetargetInfo(blockchain);
+  const subsidy = getBlockSubsidy(blockchain.length, totalSupply);
+  const nextHalving = getNextHalvingHeight(blockchain.length);
+  const emissionSchedule = getEmissionSchedule(blockchain);
+  const lastReorg = reorgs[0];
+  const deepestReorg = reorgs.reduce((deepest, event) => Math.max(deepest, event.depth), 0);
 
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
 
+  const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+  };
+
   return (
     <div className="space-y-6">
       {/* Chain Validity */}
@@ -45,7 +68,7 @@ const BlockchainStatsTab = () => {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
         <div className="glass-card p-4">
           <div className="flex items-center gap-2 mb-2">
             <Link2 className="w-4 h-4 text-gold" />
@@ -59,8 +82,19 @@ const BlockchainStatsTab = () => {
             <Coins className="w-4 h-4 text-gold" />
             <span className="text-xs text-muted-foreground">Total Supply</span>
           </div>
-          <p className="font-display text-2xl font-bold">{totalSupply.toFixed(2)}</p>
-          <p className="text-xs text-muted-foreground">GSC mined</p>
+          <p className="font-display text-2xl font-bold">{formatAmount(totalSupply, { decimals: 2 })}</p>
+          <p className="text-xs text-muted-foreground">GSC issued of {formatAmount(MAX_SUPPLY, { decimals: 0, grouped: true })}</p>
+        </div>
+
+        <div className="glass-card p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <TrendingDown className="w-4 h-4 text-gold" />
+            <span className="text-xs text-muted-foreground">Block Subsidy</span>
+          </div>
+          <p className="font-display text-2xl font-bold">{formatAmount(subsidy, { trim: true })}</p>
+          <p className="text-xs text-muted-foreground">
+            Halves at #{nextHalving.toLocaleString()} ({(nextHalving - blockchain.length).toLocaleString()} blocks)
+          </p>
         </div>
 
         <div className="glass-card p-4">
@@ -68,8 +102,10 @@ const BlockchainStatsTab = () => {
             <Hash className="w-4 h-4 text-silver" />
             <span className="text-xs text-muted-foreground">Difficulty</span>
           </div>
-          <p className="font-display text-2xl font-bold">5</p>
-          <p className="text-xs text-muted-foreground">00000...</p>
+          <p className="font-display text-2xl font-bold">{retargetInfo.nextDifficulty.toFixed(2)}</p>
+          <p className="text-xs text-muted-foreground">
+            Retarget at #{retargetInfo.nextRetargetHeight} ({retargetInfo.blocksUntilRetarget} blocks)
+          </p>
         </div>
 
         <div className="glass-card p-4">
@@ -79,6 +115,39 @@ const BlockchainStatsTab = () => {
           </div>
           <p className="font-display text-2xl font-bold">#{blockchain.length - 1}</p>
         </div>
+
+        <div className="glass-card p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <Clock className="w-4 h-4 text-silver" />
+            <span className="text-xs text-muted-foreground">Avg Block Time</span>
+          </div>
+          <p className="font-display text-2xl font-bold">
+            {retargetInfo.averageBlockTime !== null ? formatDuration(retargetInfo.averageBlockTime) : '—'}
+          </p>
+          <p className="text-xs text-muted-foreground">target {formatDuration(TARGET_BLOCK_TIME)}</p>
+        </div>
+
+        <div className="glass-card p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <Hash className="w-4 h-4 text-silver" />
+            <span className="text-xs text-muted-foreground">Next Difficulty</span>
+          </div>
+          <p className="font-display text-2xl font-bold">{retargetInfo.projectedDifficulty.toFixed(2)}</p>
+          <p className="text-xs text-muted-foreground">if the current pace holds</p>
+        </div>
+
+        <div className="glass-card p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <GitFork className="w-4 h-4 text-warning" />
+            <span className="text-xs text-muted-foreground">Reorgs</span>
+          </div>
+          <p className="font-display text-2xl font-bold">{reorgs.length}</p>
+          <p className="text-xs text-muted-foreground">
+            {lastReorg
+              ? `last depth ${lastReorg.depth} at #${lastReorg.forkHeight + 1} · deepest ${deepestReorg}`
+              : 'no competing branch has won'}
+          </p>
+        </div>
       </div>
 
       {/* Genesis Block */}
@@ -117,6 +186,41 @@ const BlockchainStatsTab = () => {
         </div>
       )}
 
+      {/* Emission Schedule */}
+      <div className="glass-card p-6">
+        <h3 className="font-display font-semibold mb-4 flex items-center gap-2">
+          <TrendingDown className="w-5 h-5 text-gold" />
+          Emission Schedule
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-3 px-2 text-muted-foreground font-medium">Height</th>
+                <th className="text-right py-3 px-2 text-muted-foreground font-medium">Subsidy</th>
+                <th className="text-right py-3 px-2 text-muted-foreground font-medium">Supply</th>
+                <th className="text-right py-3 px-2 text-muted-foreground font-medium">Of Cap</th>
+              </tr>
+            </thead>
+            <tbody>
+              {emissionSchedule.map((point) => (
+                <tr key={point.height} className="border-b border-border/50 hover:bg-muted/20">
+                  <td className="py-3 px-2 font-medium">
+                    #{point.height.toLocaleString()}
+                    <span className="ml-2 text-xs text-muted-foreground">{point.projected ? 'projected' : 'tip'}</span>
+                  </td>
+                  <td className="py-3 px-2 text-right text-gold">{formatAmount(point.subsidy, { trim: true })}</td>
+                  <td className="py-3 px-2 text-right">{formatAmount(point.supply, { trim: true, grouped: true })}</td>
+                  <td className="py-3 px-2 text-right text-muted-foreground">
+                    {(amountToNumber(point.supply) / amountToNumber(MAX_SUPPLY) * 100).toPrecision(3)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       {/* Block Table */}
       <div className="glass-card p-6">
         <h3 className="font-display font-semibold mb-4">All Blocks</h3>
@@ -146,7 +250,7 @@ const BlockchainStatsTab = () => {
                   </td>
                   <td className="py-3 px-2 text-right">{block.nonce.toLocaleString()}</td>
                   <td className="py-3 px-2 text-right">{block.transactions.length}</td>
-                  <td className="py-3 px-2 text-right text-gold">{block.reward.toFixed(2)}</td>
+                  <td className="py-3 px-2 text-right text-gold">{formatAmount(block.reward, { decimals: 2 })}</td>
                   <td className="py-3 px-2 text-right text-xs text-muted-foreground">
                     {formatTime(block.timestamp)}
                   </td>
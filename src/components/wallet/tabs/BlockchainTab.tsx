@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useBlockchain } from "@/hooks/useBlockchain";
+import { formatAmount } from "@/lib/blockchain";
 import { Button } from "@/components/ui/button";
 import { 
   Link2, 
@@ -69,7 +70,7 @@ const BlockchainTab = () => {
                       {block.hash.slice(5, 20)}...
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      {block.transactions.length} transactions • {block.reward.toFixed(2)} GSC reward
+                      {block.transactions.length} transactions • {formatAmount(block.reward, { decimals: 2 })} GSC reward
                     </p>
                   </div>
                 </div>
@@ -127,7 +128,7 @@ const BlockchainTab = () => {
                         <Coins className="w-4 h-4 text-muted-foreground" />
                         <div>
                           <p className="text-xs text-muted-foreground">Reward</p>
-                          <p className="text-sm text-gold font-medium">{block.reward.toFixed(4)} GSC</p>
+                          <p className="text-sm text-gold font-medium">{formatAmount(block.reward, { decimals: 4 })} GSC</p>
                         </div>
                       </div>
                     </div>
@@ -168,7 +169,7 @@ const BlockchainTab = () => {
                               <span className="font-mono">{tx.id}</span>
                             </div>
                             <span className="text-gold font-medium">
-                              {tx.amount.toFixed(4)} GSC
+                              {formatAmount(tx.amount, { decimals: 4 })} GSC
                             </span>
                           </div>
                         ))}
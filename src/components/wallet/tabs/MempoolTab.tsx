@@ -1,27 +1,53 @@
+import { useMemo } from "react";
 import { useBlockchain } from "@/hooks/useBlockchain";
-import { Clock, Coins, Hash, ArrowRight } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Clock, Coins, Hash, ShieldCheck, Users } from "lucide-react";
+import {
+  MAX_TEMPLATE_WEIGHT,
+  buildBlockTemplate,
+  formatAmount,
+  formatFeeRate,
+  getExpiryTime,
+  getFeeRate,
+  getPendingBySender,
+  sortMempool,
+  sumAmounts,
+} from "@/lib/blockchain";
 
 const MempoolTab = () => {
-  const { mempool } = useBlockchain();
+  const { mempool, blockchain, mempoolPolicy } = useBlockchain();
   
-  const totalFees = mempool.reduce((sum, tx) => sum + tx.fee, 0);
-  const totalAmount = mempool.reduce((sum, tx) => sum + tx.amount, 0);
+  const totalFees = sumAmounts(mempool.map(tx => tx.fee));
+  const totalAmount = sumAmounts(mempool.map(tx => tx.amount));
+  const sorted = useMemo(() => sortMempool(mempool), [mempool]);
+  const template = useMemo(() => buildBlockTemplate(blockchain, mempool), [blockchain, mempool]);
+  const inNextBlock = new Set(template.transactions.map(tx => tx.id));
+  const senders = useMemo(
+    () => [...getPendingBySender(mempool).values()].sort((a, b) => b.count - a.count),
+    [mempool]
+  );
 
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
 
+  const formatExpiry = (expiresAt: number) => {
+    const hours = Math.max(0, (expiresAt - Date.now()) / 3600000);
+    return hours >= 1 ? `${Math.floor(hours)}h` : `${Math.ceil(hours * 60)}m`;
+  };
+
   return (
     <div className="space-y-6">
       {/* Stats */}
-      <div className="grid grid-cols-3 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="glass-card p-4">
           <div className="flex items-center gap-2 mb-2">
             <Clock className="w-4 h-4 text-warning" />
             <span className="text-xs text-muted-foreground">Pending</span>
           </div>
           <p className="font-display text-2xl font-bold">{mempool.length}</p>
-          <p className="text-xs text-muted-foreground">transactions</p>
+          <p className="text-xs text-muted-foreground">of {mempoolPolicy.maxSize.toLocaleString()} transactions</p>
+          <Progress value={(mempool.length / mempoolPolicy.maxSize) * 100} className="h-1 mt-2" />
         </div>
 
         <div className="glass-card p-4">
@@ -29,7 +55,7 @@ const MempoolTab = () => {
             <Coins className="w-4 h-4 text-gold" />
             <span className="text-xs text-muted-foreground">Total Fees</span>
           </div>
-          <p className="font-display text-2xl font-bold text-gold">{totalFees.toFixed(4)}</p>
+          <p className="font-display text-2xl font-bold text-gold">{formatAmount(totalFees, { decimals: 4 })}</p>
           <p className="text-xs text-muted-foreground">GSC</p>
         </div>
 
@@ -38,9 +64,50 @@ const MempoolTab = () => {
             <Hash className="w-4 h-4 text-silver" />
             <span className="text-xs text-muted-foreground">Total Amount</span>
           </div>
-          <p className="font-display text-2xl font-bold">{totalAmount.toFixed(4)}</p>
+          <p className="font-display text-2xl font-bold">{formatAmount(totalAmount, { decimals: 4 })}</p>
           <p className="text-xs text-muted-foreground">GSC</p>
         </div>
+
+        <div className="glass-card p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <Coins className="w-4 h-4 text-success" />
+            <span className="text-xs text-muted-foreground">Next Block</span>
+          </div>
+          <p className="font-display text-2xl font-bold">{template.transactions.length}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatAmount(template.fees, { decimals: 4 })} GSC fees · {(template.size / 1000).toFixed(1)} / {MAX_TEMPLATE_WEIGHT / 1000} kB
+          </p>
+        </div>
+      </div>
+
+      {/* Policy */}
+      <div className="glass-card p-6">
+        <h3 className="font-display font-semibold mb-4 flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-gold" />
+          Mempool Policy
+        </h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <span className="text-xs text-muted-foreground">Minimum Fee Rate</span>
+            <p className="font-medium">{formatFeeRate(mempoolPolicy.minFeeRate)}</p>
+          </div>
+          <div>
+            <span className="text-xs text-muted-foreground">Expiry</span>
+            <p className="font-medium">{mempoolPolicy.expiry / 3600000} hours</p>
+          </div>
+          <div>
+            <span className="text-xs text-muted-foreground">When Full</span>
+            <p className="font-medium">Lowest fee rate evicted</p>
+          </div>
+          <div>
+            <span className="text-xs text-muted-foreground">Per Sender</span>
+            <p className="font-medium">{mempoolPolicy.maxPendingPerSender} pending</p>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground mt-4">
+          Transactions spending an output another pending transaction already spends, or more than
+          the sender has left after their pending transactions, are rejected.
+        </p>
       </div>
 
       {/* Transaction Table */}
@@ -63,14 +130,17 @@ const MempoolTab = () => {
                   <th className="text-left py-3 px-2 text-muted-foreground font-medium">TX ID</th>
                   <th className="text-left py-3 px-2 text-muted-foreground font-medium">From</th>
                   <th className="text-left py-3 px-2 text-muted-foreground font-medium">To</th>
+                  <th className="text-right py-3 px-2 text-muted-foreground font-medium">Nonce</th>
                   <th className="text-right py-3 px-2 text-muted-foreground font-medium">Amount</th>
                   <th className="text-right py-3 px-2 text-muted-foreground font-medium">Fee</th>
+                  <th className="text-right py-3 px-2 text-muted-foreground font-medium">Fee Rate</th>
                   <th className="text-right py-3 px-2 text-muted-foreground font-medium">Time</th>
+                  <th className="text-right py-3 px-2 text-muted-foreground font-medium">Expires</th>
                   <th className="text-center py-3 px-2 text-muted-foreground font-medium">Status</th>
                 </tr>
               </thead>
               <tbody>
-                {mempool.map((tx) => (
+                {sorted.map((tx) => (
                   <tr key={tx.id} className="border-b border-border/50 hover:bg-muted/20">
                     <td className="py-3 px-2 font-mono text-xs">{tx.id}</td>
                     <td className="py-3 px-2">
@@ -83,15 +153,26 @@ const MempoolTab = () => {
                         {tx.to.slice(0, 12)}...
                       </span>
                     </td>
-                    <td className="py-3 px-2 text-right font-medium">{tx.amount.toFixed(4)}</td>
-                    <td className="py-3 px-2 text-right text-muted-foreground">{tx.fee.toFixed(4)}</td>
+                    <td className="py-3 px-2 text-right font-mono text-xs text-muted-foreground">{tx.nonce ?? "—"}</td>
+                    <td className="py-3 px-2 text-right font-medium">{formatAmount(tx.amount, { decimals: 4 })}</td>
+                    <td className="py-3 px-2 text-right text-muted-foreground">{formatAmount(tx.fee, { decimals: 4 })}</td>
+                    <td className="py-3 px-2 text-right text-muted-foreground">{formatFeeRate(getFeeRate(tx))}</td>
                     <td className="py-3 px-2 text-right text-xs text-muted-foreground">
                       {formatTime(tx.timestamp)}
                     </td>
+                    <td className="py-3 px-2 text-right text-xs text-muted-foreground">
+                      {formatExpiry(getExpiryTime(tx, blockchain, mempoolPolicy))}
+                    </td>
                     <td className="py-3 px-2 text-center">
-                      <span className="px-2 py-1 rounded-full text-xs bg-warning/20 text-warning">
-                        Pending
-                      </span>
+                      {inNextBlock.has(tx.id) ? (
+                        <span className="px-2 py-1 rounded-full text-xs bg-success/20 text-success">
+                          Next block
+                        </span>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full text-xs bg-warning/20 text-warning">
+                          Pending
+                        </span>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -101,9 +182,29 @@ const MempoolTab = () => {
         )}
       </div>
 
+      {/* Pending by Sender */}
+      {senders.length > 0 && (
+        <div className="glass-card p-6">
+          <h3 className="font-display font-semibold mb-4 flex items-center gap-2">
+            <Users className="w-5 h-5 text-silver" />
+            Pending by Sender
+          </h3>
+          <div className="space-y-2">
+            {senders.map((sender) => (
+              <div key={sender.address} className="flex justify-between text-sm">
+                <span className="font-mono text-xs truncate mr-4" title={sender.address}>{sender.address}</span>
+                <span className="whitespace-nowrap text-muted-foreground">
+                  {sender.count}/{mempoolPolicy.maxPendingPerSender} · {formatAmount(sender.outgoing, { decimals: 4 })} GSC
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Info */}
       <div className="text-xs text-muted-foreground text-center">
-        Transactions are sorted by fee (highest first) for mining priority.
+        Transactions are sorted by fee rate (highest first) for mining priority, each sender's in nonce order.
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { useBlockchain } from "@/hooks/useBlockchain";
 import { toast } from "@/hooks/use-toast";
 import { 
@@ -10,9 +11,27 @@ import {
   Clock, 
   Hash,
   Trophy,
-  Cpu
+  Cpu,
+  Minus,
+  Plus,
+  Users
 } from "lucide-react";
-import { DIFFICULTY, DIFFICULTY_TARGET, calculateMiningReward } from "@/lib/blockchain";
+import {
+  DEFAULT_POOL_URL,
+  PoolClient,
+  MAX_MINING_THREADS,
+  benchmarkHashEngines,
+  RETARGET_INTERVAL,
+  TARGET_BLOCK_TIME,
+  calculateMiningReward,
+  estimateBlockTime,
+  formatAmount,
+  getRetargetInfo,
+  sumAmounts,
+  type HashBenchmark,
+  type PoolStats,
+  type WorkerHashRate,
+} from "@/lib/blockchain";
 
 interface MiningTabProps {
   activeWallet: string | null;
@@ -22,9 +41,12 @@ const MiningTab = ({ activeWallet }: MiningTabProps) => {
   const { 
     wallets, 
     startMining, 
+    startPoolMining,
     stopMining, 
     isMining, 
     miningStats,
+    miningThreads,
+    setMiningThreads,
     blockchain,
     mempool
   } = useBlockchain();
@@ -34,12 +56,23 @@ const MiningTab = ({ activeWallet }: MiningTabProps) => {
     nonce: 0,
     elapsed: 0,
     attempts: 0,
+    workers: [] as WorkerHashRate[],
   });
 
+  const [mode, setMode] = useState<'solo' | 'pool'>('solo');
+  const [poolUrl, setPoolUrl] = useState(DEFAULT_POOL_URL);
+  const [poolStats, setPoolStats] = useState<PoolStats | null>(null);
+  const [benchmark, setBenchmark] = useState<HashBenchmark[] | null>(null);
+  const [isBenchmarking, setIsBenchmarking] = useState(false);
+
   const wallet = wallets.find(w => w.address === activeWallet);
   const currentBlockHeight = blockchain.length;
   const blockReward = calculateMiningReward(currentBlockHeight);
-  const pendingFees = mempool.reduce((sum, tx) => sum + tx.fee, 0);
+  const pendingFees = sumAmounts(mempool.map(tx => tx.fee));
+  const retargetInfo = getRetargetInfo(blockchain);
+  // From this miner's hash rate while mining, otherwise from recent block spacing
+  const estimatedBlockTime = estimateBlockTime(retargetInfo.nextDifficulty, localStats.hashRate)
+    ?? retargetInfo.averageBlockTime;
 
   useEffect(() => {
     if (miningStats) {
@@ -48,20 +81,41 @@ const MiningTab = ({ activeWallet }: MiningTabProps) => {
         nonce: miningStats.currentNonce,
         elapsed: miningStats.elapsedTime,
         attempts: miningStats.hashAttempts,
+        workers: miningStats.workers,
       });
     }
   }, [miningStats]);
 
+  // Pool-wide hash rate and PPLNS window while mining through a pool
+  useEffect(() => {
+    if (mode !== 'pool' || !isMining) return;
+    const client = new PoolClient(poolUrl);
+    const refresh = () => client.getStats().then(setPoolStats, () => setPoolStats(null));
+    refresh();
+    const interval = setInterval(refresh, 5000);
+    return () => clearInterval(interval);
+  }, [mode, isMining, poolUrl]);
+
   const handleStartMining = () => {
     if (!activeWallet) {
       toast({ title: "Error", description: "Please select a wallet first", variant: "destructive" });
       return;
     }
 
+    if (mode === 'pool') {
+      startPoolMining(poolUrl, activeWallet, (result) => {
+        if (result.block) {
+          toast({ title: "🎉 Pool Block Found!", description: "Your share solved a block; the reward is split between recent shares" });
+        }
+      });
+      toast({ title: "Pool Mining Started", description: `Submitting shares to ${poolUrl}` });
+      return;
+    }
+
     startMining(activeWallet, (block) => {
       toast({
         title: "🎉 Block Mined!",
-        description: `Block #${block.index} mined with reward ${block.reward.toFixed(4)} GSC`,
+        description: `Block #${block.index} mined with reward ${formatAmount(block.reward, { decimals: 4 })} GSC`,
       });
     });
 
@@ -79,6 +133,15 @@ const MiningTab = ({ activeWallet }: MiningTabProps) => {
     });
   };
 
+  const handleBenchmark = async () => {
+    setIsBenchmarking(true);
+    try {
+      setBenchmark(await benchmarkHashEngines());
+    } finally {
+      setIsBenchmarking(false);
+    }
+  };
+
   const formatTime = (ms: number) => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -126,6 +189,70 @@ const MiningTab = ({ activeWallet }: MiningTabProps) => {
             <p className="font-mono text-xs truncate">{wallet.address}</p>
           </div>
 
+          <div className="mb-4 flex gap-2">
+            <Button
+              size="sm"
+              variant={mode === 'solo' ? 'default' : 'outline'}
+              onClick={() => setMode('solo')}
+              disabled={isMining}
+            >
+              <Pickaxe className="w-4 h-4 mr-2" />
+              Solo
+            </Button>
+            <Button
+              size="sm"
+              variant={mode === 'pool' ? 'default' : 'outline'}
+              onClick={() => setMode('pool')}
+              disabled={isMining}
+            >
+              <Users className="w-4 h-4 mr-2" />
+              Pool
+            </Button>
+          </div>
+
+          {mode === 'pool' && (
+            <div className="mb-4">
+              <p className="text-sm text-muted-foreground mb-1">Pool URL</p>
+              <Input
+                value={poolUrl}
+                onChange={(e) => setPoolUrl(e.target.value)}
+                disabled={isMining}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Run a local pool with <span className="font-mono">npm run pool -- --address GSC1Q...</span>
+              </p>
+            </div>
+          )}
+
+          <div className="mb-4 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-muted-foreground">Mining Threads</p>
+              <p className="text-xs text-muted-foreground">{MAX_MINING_THREADS} available on this device</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-8 w-8"
+                onClick={() => setMiningThreads(miningThreads - 1)}
+                disabled={miningThreads <= 1}
+              >
+                <Minus className="w-4 h-4" />
+              </Button>
+              <span className="font-display text-lg font-bold w-8 text-center">{miningThreads}</span>
+              <Button
+                size="icon"
+                variant="outline"
+                className="h-8 w-8"
+                onClick={() => setMiningThreads(miningThreads + 1)}
+                disabled={miningThreads >= MAX_MINING_THREADS}
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
           <div className="flex gap-3">
             {!isMining ? (
               <Button 
@@ -196,6 +323,77 @@ const MiningTab = ({ activeWallet }: MiningTabProps) => {
         </div>
       </div>
 
+      {/* Pool Session */}
+      {mode === 'pool' && miningStats?.pool && (
+        <div className="glass-card p-6">
+          <h3 className="font-display font-semibold mb-4 flex items-center gap-2">
+            <Users className="w-5 h-5 text-gold" />
+            Pool
+          </h3>
+          {miningStats.pool.lastError && (
+            <p className="text-sm text-destructive mb-3">{miningStats.pool.lastError}</p>
+          )}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <span className="text-xs text-muted-foreground">Accepted Shares</span>
+              <p className="font-display text-xl font-bold text-success">{miningStats.pool.acceptedShares}</p>
+            </div>
+            <div>
+              <span className="text-xs text-muted-foreground">Rejected Shares</span>
+              <p className="font-display text-xl font-bold">{miningStats.pool.rejectedShares}</p>
+            </div>
+            <div>
+              <span className="text-xs text-muted-foreground">Share Difficulty</span>
+              <p className="font-display text-xl font-bold">{miningStats.pool.shareDifficulty.toFixed(2)}</p>
+            </div>
+            <div>
+              <span className="text-xs text-muted-foreground">Blocks Found</span>
+              <p className="font-display text-xl font-bold text-gold">{miningStats.pool.blocksFound}</p>
+            </div>
+          </div>
+          {poolStats && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Pool Hash Rate</span>
+                <span className="font-medium">{poolStats.hashRate.toLocaleString()} H/s · {poolStats.miners} miner(s)</span>
+              </div>
+              <p className="text-xs text-muted-foreground">Next block split (PPLNS)</p>
+              {poolStats.window.map((payout) => (
+                <div key={payout.address} className="flex justify-between text-xs">
+                  <span className={`font-mono truncate mr-4 ${payout.address === wallet.address ? 'text-gold' : 'text-muted-foreground'}`}>
+                    {payout.address}
+                  </span>
+                  <span className="font-medium whitespace-nowrap">
+                    {(payout.fraction * 100).toFixed(2)}% · {payout.shares} shares
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Per-Worker Hash Rate */}
+      {isMining && localStats.workers.length > 0 && (
+        <div className="glass-card p-6">
+          <h3 className="font-display font-semibold mb-4 flex items-center gap-2">
+            <Cpu className="w-5 h-5 text-warning" />
+            Workers
+          </h3>
+          <div className="space-y-2">
+            {localStats.workers.map((worker) => (
+              <div key={worker.workerId} className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Worker {worker.workerId + 1}</span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {worker.hashes.toLocaleString()} hashes
+                </span>
+                <span className="font-medium">{worker.hashRate.toLocaleString()} H/s</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Current Block Info */}
       <div className="glass-card p-6">
         <h3 className="font-display font-semibold mb-4 flex items-center gap-2">
@@ -211,7 +409,19 @@ const MiningTab = ({ activeWallet }: MiningTabProps) => {
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground text-sm">Difficulty</span>
-              <span className="font-medium">{DIFFICULTY} ({DIFFICULTY_TARGET}...)</span>
+              <span className="font-medium">{retargetInfo.nextDifficulty.toFixed(4)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground text-sm">Est. Block Time</span>
+              <span className="font-medium">
+                {estimatedBlockTime !== null ? formatTime(estimatedBlockTime) : '—'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground text-sm">Next Retarget</span>
+              <span className="font-medium">
+                #{retargetInfo.nextRetargetHeight} ({retargetInfo.blocksUntilRetarget} blocks)
+              </span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground text-sm">Transactions</span>
@@ -222,26 +432,59 @@ const MiningTab = ({ activeWallet }: MiningTabProps) => {
           <div className="space-y-3">
             <div className="flex justify-between">
               <span className="text-muted-foreground text-sm">Block Reward</span>
-              <span className="font-medium text-gold">{blockReward.toFixed(4)} GSC</span>
+              <span className="font-medium text-gold">{formatAmount(blockReward, { decimals: 4 })} GSC</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground text-sm">Total Fees</span>
-              <span className="font-medium text-gold">{pendingFees.toFixed(4)} GSC</span>
+              <span className="font-medium text-gold">{formatAmount(pendingFees, { decimals: 4 })} GSC</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground text-sm">Total Reward</span>
-              <span className="font-bold text-gold">{(blockReward + pendingFees).toFixed(4)} GSC</span>
+              <span className="font-bold text-gold">{formatAmount(blockReward + pendingFees, { decimals: 4 })} GSC</span>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Hashing Benchmark */}
+      <div className="glass-card p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-display font-semibold flex items-center gap-2">
+            <Zap className="w-5 h-5 text-gold" />
+            Hashing Engines
+          </h3>
+          <Button size="sm" variant="outline" onClick={handleBenchmark} disabled={isBenchmarking || isMining}>
+            {isBenchmarking ? 'Running...' : 'Run Benchmark'}
+          </Button>
+        </div>
+        {benchmark ? (
+          <div className="space-y-2">
+            {benchmark.map((result) => (
+              <div key={`${result.engine}-${result.midstate}`} className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {result.engine === 'webcrypto' ? 'WebCrypto (async)' : 'JS SHA-256 (sync)'}
+                  {result.midstate ? ' + midstate' : ''}
+                </span>
+                <span className="font-medium">{result.hashesPerSecond.toLocaleString()} H/s</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Compare the single-thread hash rate of the synchronous engine used for mining with WebCrypto.
+          </p>
+        )}
+      </div>
+
       {/* Mining Info */}
       <div className="glass-card p-6">
         <h3 className="font-display font-semibold mb-4">Mining Information</h3>
         <div className="space-y-2 text-sm">
           <p className="text-muted-foreground">
-            • Difficulty is fixed at <span className="text-foreground font-medium">{DIFFICULTY}</span> (hash must start with {DIFFICULTY_TARGET})
+            • Difficulty retargets every <span className="text-foreground font-medium">{RETARGET_INTERVAL} blocks</span> toward one block per <span className="text-foreground font-medium">{formatTime(TARGET_BLOCK_TIME)}</span>
+          </p>
+          <p className="text-muted-foreground">
+            • A block of difficulty d must hash below 16^(64 − d), about d leading zeros
           </p>
           <p className="text-muted-foreground">
             • Initial block reward: <span className="text-foreground font-medium">50 GSC</span>
@@ -1,11 +1,25 @@
+import { useState } from "react";
 import { useBlockchain } from "@/hooks/useBlockchain";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatAmount, parseAmount, suggestReplacementFee, type Transaction } from "@/lib/blockchain";
 import { 
   Coins, 
   ArrowUpRight, 
   ArrowDownLeft, 
   Clock,
   CheckCircle2,
-  XCircle
+  XCircle,
+  Zap
 } from "lucide-react";
 
 interface OverviewTabProps {
@@ -13,7 +27,10 @@ interface OverviewTabProps {
 }
 
 const OverviewTab = ({ activeWallet }: OverviewTabProps) => {
-  const { wallets, getTransactionsByAddress, blockchain } = useBlockchain();
+  const { wallets, getTransactionsByAddress, blockchain, mempoolPolicy, bumpFee, cancelTransaction } = useBlockchain();
+  // Pending transaction being bumped or cancelled
+  const [replacing, setReplacing] = useState<{ tx: Transaction; cancel: boolean } | null>(null);
+  const [replacementFee, setReplacementFee] = useState("");
   
   const wallet = wallets.find(w => w.address === activeWallet);
   const transactions = activeWallet ? getTransactionsByAddress(activeWallet) : [];
@@ -21,6 +38,35 @@ const OverviewTab = ({ activeWallet }: OverviewTabProps) => {
   const confirmedTxs = transactions.filter(tx => tx.status === 'confirmed');
   const pendingTxs = transactions.filter(tx => tx.status === 'pending');
 
+  const openReplacement = (tx: Transaction, cancel: boolean) => {
+    setReplacing({ tx, cancel });
+    setReplacementFee(formatAmount(suggestReplacementFee(tx, mempoolPolicy), { trim: true }));
+  };
+
+  const handleReplace = async () => {
+    if (!replacing) return;
+    const fee = parseAmount(replacementFee);
+    if (fee === null || fee <= replacing.tx.fee) {
+      toast({ title: "Error", description: `The new fee must be above ${formatAmount(replacing.tx.fee, { trim: true })} GSC`, variant: "destructive" });
+      return;
+    }
+
+    const result = replacing.cancel
+      ? await cancelTransaction(replacing.tx.id, fee)
+      : await bumpFee(replacing.tx.id, fee);
+    if (result.success) {
+      toast({
+        title: replacing.cancel ? "Cancellation Sent" : "Fee Bumped",
+        description: replacing.cancel
+          ? "The payment will return to your wallet once the replacement is mined"
+          : `The transaction now pays ${formatAmount(fee, { trim: true })} GSC`,
+      });
+      setReplacing(null);
+    } else {
+      toast({ title: "Replacement Failed", description: result.error, variant: "destructive" });
+    }
+  };
+
   if (!wallet) {
     return (
       <div className="glass-card p-8 text-center">
@@ -42,10 +88,15 @@ const OverviewTab = ({ activeWallet }: OverviewTabProps) => {
           <p className="text-muted-foreground text-sm mb-1">Wallet Balance</p>
           <div className="flex items-baseline gap-2">
             <span className="font-display text-5xl font-bold text-gradient-gold">
-              {wallet.balance.toFixed(4)}
+              {formatAmount(wallet.balance, { decimals: 4 })}
             </span>
             <span className="text-xl text-gold font-display">GSC</span>
           </div>
+          {!!wallet.pendingBalance && (
+            <p className="text-sm text-warning mt-1">
+              {wallet.pendingBalance > 0n ? '+' : ''}{formatAmount(wallet.pendingBalance, { decimals: 4 })} GSC pending
+            </p>
+          )}
           <p className="text-xs text-muted-foreground mt-2 font-mono">
             {wallet.address}
           </p>
@@ -126,7 +177,7 @@ const OverviewTab = ({ activeWallet }: OverviewTabProps) => {
                 </div>
                 <div className="text-right">
                   <p className={`font-medium ${tx.to === activeWallet ? 'text-success' : 'text-destructive'}`}>
-                    {tx.to === activeWallet ? '+' : '-'}{tx.amount.toFixed(4)} GSC
+                    {tx.to === activeWallet ? '+' : '-'}{formatAmount(tx.amount, { decimals: 4 })} GSC
                   </p>
                   <div className="flex items-center gap-1 justify-end">
                     {tx.status === 'confirmed' ? (
@@ -136,6 +187,18 @@ const OverviewTab = ({ activeWallet }: OverviewTabProps) => {
                     )}
                     <span className="text-xs text-muted-foreground">{tx.status}</span>
                   </div>
+                  {tx.status === 'pending' && tx.from === activeWallet && (
+                    <div className="flex gap-1 justify-end mt-1">
+                      <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => openReplacement(tx, false)}>
+                        <Zap className="w-3 h-3 mr-1" />
+                        Bump fee
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => openReplacement(tx, true)}>
+                        <XCircle className="w-3 h-3 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -143,6 +206,42 @@ const OverviewTab = ({ activeWallet }: OverviewTabProps) => {
         )}
       </div>
 
+      {/* Replace-by-fee */}
+      <Dialog open={!!replacing} onOpenChange={(open) => !open && setReplacing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{replacing?.cancel ? 'Cancel Transaction' : 'Bump Fee'}</DialogTitle>
+            <DialogDescription>
+              {replacing?.cancel
+                ? 'Replace the payment with one back to this wallet. Only the fee is spent if the replacement is mined first.'
+                : 'Replace the transaction with the same payment at a higher fee, so miners pick it up sooner.'}
+            </DialogDescription>
+          </DialogHeader>
+          {replacing && (
+            <div className="space-y-4">
+              <div className="text-sm space-y-1">
+                <p className="font-mono text-xs text-muted-foreground">{replacing.tx.id}</p>
+                <p>{formatAmount(replacing.tx.amount, { decimals: 4 })} GSC · current fee {formatAmount(replacing.tx.fee, { trim: true })} GSC</p>
+              </div>
+              <div>
+                <Label htmlFor="replacementFee">New Fee (GSC)</Label>
+                <Input
+                  id="replacementFee"
+                  type="number"
+                  step="0.01"
+                  value={replacementFee}
+                  onChange={(e) => setReplacementFee(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <Button onClick={handleReplace} className="w-full bg-gold hover:bg-gold/90 text-midnight">
+                {replacing.cancel ? 'Send Cancellation' : 'Bump Fee'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Last Update */}
       <p className="text-xs text-muted-foreground text-center">
         Last updated: {new Date().toLocaleString()}
@@ -5,22 +5,28 @@ import { Label } from "@/components/ui/label";
 import { useBlockchain } from "@/hooks/useBlockchain";
 import { toast } from "@/hooks/use-toast";
 import { Send, AlertCircle } from "lucide-react";
+import { validateAddress } from "@/lib/address";
+import { formatAmount, parseAmount, type FeePriority } from "@/lib/blockchain";
+import FeePresetPicker from "@/components/wallet/FeePresetPicker";
 
 interface SendTabProps {
   activeWallet: string | null;
 }
 
 const SendTab = ({ activeWallet }: SendTabProps) => {
-  const { wallets, sendTransaction, getWalletBalance } = useBlockchain();
+  const { wallets, sendTransaction, getWalletBalance, feeEstimates } = useBlockchain();
   const [recipientAddress, setRecipientAddress] = useState("");
   const [label, setLabel] = useState("");
   const [amount, setAmount] = useState("");
-  const [fee, setFee] = useState("0.1");
+  const [fee, setFee] = useState(() => formatAmount(feeEstimates.normal.fee, { trim: true }));
+  const [feePriority, setFeePriority] = useState<FeePriority | null>("normal");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const wallet = wallets.find(w => w.address === activeWallet);
-  const balance = wallet ? getWalletBalance(wallet.address) : 0;
-  const totalAmount = parseFloat(amount || "0") + parseFloat(fee || "0");
+  const balance = wallet ? getWalletBalance(wallet.address) : 0n;
+  const amountValue = parseAmount(amount) ?? 0n;
+  const feeValue = parseAmount(fee) ?? 0n;
+  const totalAmount = amountValue + feeValue;
 
   const handleSend = async () => {
     if (!activeWallet || !recipientAddress || !amount) {
@@ -28,15 +34,21 @@ const SendTab = ({ activeWallet }: SendTabProps) => {
       return;
     }
 
-    if (!recipientAddress.startsWith("GSC")) {
-      toast({ title: "Error", description: "Invalid recipient address format", variant: "destructive" });
+    const addressCheck = validateAddress(recipientAddress.trim());
+    if (!addressCheck.valid) {
+      toast({ title: "Error", description: addressCheck.error || "Invalid recipient address format", variant: "destructive" });
       return;
     }
 
-    const amountNum = parseFloat(amount);
-    const feeNum = parseFloat(fee);
+    const amountNum = parseAmount(amount);
+    const feeNum = parseAmount(fee);
 
-    if (amountNum <= 0) {
+    if (amountNum === null || feeNum === null) {
+      toast({ title: "Error", description: "Enter amounts with at most 8 decimal places", variant: "destructive" });
+      return;
+    }
+
+    if (amountNum <= 0n) {
       toast({ title: "Error", description: "Amount must be greater than 0", variant: "destructive" });
       return;
     }
@@ -59,7 +71,8 @@ const SendTab = ({ activeWallet }: SendTabProps) => {
         setRecipientAddress("");
         setLabel("");
         setAmount("");
-        setFee("0.1");
+        setFee(formatAmount(feeEstimates.normal.fee, { trim: true }));
+        setFeePriority("normal");
       } else {
         toast({ title: "Error", description: result.error, variant: "destructive" });
       }
@@ -88,7 +101,7 @@ const SendTab = ({ activeWallet }: SendTabProps) => {
         <div className="flex items-center justify-between">
           <h3 className="font-display font-semibold text-lg">Send GSC</h3>
           <span className="text-sm text-muted-foreground">
-            Balance: <span className="text-gold font-medium">{balance.toFixed(4)} GSC</span>
+            Balance: <span className="text-gold font-medium">{formatAmount(balance, { decimals: 4 })} GSC</span>
           </span>
         </div>
 
@@ -99,7 +112,7 @@ const SendTab = ({ activeWallet }: SendTabProps) => {
               id="recipient"
               value={recipientAddress}
               onChange={(e) => setRecipientAddress(e.target.value)}
-              placeholder="GSC..."
+              placeholder="GSC1..."
               className="mt-1 font-mono"
             />
           </div>
@@ -137,28 +150,44 @@ const SendTab = ({ activeWallet }: SendTabProps) => {
                 step="0.0001"
                 min="0"
                 value={fee}
-                onChange={(e) => setFee(e.target.value)}
+                onChange={(e) => {
+                  setFee(e.target.value);
+                  setFeePriority(null);
+                }}
                 placeholder="0.001"
                 className="mt-1"
               />
             </div>
           </div>
+
+          <div>
+            <Label>Fee Priority</Label>
+            <FeePresetPicker
+              estimates={feeEstimates}
+              selected={feePriority}
+              onSelect={(priority, value) => {
+                setFeePriority(priority);
+                setFee(formatAmount(value, { trim: true }));
+              }}
+              className="mt-1"
+            />
+          </div>
         </div>
 
         {/* Summary */}
         <div className="p-4 bg-muted/30 rounded-lg space-y-2">
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Amount</span>
-            <span>{parseFloat(amount || "0").toFixed(4)} GSC</span>
+            <span>{formatAmount(amountValue, { decimals: 4 })} GSC</span>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Fee</span>
-            <span>{parseFloat(fee || "0").toFixed(4)} GSC</span>
+            <span>{formatAmount(feeValue, { decimals: 4 })} GSC</span>
           </div>
           <div className="border-t border-border pt-2 flex justify-between font-medium">
             <span>Total</span>
             <span className={totalAmount > balance ? "text-destructive" : "text-gold"}>
-              {totalAmount.toFixed(4)} GSC
+              {formatAmount(totalAmount, { decimals: 4 })} GSC
             </span>
           </div>
         </div>
@@ -2,19 +2,22 @@ import { useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useBlockchain } from "@/hooks/useBlockchain";
+import { formatAmount, isUtxoTransaction, verifyTransactionInclusion } from "@/lib/blockchain";
 import { 
   Search, 
   ArrowRight, 
   CheckCircle2, 
   Clock,
   Hash,
-  Coins
+  Coins,
+  ShieldCheck
 } from "lucide-react";
 
 const TransactionExplorerTab = () => {
-  const { getTransaction } = useBlockchain();
+  const { getTransaction, getTransactionProof } = useBlockchain();
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResult, setSearchResult] = useState<any>(null);
+  const [inclusion, setInclusion] = useState<{ blockIndex: number; proven: boolean; depth: number } | null>(null);
   const [notFound, setNotFound] = useState(false);
 
   const handleSearch = () => {
@@ -22,10 +25,18 @@ const TransactionExplorerTab = () => {
     
     const tx = getTransaction(searchQuery.trim().toUpperCase());
     if (tx) {
+      // Light verification: only the block header's Merkle root and the proof are needed
+      const result = tx.status === 'confirmed' ? getTransactionProof(tx.id) : null;
+      setInclusion(result && {
+        blockIndex: result.block.index,
+        proven: verifyTransactionInclusion(tx, result.proof, result.block.merkleRoot!),
+        depth: result.proof.siblings.length,
+      });
       setSearchResult(tx);
       setNotFound(false);
     } else {
       setSearchResult(null);
+      setInclusion(null);
       setNotFound(true);
     }
   };
@@ -113,6 +124,38 @@ const TransactionExplorerTab = () => {
               </div>
             </div>
 
+            {/* Inputs -> Outputs (UTXO-style transactions) */}
+            {isUtxoTransaction(searchResult) && (
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="p-4 bg-muted/20 rounded-lg">
+                  <span className="text-xs text-muted-foreground">Inputs ({searchResult.inputs.length})</span>
+                  <div className="mt-1 space-y-1">
+                    {searchResult.inputs.map((input) => (
+                      <p key={`${input.txId}:${input.outputIndex}`} className="font-mono text-xs break-all">
+                        {input.txId}:{input.outputIndex}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+                <div className="p-4 bg-muted/20 rounded-lg">
+                  <span className="text-xs text-muted-foreground">Outputs ({searchResult.outputs.length})</span>
+                  <div className="mt-1 space-y-1">
+                    {searchResult.outputs.map((output, index) => (
+                      <div key={index} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="font-mono break-all">
+                          #{index} {output.address}
+                          {output.address === searchResult.from && (
+                            <span className="ml-1 text-muted-foreground">(change)</span>
+                          )}
+                        </span>
+                        <span className="text-gold font-medium whitespace-nowrap">{formatAmount(output.amount, { decimals: 4 })} GSC</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Amount & Fee */}
             <div className="grid md:grid-cols-3 gap-4">
               <div className="p-4 bg-muted/20 rounded-lg">
@@ -121,13 +164,13 @@ const TransactionExplorerTab = () => {
                   <span className="text-xs text-muted-foreground">Amount</span>
                 </div>
                 <p className="font-display text-xl font-bold text-gold">
-                  {searchResult.amount.toFixed(4)} GSC
+                  {formatAmount(searchResult.amount, { decimals: 4 })} GSC
                 </p>
               </div>
               <div className="p-4 bg-muted/20 rounded-lg">
                 <span className="text-xs text-muted-foreground">Fee</span>
                 <p className="font-display text-xl font-bold">
-                  {searchResult.fee.toFixed(4)} GSC
+                  {formatAmount(searchResult.fee, { decimals: 4 })} GSC
                 </p>
               </div>
               <div className="p-4 bg-muted/20 rounded-lg">
@@ -147,6 +190,31 @@ const TransactionExplorerTab = () => {
               <p className="text-sm">{formatTime(searchResult.timestamp)}</p>
             </div>
 
+            {/* Merkle Inclusion */}
+            {searchResult.status === 'confirmed' && (
+              inclusion ? (
+                <div className={`p-4 rounded-lg border flex items-center gap-2 ${
+                  inclusion.proven ? 'bg-success/10 border-success/30' : 'bg-destructive/10 border-destructive/30'
+                }`}>
+                  <ShieldCheck className={`w-4 h-4 ${inclusion.proven ? 'text-success' : 'text-destructive'}`} />
+                  <p className={`text-sm font-medium ${inclusion.proven ? 'text-success' : 'text-destructive'}`}>
+                    {inclusion.proven
+                      ? `Proven included in block #${inclusion.blockIndex}`
+                      : `Merkle proof for block #${inclusion.blockIndex} does not verify`}
+                  </p>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {inclusion.depth} sibling hash{inclusion.depth === 1 ? '' : 'es'}
+                  </span>
+                </div>
+              ) : (
+                <div className="p-4 bg-muted/20 rounded-lg">
+                  <p className="text-sm text-muted-foreground">
+                    Block #{searchResult.blockNumber} predates Merkle roots; inclusion can only be checked against the full chain.
+                  </p>
+                </div>
+              )
+            )}
+
             {/* Coinbase Badge */}
             {searchResult.isCoinbase && (
               <div className="p-4 bg-gold/10 border border-gold/30 rounded-lg">
@@ -1,10 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 import {
   blockchainState,
+  Amount,
   Block,
+  FeeEstimates,
   Transaction,
   Wallet,
   MiningStats,
+  ReorgEvent,
+  ShareResult,
   createTransaction,
   signTransaction,
   generateMnemonic,
@@ -15,8 +19,12 @@ export function useBlockchain() {
   const [mempool, setMempool] = useState<Transaction[]>([]);
   const [wallets, setWallets] = useState<Wallet[]>([]);
   const [miningStats, setMiningStats] = useState<MiningStats | null>(null);
+  const [miningThreads, setMiningThreadsState] = useState(blockchainState.getMiningThreads());
   const [isInitialized, setIsInitialized] = useState(false);
   const [chainValid, setChainValid] = useState(true);
+  // Most recent first
+  const [reorgs, setReorgs] = useState<ReorgEvent[]>([]);
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimates>(() => blockchainState.getFeeEstimates());
 
   // Refresh state from blockchain
   const refreshState = useCallback(() => {
@@ -24,6 +32,9 @@ export function useBlockchain() {
     setMempool(blockchainState.getMempool());
     setWallets(blockchainState.getWallets());
     setMiningStats(blockchainState.getMiningStats());
+    setMiningThreadsState(blockchainState.getMiningThreads());
+    setReorgs(blockchainState.getReorgHistory());
+    setFeeEstimates(blockchainState.getFeeEstimates());
   }, []);
 
   // Initialize blockchain
@@ -43,8 +54,8 @@ export function useBlockchain() {
 
   // Wallet operations
   const createWallet = useCallback(async (label: string) => {
-    const wallet = await blockchainState.createWallet(label);
     const mnemonic = generateMnemonic();
+    const wallet = await blockchainState.createWallet(label, mnemonic);
     return { wallet, mnemonic };
   }, []);
 
@@ -58,15 +69,15 @@ export function useBlockchain() {
 
   const getWalletBalance = useCallback((address: string) => {
     const wallet = blockchainState.getWallet(address);
-    return wallet?.balance ?? 0;
+    return wallet?.balance ?? 0n;
   }, []);
 
   // Transaction operations
   const sendTransaction = useCallback(async (
     fromAddress: string,
     toAddress: string,
-    amount: number,
-    fee: number
+    amount: Amount,
+    fee: Amount
   ): Promise<{ success: boolean; transaction?: Transaction; error?: string }> => {
     // Validate addresses
     if (!fromAddress || !toAddress) {
@@ -83,19 +94,41 @@ export function useBlockchain() {
       return { success: false, error: 'Insufficient balance' };
     }
 
-    // Create and sign transaction
-    const tx = await createTransaction(fromAddress, toAddress, amount, fee);
+    // Create and sign transaction with the sender's next account nonce
+    const tx = await createTransaction(fromAddress, toAddress, amount, fee, blockchainState.getNextNonce(fromAddress));
     const signedTx = await signTransaction(tx, senderWallet.privateKey);
     
     // Add to mempool
-    const added = await blockchainState.addTransaction(signedTx);
-    if (!added) {
-      return { success: false, error: 'Failed to add transaction to mempool' };
+    const admission = await blockchainState.submitTransaction(signedTx);
+    if (!admission.accepted) {
+      return { success: false, error: admission.message ?? 'Failed to add transaction to mempool' };
     }
 
     return { success: true, transaction: signedTx };
   }, []);
 
+  // Replace-by-fee for a pending transaction: bump keeps the payment, cancel returns it
+  const replaceTransaction = useCallback(async (txId: string, fee: Amount, cancel: boolean) => {
+    try {
+      const admission = await blockchainState.replaceTransaction(txId, fee, cancel);
+      return admission.accepted
+        ? { success: true }
+        : { success: false, error: admission.message ?? 'Replacement rejected' };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, []);
+
+  const bumpFee = useCallback(
+    (txId: string, fee: Amount) => replaceTransaction(txId, fee, false),
+    [replaceTransaction]
+  );
+
+  const cancelTransaction = useCallback(
+    (txId: string, fee: Amount) => replaceTransaction(txId, fee, true),
+    [replaceTransaction]
+  );
+
   // Mining operations
   const startMining = useCallback((
     minerAddress: string,
@@ -111,16 +144,40 @@ export function useBlockchain() {
     );
   }, [refreshState]);
 
+  const startPoolMining = useCallback((
+    poolUrl: string,
+    minerAddress: string,
+    onShare?: (result: ShareResult) => void
+  ) => {
+    blockchainState.startPoolMining(
+      poolUrl,
+      minerAddress,
+      (stats) => setMiningStats(stats),
+      (result) => {
+        if (onShare) onShare(result);
+      }
+    );
+  }, []);
+
   const stopMining = useCallback(() => {
     blockchainState.stopMining();
     setMiningStats(blockchainState.getMiningStats());
   }, []);
 
+  const setMiningThreads = useCallback((threads: number) => {
+    blockchainState.setMiningThreads(threads);
+    setMiningThreadsState(blockchainState.getMiningThreads());
+  }, []);
+
   // Explorer operations
   const getTransaction = useCallback((txId: string) => {
     return blockchainState.getTransaction(txId);
   }, []);
 
+  const getTransactionProof = useCallback((txId: string) => {
+    return blockchainState.getTransactionProof(txId);
+  }, []);
+
   const getTransactionsByAddress = useCallback((address: string) => {
     return blockchainState.getTransactionsByAddress(address);
   }, []);
@@ -146,6 +203,9 @@ export function useBlockchain() {
     miningStats,
     isInitialized,
     chainValid,
+    reorgs,
+    mempoolPolicy: blockchainState.getMempoolPolicy(),
+    feeEstimates,
     
     // Wallet operations
     createWallet,
@@ -155,14 +215,20 @@ export function useBlockchain() {
     
     // Transaction operations
     sendTransaction,
+    bumpFee,
+    cancelTransaction,
     
     // Mining operations
     startMining,
+    startPoolMining,
     stopMining,
     isMining: miningStats?.isActive ?? false,
+    miningThreads,
+    setMiningThreads,
     
     // Explorer operations
     getTransaction,
+    getTransactionProof,
     getTransactionsByAddress,
     getBlock,
     getBlockByHash,
@@ -0,0 +1,147 @@
+// ============= GSC ADDRESSES (Bech32, checksummed) =============
+//
+// Current format: Bech32 with prefix "gsc", witness-style version 0 and a
+// 20-byte HASH160 (RIPEMD-160 of SHA-256) of the compressed public key.
+// Addresses are shown upper-case, e.g. GSC1Q... (43 characters).
+//
+// Multisig format: the same encoding with version 1 and the 32-byte SHA-256 of
+// an m-of-n policy (see blockchain/multisig.ts), e.g. GSC1P... (63 characters).
+// HTLC format: version 2 and the SHA-256 of a hash time-locked contract (see
+// blockchain/htlc.ts), e.g. GSC1Z... (63 characters).
+//
+// Legacy format: "GSC1" followed by 31-32 hex characters. Early wallets built
+// these from the private key itself; they carry no checksum and cannot be
+// derived from a public key, but they still appear in imported chains.
+
+import { bech32 } from '@scure/base';
+import { ripemd160 } from '@noble/hashes/legacy.js';
+import { hexToBytes, sha256Bytes } from './crypto';
+
+export const ADDRESS_PREFIX = 'gsc';
+export const ADDRESS_VERSION = 0;
+export const MULTISIG_ADDRESS_VERSION = 1;
+export const HTLC_ADDRESS_VERSION = 2;
+export const SYSTEM_ADDRESSES = ['COINBASE', 'GENESIS', 'Genesis', 'NETWORK'];
+
+const LEGACY_ADDRESS_REGEX = /^GSC1[0-9a-fA-F]{31,32}$/;
+
+export type AddressType = 'bech32' | 'multisig' | 'htlc' | 'legacy' | 'system';
+
+export interface AddressValidation {
+  valid: boolean;
+  type?: AddressType;
+  error?: string;
+}
+
+export function hash160(data: Uint8Array): Uint8Array {
+  return ripemd160(sha256Bytes(data));
+}
+
+// Derive the checksummed GSC address for a compressed public key (hex)
+export function publicKeyToAddress(publicKey: string): string {
+  const words = [ADDRESS_VERSION, ...bech32.toWords(hash160(hexToBytes(publicKey)))];
+  return bech32.encode(ADDRESS_PREFIX, words).toUpperCase();
+}
+
+export function isLegacyAddress(address: string): boolean {
+  return typeof address === 'string' && LEGACY_ADDRESS_REGEX.test(address);
+}
+
+// The legacy address an early wallet built from its private key
+export function getLegacyAddress(privateKey: string): string {
+  return `GSC1${privateKey.substring(0, 32)}`;
+}
+
+export function isSystemAddress(address: string): boolean {
+  return SYSTEM_ADDRESSES.includes(address);
+}
+
+function encodeVersioned(version: number, hash: Uint8Array): string {
+  return bech32.encode(ADDRESS_PREFIX, [version, ...bech32.toWords(hash)]).toUpperCase();
+}
+
+// Encode the hash of a multisig policy as a version 1 address
+export function policyHashToAddress(hash: Uint8Array): string {
+  return encodeVersioned(MULTISIG_ADDRESS_VERSION, hash);
+}
+
+// Encode the hash of an HTLC contract as a version 2 address
+export function contractHashToAddress(hash: Uint8Array): string {
+  return encodeVersioned(HTLC_ADDRESS_VERSION, hash);
+}
+
+// The hash carried by a checksummed address of the given version and length, or null
+function decodeVersioned(address: string, version: number, length: number): Uint8Array | null {
+  if (typeof address !== 'string') return null;
+  const decoded = bech32.decodeUnsafe(address);
+  if (!decoded || decoded.prefix !== ADDRESS_PREFIX) return null;
+  const [addressVersion, ...words] = decoded.words;
+  if (addressVersion !== version) return null;
+  try {
+    const hash = bech32.fromWords(words);
+    return hash.length === length ? hash : null;
+  } catch {
+    return null;
+  }
+}
+
+// Decode a checksummed address to its public key hash, or null if invalid
+export function decodeAddress(address: string): Uint8Array | null {
+  return decodeVersioned(address, ADDRESS_VERSION, 20);
+}
+
+// Decode a multisig address to its policy hash, or null if invalid
+export function decodeMultisigAddress(address: string): Uint8Array | null {
+  return decodeVersioned(address, MULTISIG_ADDRESS_VERSION, 32);
+}
+
+export function isMultisigAddress(address: string): boolean {
+  return decodeMultisigAddress(address) !== null;
+}
+
+// Decode an HTLC address to its contract hash, or null if invalid
+export function decodeHtlcAddress(address: string): Uint8Array | null {
+  return decodeVersioned(address, HTLC_ADDRESS_VERSION, 32);
+}
+
+export function isHtlcAddress(address: string): boolean {
+  return decodeHtlcAddress(address) !== null;
+}
+
+export function validateAddress(address: string, options: { allowLegacy?: boolean } = {}): AddressValidation {
+  const { allowLegacy = true } = options;
+
+  if (!address || typeof address !== 'string') {
+    return { valid: false, error: 'Address is required' };
+  }
+  if (isSystemAddress(address)) {
+    return { valid: true, type: 'system' };
+  }
+  if (isLegacyAddress(address)) {
+    return allowLegacy
+      ? { valid: true, type: 'legacy' }
+      : { valid: false, type: 'legacy', error: 'Legacy addresses are not accepted here' };
+  }
+  if (!/^gsc1/i.test(address)) {
+    return { valid: false, error: 'Address must start with GSC1' };
+  }
+  if (decodeMultisigAddress(address) !== null) {
+    return { valid: true, type: 'multisig' };
+  }
+  if (decodeHtlcAddress(address) !== null) {
+    return { valid: true, type: 'htlc' };
+  }
+  if (decodeAddress(address) === null) {
+    return { valid: false, error: 'Invalid address checksum - check for typos' };
+  }
+  return { valid: true, type: 'bech32' };
+}
+
+// True when the public key owns the address (checksummed addresses only)
+export function addressMatchesPublicKey(address: string, publicKey: string): boolean {
+  try {
+    return publicKeyToAddress(publicKey) === address.toUpperCase();
+  } catch {
+    return false;
+  }
+}
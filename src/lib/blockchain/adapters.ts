@@ -0,0 +1,461 @@
+// ============= LEGACY SHAPE ADAPTERS =============
+//
+// Two chain shapes exist in the wild:
+//   - the GSC wire format (snake_case, timestamps in seconds) used by the
+//     desktop node, server snapshots, exported files and localStorage, with
+//     amounts held as bigints and written as JSON numbers or strings
+//     (see amount.ts);
+//   - the older in-browser format (camelCase, milliseconds), which is the
+//     same shape as the core types.
+// Everything read from storage or files goes through these functions.
+
+import { Amount, readAmount } from './amount';
+import { INITIAL_REWARD, MAX_SUPPLY, isCoinbaseSender } from './consensus';
+import type { HtlcContract } from './htlc';
+import type { MultisigPolicy, MultisigSignature } from './multisig';
+import type { Block, Transaction, TxInput, TxOutput } from './types';
+
+export interface GSCTxInput {
+  tx_id: string;
+  output_index: number;
+}
+
+export interface GSCTxOutput {
+  address: string;
+  amount: Amount;
+}
+
+export interface GSCMultisigPolicy {
+  m: number;
+  public_keys: string[];
+}
+
+export interface GSCMultisigSignature {
+  public_key: string;
+  signature: string;
+}
+
+export interface GSCHtlcContract {
+  sender: string;
+  recipient: string;
+  hash_lock: string;
+  timeout: number;
+}
+
+export interface GSCTransaction {
+  sender: string;
+  receiver: string;
+  amount: Amount;
+  fee: Amount;
+  timestamp: number;
+  signature: string;
+  tx_id: string;
+  public_key?: string;
+  // UTXO-style transactions only
+  inputs?: GSCTxInput[];
+  outputs?: GSCTxOutput[];
+  // Replace-by-fee replacements only
+  replaces?: string;
+  // Sender account nonce; absent on coinbases and legacy transactions
+  nonce?: number;
+  // Block height, or Unix time in seconds, before which it cannot be mined
+  lock_time?: number;
+  // Spends from multisig addresses only
+  multisig?: GSCMultisigPolicy;
+  signatures?: GSCMultisigSignature[];
+  // Spends from HTLC addresses only; `preimage` on claims
+  htlc?: GSCHtlcContract;
+  preimage?: string;
+  // Legacy address claims only (see legacy.ts): the commitment, then the revealed secret
+  claim_commitment?: string;
+  legacy_secret?: string;
+  // Encoding the id and signature are computed over; absent on legacy transactions
+  version?: number;
+}
+
+export interface GSCBlock {
+  index: number;
+  timestamp: number;
+  transactions: GSCTransaction[];
+  previous_hash: string;
+  nonce: number;
+  hash: string;
+  merkle_root: string;
+  difficulty: number;
+  miner: string;
+  reward: Amount;
+  // Encoding the hash is computed over; absent on legacy blocks
+  version?: number;
+}
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(raw: unknown): raw is RawRecord {
+  return typeof raw === 'object' && raw !== null;
+}
+
+function toNumber(value: unknown, fallback = 0): number {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+// Wire timestamps are fractional seconds; core timestamps are whole milliseconds.
+// Rounding makes ms -> s -> ms exact, so signatures over core fields survive storage.
+function secondsToMillis(seconds: number): number {
+  return Math.round(seconds * 1000);
+}
+
+export function isGSCTransaction(raw: unknown): raw is GSCTransaction {
+  return isRecord(raw) && ('tx_id' in raw || 'sender' in raw);
+}
+
+export function isGSCBlock(raw: unknown): raw is GSCBlock {
+  return isRecord(raw) && 'previous_hash' in raw;
+}
+
+export function fromGSCTransaction(tx: GSCTransaction, blockNumber?: number): Transaction {
+  const core: Transaction = {
+    id: tx.tx_id,
+    from: tx.sender,
+    to: tx.receiver,
+    amount: tx.amount,
+    fee: tx.fee,
+    timestamp: secondsToMillis(tx.timestamp),
+    publicKey: tx.public_key || undefined,
+    signature: tx.signature || undefined,
+    isCoinbase: isCoinbaseSender(tx.sender) || undefined,
+    status: blockNumber === undefined ? 'pending' : 'confirmed',
+    blockNumber,
+  };
+  if (tx.inputs && tx.outputs) {
+    core.inputs = tx.inputs.map(input => ({ txId: input.tx_id, outputIndex: input.output_index }));
+    core.outputs = tx.outputs.map(output => ({ address: output.address, amount: output.amount }));
+  }
+  if (tx.replaces) core.replaces = tx.replaces;
+  if (tx.nonce !== undefined) core.nonce = tx.nonce;
+  if (tx.lock_time) core.lockTime = tx.lock_time;
+  if (tx.multisig) core.multisig = { m: tx.multisig.m, publicKeys: [...tx.multisig.public_keys] };
+  if (tx.signatures) {
+    core.signatures = tx.signatures.map(entry => ({ publicKey: entry.public_key, signature: entry.signature }));
+  }
+  if (tx.htlc) {
+    const { sender, recipient, hash_lock: hashLock, timeout } = tx.htlc;
+    core.htlc = { sender, recipient, hashLock, timeout };
+  }
+  if (tx.preimage) core.preimage = tx.preimage;
+  if (tx.claim_commitment) core.claimCommitment = tx.claim_commitment;
+  if (tx.legacy_secret) core.legacySecret = tx.legacy_secret;
+  if (tx.version) core.version = tx.version;
+  return core;
+}
+
+export function toGSCTransaction(tx: Transaction): GSCTransaction {
+  const wire: GSCTransaction = {
+    sender: tx.from,
+    receiver: tx.to,
+    amount: tx.amount,
+    fee: tx.fee,
+    timestamp: tx.timestamp / 1000,
+    signature: tx.signature || '',
+    tx_id: tx.id,
+  };
+  if (tx.publicKey) wire.public_key = tx.publicKey;
+  if (tx.inputs && tx.outputs) {
+    wire.inputs = tx.inputs.map(input => ({ tx_id: input.txId, output_index: input.outputIndex }));
+    wire.outputs = tx.outputs.map(output => ({ address: output.address, amount: output.amount }));
+  }
+  if (tx.replaces) wire.replaces = tx.replaces;
+  if (tx.nonce !== undefined) wire.nonce = tx.nonce;
+  if (tx.lockTime) wire.lock_time = tx.lockTime;
+  if (tx.multisig) wire.multisig = { m: tx.multisig.m, public_keys: [...tx.multisig.publicKeys] };
+  if (tx.signatures) {
+    wire.signatures = tx.signatures.map(entry => ({ public_key: entry.publicKey, signature: entry.signature }));
+  }
+  if (tx.htlc) {
+    const { sender, recipient, hashLock, timeout } = tx.htlc;
+    wire.htlc = { sender, recipient, hash_lock: hashLock, timeout };
+  }
+  if (tx.preimage) wire.preimage = tx.preimage;
+  if (tx.claimCommitment) wire.claim_commitment = tx.claimCommitment;
+  if (tx.legacySecret) wire.legacy_secret = tx.legacySecret;
+  if (tx.version) wire.version = tx.version;
+  return wire;
+}
+
+export function fromGSCBlock(block: GSCBlock): Block {
+  const core: Block = {
+    index: block.index,
+    timestamp: secondsToMillis(block.timestamp),
+    transactions: block.transactions.map(tx => fromGSCTransaction(tx, block.index)),
+    previousHash: block.previous_hash,
+    hash: block.hash,
+    nonce: block.nonce,
+    difficulty: block.difficulty,
+    miner: block.miner,
+    reward: block.reward,
+    merkleRoot: block.merkle_root || undefined,
+  };
+  if (block.version) core.version = block.version;
+  return core;
+}
+
+export function toGSCBlock(block: Block): GSCBlock {
+  const wire: GSCBlock = {
+    index: block.index,
+    timestamp: block.timestamp / 1000,
+    transactions: block.transactions.map(toGSCTransaction),
+    previous_hash: block.previousHash,
+    nonce: block.nonce,
+    hash: block.hash,
+    merkle_root: block.merkleRoot || '',
+    difficulty: block.difficulty,
+    miner: block.miner,
+    reward: block.reward,
+  };
+  if (block.version) wire.version = block.version;
+  return wire;
+}
+
+function readOutputs(raw: unknown): TxOutput[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter(isRecord)
+    .map(output => ({ address: typeof output.address === 'string' ? output.address : '', amount: readAmount(output.amount) }));
+}
+
+// Inputs in either shape: { tx_id, output_index } or { txId, outputIndex }
+function readInputs(raw: unknown): TxInput[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter(isRecord).map(input => {
+    const txId = 'tx_id' in input ? input.tx_id : input.txId;
+    const outputIndex = 'output_index' in input ? input.output_index : input.outputIndex;
+    return { txId: typeof txId === 'string' ? txId : '', outputIndex: toNumber(outputIndex, -1) };
+  });
+}
+
+// A non-empty string, or undefined
+function readString(raw: unknown): string | undefined {
+  return typeof raw === 'string' && raw ? raw : undefined;
+}
+
+// Account nonces are non-negative integers; anything else is treated as absent
+function readNonce(raw: unknown): number | undefined {
+  const nonce = toNumber(raw, -1);
+  return Number.isSafeInteger(nonce) && nonce >= 0 ? nonce : undefined;
+}
+
+// Lock times are positive integers; 0 or anything unreadable means unlocked
+function readLockTime(raw: unknown): number | undefined {
+  const lockTime = toNumber(raw, 0);
+  return Number.isSafeInteger(lockTime) && lockTime > 0 ? lockTime : undefined;
+}
+
+// Encoding versions are positive integers; anything else means a legacy record
+function readVersion(raw: unknown): number | undefined {
+  const version = toNumber(raw, 0);
+  return Number.isSafeInteger(version) && version > 0 ? version : undefined;
+}
+
+// A multisig policy in either shape: { m, public_keys } or { m, publicKeys }
+function readMultisigPolicy(raw: unknown): MultisigPolicy | undefined {
+  if (!isRecord(raw)) return undefined;
+  const keys = 'public_keys' in raw ? raw.public_keys : raw.publicKeys;
+  if (!Array.isArray(keys)) return undefined;
+  return { m: toNumber(raw.m), publicKeys: keys.filter((key): key is string => typeof key === 'string') };
+}
+
+// Cosigner signatures in either shape: { public_key, signature } or { publicKey, signature }
+function readMultisigSignatures(raw: unknown): MultisigSignature[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter(isRecord).map(entry => {
+    const publicKey = 'public_key' in entry ? entry.public_key : entry.publicKey;
+    return {
+      publicKey: typeof publicKey === 'string' ? publicKey : '',
+      signature: typeof entry.signature === 'string' ? entry.signature : '',
+    };
+  });
+}
+
+// An HTLC contract in either shape: { hash_lock, ... } or { hashLock, ... }
+function readHtlcContract(raw: unknown): HtlcContract | undefined {
+  if (!isRecord(raw)) return undefined;
+  const hashLock = 'hash_lock' in raw ? raw.hash_lock : raw.hashLock;
+  if (typeof raw.sender !== 'string' || typeof raw.recipient !== 'string' || typeof hashLock !== 'string') {
+    return undefined;
+  }
+  return { sender: raw.sender, recipient: raw.recipient, hashLock, timeout: toNumber(raw.timeout) };
+}
+
+// Read a transaction in either shape into the wire format, or null if unrecognisable
+export function toWireTransaction(raw: unknown): GSCTransaction | null {
+  if (!isRecord(raw)) return null;
+  const inputs = readInputs(raw.inputs);
+  const outputs = readOutputs(raw.outputs);
+  const utxo = inputs && outputs ? { inputs, outputs } : {};
+  const replaces = typeof raw.replaces === 'string' && raw.replaces ? raw.replaces : undefined;
+  const nonce = readNonce(raw.nonce);
+  const lockTime = readLockTime('lock_time' in raw ? raw.lock_time : raw.lockTime);
+  const multisig = readMultisigPolicy(raw.multisig);
+  const signatures = readMultisigSignatures(raw.signatures);
+  const htlc = readHtlcContract(raw.htlc);
+  const preimage = typeof raw.preimage === 'string' && raw.preimage ? raw.preimage : undefined;
+  const claimCommitment = readString('claim_commitment' in raw ? raw.claim_commitment : raw.claimCommitment);
+  const legacySecret = readString('legacy_secret' in raw ? raw.legacy_secret : raw.legacySecret);
+  const version = readVersion(raw.version);
+
+  if (isGSCTransaction(raw)) {
+    if (typeof raw.tx_id !== 'string' || typeof raw.sender !== 'string' || typeof raw.receiver !== 'string') {
+      return null;
+    }
+    const wire: GSCTransaction = {
+      sender: raw.sender,
+      receiver: raw.receiver,
+      amount: readAmount(raw.amount),
+      fee: readAmount(raw.fee),
+      timestamp: toNumber(raw.timestamp),
+      signature: typeof raw.signature === 'string' ? raw.signature : '',
+      tx_id: raw.tx_id,
+    };
+    if (typeof raw.public_key === 'string' && raw.public_key) wire.public_key = raw.public_key;
+    if (inputs && outputs) {
+      wire.inputs = inputs.map(input => ({ tx_id: input.txId, output_index: input.outputIndex }));
+      wire.outputs = outputs;
+    }
+    if (replaces) wire.replaces = replaces;
+    if (nonce !== undefined) wire.nonce = nonce;
+    if (lockTime) wire.lock_time = lockTime;
+    if (multisig) wire.multisig = { m: multisig.m, public_keys: multisig.publicKeys };
+    if (signatures) {
+      wire.signatures = signatures.map(entry => ({ public_key: entry.publicKey, signature: entry.signature }));
+    }
+    if (htlc) wire.htlc = { sender: htlc.sender, recipient: htlc.recipient, hash_lock: htlc.hashLock, timeout: htlc.timeout };
+    if (preimage) wire.preimage = preimage;
+    if (claimCommitment) wire.claim_commitment = claimCommitment;
+    if (legacySecret) wire.legacy_secret = legacySecret;
+    if (version) wire.version = version;
+    return wire;
+  }
+
+  if (typeof raw.id !== 'string' || typeof raw.from !== 'string' || typeof raw.to !== 'string') {
+    return null;
+  }
+  return toGSCTransaction({
+    id: raw.id,
+    from: raw.from,
+    to: raw.to,
+    amount: readAmount(raw.amount),
+    fee: readAmount(raw.fee),
+    timestamp: toNumber(raw.timestamp),
+    publicKey: typeof raw.publicKey === 'string' ? raw.publicKey : undefined,
+    signature: typeof raw.signature === 'string' ? raw.signature : undefined,
+    status: 'pending',
+    ...utxo,
+    replaces,
+    nonce,
+    lockTime,
+    multisig,
+    signatures,
+    htlc,
+    preimage,
+    claimCommitment,
+    legacySecret,
+    version,
+  });
+}
+
+// Read a block in either shape into the wire format, or null if unrecognisable.
+// The positions of transactions that cannot be read are added to `unreadable`.
+export function toWireBlock(raw: unknown, unreadable: number[] = []): GSCBlock | null {
+  if (!isRecord(raw) || typeof raw.hash !== 'string') return null;
+
+  const transactions: GSCTransaction[] = [];
+  (Array.isArray(raw.transactions) ? raw.transactions : []).forEach((entry, txIndex) => {
+    const tx = toWireTransaction(entry);
+    if (tx) transactions.push(tx);
+    else unreadable.push(txIndex);
+  });
+
+  const gscShape = isGSCBlock(raw);
+  const previousHash = gscShape ? raw.previous_hash : raw.previousHash;
+  const merkleRoot = gscShape ? raw.merkle_root : raw.merkleRoot;
+  const timestamp = toNumber(raw.timestamp);
+  const version = readVersion(raw.version);
+
+  const wire: GSCBlock = {
+    index: toNumber(raw.index),
+    timestamp: gscShape ? timestamp : timestamp / 1000,
+    transactions,
+    previous_hash: typeof previousHash === 'string' ? previousHash : '0',
+    nonce: toNumber(raw.nonce),
+    hash: raw.hash,
+    merkle_root: typeof merkleRoot === 'string' ? merkleRoot : '',
+    difficulty: toNumber(raw.difficulty, 4),
+    miner: typeof raw.miner === 'string' ? raw.miner : '',
+    reward: readAmount(raw.reward),
+  };
+  if (version) wire.version = version;
+  return wire;
+}
+
+// An entry of a snapshot that could not be read, by its position in the snapshot
+export interface UnreadableEntry {
+  // Position in the chain, absent for pending transactions
+  blockIndex?: number;
+  // Position in the block, or in the mempool; absent for a whole block
+  txIndex?: number;
+}
+
+// Chain snapshot in the wire format: what localStorage, server snapshots and exports hold
+export interface ChainDocument {
+  chain: GSCBlock[];
+  pending_transactions: GSCTransaction[];
+  balances: Record<string, Amount>;
+  difficulty: number;
+  mining_reward: Amount;
+  total_supply: Amount;
+  // Set by readChainDocument when blocks or transactions had to be left out;
+  // the validator reports each of them
+  unreadable?: UnreadableEntry[];
+}
+
+// Read a chain snapshot whose blocks and transactions may be in either shape.
+// Local snapshots keep the mempool in "pending_transactions" (and may carry a
+// stale "mempool" copy); server snapshots may only have "mempool".
+export function readChainDocument(raw: unknown): ChainDocument {
+  const data = isRecord(raw) ? raw : {};
+  const pending = Array.isArray(data.pending_transactions) ? data.pending_transactions : data.mempool;
+
+  const balances: Record<string, Amount> = {};
+  if (isRecord(data.balances)) {
+    Object.entries(data.balances).forEach(([address, balance]) => {
+      balances[address] = readAmount(balance);
+    });
+  }
+
+  const unreadable: UnreadableEntry[] = [];
+  const chain: GSCBlock[] = [];
+  (Array.isArray(data.chain) ? data.chain : []).forEach((raw, blockIndex) => {
+    const txIndexes: number[] = [];
+    const block = toWireBlock(raw, txIndexes);
+    if (block) chain.push(block);
+    else unreadable.push({ blockIndex });
+    txIndexes.forEach(txIndex => unreadable.push({ blockIndex, txIndex }));
+  });
+  const pendingTransactions: GSCTransaction[] = [];
+  (Array.isArray(pending) ? pending : []).forEach((raw, txIndex) => {
+    const tx = toWireTransaction(raw);
+    if (tx) pendingTransactions.push(tx);
+    else unreadable.push({ txIndex });
+  });
+
+  const document: ChainDocument = {
+    chain,
+    pending_transactions: pendingTransactions,
+    balances,
+    difficulty: toNumber(data.difficulty, 4) || 4,
+    mining_reward: readAmount(data.mining_reward) || INITIAL_REWARD,
+    total_supply: readAmount(data.total_supply) || MAX_SUPPLY,
+  };
+  if (unreadable.length > 0) document.unreadable = unreadable;
+  return document;
+}
@@ -0,0 +1,112 @@
+// ============= AMOUNTS =============
+//
+// GSC amounts are whole base units held in a bigint: one GSC is COIN units,
+// eight decimal places. Sums and differences are exact at any size, and
+// MAX_SUPPLY in base units is far past Number.MAX_SAFE_INTEGER, so amounts
+// never pass through floating point: text goes through parseAmount and
+// formatAmount, and numbers only appear at the edges (JSON, Supabase rows).
+//
+// JSON has no bigint. Amounts are written as a GSC number where that number
+// reads back to exactly the same amount, which keeps files readable by the
+// desktop node, and as a decimal string otherwise; readAmount takes either.
+
+export type Amount = bigint;
+
+export const AMOUNT_DECIMALS = 8;
+export const COIN: Amount = 100_000_000n;
+
+const DECIMAL_PATTERN = /^(-)?(\d*)(?:\.(\d*))?$/;
+
+// A decimal GSC amount such as "12.5", "-3" or "0.00000001", or null when the
+// text is not a plain decimal or has more than eight decimal places
+export function parseAmount(text: string): Amount | null {
+  const match = DECIMAL_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const [, sign, whole, fraction = ''] = match;
+  if (!whole && !fraction) return null;
+  if (fraction.length > AMOUNT_DECIMALS) return null;
+  const units = BigInt(whole || '0') * COIN + BigInt(fraction.padEnd(AMOUNT_DECIMALS, '0'));
+  return sign ? -units : units;
+}
+
+export interface FormatAmountOptions {
+  // Decimal places shown, rounding half away from zero; all eight by default
+  decimals?: number;
+  // Drop trailing zeros after the point
+  trim?: boolean;
+  // Separate thousands with commas
+  grouped?: boolean;
+}
+
+export function formatAmount(amount: Amount, options: FormatAmountOptions = {}): string {
+  const { decimals = AMOUNT_DECIMALS, trim = false, grouped = false } = options;
+  const places = Math.max(0, Math.min(AMOUNT_DECIMALS, Math.floor(decimals)));
+  const step = 10n ** BigInt(AMOUNT_DECIMALS - places);
+  const magnitude = amount < 0n ? -amount : amount;
+  const rounded = ((magnitude + step / 2n) / step) * step;
+
+  let whole = (rounded / COIN).toString();
+  if (grouped) whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  let fraction = (rounded % COIN).toString().padStart(AMOUNT_DECIMALS, '0').slice(0, places);
+  if (trim) fraction = fraction.replace(/0+$/, '');
+
+  const sign = amount < 0n && rounded > 0n ? '-' : '';
+  return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+// The amount a GSC number stands for, rounded to the nearest base unit. The
+// number's shortest decimal form is what was written, so it is read as text:
+// 0.1 + 0.2 is 0.3 GSC, not the double nearest 0.30000000000000004.
+export function amountFromNumber(value: number): Amount {
+  if (!Number.isFinite(value)) throw new Error(`Not an amount: ${value}`);
+  const [mantissa, exponent = '0'] = Math.abs(value).toString().split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const digits = whole + fraction;
+  // How many leading digits are whole base units
+  const unitDigits = whole.length + Number(exponent) + AMOUNT_DECIMALS;
+  const kept = unitDigits > 0 ? digits.slice(0, unitDigits).padEnd(unitDigits, '0') : '0';
+  const next = unitDigits >= 0 ? Number(digits[unitDigits] ?? 0) : 0;
+  const units = BigInt(kept) + (next >= 5 ? 1n : 0n);
+  return value < 0 ? -units : units;
+}
+
+// The nearest GSC number, for display scales and ratios rather than arithmetic
+export function amountToNumber(amount: Amount): number {
+  return Number(formatAmount(amount, { trim: true }));
+}
+
+// The JSON form of an amount: a GSC number if it reads back exactly, else a decimal string
+export function amountToJson(amount: Amount): number | string {
+  const value = amountToNumber(amount);
+  return amountFromNumber(value) === amount ? value : formatAmount(amount, { trim: true });
+}
+
+// An amount stored as a bigint, a GSC number or a decimal string; `fallback` if unreadable
+export function readAmount(raw: unknown, fallback: Amount = 0n): Amount {
+  if (typeof raw === 'bigint') return raw;
+  if (typeof raw === 'number') return Number.isFinite(raw) ? amountFromNumber(raw) : fallback;
+  if (typeof raw === 'string') return parseAmount(raw) ?? fallback;
+  return fallback;
+}
+
+// JSON.stringify for values holding amounts, which it cannot serialise itself
+export function stringifyWithAmounts(value: unknown, space?: number): string {
+  return JSON.stringify(value, (_key, field) => (typeof field === 'bigint' ? amountToJson(field) : field), space);
+}
+
+export function sumAmounts(amounts: Amount[]): Amount {
+  return amounts.reduce((sum, amount) => sum + amount, 0n);
+}
+
+// Ascending order, for Array.prototype.sort
+export function compareAmounts(a: Amount, b: Amount): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function minAmount(first: Amount, ...rest: Amount[]): Amount {
+  return rest.reduce((min, amount) => (amount < min ? amount : min), first);
+}
+
+export function maxAmount(first: Amount, ...rest: Amount[]): Amount {
+  return rest.reduce((max, amount) => (amount > max ? amount : max), first);
+}
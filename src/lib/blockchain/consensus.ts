@@ -0,0 +1,263 @@
+// ============= CONSENSUS RULES =============
+
+import { getPublicKey, serializeForSigning, sha256Hex, signMessage, utf8ToBytes, verifySignature } from '../crypto';
+import { SYSTEM_ADDRESSES, addressMatchesPublicKey, isHtlcAddress, isMultisigAddress } from '../address';
+import { Amount, COIN, amountToNumber, sumAmounts } from './amount';
+import { INITIAL_DIFFICULTY, MAX_FUTURE_BLOCK_TIME, getMedianTimePast } from './difficulty';
+import {
+  ENCODING_VERSION,
+  computeTransactionId,
+  encodeBlockHeader,
+  encodeUnsignedTransaction,
+  getBlockWeight,
+  getTransactionSize,
+  headerNonceTemplate,
+} from './encoding';
+import { NonceTemplate, hashBytes, splitAroundNonce } from './hashing';
+import { verifyHtlcSpend } from './htlc';
+import { calculateMerkleRoot } from './merkle';
+import { getValidSigners, policyMatchesAddress } from './multisig';
+import type { Block, Transaction } from './types';
+
+// Constants
+export const INITIAL_REWARD: Amount = 50n * COIN;
+export const HALVING_INTERVAL = 210000;
+export const MAX_SUPPLY: Amount = 21_750_000_000_000n * COIN; // 21.75 trillion GSC
+export const MAX_TRANSACTIONS_PER_BLOCK = 1000;
+// Bytes of a block's encoding (see getBlockWeight), and of any one transaction in it
+export const MAX_BLOCK_WEIGHT = 1_000_000;
+export const MAX_TRANSACTION_SIZE = 100_000;
+
+// SHA-256 hash function
+export async function sha256(message: string): Promise<string> {
+  const msgBuffer = new TextEncoder().encode(message);
+  const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Coinbase and genesis allocations are issued by system senders rather than wallets
+export function isCoinbaseSender(address: string): boolean {
+  return SYSTEM_ADDRESSES.includes(address);
+}
+
+// Header of a block from before the binary encoding, as JSON. Headers commit to
+// their transactions through the Merkle root; blocks mined before it existed
+// hashed the list of tx ids instead.
+function legacyHeaderPreimage(block: Omit<Block, 'hash'>): string {
+  const commitment = block.merkleRoot
+    ? { merkleRoot: block.merkleRoot }
+    : { transactions: block.transactions.map(tx => tx.id) };
+  return JSON.stringify({
+    index: block.index,
+    timestamp: block.timestamp,
+    ...commitment,
+    previousHash: block.previousHash,
+    nonce: block.nonce,
+    difficulty: block.difficulty,
+    miner: block.miner,
+  });
+}
+
+// The bytes the block hash is computed over: the encoded header (see
+// encoding.ts), or the JSON header of a block that predates it
+export function blockHashPreimage(block: Omit<Block, 'hash'>): Uint8Array {
+  return block.version ? encodeBlockHeader(block) : utf8ToBytes(legacyHeaderPreimage(block));
+}
+
+// The preimage around its nonce, for the nonce search
+export function blockNonceTemplate(block: Omit<Block, 'hash'>): NonceTemplate {
+  return block.version ? headerNonceTemplate(block) : splitAroundNonce(legacyHeaderPreimage({ ...block, nonce: 0 }));
+}
+
+// Calculate block hash with the active hash engine (used by validation as well as mining)
+export async function calculateBlockHash(block: Omit<Block, 'hash'>): Promise<string> {
+  return hashBytes(blockHashPreimage(block));
+}
+
+// Calculate mining reward based on halving, rounded down to a whole base unit
+export function calculateMiningReward(blockHeight: number): Amount {
+  const halvings = Math.floor(blockHeight / HALVING_INTERVAL);
+  if (halvings >= 64) return 0n;
+  return INITIAL_REWARD >> BigInt(halvings);
+}
+
+// Fees paid by the wallet transactions of `block`, which its coinbase may collect
+export function getBlockFees(block: Pick<Block, 'transactions'>): Amount {
+  return sumAmounts(block.transactions.filter(tx => !isCoinbaseSender(tx.from)).map(tx => tx.fee));
+}
+
+// What the coinbase (or genesis allocations) of `block` credits, counted the way
+// the ledger credits it: UTXO-style coinbases through their outputs
+export function getCoinbaseAmount(block: Pick<Block, 'transactions'>): Amount {
+  return sumAmounts(block.transactions
+    .filter(tx => isCoinbaseSender(tx.from))
+    .map(tx => (Array.isArray(tx.inputs) && Array.isArray(tx.outputs)
+      ? sumAmounts(tx.outputs.map(output => output.amount))
+      : tx.amount)));
+}
+
+// Every client bootstraps the same genesis block, so chains started apart can
+// still be merged. GENESIS_HASH is its hash under the current header encoding.
+export const GENESIS_TIMESTAMP = Date.UTC(2025, 0, 1);
+export const GENESIS_HASH = 'c47e21b96ada41eb67d3ba7eb3797d27f43a19e4c4e1b571cce993af42aa12c1';
+
+// Create genesis block (synchronous so storage can bootstrap an empty chain)
+export function createGenesisBlock(): Block {
+  const genesisBlock: Omit<Block, 'hash'> = {
+    version: ENCODING_VERSION,
+    index: 0,
+    timestamp: GENESIS_TIMESTAMP,
+    transactions: [],
+    previousHash: '0'.repeat(64),
+    nonce: 0,
+    difficulty: INITIAL_DIFFICULTY,
+    miner: 'GENESIS',
+    reward: 0n,
+    merkleRoot: calculateMerkleRoot([]),
+  };
+
+  return { ...genesisBlock, hash: sha256Hex(blockHashPreimage(genesisBlock)) };
+}
+
+// The block within MAX_BLOCK_WEIGHT, and every transaction in it within MAX_TRANSACTION_SIZE
+export function validateBlockSize(block: Block): boolean {
+  const weight = getBlockWeight(block);
+  if (weight > MAX_BLOCK_WEIGHT) {
+    console.error(`Block weight ${weight} exceeds the maximum of ${MAX_BLOCK_WEIGHT}`);
+    return false;
+  }
+  const oversized = block.transactions.find(tx => getTransactionSize(tx) > MAX_TRANSACTION_SIZE);
+  if (oversized) {
+    console.error(`Transaction ${oversized.id} is ${getTransactionSize(oversized)} bytes, over the maximum of ${MAX_TRANSACTION_SIZE}`);
+    return false;
+  }
+  return true;
+}
+
+// A block must be stamped after the median time past of `chain`, the blocks
+// before it, and at most MAX_FUTURE_BLOCK_TIME ahead of `now`
+export function validateBlockTimestamp(block: Block, chain: Block[], now: number = Date.now()): boolean {
+  const medianTimePast = getMedianTimePast(chain);
+  if (block.timestamp <= medianTimePast) {
+    console.error(`Block timestamp ${new Date(block.timestamp).toLocaleString()} is not after the median time past ${new Date(medianTimePast).toLocaleString()}`);
+    return false;
+  }
+  if (block.timestamp > now + MAX_FUTURE_BLOCK_TIME) {
+    console.error(`Block timestamp ${new Date(block.timestamp).toLocaleString()} is more than ${MAX_FUTURE_BLOCK_TIME / 60_000} minutes ahead`);
+    return false;
+  }
+  return true;
+}
+
+// Fields covered by a transaction signature, in canonical form: the unsigned
+// encoding (see encoding.ts), whose hash is also the id. Transactions from
+// before it sign a JSON payload that names the id instead, in which inputs and
+// outputs are only present (and only signed) on UTXO-style transactions,
+// `replaces` only on replacements, `preimage` only on HTLC claims, and `nonce`
+// on everything but coinbases and legacy transactions.
+export function transactionSigningPayload(tx: Transaction): Uint8Array {
+  if (tx.version) return encodeUnsignedTransaction(tx);
+  return serializeForSigning({
+    id: tx.id,
+    from: tx.from,
+    to: tx.to,
+    amount: amountToNumber(tx.amount),
+    fee: amountToNumber(tx.fee),
+    timestamp: tx.timestamp,
+    inputs: tx.inputs?.map(input => `${input.txId}:${input.outputIndex}`).join(','),
+    outputs: tx.outputs?.map(output => `${output.address}:${amountToNumber(output.amount)}`).join(','),
+    replaces: tx.replaces,
+    nonce: tx.nonce,
+    lockTime: tx.lockTime,
+    preimage: tx.preimage,
+  });
+}
+
+// Verify signature against the sender's public key, and that the key owns the sender address.
+// A multisig sender needs the policy its address commits to and m valid cosigner signatures;
+// an HTLC sender the contract and the signature of the party taking the funds.
+export function verifyTransactionSignature(tx: Transaction): boolean {
+  // The signature does not cover the id of an encoded transaction, its content does
+  if (tx.version && tx.id !== computeTransactionId(tx)) return false;
+  if (isHtlcAddress(tx.from)) return verifyHtlcSpend(tx, transactionSigningPayload(tx));
+  if (isMultisigAddress(tx.from)) {
+    if (!tx.multisig || !tx.signatures || !policyMatchesAddress(tx.multisig, tx.from)) return false;
+    return getValidSigners(tx.multisig, transactionSigningPayload(tx), tx.signatures).length >= tx.multisig.m;
+  }
+  if (!tx.signature || !tx.publicKey) return false;
+  if (!addressMatchesPublicKey(tx.from, tx.publicKey)) return false;
+  return verifySignature(tx.signature, transactionSigningPayload(tx), tx.publicKey);
+}
+
+// A block's coinbase: its first transaction, paid by a system sender. It is the
+// only transaction that needs no signature (the full validator caps what it pays).
+export function isBlockCoinbase(tx: Transaction, position: number): boolean {
+  return position === 0 && isCoinbaseSender(tx.from);
+}
+
+// Validate a wallet transaction. Without `senderBalance` funding is left to the mempool policy.
+// Coinbases exist only inside blocks (see isBlockCoinbase), so a transaction
+// flagged as one or paid by a system sender is rejected rather than trusted.
+// Legacy address commitments (see legacy.ts) are the only zero-value transactions.
+export function validateTransaction(tx: Transaction, senderBalance?: Amount): boolean {
+  if (tx.isCoinbase || isCoinbaseSender(tx.from)) return false;
+  if (tx.claimCommitment ? tx.amount !== 0n : tx.amount <= 0n) return false;
+  if (tx.fee < 0n) return false;
+  // UTXO-style transactions are funded by their inputs instead (see validateUtxoTransaction)
+  if (!tx.inputs && senderBalance !== undefined && tx.amount + tx.fee > senderBalance) return false;
+  if (!verifyTransactionSignature(tx)) return false;
+  return true;
+}
+
+// Create transaction. `nonce` is the sender's next account nonce (see nonces.ts);
+// `lockTime` holds it back until a block height or Unix time (see locktime.ts).
+export async function createTransaction(
+  from: string,
+  to: string,
+  amount: Amount,
+  fee: Amount,
+  nonce?: number,
+  lockTime?: number
+): Promise<Transaction> {
+  const tx: Transaction = {
+    version: ENCODING_VERSION,
+    id: '',
+    from,
+    to,
+    amount,
+    fee,
+    timestamp: Date.now(),
+    status: 'pending',
+  };
+  if (nonce !== undefined) tx.nonce = nonce;
+  if (lockTime) tx.lockTime = lockTime;
+  return { ...tx, id: computeTransactionId(tx) };
+}
+
+// Create coinbase transaction
+export async function createCoinbaseTransaction(
+  minerAddress: string,
+  reward: Amount,
+  totalFees: Amount
+): Promise<Transaction> {
+  const tx: Transaction = {
+    version: ENCODING_VERSION,
+    id: '',
+    from: 'NETWORK',
+    to: minerAddress,
+    amount: reward + totalFees,
+    fee: 0n,
+    timestamp: Date.now(),
+    isCoinbase: true,
+    status: 'confirmed',
+  };
+  return { ...tx, id: computeTransactionId(tx) };
+}
+
+// Sign transaction with the sender's secp256k1 private key
+export async function signTransaction(tx: Transaction, privateKey: string): Promise<Transaction> {
+  const publicKey = getPublicKey(privateKey);
+  const signature = signMessage(transactionSigningPayload(tx), privateKey);
+  return { ...tx, publicKey, signature };
+}
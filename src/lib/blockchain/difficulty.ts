@@ -0,0 +1,128 @@
+// ============= DIFFICULTY =============
+//
+// Difficulty is a number, not a hash prefix. A block of difficulty d must hash
+// below 16^(64 - d), so whole numbers keep the old "d leading zeros" meaning
+// (5 = "00000...") while fractional values allow fine-grained retargets. The
+// expected work for a block is 16^d hashes.
+// Retargets are computed from block timestamps, so a block must be stamped after
+// the median of the blocks before it and not far ahead of the validating clock.
+
+import type { Block } from './types';
+
+export const INITIAL_DIFFICULTY = 5;
+export const MIN_DIFFICULTY = 1;
+export const RETARGET_INTERVAL = 10; // blocks
+export const TARGET_BLOCK_TIME = 60_000; // ms
+// A single retarget moves the expected work by at most this factor either way
+export const MAX_RETARGET_FACTOR = 4;
+// Blocks whose median timestamp a new block must come after
+export const MEDIAN_TIME_SPAN = 11;
+// How far ahead of the validating clock a block may be stamped, ms
+export const MAX_FUTURE_BLOCK_TIME = 5 * TARGET_BLOCK_TIME;
+
+// Retargets are rounded so every client derives exactly the same value
+const DIFFICULTY_PRECISION = 1e4;
+
+export interface RetargetInfo {
+  // Difficulty the next block must be mined at
+  nextDifficulty: number;
+  nextRetargetHeight: number;
+  blocksUntilRetarget: number;
+  // Average spacing of the blocks since the last retarget, null before there are two
+  averageBlockTime: number | null;
+  // Difficulty the next retarget would pick if blocks keep their current pace
+  projectedDifficulty: number;
+}
+
+function roundDifficulty(difficulty: number): number {
+  return Math.round(difficulty * DIFFICULTY_PRECISION) / DIFFICULTY_PRECISION;
+}
+
+// 16^(64 - d) = 2^(256 - 4d), built from a 52-bit mantissa so fractional d keeps its precision
+export function difficultyToTarget(difficulty: number): bigint {
+  const bits = 256 - 4 * Math.max(0, difficulty);
+  const wholeBits = Math.floor(bits);
+  const mantissa = BigInt(Math.round(Math.pow(2, bits - wholeBits + 52)));
+  return wholeBits >= 52 ? mantissa << BigInt(wholeBits - 52) : mantissa >> BigInt(52 - wholeBits);
+}
+
+export function meetsDifficulty(hash: string, difficulty: number): boolean {
+  if (!/^[0-9a-fA-F]{64}$/.test(hash)) return false;
+  return BigInt('0x' + hash) < difficultyToTarget(difficulty);
+}
+
+// Expected hashes to find a block at this difficulty
+export function expectedHashes(difficulty: number): number {
+  return Math.pow(16, difficulty);
+}
+
+// Scale difficulty so blocks that took `actual` ms would have taken `expected` ms
+function retarget(difficulty: number, actual: number, expected: number): number {
+  const factor = Math.min(MAX_RETARGET_FACTOR, Math.max(1 / MAX_RETARGET_FACTOR, expected / Math.max(1, actual)));
+  return roundDifficulty(Math.max(MIN_DIFFICULTY, difficulty + Math.log(factor) / Math.log(16)));
+}
+
+// Block time over the retarget window ending at `end` (exclusive), clipped at genesis
+function windowTiming(chain: Block[], end: number): { actual: number; expected: number } | null {
+  const start = Math.max(0, end - 1 - RETARGET_INTERVAL);
+  const intervals = end - 1 - start;
+  if (intervals < 1) return null;
+  return {
+    actual: chain[end - 1].timestamp - chain[start].timestamp,
+    expected: intervals * TARGET_BLOCK_TIME,
+  };
+}
+
+// Difficulty a block at `height` must carry. Heights on a retarget boundary
+// adjust from the preceding window; every other block keeps its parent's.
+export function getExpectedDifficulty(chain: Block[], height: number): number {
+  if (height <= 0 || chain.length === 0) return chain[0]?.difficulty ?? INITIAL_DIFFICULTY;
+  const previous = chain[height - 1];
+  if (height % RETARGET_INTERVAL !== 0) return previous.difficulty;
+
+  const timing = windowTiming(chain, height);
+  return timing ? retarget(previous.difficulty, timing.actual, timing.expected) : previous.difficulty;
+}
+
+// Median timestamp of the MEDIAN_TIME_SPAN blocks before `height`. No single
+// miner's clock moves it, so later blocks must come after it and time locks are
+// judged against it (see locktime.ts). 0 before the genesis block.
+export function getMedianTimePast(chain: Block[], height: number = chain.length): number {
+  const times = chain
+    .slice(Math.max(0, height - MEDIAN_TIME_SPAN), height)
+    .map(block => block.timestamp)
+    .sort((a, b) => a - b);
+  return times.length > 0 ? times[Math.floor(times.length / 2)] : 0;
+}
+
+export function getNextDifficulty(chain: Block[]): number {
+  return getExpectedDifficulty(chain, chain.length);
+}
+
+export function getRetargetInfo(chain: Block[]): RetargetInfo {
+  const height = chain.length;
+  const nextRetargetHeight = Math.ceil(height / RETARGET_INTERVAL) * RETARGET_INTERVAL || RETARGET_INTERVAL;
+  const nextDifficulty = getNextDifficulty(chain);
+
+  // Blocks mined since the last retarget (the genesis block's timestamp is its creation, not a mining time)
+  const windowStart = Math.max(1, nextRetargetHeight - RETARGET_INTERVAL);
+  const recent = chain.slice(windowStart);
+  const averageBlockTime = recent.length >= 2
+    ? (recent[recent.length - 1].timestamp - recent[0].timestamp) / (recent.length - 1)
+    : null;
+
+  return {
+    nextDifficulty,
+    nextRetargetHeight,
+    blocksUntilRetarget: nextRetargetHeight - height,
+    averageBlockTime,
+    projectedDifficulty: averageBlockTime === null
+      ? nextDifficulty
+      : retarget(nextDifficulty, averageBlockTime, TARGET_BLOCK_TIME),
+  };
+}
+
+// Expected time to mine the next block at a given hash rate (hashes per second)
+export function estimateBlockTime(difficulty: number, hashRate: number): number | null {
+  return hashRate > 0 ? (expectedHashes(difficulty) / hashRate) * 1000 : null;
+}
@@ -0,0 +1,95 @@
+// ============= EMISSION =============
+//
+// New coins only enter through system senders: genesis allocations, then one
+// coinbase per block paying the subsidy for its height plus the fees it
+// collects. The subsidy halves every HALVING_INTERVAL blocks. Fees only move
+// coins that already exist, so a block issues its coinbase minus its fees, and
+// the chain as a whole may never issue more than MAX_SUPPLY: the subsidy that
+// would cross the cap is cut short to land on it, and nothing is paid after.
+// The schedule below is the actual supply up to the tip and the subsidies
+// still to come beyond it.
+
+import { Amount, formatAmount, maxAmount, minAmount, sumAmounts } from './amount';
+import { HALVING_INTERVAL, MAX_SUPPLY, calculateMiningReward, getBlockFees, getCoinbaseAmount } from './consensus';
+import type { Block } from './types';
+
+// Halvings after which the subsidy is zero (see calculateMiningReward)
+const LAST_ERA = 64;
+
+export interface EmissionPoint {
+  height: number;
+  // Subsidy of the block at `height`
+  subsidy: Amount;
+  // Coins issued once the block at `height` is in
+  supply: Amount;
+  // Beyond the tip: what the schedule will issue if every block takes its full subsidy
+  projected: boolean;
+}
+
+// New coins created by `block`
+export function getBlockIssuance(block: Block): Amount {
+  return maxAmount(0n, getCoinbaseAmount(block) - getBlockFees(block));
+}
+
+export function getIssuedSupply(blocks: Block[]): Amount {
+  return sumAmounts(blocks.map(getBlockIssuance));
+}
+
+// The subsidy a block at `height` may claim once `issued` coins exist
+export function getBlockSubsidy(height: number, issued: Amount): Amount {
+  return minAmount(calculateMiningReward(height), maxAmount(0n, MAX_SUPPLY - issued));
+}
+
+export function getNextHalvingHeight(height: number): number {
+  return (Math.floor(height / HALVING_INTERVAL) + 1) * HALVING_INTERVAL;
+}
+
+// Full subsidies of the blocks `from` to `to`, inclusive, one era at a time
+function sumSubsidies(from: number, to: number): Amount {
+  let total = 0n;
+  for (let start = from; start <= to && start < LAST_ERA * HALVING_INTERVAL; start = getNextHalvingHeight(start)) {
+    const end = Math.min(to, getNextHalvingHeight(start) - 1);
+    total += BigInt(end - start + 1) * calculateMiningReward(start);
+  }
+  return total;
+}
+
+// Coins issued once the block at `height` is in: counted from `blocks` up to
+// its tip, projected with full subsidies past it
+export function getProjectedSupply(blocks: Block[], height: number): Amount {
+  if (height < blocks.length) return getIssuedSupply(blocks.slice(0, height + 1));
+  const issued = getIssuedSupply(blocks);
+  return issued + minAmount(sumSubsidies(blocks.length, height), maxAmount(0n, MAX_SUPPLY - issued));
+}
+
+// The tip, then each of the next `halvings` halving heights while the subsidy lasts
+export function getEmissionSchedule(blocks: Block[], halvings = 8): EmissionPoint[] {
+  const tip = blocks.length - 1;
+  const issued = getIssuedSupply(blocks);
+  const schedule: EmissionPoint[] = [];
+  if (tip >= 0) {
+    const subsidy = getBlockSubsidy(tip, issued - getBlockIssuance(blocks[tip]));
+    schedule.push({ height: tip, subsidy, supply: issued, projected: false });
+  }
+
+  let height = getNextHalvingHeight(Math.max(tip, 0));
+  for (let i = 0; i < halvings && height < LAST_ERA * HALVING_INTERVAL; i++) {
+    const supply = getProjectedSupply(blocks, height);
+    const before = getProjectedSupply(blocks, height - 1);
+    schedule.push({ height, subsidy: getBlockSubsidy(height, before), supply, projected: true });
+    if (supply >= MAX_SUPPLY) break;
+    height = getNextHalvingHeight(height);
+  }
+  return schedule;
+}
+
+// `block` may not take issuance on top of `chain` (its ancestors) past MAX_SUPPLY
+export function validateBlockIssuance(block: Block, chain: Block[]): boolean {
+  const issued = getIssuedSupply(chain);
+  const total = issued + getBlockIssuance(block);
+  if (total > MAX_SUPPLY) {
+    console.error(`Block ${block.index} would issue ${formatAmount(total)} GSC, past the ${formatAmount(MAX_SUPPLY, { decimals: 0, grouped: true })} GSC cap`);
+    return false;
+  }
+  return true;
+}
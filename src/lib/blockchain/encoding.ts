@@ -0,0 +1,386 @@
+// ============= CANONICAL ENCODING =============
+//
+// A versioned binary encoding of transactions and blocks: the bytes their ids,
+// signatures, Merkle leaves and proof of work are computed over. Every
+// encoding starts with ENCODING_VERSION and a bitmask of the optional fields
+// present, then lists the fields in a fixed order:
+//   integers  heights, nonces, counts and indices, as unsigned LEB128
+//   amounts   base units, zigzag-mapped to unsigned (so a negative amount
+//             still has an encoding and fails validation) and LEB128
+//   numbers   timestamps and difficulty, as big-endian doubles
+//   strings   UTF-8, prefixed with their length in bytes
+// so a transaction gives the same bytes whatever key order or number
+// formatting it arrived in. The block nonce is the last 8 bytes of the
+// header, which lets mining absorb everything before it once per job.
+// Transaction sizes and block weights are counted in these bytes as well.
+//
+// Transactions and blocks record in `version` the encoding their id or hash
+// is computed over. Those without one predate it and keep their JSON
+// preimages (see consensus.ts and merkle.ts).
+
+import { sha256Hex, utf8ToBytes } from '../crypto';
+import type { Amount } from './amount';
+import type { NonceTemplate } from './hashing';
+import type { Block, Transaction } from './types';
+
+export const ENCODING_VERSION = 1;
+
+// Optional transaction fields, written in this order after the required ones
+const TX_PUBLIC_KEY = 1 << 0;
+const TX_SIGNATURE = 1 << 1;
+const TX_COINBASE = 1 << 2;
+const TX_UTXO = 1 << 3;
+const TX_REPLACES = 1 << 4;
+const TX_NONCE = 1 << 5;
+const TX_LOCK_TIME = 1 << 6;
+const TX_MULTISIG = 1 << 7;
+const TX_SIGNATURES = 1 << 8;
+const TX_HTLC = 1 << 9;
+const TX_PREIMAGE = 1 << 10;
+const TX_CLAIM_COMMITMENT = 1 << 11;
+const TX_LEGACY_SECRET = 1 << 12;
+
+// What a signature cannot cover: the keys and signatures themselves, and the
+// multisig policy or HTLC contract the sending address already commits to
+const TX_WITNESS = TX_PUBLIC_KEY | TX_SIGNATURE | TX_MULTISIG | TX_SIGNATURES | TX_HTLC;
+
+const BLOCK_MERKLE_ROOT = 1 << 0;
+
+const NONCE_BYTES = 8;
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  varint(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) throw new Error(`Expected a non-negative integer, got ${value}`);
+    let rest = value;
+    while (rest >= 0x80) {
+      this.byte((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.byte(rest);
+  }
+
+  amount(value: Amount): void {
+    let rest = value < 0n ? -value * 2n - 1n : value * 2n;
+    while (rest >= 0x80n) {
+      this.byte(Number(rest & 0x7fn) | 0x80);
+      rest >>= 7n;
+    }
+    this.byte(Number(rest));
+  }
+
+  double(value: number): void {
+    const view = new DataView(new ArrayBuffer(8));
+    // -0 and 0 are the same number
+    view.setFloat64(0, value === 0 ? 0 : value);
+    for (let i = 0; i < 8; i++) this.byte(view.getUint8(i));
+  }
+
+  string(value: string): void {
+    const encoded = utf8ToBytes(value);
+    this.varint(encoded.length);
+    encoded.forEach(byte => this.byte(byte));
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) throw new Error('Unexpected end of encoding');
+    return this.bytes[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    for (let scale = 1; ; scale *= 0x80) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (!Number.isSafeInteger(value)) throw new Error('Integer out of range');
+      if (byte < 0x80) {
+        // A trailing zero group would give the same value a second encoding
+        if (byte === 0 && scale > 1) throw new Error('Non-canonical integer');
+        return value;
+      }
+    }
+  }
+
+  amount(): Amount {
+    let value = 0n;
+    for (let shift = 0n; ; shift += 7n) {
+      const byte = this.byte();
+      value |= BigInt(byte & 0x7f) << shift;
+      if (byte < 0x80) {
+        if (byte === 0 && shift > 0n) throw new Error('Non-canonical integer');
+        break;
+      }
+    }
+    return value % 2n === 0n ? value / 2n : -(value + 1n) / 2n;
+  }
+
+  double(): number {
+    const view = new DataView(new ArrayBuffer(8));
+    for (let i = 0; i < 8; i++) view.setUint8(i, this.byte());
+    return view.getFloat64(0);
+  }
+
+  string(): string {
+    const length = this.varint();
+    if (this.offset + length > this.bytes.length) throw new Error('Unexpected end of encoding');
+    const value = new TextDecoder('utf-8', { fatal: true }).decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+
+  version(): void {
+    const version = this.byte();
+    if (version !== ENCODING_VERSION) throw new Error(`Unsupported encoding version ${version}`);
+  }
+
+  end(): void {
+    if (this.offset !== this.bytes.length) throw new Error('Trailing bytes after the encoding');
+  }
+}
+
+function transactionFlags(tx: Transaction): number {
+  let flags = 0;
+  if (tx.publicKey) flags |= TX_PUBLIC_KEY;
+  if (tx.signature) flags |= TX_SIGNATURE;
+  if (tx.isCoinbase) flags |= TX_COINBASE;
+  if (tx.inputs && tx.outputs) flags |= TX_UTXO;
+  if (tx.replaces) flags |= TX_REPLACES;
+  if (tx.nonce !== undefined) flags |= TX_NONCE;
+  if (tx.lockTime) flags |= TX_LOCK_TIME;
+  if (tx.multisig) flags |= TX_MULTISIG;
+  if (tx.signatures) flags |= TX_SIGNATURES;
+  if (tx.htlc) flags |= TX_HTLC;
+  if (tx.preimage) flags |= TX_PREIMAGE;
+  if (tx.claimCommitment) flags |= TX_CLAIM_COMMITMENT;
+  if (tx.legacySecret) flags |= TX_LEGACY_SECRET;
+  return flags;
+}
+
+// Transaction fields after the encoding version. `withId` leaves out the id,
+// which is derived from the rest, and `mask` the optional fields not wanted.
+function writeTransaction(writer: ByteWriter, tx: Transaction, withId: boolean, mask: number): void {
+  const flags = transactionFlags(tx) & mask;
+  writer.varint(flags);
+  writer.varint(tx.version ?? 0);
+  if (withId) writer.string(tx.id);
+  writer.string(tx.from);
+  writer.string(tx.to);
+  writer.amount(tx.amount);
+  writer.amount(tx.fee);
+  writer.double(tx.timestamp);
+
+  if (flags & TX_PUBLIC_KEY) writer.string(tx.publicKey!);
+  if (flags & TX_SIGNATURE) writer.string(tx.signature!);
+  if (flags & TX_UTXO) {
+    writer.varint(tx.inputs!.length);
+    tx.inputs!.forEach(input => {
+      writer.string(input.txId);
+      writer.varint(input.outputIndex);
+    });
+    writer.varint(tx.outputs!.length);
+    tx.outputs!.forEach(output => {
+      writer.string(output.address);
+      writer.amount(output.amount);
+    });
+  }
+  if (flags & TX_REPLACES) writer.string(tx.replaces!);
+  if (flags & TX_NONCE) writer.varint(tx.nonce!);
+  if (flags & TX_LOCK_TIME) writer.varint(tx.lockTime!);
+  if (flags & TX_MULTISIG) {
+    writer.varint(tx.multisig!.m);
+    writer.varint(tx.multisig!.publicKeys.length);
+    tx.multisig!.publicKeys.forEach(key => writer.string(key));
+  }
+  if (flags & TX_SIGNATURES) {
+    writer.varint(tx.signatures!.length);
+    tx.signatures!.forEach(entry => {
+      writer.string(entry.publicKey);
+      writer.string(entry.signature);
+    });
+  }
+  if (flags & TX_HTLC) {
+    writer.string(tx.htlc!.sender);
+    writer.string(tx.htlc!.recipient);
+    writer.string(tx.htlc!.hashLock);
+    writer.varint(tx.htlc!.timeout);
+  }
+  if (flags & TX_PREIMAGE) writer.string(tx.preimage!);
+  if (flags & TX_CLAIM_COMMITMENT) writer.string(tx.claimCommitment!);
+  if (flags & TX_LEGACY_SECRET) writer.string(tx.legacySecret!);
+}
+
+// Status and block number are bookkeeping rather than content, so the result
+// is pending unless read as part of a block
+function readTransaction(reader: ByteReader, blockNumber?: number): Transaction {
+  const flags = reader.varint();
+  const version = reader.varint();
+  const tx: Transaction = {
+    id: reader.string(),
+    from: reader.string(),
+    to: reader.string(),
+    amount: reader.amount(),
+    fee: reader.amount(),
+    timestamp: reader.double(),
+    status: blockNumber === undefined ? 'pending' : 'confirmed',
+  };
+  if (blockNumber !== undefined) tx.blockNumber = blockNumber;
+  if (version) tx.version = version;
+
+  if (flags & TX_PUBLIC_KEY) tx.publicKey = reader.string();
+  if (flags & TX_SIGNATURE) tx.signature = reader.string();
+  if (flags & TX_COINBASE) tx.isCoinbase = true;
+  if (flags & TX_UTXO) {
+    tx.inputs = Array.from({ length: reader.varint() }, () => ({ txId: reader.string(), outputIndex: reader.varint() }));
+    tx.outputs = Array.from({ length: reader.varint() }, () => ({ address: reader.string(), amount: reader.amount() }));
+  }
+  if (flags & TX_REPLACES) tx.replaces = reader.string();
+  if (flags & TX_NONCE) tx.nonce = reader.varint();
+  if (flags & TX_LOCK_TIME) tx.lockTime = reader.varint();
+  if (flags & TX_MULTISIG) {
+    const m = reader.varint();
+    tx.multisig = { m, publicKeys: Array.from({ length: reader.varint() }, () => reader.string()) };
+  }
+  if (flags & TX_SIGNATURES) {
+    tx.signatures = Array.from({ length: reader.varint() }, () => ({ publicKey: reader.string(), signature: reader.string() }));
+  }
+  if (flags & TX_HTLC) {
+    tx.htlc = { sender: reader.string(), recipient: reader.string(), hashLock: reader.string(), timeout: reader.varint() };
+  }
+  if (flags & TX_PREIMAGE) tx.preimage = reader.string();
+  if (flags & TX_CLAIM_COMMITMENT) tx.claimCommitment = reader.string();
+  if (flags & TX_LEGACY_SECRET) tx.legacySecret = reader.string();
+  return tx;
+}
+
+export function encodeTransaction(tx: Transaction): Uint8Array {
+  const writer = new ByteWriter();
+  writer.byte(ENCODING_VERSION);
+  writeTransaction(writer, tx, true, ~0);
+  return writer.finish();
+}
+
+// Throws when the bytes are not a transaction in a known encoding version
+export function decodeTransaction(bytes: Uint8Array): Transaction {
+  const reader = new ByteReader(bytes);
+  reader.version();
+  const tx = readTransaction(reader);
+  reader.end();
+  return tx;
+}
+
+// The bytes a signature covers and the id is the hash of: every field but
+// the id and what TX_WITNESS leaves out
+export function encodeUnsignedTransaction(tx: Transaction): Uint8Array {
+  const writer = new ByteWriter();
+  writer.byte(ENCODING_VERSION);
+  writeTransaction(writer, tx, false, ~TX_WITNESS);
+  return writer.finish();
+}
+
+export function computeTransactionId(tx: Transaction): string {
+  return sha256Hex(encodeUnsignedTransaction(tx));
+}
+
+function writeHeaderNonce(writer: ByteWriter, nonce: number): void {
+  if (!Number.isSafeInteger(nonce) || nonce < 0) throw new Error(`Expected a non-negative integer, got ${nonce}`);
+  const high = Math.floor(nonce / 2 ** 32);
+  const low = nonce % 2 ** 32;
+  [high >>> 24, high >>> 16, high >>> 8, high, low >>> 24, low >>> 16, low >>> 8, low].forEach(byte => writer.byte(byte));
+}
+
+function writeBlockHeader(writer: ByteWriter, block: Omit<Block, 'hash' | 'transactions'>): void {
+  writer.byte(ENCODING_VERSION);
+  writer.varint(block.merkleRoot ? BLOCK_MERKLE_ROOT : 0);
+  writer.varint(block.version ?? 0);
+  writer.varint(block.index);
+  writer.double(block.timestamp);
+  writer.string(block.previousHash);
+  if (block.merkleRoot) writer.string(block.merkleRoot);
+  writer.double(block.difficulty);
+  writer.string(block.miner);
+  writer.amount(block.reward);
+  writeHeaderNonce(writer, block.nonce);
+}
+
+// The header a block hash is computed over. It commits to the transactions
+// through the Merkle root and ends with the nonce.
+export function encodeBlockHeader(block: Omit<Block, 'hash' | 'transactions'>): Uint8Array {
+  const writer = new ByteWriter();
+  writeBlockHeader(writer, block);
+  return writer.finish();
+}
+
+// The header around its nonce, for hashing every nonce from a midstate
+export function headerNonceTemplate(block: Omit<Block, 'hash' | 'transactions'>): NonceTemplate {
+  const header = encodeBlockHeader({ ...block, nonce: 0 });
+  return {
+    prefix: header.subarray(0, header.length - NONCE_BYTES),
+    suffix: new Uint8Array(0),
+    encodeNonce: nonce => {
+      const writer = new ByteWriter();
+      writeHeaderNonce(writer, nonce);
+      return writer.finish();
+    },
+  };
+}
+
+// The header, then the hash and every transaction
+export function encodeBlock(block: Block): Uint8Array {
+  const writer = new ByteWriter();
+  writeBlockHeader(writer, block);
+  writer.string(block.hash);
+  writer.varint(block.transactions.length);
+  block.transactions.forEach(tx => writeTransaction(writer, tx, true, ~0));
+  return writer.finish();
+}
+
+// Bytes of a transaction as stored and relayed, what its fee rate is per
+export function getTransactionSize(tx: Transaction): number {
+  return encodeTransaction(tx).length;
+}
+
+// Bytes of the whole block, header and transactions, what MAX_BLOCK_WEIGHT limits
+export function getBlockWeight(block: Block): number {
+  return encodeBlock(block).length;
+}
+
+// Throws when the bytes are not a block in a known encoding version
+export function decodeBlock(bytes: Uint8Array): Block {
+  const reader = new ByteReader(bytes);
+  reader.version();
+  const flags = reader.varint();
+  const version = reader.varint();
+  const index = reader.varint();
+  const timestamp = reader.double();
+  const previousHash = reader.string();
+  const merkleRoot = flags & BLOCK_MERKLE_ROOT ? reader.string() : undefined;
+  const difficulty = reader.double();
+  const miner = reader.string();
+  const reward = reader.amount();
+  let nonce = 0;
+  for (let i = 0; i < NONCE_BYTES; i++) nonce = nonce * 0x100 + reader.byte();
+  if (!Number.isSafeInteger(nonce)) throw new Error('Integer out of range');
+  const hash = reader.string();
+  const transactions = Array.from({ length: reader.varint() }, () => readTransaction(reader, index));
+  reader.end();
+
+  const block: Block = { index, timestamp, transactions, previousHash, hash, nonce, difficulty, miner, reward };
+  if (merkleRoot) block.merkleRoot = merkleRoot;
+  if (version) block.version = version;
+  return block;
+}
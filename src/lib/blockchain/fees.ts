@@ -0,0 +1,170 @@
+// ============= FEE ESTIMATION =============
+//
+// Suggested fees for a new transaction, drawn from two sources: how many
+// blocks recent transactions at each fee rate waited before being mined, and
+// how much of the mempool is queued ahead of a fee rate. Each preset aims at a
+// confirmation depth (fast: the next block, normal: within 3, slow: within 6)
+// and reports the depth its fee is actually expected to reach, since the
+// minimum fee rate often buys more than the slow target. Rates are base units per
+// byte, and a block holds as much of the queue as fits in MAX_TEMPLATE_WEIGHT.
+
+import { Amount, maxAmount } from './amount';
+import { MAX_TRANSACTIONS_PER_BLOCK, isCoinbaseSender } from './consensus';
+import { getTransactionSize } from './encoding';
+import {
+  DEFAULT_MEMPOOL_POLICY,
+  MAX_TEMPLATE_WEIGHT,
+  MempoolPolicy,
+  compareByFeeRate,
+  getFeeRate,
+} from './mempool';
+import type { Block, Transaction } from './types';
+
+export type FeePriority = 'slow' | 'normal' | 'fast';
+
+// Confirmation depth each preset aims for, in blocks
+export const FEE_TARGETS: Record<FeePriority, number> = { slow: 6, normal: 3, fast: 1 };
+
+// Bytes of a signed transaction with one recipient, the default size to price
+export const TYPICAL_TRANSACTION_SIZE = 370;
+
+// The lowest fee the GSC wallets accept: the minimum relay fee rate for a
+// typical transaction, so it never undercuts or overrides the rate presets
+export const MIN_TRANSACTION_FEE: Amount = BigInt(DEFAULT_MEMPOOL_POLICY.minFeeRate * TYPICAL_TRANSACTION_SIZE);
+
+// Blocks of history the estimate draws on
+const HISTORY_BLOCKS = 50;
+// Share of past transactions at or above a fee rate that must have confirmed in time
+const SUCCESS_THRESHOLD = 0.85;
+// Fewer samples than this say nothing about a fee rate
+const MIN_SAMPLES = 5;
+
+export interface FeeEstimate {
+  priority: FeePriority;
+  // Base units per byte
+  feeRate: number;
+  // For a transaction of the estimated size
+  fee: Amount;
+  targetBlocks: number;
+  // Blocks within which a transaction paying `fee` is expected to be mined
+  expectedBlocks: number;
+}
+
+export interface FeeEstimates {
+  slow: FeeEstimate;
+  normal: FeeEstimate;
+  fast: FeeEstimate;
+  // Recent transactions the history side of the estimate drew on
+  samples: number;
+  // Blocks it would take to mine everything pending
+  backlogBlocks: number;
+}
+
+interface InclusionSample {
+  feeRate: number;
+  // 1 when mined in the first block after it was created
+  blocksWaited: number;
+}
+
+// Fee rate and wait of every transaction mined in the last `HISTORY_BLOCKS` blocks
+function collectSamples(chain: Block[]): InclusionSample[] {
+  const samples: InclusionSample[] = [];
+  const start = Math.max(1, chain.length - HISTORY_BLOCKS);
+  for (let i = start; i < chain.length; i++) {
+    for (const tx of chain[i].transactions) {
+      if (isCoinbaseSender(tx.from)) continue;
+      // The block the transaction was created after
+      let created = i - 1;
+      while (created > 0 && chain[created].timestamp > tx.timestamp) created--;
+      samples.push({ feeRate: getFeeRate(tx), blocksWaited: i - created });
+    }
+  }
+  return samples.sort((a, b) => b.feeRate - a.feeRate);
+}
+
+// The lowest fee rate at which past transactions confirmed within `target`
+// blocks often enough, or null when history has too little to say. Samples are
+// judged in groups of `MIN_SAMPLES` from the highest rate down, so a slow tier
+// of cheap transactions isn't hidden behind many fast expensive ones.
+function historicalFeeRate(samples: InclusionSample[], target: number): number | null {
+  let rate: number | null = null;
+  let group: InclusionSample[] = [];
+  for (const sample of samples) {
+    group.push(sample);
+    if (group.length < MIN_SAMPLES) continue;
+    const withinTarget = group.filter(entry => entry.blocksWaited <= target).length;
+    if (withinTarget / group.length < SUCCESS_THRESHOLD) break;
+    rate = sample.feeRate;
+    group = [];
+  }
+  return rate;
+}
+
+// How many transactions from the front of `queue` fit in `blocks` blocks
+function countFitting(queue: Transaction[], blocks: number): number {
+  let weight = 0;
+  for (let i = 0; i < queue.length; i++) {
+    weight += getTransactionSize(queue[i]);
+    if (i >= blocks * MAX_TRANSACTIONS_PER_BLOCK || weight > blocks * MAX_TEMPLATE_WEIGHT) return i;
+  }
+  return queue.length;
+}
+
+// The fee rate that outbids everything pending beyond the first `target` blocks
+function backlogFeeRate(queue: Transaction[], target: number, step: number): number {
+  const firstLeftOut = queue[countFitting(queue, target)];
+  return firstLeftOut ? getFeeRate(firstLeftOut) + step : 0;
+}
+
+// Blocks it would take to mine all of `queue`
+function countBacklogBlocks(queue: Transaction[]): number {
+  const weight = queue.reduce((sum, tx) => sum + getTransactionSize(tx), 0);
+  return Math.max(Math.ceil(queue.length / MAX_TRANSACTIONS_PER_BLOCK), Math.ceil(weight / MAX_TEMPLATE_WEIGHT));
+}
+
+// Slow, normal and fast fee suggestions for a transaction of `size` bytes
+export function estimateFees(
+  chain: Block[],
+  mempool: Transaction[],
+  size: number = TYPICAL_TRANSACTION_SIZE,
+  policy: MempoolPolicy = DEFAULT_MEMPOOL_POLICY
+): FeeEstimates {
+  const samples = collectSamples(chain);
+  const queue = [...mempool].sort(compareByFeeRate);
+  const backlogBlocks = countBacklogBlocks(queue);
+  const maxDepth = Math.max(FEE_TARGETS.slow, backlogBlocks + 1);
+
+  // Required fee rate per depth, never rising with depth
+  const required: number[] = [];
+  for (let depth = maxDepth; depth >= 1; depth--) {
+    const rate = Math.max(
+      policy.minFeeRate,
+      historicalFeeRate(samples, depth) ?? 0,
+      backlogFeeRate(queue, depth, policy.minFeeRate),
+      required[depth + 1] ?? 0
+    );
+    required[depth] = rate;
+  }
+
+  const estimate = (priority: FeePriority): FeeEstimate => {
+    const targetBlocks = FEE_TARGETS[priority];
+    const fee = maxAmount(MIN_TRANSACTION_FEE, BigInt(Math.ceil(required[targetBlocks] * size)));
+    const feeRate = Number(fee) / size;
+    let expectedBlocks = maxDepth;
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      if (feeRate >= required[depth]) {
+        expectedBlocks = depth;
+        break;
+      }
+    }
+    return { priority, feeRate, fee, targetBlocks, expectedBlocks };
+  };
+
+  return {
+    slow: estimate('slow'),
+    normal: estimate('normal'),
+    fast: estimate('fast'),
+    samples: samples.length,
+    backlogBlocks,
+  };
+}
@@ -0,0 +1,169 @@
+// ============= FORKS =============
+//
+// Every known block lives in a tree keyed by hash. The active chain is the
+// branch with the most cumulative work; a competing branch that overtakes it
+// triggers a reorganisation. A block's work only counts once its header hashes
+// to its stated hash, meets its difficulty, and that difficulty is the one the
+// retarget schedule sets on its branch, so claimed work cannot force a reorg.
+// Before a branch becomes active its blocks are held to every other rule as
+// well (see storage.ts), and those that fail are removed from the tree.
+
+import { sha256Hex } from '../crypto';
+import { blockHashPreimage } from './consensus';
+import { RETARGET_INTERVAL, expectedHashes, getExpectedDifficulty, meetsDifficulty } from './difficulty';
+import type { Block } from './types';
+
+// Side branches whose tip falls this far behind the active tip are forgotten
+export const MAX_FORK_DEPTH = 100;
+
+export interface BlockNode {
+  block: Block;
+  // Expected hashes spent on this block and all of its ancestors
+  cumulativeWork: number;
+}
+
+export interface ReorgEvent {
+  // Active blocks that were replaced
+  depth: number;
+  // Height of the last block both branches share
+  forkHeight: number;
+  oldTip: string;
+  newTip: string;
+  // Transactions from replaced blocks returned to the mempool
+  returnedTransactions: number;
+  // Returned or pending transactions the new branch no longer funds
+  droppedTransactions: number;
+  timestamp: number;
+}
+
+export function blockWork(block: Block): number {
+  return expectedHashes(block.difficulty);
+}
+
+export class BlockTree {
+  private nodes = new Map<string, BlockNode>();
+  private genesisHash: string | null = null;
+
+  // The active chain it starts from was checked block by block as it was connected
+  constructor(chain: Block[] = []) {
+    chain.forEach(block => this.insert(block, false));
+  }
+
+  has(hash: string): boolean {
+    return this.nodes.has(hash);
+  }
+
+  get(hash: string): BlockNode | undefined {
+    return this.nodes.get(hash);
+  }
+
+  getGenesisHash(): string | null {
+    return this.genesisHash;
+  }
+
+  // Add a block whose parent is known (or the genesis block). Returns null when
+  // it does not link up (unknown parent, wrong height, or a second genesis) or
+  // does not prove the work it claims (see hasValidWork).
+  add(block: Block): BlockNode | null {
+    return this.insert(block, true);
+  }
+
+  // The header hashes to the stored hash, which meets the difficulty the
+  // retarget schedule sets at the block's height on its parent's branch
+  hasValidWork(block: Block): boolean {
+    const parent = this.nodes.get(block.previousHash);
+    if (!parent) return false;
+    if (sha256Hex(blockHashPreimage(block)) !== block.hash) return false;
+    if (block.difficulty !== getExpectedDifficulty(this.getRetargetWindow(parent.block.hash), block.index)) return false;
+    return meetsDifficulty(block.hash, block.difficulty);
+  }
+
+  // The ancestors a retarget after `hash` reads, at their heights. The array is
+  // sparse: positions further back than one retarget window are left empty.
+  private getRetargetWindow(hash: string): Block[] {
+    const window: Block[] = [];
+    let node = this.nodes.get(hash);
+    for (let i = 0; node && i <= RETARGET_INTERVAL; i++) {
+      window[node.block.index] = node.block;
+      node = node.block.index === 0 ? undefined : this.nodes.get(node.block.previousHash);
+    }
+    return window;
+  }
+
+  private insert(block: Block, verify: boolean): BlockNode | null {
+    const existing = this.nodes.get(block.hash);
+    if (existing) return existing;
+
+    if (this.genesisHash === null) {
+      if (block.index !== 0) return null;
+      this.genesisHash = block.hash;
+      const node = { block, cumulativeWork: blockWork(block) };
+      this.nodes.set(block.hash, node);
+      return node;
+    }
+
+    const parent = this.nodes.get(block.previousHash);
+    if (!parent || block.index !== parent.block.index + 1) return null;
+    if (verify && !this.hasValidWork(block)) return null;
+    const node = { block, cumulativeWork: parent.cumulativeWork + blockWork(block) };
+    this.nodes.set(block.hash, node);
+    return node;
+  }
+
+  // Forget a block that broke a rule once its branch was validated, with every
+  // block built on it, so their work stops counting
+  remove(hash: string): void {
+    const removed = new Set([hash]);
+    [...this.nodes.values()]
+      .sort((a, b) => a.block.index - b.block.index)
+      .forEach(node => {
+        if (removed.has(node.block.previousHash)) removed.add(node.block.hash);
+      });
+    removed.forEach(removedHash => this.nodes.delete(removedHash));
+  }
+
+  // Heaviest tip. On equal work the current tip is kept, so ties never cause a reorg.
+  getBestTip(currentTip?: string): BlockNode | undefined {
+    let best = currentTip ? this.nodes.get(currentTip) : undefined;
+    this.nodes.forEach(node => {
+      if (!best || node.cumulativeWork > best.cumulativeWork) best = node;
+    });
+    return best;
+  }
+
+  // Blocks from genesis to `tipHash`
+  getBranch(tipHash: string): Block[] {
+    const branch: Block[] = [];
+    let node = this.nodes.get(tipHash);
+    while (node) {
+      branch.push(node.block);
+      node = node.block.index === 0 ? undefined : this.nodes.get(node.block.previousHash);
+    }
+    return branch.reverse();
+  }
+
+  // Blocks that are not on the given active chain
+  getSideBlocks(activeChain: Block[]): Block[] {
+    const active = new Set(activeChain.map(block => block.hash));
+    return [...this.nodes.values()]
+      .map(node => node.block)
+      .filter(block => !active.has(block.hash))
+      .sort((a, b) => a.index - b.index);
+  }
+
+  // Forget side blocks too far below the active tip to ever win back
+  prune(activeChain: Block[]): void {
+    const active = new Set(activeChain.map(block => block.hash));
+    const minHeight = activeChain.length - 1 - MAX_FORK_DEPTH;
+    this.nodes.forEach((node, hash) => {
+      if (!active.has(hash) && node.block.index < minHeight) this.nodes.delete(hash);
+    });
+  }
+}
+
+// Index of the first block where the two chains differ
+export function findForkIndex(a: Block[], b: Block[]): number {
+  let index = 0;
+  while (index < a.length && index < b.length && a[index].hash === b[index].hash) index++;
+  return index;
+}
@@ -0,0 +1,165 @@
+// ============= HASHING ENGINES =============
+//
+// Block hashing runs on a pluggable SHA-256 backend. The default is a
+// synchronous pure-JS implementation, so the nonce loop never awaits a promise.
+// It also supports a midstate: the header bytes before the nonce are absorbed
+// once per job, and each attempt only hashes the few bytes after them. WebCrypto
+// remains available for comparison. A WASM build can be plugged in with
+// `setHashEngine` as long as it implements the same interface.
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils.js';
+import { COIN } from './amount';
+import { difficultyToTarget } from './difficulty';
+import { ENCODING_VERSION, headerNonceTemplate } from './encoding';
+
+export interface HashEngine {
+  name: string;
+  // SHA-256 of raw bytes. Synchronous engines let mining hash without awaiting.
+  digest(data: Uint8Array): Uint8Array | Promise<Uint8Array>;
+  // Absorb `prefix` once and return a hasher for prefix + tail (synchronous engines only)
+  midstate?(prefix: Uint8Array): (tail: Uint8Array) => Uint8Array;
+}
+
+export const jsHashEngine: HashEngine = {
+  name: 'js',
+  digest: data => sha256(data),
+  midstate: prefix => {
+    const state = sha256.create().update(prefix);
+    return tail => state.clone().update(tail).digest();
+  },
+};
+
+export const webCryptoHashEngine: HashEngine = {
+  name: 'webcrypto',
+  digest: async data => new Uint8Array(await crypto.subtle.digest('SHA-256', data)),
+};
+
+let activeEngine: HashEngine = jsHashEngine;
+
+export function getHashEngine(): HashEngine {
+  return activeEngine;
+}
+
+export function setHashEngine(engine: HashEngine): void {
+  activeEngine = engine;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+}
+
+export async function hashBytes(data: Uint8Array, engine: HashEngine = activeEngine): Promise<string> {
+  return bytesToHex(await engine.digest(data));
+}
+
+// A block header as the bytes before and after its nonce, and how the nonce
+// is written between them
+export interface NonceTemplate {
+  prefix: Uint8Array;
+  suffix: Uint8Array;
+  encodeNonce: (nonce: number) => Uint8Array;
+}
+
+// A legacy JSON header preimage (serialised with nonce 0) split into the UTF-8
+// bytes before and after the nonce digits. JSON escapes quotes inside strings,
+// so `"nonce":` can only match the key itself.
+export function splitAroundNonce(preimage: string): NonceTemplate {
+  const marker = '"nonce":0';
+  const at = preimage.indexOf(marker);
+  if (at === -1) throw new Error('Header preimage has no nonce field');
+  const nonceStart = at + marker.length - 1;
+  return {
+    prefix: utf8ToBytes(preimage.slice(0, nonceStart)),
+    suffix: utf8ToBytes(preimage.slice(nonceStart + 1)),
+    encodeNonce: nonce => utf8ToBytes(String(nonce)),
+  };
+}
+
+// Hash of the header for any nonce. Returns synchronously when the engine is synchronous.
+export function createNonceHasher(
+  template: NonceTemplate,
+  engine: HashEngine = activeEngine
+): (nonce: number) => Uint8Array | Promise<Uint8Array> {
+  const { prefix, suffix, encodeNonce } = template;
+  if (engine.midstate) {
+    const fromMidstate = engine.midstate(prefix);
+    return nonce => fromMidstate(concatBytes(encodeNonce(nonce), suffix));
+  }
+  return nonce => engine.digest(concatBytes(prefix, encodeNonce(nonce), suffix));
+}
+
+// The difficulty target as 32 big-endian bytes, for comparing raw digests
+export function targetBytes(difficulty: number): Uint8Array {
+  const target = difficultyToTarget(difficulty);
+  const capped = target >= 1n << 256n ? (1n << 256n) - 1n : target;
+  const bytes = new Uint8Array(32);
+  let value = capped;
+  for (let i = 31; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+// Raw-digest equivalent of `meetsDifficulty`: hash < target, both big-endian.
+// A target capped at 2^256 - 1 accepts every hash, as the uncapped value would.
+export function meetsTarget(hash: Uint8Array, target: Uint8Array): boolean {
+  for (let i = 0; i < 32; i++) {
+    if (hash[i] !== target[i]) return hash[i] < target[i];
+  }
+  return target.every(byte => byte === 0xff);
+}
+
+export interface HashBenchmark {
+  engine: string;
+  midstate: boolean;
+  hashesPerSecond: number;
+}
+
+// Hash a sample header for `duration` ms per engine. The js engine is measured
+// with and without its midstate so the saving is visible.
+export async function benchmarkHashEngines(
+  engines: HashEngine[] = [jsHashEngine, webCryptoHashEngine],
+  duration: number = 500
+): Promise<HashBenchmark[]> {
+  const template = headerNonceTemplate({
+    version: ENCODING_VERSION,
+    index: 1,
+    timestamp: Date.now(),
+    merkleRoot: 'ab'.repeat(32),
+    previousHash: 'cd'.repeat(32),
+    nonce: 0,
+    difficulty: 5,
+    miner: 'GSC1QBENCHMARKMINERADDRESS',
+    reward: 50n * COIN,
+  });
+
+  const results: HashBenchmark[] = [];
+  for (const engine of engines) {
+    const variants = engine.midstate ? [engine, { name: engine.name, digest: engine.digest }] : [engine];
+    for (const variant of variants) {
+      const hashNonce = createNonceHasher(template, variant);
+      const start = Date.now();
+      let hashes = 0;
+      while (Date.now() - start < duration) {
+        for (let i = 0; i < 100; i++) {
+          const hash = hashNonce(hashes++);
+          if (hash instanceof Promise) await hash;
+        }
+      }
+      results.push({
+        engine: variant.name,
+        midstate: Boolean(variant.midstate),
+        hashesPerSecond: Math.round((hashes / (Date.now() - start)) * 1000),
+      });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,125 @@
+// ============= HASH TIME-LOCKED CONTRACTS =============
+//
+// An HTLC locks funds that the recipient can claim by revealing a secret whose
+// SHA-256 is the contract's hash lock, until a timeout, after which the sender
+// can take them back instead. Its address is the SHA-256 of the contract terms
+// as a version 2 address, so funding one is an ordinary payment to it. A spend
+// from the address reveals the contract and is signed by one of the parties:
+//   claim   the recipient's key, with the secret as `preimage`, mined before the timeout
+//   refund  the sender's key, no preimage, mined at or after the timeout
+// The timeout is a block height or Unix time, read like a lock time against the
+// median time past (see locktime.ts). Claiming reveals the secret on chain, which is what lets the
+// same hash lock settle the other side of an atomic swap.
+
+import { addressMatchesPublicKey, contractHashToAddress, decodeAddress, isHtlcAddress } from '../address';
+import { bytesToHex, hexToBytes, sha256Bytes, sha256Hex, verifySignature } from '../crypto';
+import { getMedianTimePast } from './difficulty';
+import { isLockTimeReached } from './locktime';
+import type { Block, Transaction } from './types';
+
+export interface HtlcContract {
+  // Funds the contract and can refund it after the timeout
+  sender: string;
+  // Can claim with the secret before the timeout
+  recipient: string;
+  // SHA-256 of the secret, hex
+  hashLock: string;
+  // Block height, or Unix time in seconds
+  timeout: number;
+}
+
+export type HtlcSpendKind = 'claim' | 'refund';
+
+// A random 32-byte secret, hex
+export function generateHtlcSecret(): string {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export function hashHtlcSecret(secret: string): string {
+  return sha256Hex(hexToBytes(secret));
+}
+
+// Validate and normalise contract terms. Throws with the reason when they are unusable.
+export function createHtlcContract(sender: string, recipient: string, hashLock: string, timeout: number): HtlcContract {
+  const parties = [sender.trim().toUpperCase(), recipient.trim().toUpperCase()];
+  if (parties.some(address => decodeAddress(address) === null)) {
+    throw new Error('The sender and recipient must be checksummed single-key addresses');
+  }
+  if (parties[0] === parties[1]) throw new Error('The sender and recipient must differ');
+  const hash = hashLock.trim().toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(hash)) throw new Error('The hash lock must be a 64-character SHA-256 hex digest');
+  if (!Number.isSafeInteger(timeout) || timeout <= 0) throw new Error('The timeout must be a block height or Unix time');
+  return { sender: parties[0], recipient: parties[1], hashLock: hash, timeout };
+}
+
+export function formatHtlcContract(contract: HtlcContract): string {
+  return `htlc(${contract.sender},${contract.recipient},${contract.hashLock},${contract.timeout})`;
+}
+
+// Read contract terms as written by formatHtlcContract. Throws when malformed.
+export function parseHtlcContract(text: string): HtlcContract {
+  const match = /^htlc\(([^,]+),([^,]+),([0-9a-fA-F]+),(\d+)\)$/.exec(text.trim());
+  if (!match) throw new Error('Expected a contract like htlc(<sender>,<recipient>,<hash lock>,<timeout>)');
+  return createHtlcContract(match[1], match[2], match[3], Number(match[4]));
+}
+
+export function getHtlcAddress(contract: HtlcContract): string {
+  return contractHashToAddress(sha256Bytes(formatHtlcContract(contract)));
+}
+
+// True when `contract` is the one `address` commits to
+export function contractMatchesAddress(contract: HtlcContract, address: string): boolean {
+  return isHtlcAddress(address) && getHtlcAddress(contract) === address.toUpperCase();
+}
+
+export function getHtlcSpendKind(tx: Transaction): HtlcSpendKind {
+  return tx.preimage ? 'claim' : 'refund';
+}
+
+// Verify a spend from an HTLC address over its signing payload: the revealed
+// contract must be the address's, a claim must reveal the secret and be signed
+// by the recipient, a refund signed by the sender. Timing is checked separately.
+export function verifyHtlcSpend(tx: Transaction, payload: Uint8Array): boolean {
+  const contract = tx.htlc;
+  if (!contract || !contractMatchesAddress(contract, tx.from) || !tx.signature || !tx.publicKey) return false;
+  if (tx.preimage) {
+    if (!/^[0-9a-fA-F]+$/.test(tx.preimage) || tx.preimage.length % 2 !== 0) return false;
+    if (hashHtlcSecret(tx.preimage) !== contract.hashLock) return false;
+  }
+  const signer = getHtlcSpendKind(tx) === 'claim' ? contract.recipient : contract.sender;
+  if (!addressMatchesPublicKey(signer, tx.publicKey)) return false;
+  return verifySignature(tx.signature, payload, tx.publicKey);
+}
+
+// Whether an HTLC spend may go into the block at `height` with median time past
+// `time` (ms): claims before the timeout, refunds from it on. Anything else is
+// always allowed.
+export function isHtlcSpendOpen(tx: Transaction, height: number, time: number): boolean {
+  if (!tx.htlc) return true;
+  const expired = isLockTimeReached(tx.htlc.timeout, height, time);
+  return getHtlcSpendKind(tx) === 'claim' ? !expired : expired;
+}
+
+// Whether `tx` may go into the block after `chain`
+export function isHtlcSpendOpenForNextBlock(tx: Transaction, chain: Block[]): boolean {
+  return isHtlcSpendOpen(tx, chain.length, getMedianTimePast(chain));
+}
+
+// Every HTLC spend in `block` must fall on its side of the timeout, judged like
+// lock times by the median time past of `chain`, the blocks before it
+export function validateBlockHtlcs(block: Block, chain: Block[]): boolean {
+  const medianTimePast = getMedianTimePast(chain);
+  const late = block.transactions.find(tx => !isHtlcSpendOpen(tx, block.index, medianTimePast));
+  if (late) {
+    console.error(`HTLC ${getHtlcSpendKind(late)} ${late.id} is on the wrong side of its timeout`);
+    return false;
+  }
+  return true;
+}
+
+// The secret revealed by a claim from `address` in `transactions`, if any
+export function findRevealedSecret(address: string, transactions: Transaction[]): string | null {
+  const claim = transactions.find(tx => tx.from === address && tx.preimage && tx.htlc
+    && hashHtlcSecret(tx.preimage) === tx.htlc.hashLock);
+  return claim?.preimage?.toLowerCase() ?? null;
+}
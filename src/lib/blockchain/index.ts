@@ -0,0 +1,60 @@
+// ============= PRODUCTION-GRADE BLOCKCHAIN CORE =============
+//
+// One chain model for every wallet UI:
+//   amount     bigint base-unit amounts, parsing, formatting and JSON
+//   types      core Transaction / Block / Wallet shapes
+//   encoding   versioned canonical binary encoding of transactions and blocks
+//   consensus  hashing, rewards, block and transaction validity
+//   emission   issuance, the halving schedule and the MAX_SUPPLY cap
+//   difficulty numeric targets and retargeting
+//   forks      the block tree, cumulative work and reorg events
+//   hashing    pluggable SHA-256 engines, midstates and benchmarks
+//   pow        the nonce search run by mining workers
+//   mining     the Web Worker mining pool
+//   pool       the Stratum-like pool protocol, PPLNS accounting and client
+//   merkle     transaction commitments and inclusion proofs
+//   nonces     per-sender account nonces and replay protection
+//   locktime   transactions that stay invalid until a block height or time
+//   multisig   m-of-n policies, their addresses and signature counting
+//   psbt       partially-signed transaction files passed between cosigners
+//   htlc       hash time-locked contracts for atomic swaps
+//   legacy     claiming legacy addresses for a key by revealing their secret
+//   mempool    admission policy, replace-by-fee and block templates
+//   fees       slow / normal / fast fee estimates from history and the backlog
+//   ledger     balances replayed from the chain
+//   validator  full re-verification of imported chains, with a report
+//   preseries  checking and converting chains written before the current format
+//   utxo       optional unspent-output model and coin selection
+//   wallet     key and address generation
+//   adapters   reading and writing the GSC wire format and legacy shapes
+//   storage    the shared, persisted chain store
+//   state      BlockchainState, the mining / explorer facade
+
+export * from './amount';
+export * from './types';
+export * from './encoding';
+export * from './consensus';
+export * from './emission';
+export * from './difficulty';
+export * from './forks';
+export * from './hashing';
+export * from './pow';
+export * from './mining';
+export * from './pool';
+export * from './merkle';
+export * from './nonces';
+export * from './locktime';
+export * from './multisig';
+export * from './psbt';
+export * from './htlc';
+export * from './legacy';
+export * from './mempool';
+export * from './fees';
+export * from './ledger';
+export * from './validator';
+export * from './preseries';
+export * from './utxo';
+export * from './wallet';
+export * from './adapters';
+export * from './storage';
+export * from './state';
@@ -0,0 +1,136 @@
+// ============= LEDGER =============
+//
+// Balances are never stored as the source of truth. They are recomputed by
+// replaying the genesis block and every confirmed block in order; the mempool
+// only contributes pending amounts on top of that.
+
+import type { Amount } from './amount';
+import { isCoinbaseSender } from './consensus';
+import { getTransactionDebit, getTransactionOutputs } from './utxo';
+import type { Block, Transaction } from './types';
+
+// A confirmed transaction that spent more than its sender had at that point
+export interface LedgerOverspend {
+  txId: string;
+  blockIndex: number;
+  address: string;
+  balanceBefore: Amount;
+  spent: Amount;
+}
+
+export interface LedgerState {
+  // Replayed from confirmed blocks only
+  confirmed: Record<string, Amount>;
+  // Mempool amounts per address, not yet part of `confirmed`
+  pendingIncoming: Record<string, Amount>;
+  pendingOutgoing: Record<string, Amount>;
+  overspends: LedgerOverspend[];
+  height: number;
+}
+
+export interface AddressBalance {
+  confirmed: Amount;
+  pendingIncoming: Amount;
+  pendingOutgoing: Amount;
+  // Confirmed funds not already committed to a pending transaction
+  available: Amount;
+  // Confirmed balance once the mempool is mined
+  projected: Amount;
+}
+
+// An entry of an imported `balances` object that the replay does not reproduce
+export interface BalanceDiscrepancy {
+  address: string;
+  imported: Amount;
+  replayed: Amount;
+  difference: Amount;
+}
+
+function add(balances: Record<string, Amount>, address: string, delta: Amount): void {
+  balances[address] = (balances[address] ?? 0n) + delta;
+}
+
+// Replay confirmed blocks from genesis. Overspends are applied as recorded (the
+// chain is history, not a proposal) but reported instead of being clamped away.
+export function replayChain(blocks: Block[]): Pick<LedgerState, 'confirmed' | 'overspends' | 'height'> {
+  const confirmed: Record<string, Amount> = {};
+  const overspends: LedgerOverspend[] = [];
+
+  for (const block of blocks) {
+    for (const tx of block.transactions) {
+      if (!isCoinbaseSender(tx.from)) {
+        const balanceBefore = confirmed[tx.from] ?? 0n;
+        const spent = getTransactionDebit(tx);
+        if (spent > balanceBefore) {
+          overspends.push({ txId: tx.id, blockIndex: block.index, address: tx.from, balanceBefore, spent });
+        }
+        add(confirmed, tx.from, -spent);
+      }
+      getTransactionOutputs(tx).forEach(output => add(confirmed, output.address, output.amount));
+    }
+  }
+
+  return { confirmed, overspends, height: blocks.length - 1 };
+}
+
+export function buildLedger(blocks: Block[], mempool: Transaction[]): LedgerState {
+  const pendingIncoming: Record<string, Amount> = {};
+  const pendingOutgoing: Record<string, Amount> = {};
+
+  for (const tx of mempool) {
+    if (!isCoinbaseSender(tx.from)) add(pendingOutgoing, tx.from, getTransactionDebit(tx));
+    getTransactionOutputs(tx).forEach(output => add(pendingIncoming, output.address, output.amount));
+  }
+
+  return { ...replayChain(blocks), pendingIncoming, pendingOutgoing };
+}
+
+export function getAddressBalance(ledger: LedgerState, address: string): AddressBalance {
+  const confirmed = ledger.confirmed[address] ?? 0n;
+  const pendingIncoming = ledger.pendingIncoming[address] ?? 0n;
+  const pendingOutgoing = ledger.pendingOutgoing[address] ?? 0n;
+  return {
+    confirmed,
+    pendingIncoming,
+    pendingOutgoing,
+    available: confirmed - pendingOutgoing,
+    projected: confirmed + pendingIncoming - pendingOutgoing,
+  };
+}
+
+// Balances as the GSC node reports them: mempool transactions already applied
+export function getProjectedBalances(ledger: LedgerState): Record<string, Amount> {
+  const addresses = new Set([
+    ...Object.keys(ledger.confirmed),
+    ...Object.keys(ledger.pendingIncoming),
+    ...Object.keys(ledger.pendingOutgoing),
+  ]);
+  const balances: Record<string, Amount> = {};
+  addresses.forEach(address => {
+    balances[address] = getAddressBalance(ledger, address).projected;
+  });
+  return balances;
+}
+
+// Compare a snapshot's `balances` object with the replayed ledger. GSC snapshots
+// count mempool transactions in their balances, so the projected balance is used.
+export function findBalanceDiscrepancies(
+  ledger: LedgerState,
+  imported: Record<string, Amount>
+): BalanceDiscrepancy[] {
+  const replayed = getProjectedBalances(ledger);
+  const addresses = new Set([...Object.keys(imported), ...Object.keys(replayed)]);
+  const discrepancies: BalanceDiscrepancy[] = [];
+
+  addresses.forEach(address => {
+    if (isCoinbaseSender(address)) return;
+    const importedBalance = imported[address] ?? 0n;
+    const replayedBalance = replayed[address] ?? 0n;
+    const difference = importedBalance - replayedBalance;
+    if (difference !== 0n) {
+      discrepancies.push({ address, imported: importedBalance, replayed: replayedBalance, difference });
+    }
+  });
+
+  return discrepancies;
+}
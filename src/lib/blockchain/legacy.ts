@@ -0,0 +1,111 @@
+// ============= LEGACY ADDRESSES =============
+//
+// A legacy address (see address.ts) is "GSC1" and the first half of its
+// owner's private key, not a hash of a public key, so no signature shows who
+// owns it: anyone can sign with a key of their choosing. The owner proves it
+// by revealing that private key, the legacy secret, which binds the address to
+// a new public key in two steps:
+//   commit  a zero-value transaction from the new key's own address, with the
+//           SHA-256 of the secret and the new public key as `claimCommitment`
+//   claim   a spend from the legacy address signed by the new key, with the
+//           secret as `legacySecret`, mined after the commitment
+// The first claim mined binds the address. Every later spend from it must be
+// signed by the bound key and reveals nothing. Once a claim is broadcast its
+// secret is public, but a copy of it is useless without a commitment to the
+// copier's key confirmed before the claim, which nobody could make without
+// the secret.
+
+import { getLegacyAddress, isLegacyAddress, publicKeyToAddress } from '../address';
+import { hexToBytes, sha256Hex, verifySignature } from '../crypto';
+import { transactionSigningPayload } from './consensus';
+import { ENCODING_VERSION, computeTransactionId } from './encoding';
+import type { Block, Transaction } from './types';
+
+export interface LegacyClaims {
+  // Height of the block that first confirmed each commitment
+  commitments: Map<string, number>;
+  // The public key each claimed legacy address is bound to
+  keys: Map<string, string>;
+}
+
+export type LegacySpendCheck =
+  | 'ok'
+  | 'unsigned' // no signature, or not by the key it names
+  | 'unclaimed' // the address is not bound yet, and the spend reveals no secret
+  | 'wrong-secret' // the revealed secret is not the one the address was made from
+  | 'uncommitted' // no commitment to the secret and key confirmed in an earlier block
+  | 'claimed' // reveals a secret, but the address is already bound
+  | 'wrong-key'; // not signed by the key the address is bound to
+
+export const LEGACY_SPEND_ERRORS: Record<Exclude<LegacySpendCheck, 'ok'>, string> = {
+  unsigned: 'Signature is missing or not by the key it names',
+  unclaimed: 'Legacy address is not claimed yet, and the spend does not reveal its secret',
+  'wrong-secret': 'The revealed secret is not the one this legacy address was made from',
+  uncommitted: 'No commitment to this claim was confirmed in an earlier block',
+  claimed: 'Legacy address is already claimed; only its bound key can spend from it',
+  'wrong-key': 'Not signed by the key this legacy address is bound to',
+};
+
+// What a commitment to binding the legacy address of `secret` to `publicKey` carries
+export function getLegacyClaimCommitment(secret: string, publicKey: string): string {
+  return sha256Hex(new Uint8Array([...hexToBytes(secret.toLowerCase()), ...hexToBytes(publicKey)]));
+}
+
+// The commitment, from `publicKey`'s own address with its next `nonce`, to be
+// signed by that key. It moves nothing, so it needs no fee (see mempool.ts).
+export function createLegacyCommitment(secret: string, publicKey: string, nonce: number): Transaction {
+  const address = publicKeyToAddress(publicKey);
+  const tx: Transaction = {
+    version: ENCODING_VERSION,
+    id: '',
+    from: address,
+    to: address,
+    amount: 0n,
+    fee: 0n,
+    timestamp: Date.now(),
+    status: 'pending',
+    nonce,
+    claimCommitment: getLegacyClaimCommitment(secret, publicKey),
+  };
+  return { ...tx, id: computeTransactionId(tx) };
+}
+
+// Whether `secret` is the private key `address` was made from
+export function isLegacySecret(secret: string, address: string): boolean {
+  return /^[0-9a-fA-F]{64}$/.test(secret) && getLegacyAddress(secret).toLowerCase() === address.toLowerCase();
+}
+
+// A spend from a legacy address, mined at `height` (pending ones at the next block's)
+export function checkLegacySpend(tx: Transaction, claims: LegacyClaims, height: number): LegacySpendCheck {
+  if (!tx.signature || !tx.publicKey) return 'unsigned';
+  const bound = claims.keys.get(tx.from);
+  if (bound !== undefined) {
+    if (tx.legacySecret) return 'claimed';
+    if (bound !== tx.publicKey) return 'wrong-key';
+  } else {
+    if (!tx.legacySecret) return 'unclaimed';
+    if (!isLegacySecret(tx.legacySecret, tx.from)) return 'wrong-secret';
+    const committed = claims.commitments.get(getLegacyClaimCommitment(tx.legacySecret, tx.publicKey));
+    if (committed === undefined || committed >= height) return 'uncommitted';
+  }
+  // The signature does not cover the id of an encoded transaction, its content does
+  if (tx.version && tx.id !== computeTransactionId(tx)) return 'unsigned';
+  return verifySignature(tx.signature, transactionSigningPayload(tx), tx.publicKey) ? 'ok' : 'unsigned';
+}
+
+// Record the commitment or claim of a valid transaction mined at `height`
+export function applyLegacyClaim(tx: Transaction, claims: LegacyClaims, height: number): void {
+  if (tx.claimCommitment && !claims.commitments.has(tx.claimCommitment)) {
+    claims.commitments.set(tx.claimCommitment, height);
+  }
+  if (tx.legacySecret && tx.publicKey && isLegacyAddress(tx.from) && !claims.keys.has(tx.from)) {
+    claims.keys.set(tx.from, tx.publicKey);
+  }
+}
+
+// Commitments and bindings of `blocks`, taken as valid
+export function getLegacyClaims(blocks: Block[]): LegacyClaims {
+  const claims: LegacyClaims = { commitments: new Map(), keys: new Map() };
+  blocks.forEach(block => block.transactions.forEach(tx => applyLegacyClaim(tx, claims, block.index)));
+  return claims;
+}
@@ -0,0 +1,66 @@
+// ============= LOCK TIMES =============
+//
+// A transaction may set `lockTime` to stay invalid until a block height or a
+// moment in time. As in Bitcoin, values below LOCKTIME_THRESHOLD are block
+// heights and anything else a Unix time in seconds: a height-locked transaction
+// can go into block `lockTime` or any later one, a time-locked one into any
+// block once the median time past before it has reached `lockTime`. Judging by
+// the median rather than the block's own timestamp means a miner cannot unlock
+// a transaction early by stamping its block ahead. The mempool admits only
+// transactions the next block could include, so wallets hold later ones back
+// and broadcast them once they unlock.
+
+import { getMedianTimePast } from './difficulty';
+import type { Block, Transaction } from './types';
+
+export const LOCKTIME_THRESHOLD = 500_000_000;
+
+export type LockTimeKind = 'height' | 'time';
+
+export function getLockTimeKind(lockTime: number): LockTimeKind {
+  return lockTime < LOCKTIME_THRESHOLD ? 'height' : 'time';
+}
+
+// Whether the block at `height`, with median time past `time` (ms), has reached `lockTime`
+export function isLockTimeReached(lockTime: number, height: number, time: number): boolean {
+  return getLockTimeKind(lockTime) === 'height'
+    ? height >= lockTime
+    : Math.floor(time / 1000) >= lockTime;
+}
+
+// Whether `tx` may go into the block at `height` with median time past `time` (ms)
+export function isTransactionFinal(tx: Transaction, height: number, time: number): boolean {
+  return !tx.lockTime || isLockTimeReached(tx.lockTime, height, time);
+}
+
+// Whether `tx` may go into the block after `chain`
+export function isFinalForNextBlock(tx: Transaction, chain: Block[]): boolean {
+  return isTransactionFinal(tx, chain.length, getMedianTimePast(chain));
+}
+
+// When `tx` unlocked on `chain` (ms): its lock time, or for a height lock the
+// timestamp of the block the lock height follows. 0 without a lock, Infinity
+// while a height lock is still ahead.
+export function getUnlockTime(tx: Transaction, chain: Block[]): number {
+  if (!tx.lockTime) return 0;
+  if (getLockTimeKind(tx.lockTime) === 'time') return tx.lockTime * 1000;
+  return tx.lockTime <= chain.length ? chain[tx.lockTime - 1]?.timestamp ?? 0 : Infinity;
+}
+
+// Every transaction of `block` must be final at its height and the median time
+// past of `chain`, the blocks before it
+export function validateBlockLockTimes(block: Block, chain: Block[]): boolean {
+  const medianTimePast = getMedianTimePast(chain);
+  const locked = block.transactions.find(tx => !isTransactionFinal(tx, block.index, medianTimePast));
+  if (locked) {
+    console.error(`Transaction ${locked.id} is locked until ${describeLockTime(locked.lockTime!)}`);
+    return false;
+  }
+  return true;
+}
+
+export function describeLockTime(lockTime: number): string {
+  return getLockTimeKind(lockTime) === 'height'
+    ? `block ${lockTime.toLocaleString()}`
+    : new Date(lockTime * 1000).toLocaleString();
+}
@@ -0,0 +1,447 @@
+// ============= MEMPOOL =============
+//
+// Pending transactions and the policy that admits them. A transaction joins
+// the mempool only if nothing pending already spends its inputs, its sender can
+// fund it after their other pending spends, and it pays at least the minimum
+// fee rate, and no transaction larger than MAX_TRANSACTION_SIZE is relayed.
+// Fee rates are base units per byte of the canonical encoding. The pool is
+// capped in size, evicting the lowest fee rate first, and entries expire after
+// a fixed time; either way the sender's later nonces, which cannot be mined
+// without the transaction, leave with it. Time-locked transactions are admitted
+// only once the next block could include them (see locktime.ts), and HTLC
+// spends only on their side of the contract's timeout (see htlc.ts). Block
+// templates take the highest fee rate first, in an order that does not depend
+// on arrival, with each sender's transactions in nonce order (see nonces.ts),
+// until the next transaction would take the block past its weight limit.
+//
+// A stuck transaction can be replaced by fee (RBF): a signed transaction from
+// the same sender that names it in `replaces`, reuses its nonce or spends any
+// of its inputs evicts it if it pays more in total and at a higher rate.
+//
+// Commitments to a legacy address claim (see legacy.ts) move nothing and come
+// from a key that may hold nothing yet, so they are exempt from the minimum fee.
+
+import { Amount, formatAmount, maxAmount, sumAmounts } from './amount';
+import { MAX_BLOCK_WEIGHT, MAX_TRANSACTIONS_PER_BLOCK, MAX_TRANSACTION_SIZE, isCoinbaseSender } from './consensus';
+import { ENCODING_VERSION, computeTransactionId, getTransactionSize } from './encoding';
+import { isHtlcSpendOpenForNextBlock } from './htlc';
+import { replayChain } from './ledger';
+import { describeLockTime, getUnlockTime, isFinalForNextBlock } from './locktime';
+import { NonceState, checkTransactionNonce, getAccountNonce, getNonceState, orderBySenderNonce } from './nonces';
+import {
+  UTXO,
+  UTXOSet,
+  getAddressDelta,
+  getReservedOutpoints,
+  getTransactionDebit,
+  isUtxoTransaction,
+  outpointKey,
+  selectCoins,
+  validateUtxoTransaction,
+} from './utxo';
+import type { Block, Transaction, TxOutput } from './types';
+
+export interface MempoolPolicy {
+  // Transactions held at most; beyond this the lowest fee rate is evicted
+  maxSize: number;
+  // Time after a transaction's timestamp, or its unlock if later, when it is dropped, ms
+  expiry: number;
+  // Base units per byte
+  minFeeRate: number;
+  maxPendingPerSender: number;
+}
+
+export const DEFAULT_MEMPOOL_POLICY: MempoolPolicy = {
+  maxSize: 5000,
+  expiry: 72 * 60 * 60 * 1000,
+  minFeeRate: 1000, // 0.01 GSC per kB
+  maxPendingPerSender: 25,
+};
+
+// Weight a block template fills with transactions, leaving room for the header and coinbase
+export const MAX_TEMPLATE_WEIGHT = MAX_BLOCK_WEIGHT - 4000;
+
+export type MempoolRejectReason =
+  | 'duplicate' // already pending or confirmed
+  | 'conflict' // replaces or double-spends a pending transaction of another sender
+  | 'replacement-missing' // the transaction it replaces is no longer pending
+  | 'replacement-underpaid' // a replacement that does not outbid what it replaces
+  | 'insufficient-funds' // the sender's pending spends leave too little
+  | 'too-many-pending' // the sender is at the per-sender limit
+  | 'fee-too-low' // below the minimum fee rate
+  | 'too-large' // over MAX_TRANSACTION_SIZE
+  | 'bad-nonce' // no nonce, or one the sender has already used on chain
+  | 'not-final' // locked until a later block or time
+  | 'htlc-timing' // an HTLC claim after its timeout, or a refund before it
+  | 'mempool-full' // full, and nothing pending pays a lower fee rate
+  | 'expired'; // older than the expiry time
+
+export interface MempoolAdmission {
+  accepted: boolean;
+  reason?: MempoolRejectReason;
+  message?: string;
+  // Pending transactions spending the same outputs, for a rejected replacement
+  conflicts?: string[];
+  // Lower fee rate transactions removed to make room
+  evicted: Transaction[];
+  // Pending transactions superseded by this one (replace-by-fee)
+  replaced: Transaction[];
+}
+
+// What admission checks a transaction against
+export interface MempoolContext {
+  chain: Block[];
+  mempool: Transaction[];
+  // Balances replayed from the chain
+  confirmed: Record<string, Amount>;
+  utxoSet: UTXOSet;
+  nonces: NonceState;
+  isConfirmed: (txId: string) => boolean;
+  now: number;
+}
+
+export interface SenderPending {
+  address: string;
+  count: number;
+  // Counted the way the ledger counts pending outgoing funds
+  outgoing: Amount;
+}
+
+export interface BlockTemplate {
+  transactions: Transaction[];
+  fees: Amount;
+  // Bytes of the transactions, at most MAX_TEMPLATE_WEIGHT
+  size: number;
+}
+
+export function getMempoolFees(mempool: Transaction[]): Amount {
+  return sumAmounts(mempool.map(tx => tx.fee));
+}
+
+// Base units per byte
+export function getFeeRate(tx: Transaction): number {
+  return Number(tx.fee) / getTransactionSize(tx);
+}
+
+export function formatFeeRate(feeRate: number): string {
+  return `${feeRate.toLocaleString('en-US', { maximumFractionDigits: 1 })} units/B`;
+}
+
+// Highest fee rate first; ties go to the older transaction, then the lower id
+export function compareByFeeRate(a: Transaction, b: Transaction): number {
+  return getFeeRate(b) - getFeeRate(a) || a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+// A time-locked transaction signed in advance expires counting from its unlock on `chain`
+export function getExpiryTime(tx: Transaction, chain: Block[], policy: MempoolPolicy = DEFAULT_MEMPOOL_POLICY): number {
+  return Math.max(tx.timestamp, getUnlockTime(tx, chain)) + policy.expiry;
+}
+
+// Highest fee rate first, each sender's transactions in nonce order
+export function sortMempool(mempool: Transaction[]): Transaction[] {
+  return orderBySenderNonce([...mempool].sort(compareByFeeRate));
+}
+
+// Take `candidates` in order while they fit in `limit` transactions and
+// `maxWeight` bytes. One that does not fit is passed over, and so are the
+// sender's later ones, whose nonces would leave a gap without it.
+function fillBlock(candidates: Transaction[], limit: number, maxWeight: number): Transaction[] {
+  const selected: Transaction[] = [];
+  const blocked = new Set<string>();
+  let weight = 0;
+  for (const tx of candidates) {
+    if (selected.length >= limit) break;
+    const size = getTransactionSize(tx);
+    if (blocked.has(tx.from) || size > MAX_TRANSACTION_SIZE || weight + size > maxWeight) {
+      blocked.add(tx.from);
+      continue;
+    }
+    selected.push(tx);
+    weight += size;
+  }
+  return selected;
+}
+
+// Pick transactions for the next block: highest fee rate first, up to the block limits
+export function selectTransactionsForBlock(
+  mempool: Transaction[],
+  limit: number = MAX_TRANSACTIONS_PER_BLOCK,
+  maxWeight: number = MAX_TEMPLATE_WEIGHT
+): Transaction[] {
+  return fillBlock(sortMempool(mempool), limit, maxWeight);
+}
+
+// The next block's transactions, re-checked against the chain they will extend.
+// The same mempool always gives the same template.
+export function buildBlockTemplate(
+  chain: Block[],
+  mempool: Transaction[],
+  limit: number = MAX_TRANSACTIONS_PER_BLOCK,
+  maxWeight: number = MAX_TEMPLATE_WEIGHT
+): BlockTemplate {
+  const transactions = fillBlock(filterFundedTransactions(chain, sortMempool(mempool)), limit, maxWeight);
+  return {
+    transactions,
+    fees: getMempoolFees(transactions),
+    size: transactions.reduce((sum, tx) => sum + getTransactionSize(tx), 0),
+  };
+}
+
+// What each sender already has pending. UTXO spends count their whole debit,
+// change included, as the ledger does until they confirm.
+export function getPendingBySender(mempool: Transaction[]): Map<string, SenderPending> {
+  const senders = new Map<string, SenderPending>();
+  mempool.forEach(tx => {
+    if (isCoinbaseSender(tx.from)) return;
+    const pending = senders.get(tx.from) ?? { address: tx.from, count: 0, outgoing: 0n };
+    pending.count++;
+    pending.outgoing += getTransactionDebit(tx);
+    senders.set(tx.from, pending);
+  });
+  return senders;
+}
+
+// Pending transactions spending any of the same outputs as `tx`
+export function findConflicts(mempool: Transaction[], tx: Transaction): Transaction[] {
+  if (!isUtxoTransaction(tx)) return [];
+  const spends = new Set(tx.inputs.map(input => outpointKey(input.txId, input.outputIndex)));
+  return mempool.filter(
+    pending => pending.id !== tx.id
+      && isUtxoTransaction(pending)
+      && pending.inputs.some(input => spends.has(outpointKey(input.txId, input.outputIndex)))
+  );
+}
+
+// What a replacement must pay at least: the fees of everything it replaces,
+// plus the minimum fee rate again for its own size
+export function getMinReplacementFee(
+  replaced: Transaction[],
+  size: number,
+  policy: MempoolPolicy = DEFAULT_MEMPOOL_POLICY
+): Amount {
+  return getMempoolFees(replaced) + BigInt(Math.ceil(policy.minFeeRate * size));
+}
+
+// A fee that clearly outbids `original`: double its fee, or the minimum if that is higher
+export function suggestReplacementFee(original: Transaction, policy: MempoolPolicy = DEFAULT_MEMPOOL_POLICY): Amount {
+  return maxAmount(original.fee * 2n, getMinReplacementFee([original], getTransactionSize(original), policy));
+}
+
+// Pending transactions `tx` would replace: the one it names, any of the same
+// sender with the same nonce, and any spending the same inputs
+export function findReplaced(mempool: Transaction[], tx: Transaction): Transaction[] {
+  const replaced = mempool.filter(
+    pending => pending.id !== tx.id
+      && (pending.id === tx.replaces || (tx.nonce !== undefined && pending.from === tx.from && pending.nonce === tx.nonce))
+  );
+  return [...replaced, ...findConflicts(mempool, tx).filter(conflict => !replaced.includes(conflict))];
+}
+
+// Build an unsigned replacement of a pending transaction paying `fee`. A bump
+// keeps the recipients; a cancel pays everything back to the sender. UTXO
+// transactions keep their inputs, so the replacement conflicts with the
+// original, and take the extra fee from change, adding coins from `utxos` if
+// the change is too small.
+export async function createReplacementTransaction(
+  original: Transaction,
+  fee: Amount,
+  options: { cancel?: boolean; utxos?: UTXO[] } = {}
+): Promise<Transaction> {
+  const { cancel = false, utxos = [] } = options;
+  if (isCoinbaseSender(original.from)) throw new Error('Coinbase transactions cannot be replaced');
+  if (!(fee > original.fee)) throw new Error('A replacement must pay a higher fee');
+
+  const replacement: Transaction = {
+    version: ENCODING_VERSION,
+    id: '',
+    from: original.from,
+    to: cancel ? original.from : original.to,
+    amount: original.amount,
+    fee,
+    timestamp: Date.now(),
+    status: 'pending',
+    replaces: original.id,
+    nonce: original.nonce,
+  };
+
+  if (isUtxoTransaction(original)) {
+    const inputs = [...original.inputs];
+    let inputTotal = getTransactionDebit(original);
+    const payments: TxOutput[] = cancel ? [] : original.outputs.filter(output => output.address !== original.from);
+    const paid = sumAmounts(payments.map(output => output.amount));
+
+    if (inputTotal - paid - fee < 0n) {
+      const spent = new Set(inputs.map(input => outpointKey(input.txId, input.outputIndex)));
+      const extra = utxos.filter(utxo => utxo.address === original.from && !spent.has(outpointKey(utxo.txId, utxo.outputIndex)));
+      const selection = selectCoins(extra, paid + fee - inputTotal);
+      if (!selection) throw new Error('Insufficient funds to raise the fee');
+      selection.inputs.forEach(utxo => inputs.push({ txId: utxo.txId, outputIndex: utxo.outputIndex }));
+      inputTotal += selection.total;
+    }
+
+    const change = inputTotal - paid - fee;
+    replacement.inputs = inputs;
+    replacement.outputs = change > 0n ? [...payments, { address: original.from, amount: change }] : payments;
+    if (replacement.outputs.length === 0) throw new Error('Nothing left to return after the fee');
+    replacement.amount = cancel ? change : paid;
+    replacement.fee = inputTotal - paid - change;
+  }
+
+  return { ...replacement, id: computeTransactionId(replacement) };
+}
+
+// Whether `tx` cannot be mined without `parent`: a later nonce of the same sender
+function dependsOn(tx: Transaction, parent: Transaction): boolean {
+  return tx.from === parent.from && tx.nonce !== undefined && parent.nonce !== undefined && tx.nonce > parent.nonce;
+}
+
+// Drop expired transactions, then the lowest fee rates beyond the size limit,
+// each with the transactions that depend on it. Kept transactions stay in their
+// original order.
+export function enforceMempoolPolicy(
+  mempool: Transaction[],
+  chain: Block[],
+  now: number,
+  policy: MempoolPolicy = DEFAULT_MEMPOOL_POLICY
+): { kept: Transaction[]; expired: Transaction[]; evicted: Transaction[] } {
+  // An HTLC claim whose timeout has passed can never be mined, so it goes too
+  const isExpired = (tx: Transaction) => getExpiryTime(tx, chain, policy) <= now || !isHtlcSpendOpenForNextBlock(tx, chain);
+  const expired = mempool.filter(isExpired);
+  const live = mempool.filter(tx => !isExpired(tx));
+  const evictedIds = new Set(live.filter(tx => expired.some(parent => dependsOn(tx, parent))).map(tx => tx.id));
+  for (const lowest of [...live].sort(compareByFeeRate).reverse()) {
+    if (live.length - evictedIds.size <= policy.maxSize) break;
+    if (evictedIds.has(lowest.id)) continue;
+    live.filter(tx => tx.id === lowest.id || dependsOn(tx, lowest)).forEach(tx => evictedIds.add(tx.id));
+  }
+  return {
+    kept: live.filter(tx => !evictedIds.has(tx.id)),
+    expired,
+    evicted: live.filter(tx => evictedIds.has(tx.id)),
+  };
+}
+
+function reject(reason: MempoolRejectReason, message: string, conflicts?: string[]): MempoolAdmission {
+  return { accepted: false, reason, message, conflicts, evicted: [], replaced: [] };
+}
+
+// Check a transaction against the mempool policy. Signatures and amounts are
+// checked beforehand by `validateTransaction`.
+export function checkMempoolAdmission(
+  tx: Transaction,
+  context: MempoolContext,
+  policy: MempoolPolicy = DEFAULT_MEMPOOL_POLICY
+): MempoolAdmission {
+  if (context.mempool.some(pending => pending.id === tx.id) || context.isConfirmed(tx.id)) {
+    return reject('duplicate', 'Transaction is already known');
+  }
+  if (!isFinalForNextBlock(tx, context.chain)) {
+    return reject('not-final', `Transaction is locked until ${describeLockTime(tx.lockTime!)}`);
+  }
+  if (!isHtlcSpendOpenForNextBlock(tx, context.chain)) {
+    const timeout = describeLockTime(tx.htlc!.timeout);
+    return reject('htlc-timing', tx.preimage
+      ? `The contract timed out at ${timeout} and can no longer be claimed`
+      : `The contract cannot be refunded before ${timeout}`);
+  }
+  if (getExpiryTime(tx, context.chain, policy) <= context.now) {
+    return reject('expired', 'Transaction is too old to relay');
+  }
+
+  const size = getTransactionSize(tx);
+  if (size > MAX_TRANSACTION_SIZE) {
+    return reject('too-large', `Transaction is ${size} bytes, over the maximum of ${MAX_TRANSACTION_SIZE}`);
+  }
+  const feeRate = getFeeRate(tx);
+  if (feeRate < policy.minFeeRate && !tx.claimCommitment) {
+    return reject('fee-too-low', `Fee rate ${formatFeeRate(feeRate)} is below the minimum of ${formatFeeRate(policy.minFeeRate)}`);
+  }
+
+  const nonceCheck = checkTransactionNonce(tx, context.nonces);
+  if (nonceCheck === 'missing') {
+    return reject('bad-nonce', 'Transaction has no account nonce');
+  }
+  if (nonceCheck === 'reused') {
+    return reject('bad-nonce', `Nonce ${tx.nonce} is not above the sender's confirmed nonce ${getAccountNonce(context.nonces, tx.from)}`);
+  }
+
+  // Everything after this is checked as if the replaced transactions were already gone
+  const replaced = findReplaced(context.mempool, tx);
+  const conflicts = replaced.map(pending => pending.id);
+  if (tx.replaces && !conflicts.includes(tx.replaces)) {
+    return reject('replacement-missing', 'The transaction to replace is no longer pending');
+  }
+  if (replaced.some(pending => pending.from !== tx.from)) {
+    return reject('conflict', 'Only the sender can replace a pending transaction', conflicts);
+  }
+  const minFee = getMinReplacementFee(replaced, size, policy);
+  if (replaced.length > 0 && (tx.fee < minFee || replaced.some(pending => getFeeRate(pending) >= feeRate))) {
+    return reject('replacement-underpaid', `A replacement must pay at least ${formatAmount(minFee, { trim: true })} GSC and a higher fee rate`, conflicts);
+  }
+  const mempool = context.mempool.filter(pending => !conflicts.includes(pending.id));
+
+  if (isUtxoTransaction(tx) && !validateUtxoTransaction(tx, context.utxoSet, getReservedOutpoints(mempool))) {
+    return reject('insufficient-funds', 'Inputs are missing, spent or do not cover the outputs');
+  }
+
+  const pending = getPendingBySender(mempool).get(tx.from);
+  if (pending && pending.count >= policy.maxPendingPerSender) {
+    return reject('too-many-pending', `Sender already has ${pending.count} pending transactions`);
+  }
+  // Inputs fund a UTXO spend, but pending account-style spends may already have committed those funds
+  const spend = isUtxoTransaction(tx) ? -getAddressDelta(tx, tx.from) : getTransactionDebit(tx);
+  const available = (context.confirmed[tx.from] ?? 0n) - (pending?.outgoing ?? 0n);
+  if (spend > available) {
+    return reject('insufficient-funds', 'Insufficient balance after pending transactions');
+  }
+
+  if (mempool.length < policy.maxSize) return { accepted: true, evicted: [], replaced };
+  const lowest = [...mempool].sort(compareByFeeRate).slice(policy.maxSize - 1);
+  if (lowest.some(pending => compareByFeeRate(tx, pending) >= 0 || dependsOn(tx, pending))) {
+    return reject('mempool-full', 'Mempool is full; a higher fee rate is needed');
+  }
+  const evicted = mempool.filter(pending => lowest.some(parent => pending.id === parent.id || dependsOn(pending, parent)));
+  return { accepted: true, evicted, replaced };
+}
+
+export function isInMempool(mempool: Transaction[], txId: string): boolean {
+  return mempool.some(tx => tx.id === txId);
+}
+
+// Keep the transactions the given chain can still fund, in the order given
+// (each sender's put in nonce order): an account transaction needs the sender's
+// confirmed balance left after the pending ones before it, a UTXO transaction
+// needs unspent, unclaimed inputs, and every transaction needs a nonce above
+// the sender's last and must be unlocked for the next block. A
+// replaced transaction gives way to its replacement, and a replacement whose
+// original is already confirmed is dropped.
+// Used after a reorg, when returned transactions may conflict with the new branch.
+export function filterFundedTransactions(chain: Block[], candidates: Transaction[]): Transaction[] {
+  const { confirmed } = replayChain(chain);
+  const utxoSet = UTXOSet.fromChain(chain);
+  const nonces = getNonceState(chain);
+  const confirmedIds = new Set(chain.flatMap(block => block.transactions.map(tx => tx.id)));
+  const superseded = new Set(candidates.map(tx => tx.replaces));
+  const reserved = new Set<string>();
+  const outgoing: Record<string, Amount> = {};
+  const seen = new Set<string>();
+
+  return orderBySenderNonce(candidates).filter(tx => {
+    if (seen.has(tx.id) || isCoinbaseSender(tx.from)) return false;
+    seen.add(tx.id);
+    if (superseded.has(tx.id) || (tx.replaces && confirmedIds.has(tx.replaces))) return false;
+    if (checkTransactionNonce(tx, nonces) !== 'ok') return false;
+    if (!isFinalForNextBlock(tx, chain) || !isHtlcSpendOpenForNextBlock(tx, chain)) return false;
+
+    const debit = getTransactionDebit(tx);
+    if (isUtxoTransaction(tx)) {
+      if (!validateUtxoTransaction(tx, utxoSet, reserved)) return false;
+      tx.inputs.forEach(input => reserved.add(outpointKey(input.txId, input.outputIndex)));
+    } else if (debit > (confirmed[tx.from] ?? 0n) - (outgoing[tx.from] ?? 0n)) {
+      return false;
+    }
+    outgoing[tx.from] = (outgoing[tx.from] ?? 0n) + debit;
+    nonces.set(tx.from, tx.nonce!);
+    return true;
+  });
+}
@@ -0,0 +1,119 @@
+// ============= MERKLE TREES =============
+//
+// Block headers commit to their transactions through a Merkle root over the
+// hashes of their canonical encoding (see encoding.ts). Odd levels duplicate
+// their last node, as in Bitcoin. An inclusion proof is the list of sibling
+// hashes from a leaf to the root, so a client holding only the header can
+// check a transaction is in it.
+
+import { hexToBytes, serializeForSigning, sha256Hex } from '../crypto';
+import { amountToNumber } from './amount';
+import { encodeTransaction } from './encoding';
+import type { Block, Transaction } from './types';
+
+export const EMPTY_MERKLE_ROOT = '0'.repeat(64);
+
+export interface MerkleProofStep {
+  hash: string;
+  // Side the sibling sits on when combining with the running hash
+  position: 'left' | 'right';
+}
+
+export interface MerkleProof {
+  txId: string;
+  txHash: string;
+  blockIndex: number;
+  leafIndex: number;
+  siblings: MerkleProofStep[];
+  merkleRoot: string;
+}
+
+// Hash of every field that identifies a transaction, signatures included.
+// Status and block number are bookkeeping, not content, and are left out.
+// Transactions from before the binary encoding hash their legacy fields as JSON.
+export function transactionHash(tx: Transaction): string {
+  if (tx.version) return sha256Hex(encodeTransaction(tx));
+  return sha256Hex(serializeForSigning({
+    id: tx.id,
+    from: tx.from,
+    to: tx.to,
+    amount: amountToNumber(tx.amount),
+    fee: amountToNumber(tx.fee),
+    timestamp: tx.timestamp,
+    publicKey: tx.publicKey,
+    signature: tx.signature,
+    inputs: tx.inputs?.map(input => `${input.txId}:${input.outputIndex}`).join(','),
+    outputs: tx.outputs?.map(output => `${output.address}:${amountToNumber(output.amount)}`).join(','),
+  }));
+}
+
+function hashPair(left: string, right: string): string {
+  const bytes = new Uint8Array(64);
+  bytes.set(hexToBytes(left), 0);
+  bytes.set(hexToBytes(right), 32);
+  return sha256Hex(bytes);
+}
+
+// All levels of the tree, leaves first and the root level last
+export function buildMerkleTree(leaves: string[]): string[][] {
+  if (leaves.length === 0) return [[EMPTY_MERKLE_ROOT]];
+
+  const levels: string[][] = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(hashPair(level[i], level[i + 1] ?? level[i]));
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function computeMerkleRoot(leaves: string[]): string {
+  const levels = buildMerkleTree(leaves);
+  return levels[levels.length - 1][0];
+}
+
+export function calculateMerkleRoot(transactions: Transaction[]): string {
+  return computeMerkleRoot(transactions.map(transactionHash));
+}
+
+// Proof that `txId` is in `block`, or null if it is not
+export function getMerkleProof(block: Block, txId: string): MerkleProof | null {
+  const leafIndex = block.transactions.findIndex(tx => tx.id === txId);
+  if (leafIndex === -1) return null;
+
+  const levels = buildMerkleTree(block.transactions.map(transactionHash));
+  const siblings: MerkleProofStep[] = [];
+  let index = leafIndex;
+  for (const level of levels.slice(0, -1)) {
+    const isRight = index % 2 === 1;
+    const sibling = isRight ? level[index - 1] : level[index + 1] ?? level[index];
+    siblings.push({ hash: sibling, position: isRight ? 'left' : 'right' });
+    index = Math.floor(index / 2);
+  }
+
+  return {
+    txId,
+    txHash: levels[0][leafIndex],
+    blockIndex: block.index,
+    leafIndex,
+    siblings,
+    merkleRoot: levels[levels.length - 1][0],
+  };
+}
+
+// Check a proof against a trusted header's Merkle root (defaults to the root the proof claims)
+export function verifyMerkleProof(proof: MerkleProof, merkleRoot: string = proof.merkleRoot): boolean {
+  let hash = proof.txHash;
+  for (const step of proof.siblings) {
+    hash = step.position === 'left' ? hashPair(step.hash, hash) : hashPair(hash, step.hash);
+  }
+  return hash === merkleRoot;
+}
+
+// Light verification of a transaction itself: its hash is the proof's leaf and the proof reaches the root
+export function verifyTransactionInclusion(tx: Transaction, proof: MerkleProof, merkleRoot: string): boolean {
+  return proof.txId === tx.id && proof.txHash === transactionHash(tx) && verifyMerkleProof(proof, merkleRoot);
+}
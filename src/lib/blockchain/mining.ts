@@ -0,0 +1,158 @@
+// ============= MINING POOL =============
+//
+// Proof of work runs in Web Workers so hashing never blocks the UI and keeps
+// going while the tab is hidden. The nonce space is split into one contiguous
+// range per worker; the first worker to find a solution ends the job.
+
+import { MinerRequest, MinerResponse, NonceSearchProgress, NonceSearchResult, searchNonces } from './pow';
+import type { Block, WorkerHashRate } from './types';
+
+export const MAX_MINING_THREADS = Math.max(1, globalThis.navigator?.hardwareConcurrency ?? 4);
+// Leave half the cores to the UI and the rest of the system
+export const DEFAULT_MINING_THREADS = Math.max(1, Math.floor(MAX_MINING_THREADS / 2));
+
+export interface MiningOptions {
+  // Nonces to search, split between the workers; defaults to every safe integer
+  nonceRange?: [number, number];
+  // Pool mining: report hashes meeting this easier difficulty without ending the job
+  shareDifficulty?: number;
+  onShare?: (share: NonceSearchResult) => void;
+}
+
+export interface PoolProgress {
+  workers: WorkerHashRate[];
+  hashRate: number;
+  hashes: number;
+  lastHash: string;
+}
+
+function createMinerWorker(): Worker {
+  return new Worker(new URL('./mining.worker.ts', import.meta.url), { type: 'module' });
+}
+
+const FULL_NONCE_RANGE: [number, number] = [0, Number.MAX_SAFE_INTEGER];
+
+// Slice [start, end) of worker `index` out of `count` within `range`
+function nonceRange(index: number, count: number, [start, end]: [number, number] = FULL_NONCE_RANGE): [number, number] {
+  const size = Math.floor((end - start) / count);
+  return [start + index * size, index === count - 1 ? end : start + (index + 1) * size];
+}
+
+export class MiningPool {
+  private workers: Worker[] = [];
+  private jobId = 0;
+  private finish: ((result: NonceSearchResult | null) => void) | null = null;
+
+  // Without Web Workers (tests, old browsers) the search runs inline on one thread
+  constructor(
+    private createWorker: (() => Worker) | null = typeof Worker !== 'undefined' ? createMinerWorker : null
+  ) {}
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  // Search the header's nonce space on `threads` workers. Resolves with the first
+  // solution, or null when the job is stopped or replaced.
+  mine(
+    header: Omit<Block, 'hash'>,
+    difficulty: number,
+    threads: number,
+    onProgress: (progress: PoolProgress) => void,
+    options: MiningOptions = {}
+  ): Promise<NonceSearchResult | null> {
+    const { nonceRange: range, shareDifficulty, onShare } = options;
+    this.stop();
+    const id = ++this.jobId;
+    const count = this.createWorker ? Math.min(MAX_MINING_THREADS, Math.max(1, Math.floor(threads))) : 1;
+    // The hash commits to the Merkle root, so workers do not need the transactions themselves
+    const jobHeader = header.merkleRoot ? { ...header, transactions: [] } : header;
+
+    const stats: WorkerHashRate[] = Array.from({ length: count }, (_, workerId) => ({
+      workerId,
+      hashRate: 0,
+      hashes: 0,
+      nonce: nonceRange(workerId, count, range)[0],
+    }));
+    let lastHash = '';
+    const report = (workerId: number, progress: NonceSearchProgress) => {
+      stats[workerId] = { workerId, hashRate: progress.hashRate, hashes: progress.hashes, nonce: progress.nonce };
+      lastHash = progress.lastHash;
+      onProgress({
+        workers: stats.map(worker => ({ ...worker })),
+        hashRate: stats.reduce((sum, worker) => sum + worker.hashRate, 0),
+        hashes: stats.reduce((sum, worker) => sum + worker.hashes, 0),
+        lastHash,
+      });
+    };
+
+    return new Promise(resolve => {
+      this.finish = resolve;
+
+      if (!this.createWorker) {
+        const [startNonce, endNonce] = nonceRange(0, 1, range);
+        searchNonces(
+          { id, header: jobHeader, difficulty, startNonce, endNonce, shareDifficulty },
+          () => this.jobId !== id,
+          progress => report(0, progress),
+          share => onShare?.(share)
+        ).then(result => {
+          if (this.jobId === id) this.settle(result);
+        });
+        return;
+      }
+
+      this.resize(count);
+      let exhausted = 0;
+      this.workers.forEach((worker, index) => {
+        const [startNonce, endNonce] = nonceRange(index, count, range);
+        worker.onmessage = (event: MessageEvent<MinerResponse>) => {
+          const message = event.data;
+          if (message.jobId !== id) return;
+          if (message.type === 'progress') {
+            report(index, message.progress);
+          } else if (message.type === 'share') {
+            onShare?.(message.result);
+          } else if (message.type === 'found') {
+            this.stop(message.result);
+          } else if (++exhausted === count) {
+            this.stop();
+          }
+        };
+        worker.onerror = (event) => {
+          console.error(`Mining worker ${index} failed:`, event.message);
+          if (++exhausted === count) this.stop();
+        };
+        this.send(worker, { type: 'start', job: { id, header: jobHeader, difficulty, startNonce, endNonce, shareDifficulty } });
+      });
+    });
+  }
+
+  // End the current job; its promise resolves with `result` (null when stopped)
+  stop(result: NonceSearchResult | null = null): void {
+    this.jobId++;
+    this.workers.forEach(worker => this.send(worker, { type: 'stop' }));
+    this.settle(result);
+  }
+
+  // Stop and release every worker thread
+  terminate(): void {
+    this.stop();
+    this.resize(0);
+  }
+
+  private settle(result: NonceSearchResult | null): void {
+    const finish = this.finish;
+    this.finish = null;
+    finish?.(result);
+  }
+
+  private send(worker: Worker, message: MinerRequest): void {
+    worker.postMessage(message);
+  }
+
+  private resize(count: number): void {
+    while (this.workers.length > count) this.workers.pop()!.terminate();
+    while (this.createWorker && this.workers.length < count) this.workers.push(this.createWorker());
+  }
+}
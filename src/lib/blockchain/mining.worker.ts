@@ -0,0 +1,31 @@
+// ============= MINING WORKER =============
+//
+// Runs one nonce search at a time for the mining pool. A new job or a stop
+// message cancels the running search.
+
+import { MinerRequest, MinerResponse, searchNonces } from './pow';
+
+let activeJob: number | null = null;
+
+const post = (message: MinerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<MinerRequest>) => {
+  const message = event.data;
+  if (message.type === 'stop') {
+    activeJob = null;
+    return;
+  }
+
+  const { job } = message;
+  activeJob = job.id;
+  const result = await searchNonces(
+    job,
+    () => activeJob !== job.id,
+    progress => post({ type: 'progress', jobId: job.id, progress }),
+    share => post({ type: 'share', jobId: job.id, result: share })
+  );
+  if (activeJob !== job.id) return;
+
+  activeJob = null;
+  post(result ? { type: 'found', jobId: job.id, result } : { type: 'exhausted', jobId: job.id });
+};
@@ -0,0 +1,86 @@
+// ============= MULTISIG POLICIES =============
+//
+// An m-of-n policy names n cosigner public keys, any m of which must sign to
+// spend. Its address is the SHA-256 of the policy in canonical form (keys
+// sorted) as a version 1 address, so the same cosigners and threshold always
+// give the same address whatever order the keys were entered in. A spending
+// transaction reveals the policy and carries one signature per cosigner; it is
+// valid once m distinct cosigners have signed the usual signing payload.
+// Policies are shared between cosigners as descriptors: multi(2,<key>,<key>,<key>).
+
+import { decodeMultisigAddress, policyHashToAddress } from '../address';
+import { isValidPublicKey, sha256Bytes, verifySignature } from '../crypto';
+
+export const MAX_COSIGNERS = 15;
+
+export interface MultisigPolicy {
+  // Signatures required
+  m: number;
+  // Compressed secp256k1 public keys (hex), sorted
+  publicKeys: string[];
+}
+
+export interface MultisigSignature {
+  publicKey: string;
+  signature: string;
+}
+
+// Validate and normalise a policy. Throws with the reason when it is unusable.
+export function createMultisigPolicy(m: number, publicKeys: string[]): MultisigPolicy {
+  const keys = publicKeys.map(key => key.trim().toLowerCase()).filter(Boolean);
+  if (keys.length === 0) throw new Error('A multisig policy needs at least one cosigner');
+  if (keys.length > MAX_COSIGNERS) throw new Error(`A multisig policy has at most ${MAX_COSIGNERS} cosigners`);
+  const invalid = keys.find(key => key.length !== 66 || !isValidPublicKey(key));
+  if (invalid) throw new Error(`Not a compressed public key: ${invalid.slice(0, 16)}...`);
+  if (new Set(keys).size !== keys.length) throw new Error('Each cosigner key may appear only once');
+  if (!Number.isInteger(m) || m < 1 || m > keys.length) {
+    throw new Error(`Required signatures must be between 1 and ${keys.length}`);
+  }
+  return { m, publicKeys: [...keys].sort() };
+}
+
+export function isValidMultisigPolicy(policy: MultisigPolicy): boolean {
+  try {
+    const normalised = createMultisigPolicy(policy.m, policy.publicKeys);
+    return normalised.publicKeys.every((key, index) => key === policy.publicKeys[index]);
+  } catch {
+    return false;
+  }
+}
+
+function policyHash(policy: MultisigPolicy): Uint8Array {
+  return sha256Bytes(formatMultisigDescriptor(policy));
+}
+
+export function getMultisigAddress(policy: MultisigPolicy): string {
+  return policyHashToAddress(policyHash(policy));
+}
+
+// True when `policy` is the one `address` commits to
+export function policyMatchesAddress(policy: MultisigPolicy, address: string): boolean {
+  const hash = decodeMultisigAddress(address);
+  if (!hash || !isValidMultisigPolicy(policy)) return false;
+  const expected = policyHash(policy);
+  return hash.every((byte, index) => byte === expected[index]);
+}
+
+export function formatMultisigDescriptor(policy: MultisigPolicy): string {
+  return `multi(${policy.m},${policy.publicKeys.join(',')})`;
+}
+
+// Read a descriptor such as multi(2,<key>,<key>,<key>). Throws when malformed.
+export function parseMultisigDescriptor(descriptor: string): MultisigPolicy {
+  const match = /^multi\((\d+),([0-9a-fA-F,\s]+)\)$/.exec(descriptor.trim());
+  if (!match) throw new Error('Expected a descriptor like multi(2,<public key>,<public key>,...)');
+  return createMultisigPolicy(Number(match[1]), match[2].split(','));
+}
+
+// Cosigners of `policy` with a valid signature over `payload`, each counted once
+export function getValidSigners(policy: MultisigPolicy, payload: Uint8Array, signatures: MultisigSignature[]): string[] {
+  const signers = new Set<string>();
+  signatures.forEach(({ publicKey, signature }) => {
+    const key = publicKey.toLowerCase();
+    if (policy.publicKeys.includes(key) && verifySignature(signature, payload, key)) signers.add(key);
+  });
+  return policy.publicKeys.filter(key => signers.has(key));
+}
@@ -0,0 +1,94 @@
+// ============= ACCOUNT NONCES =============
+//
+// Every transaction a wallet signs carries its sender's account nonce, and a
+// sender's nonces must strictly increase along the chain. A signed transaction
+// can therefore confirm only once: a rebroadcast copy, or anything else reusing
+// a nonce already confirmed, is rejected by the mempool and by block
+// validation. Gaps are allowed, so a transaction that never confirms does not
+// hold up the ones after it. Payments scheduled with a lock time (see
+// locktime.ts) take their nonce when they are signed and broadcast, not when
+// they are scheduled. Coinbases carry no nonce; transactions confirmed before
+// nonces existed stay valid history but are never admitted or mined again.
+
+import { isCoinbaseSender } from './consensus';
+import type { Block, Transaction } from './types';
+
+// Highest confirmed nonce per sender
+export type NonceState = Map<string, number>;
+
+export type NonceCheck =
+  | 'ok'
+  | 'missing' // a wallet transaction without a nonce
+  | 'reused'; // not above the sender's last confirmed nonce
+
+export function applyBlockNonces(nonces: NonceState, block: Block): void {
+  block.transactions.forEach(tx => {
+    if (tx.nonce === undefined || isCoinbaseSender(tx.from)) return;
+    nonces.set(tx.from, Math.max(tx.nonce, nonces.get(tx.from) ?? -1));
+  });
+}
+
+export function getNonceState(chain: Block[]): NonceState {
+  const nonces: NonceState = new Map();
+  chain.forEach(block => applyBlockNonces(nonces, block));
+  return nonces;
+}
+
+// The sender's last confirmed nonce, -1 before their first transaction
+export function getAccountNonce(nonces: NonceState, address: string): number {
+  return nonces.get(address) ?? -1;
+}
+
+// The nonce for the sender's next transaction, after everything confirmed and pending
+export function getNextNonce(nonces: NonceState, mempool: Transaction[], address: string): number {
+  return mempool.reduce(
+    (highest, tx) => (tx.from === address && tx.nonce !== undefined ? Math.max(highest, tx.nonce) : highest),
+    getAccountNonce(nonces, address)
+  ) + 1;
+}
+
+export function checkTransactionNonce(tx: Transaction, nonces: NonceState): NonceCheck {
+  if (isCoinbaseSender(tx.from)) return 'ok';
+  if (tx.nonce === undefined) return 'missing';
+  return tx.nonce > getAccountNonce(nonces, tx.from) ? 'ok' : 'reused';
+}
+
+// Check a block's transactions against the chain it extends: each needs a
+// nonce above its sender's previous one, in block order, and none may have
+// confirmed before
+export function validateBlockNonces(block: Block, chain: Block[]): boolean {
+  const nonces = getNonceState(chain);
+  const confirmedIds = new Set(chain.flatMap(confirmed => confirmed.transactions.map(tx => tx.id)));
+
+  for (const tx of block.transactions) {
+    if (confirmedIds.has(tx.id)) {
+      console.error(`Transaction ${tx.id} is already confirmed`);
+      return false;
+    }
+    confirmedIds.add(tx.id);
+
+    const check = checkTransactionNonce(tx, nonces);
+    if (check !== 'ok') {
+      console.error(`Transaction ${tx.id} has a ${check} nonce`);
+      return false;
+    }
+    if (tx.nonce !== undefined && !isCoinbaseSender(tx.from)) nonces.set(tx.from, tx.nonce);
+  }
+  return true;
+}
+
+// Reorder transactions so each sender's appear in nonce order, keeping the
+// positions the sender's transactions held: a sender's first slot takes their
+// lowest nonce, and so on. Transactions without a nonce keep their place.
+export function orderBySenderNonce(transactions: Transaction[]): Transaction[] {
+  const bySender = new Map<string, Transaction[]>();
+  transactions.forEach(tx => {
+    if (tx.nonce === undefined) return;
+    const queue = bySender.get(tx.from);
+    if (queue) queue.push(tx);
+    else bySender.set(tx.from, [tx]);
+  });
+  bySender.forEach(queue => queue.sort((a, b) => a.nonce! - b.nonce!));
+
+  return transactions.map(tx => (tx.nonce === undefined ? tx : bySender.get(tx.from)!.shift()!));
+}
@@ -0,0 +1,242 @@
+// ============= POOL MINING =============
+//
+// A Stratum-like protocol for mining through a pool on localhost. Requests are
+// JSON-RPC style objects ({ id, method, params }) POSTed to the pool's /rpc
+// endpoint, and `mining.notify` long-polls for the next job in place of
+// Stratum's pushed notifications. Every session mines its own nonce range,
+// submits shares at an easier difficulty than the block, and the pool splits
+// each block's coinbase between the last N shares by their work (PPLNS).
+
+import { sha256Hex } from '../crypto';
+import { Amount, readAmount, sumAmounts } from './amount';
+import type { ChainDocument } from './adapters';
+import { blockHashPreimage } from './consensus';
+import { expectedHashes, meetsDifficulty } from './difficulty';
+import { ENCODING_VERSION, computeTransactionId } from './encoding';
+import type { Block, Transaction, TxOutput } from './types';
+
+export const DEFAULT_POOL_URL = 'http://127.0.0.1:3333';
+// Shares are this many difficulty units below the block: 16x easier per unit
+export const SHARE_DIFFICULTY_OFFSET = 1;
+export const DEFAULT_PPLNS_WINDOW = 1000; // shares
+// Nonces reserved for each session, so miners never duplicate each other's work
+export const SESSION_NONCE_RANGE = 2 ** 40;
+
+export type PoolMethod =
+  | 'mining.subscribe'
+  | 'mining.authorize'
+  | 'mining.notify'
+  | 'mining.submit'
+  | 'pool.stats'
+  | 'pool.chain';
+
+export interface PoolRequest {
+  id: number;
+  method: PoolMethod;
+  params: unknown[];
+}
+
+export interface PoolResponse<T = unknown> {
+  id: number;
+  result: T | null;
+  error: string | null;
+}
+
+export interface PoolSubscription {
+  sessionId: string;
+  nonceRange: [number, number];
+}
+
+export interface PoolJob {
+  jobId: string;
+  // Block to mine, pool coinbase included; miners only vary the nonce
+  header: Omit<Block, 'hash'>;
+  difficulty: number;
+  shareDifficulty: number;
+  // Set when the job builds on a new block and earlier jobs are stale
+  cleanJobs: boolean;
+}
+
+export interface ShareResult {
+  accepted: boolean;
+  // The share also met the block difficulty and extended the pool's chain
+  block: boolean;
+  reason?: string;
+}
+
+export interface PoolShare {
+  address: string;
+  difficulty: number;
+  timestamp: number;
+}
+
+export interface PoolPayoutShare {
+  address: string;
+  shares: number;
+  // Fraction of the next block's coinbase
+  fraction: number;
+}
+
+export interface PoolStats {
+  miners: number;
+  // Estimated from accepted shares over the last minute, hashes per second
+  hashRate: number;
+  height: number;
+  blocksFound: number;
+  shareDifficulty: number;
+  window: PoolPayoutShare[];
+}
+
+// Precision of the work fractions a coinbase is split by
+const SPLIT_SCALE = 10n ** 12n;
+
+// The last `windowSize` accepted shares, weighted by the work their difficulty represents
+export class PPLNSLedger {
+  private shares: PoolShare[] = [];
+
+  constructor(private windowSize: number = DEFAULT_PPLNS_WINDOW, shares: PoolShare[] = []) {
+    shares.forEach(share => this.add(share));
+  }
+
+  add(share: PoolShare): void {
+    this.shares.push(share);
+    if (this.shares.length > this.windowSize) this.shares.splice(0, this.shares.length - this.windowSize);
+  }
+
+  getShares(): PoolShare[] {
+    return [...this.shares];
+  }
+
+  // Work per address across the window
+  getWork(): Map<string, number> {
+    const work = new Map<string, number>();
+    this.shares.forEach(share => {
+      work.set(share.address, (work.get(share.address) || 0) + expectedHashes(share.difficulty));
+    });
+    return work;
+  }
+
+  getPayoutShares(): PoolPayoutShare[] {
+    const work = this.getWork();
+    const total = [...work.values()].reduce((sum, value) => sum + value, 0);
+    return [...work.entries()]
+      .map(([address, value]) => ({
+        address,
+        shares: this.shares.filter(share => share.address === address).length,
+        fraction: total > 0 ? value / total : 0,
+      }))
+      .sort((a, b) => b.fraction - a.fraction);
+  }
+
+  // Coinbase outputs paying `reward` in proportion to work. Rounding dust goes to
+  // the largest contributor; with no shares yet everything goes to `fallbackAddress`.
+  split(reward: Amount, fallbackAddress: string): TxOutput[] {
+    const payouts = this.getPayoutShares();
+    if (payouts.length === 0) return [{ address: fallbackAddress, amount: reward }];
+
+    const outputs = payouts
+      .map(payout => ({
+        address: payout.address,
+        amount: (reward * BigInt(Math.floor(payout.fraction * Number(SPLIT_SCALE)))) / SPLIT_SCALE,
+      }))
+      .filter(output => output.amount > 0n);
+    if (outputs.length === 0) return [{ address: payouts[0].address, amount: reward }];
+    outputs[0].amount += reward - sumAmounts(outputs.map(output => output.amount));
+    return outputs;
+  }
+}
+
+// Coinbase paying several miners at once, as a UTXO-style transaction with no inputs
+export function createPoolCoinbase(outputs: TxOutput[], timestamp: number = Date.now()): Transaction {
+  const amount = sumAmounts(outputs.map(output => output.amount));
+  const tx: Transaction = {
+    version: ENCODING_VERSION,
+    id: '',
+    from: 'NETWORK',
+    to: outputs[0].address,
+    amount,
+    fee: 0n,
+    timestamp,
+    isCoinbase: true,
+    status: 'confirmed',
+    inputs: [],
+    outputs,
+  };
+  return { ...tx, id: computeTransactionId(tx) };
+}
+
+// Hash a submitted nonce against a job's share and block difficulties
+export function checkShare(job: PoolJob, nonce: number): { hash: string; share: boolean; block: boolean } {
+  const hash = sha256Hex(blockHashPreimage({ ...job.header, nonce }));
+  return {
+    hash,
+    share: meetsDifficulty(hash, job.shareDifficulty),
+    block: meetsDifficulty(hash, job.difficulty),
+  };
+}
+
+// Amounts in a job arrive as JSON numbers or strings (see amount.ts)
+function readJob(job: PoolJob): PoolJob {
+  const transactions = job.header.transactions.map(tx => ({
+    ...tx,
+    amount: readAmount(tx.amount),
+    fee: readAmount(tx.fee),
+    ...(tx.outputs && { outputs: tx.outputs.map(output => ({ ...output, amount: readAmount(output.amount) })) }),
+  }));
+  return { ...job, header: { ...job.header, transactions, reward: readAmount(job.header.reward) } };
+}
+
+// Browser (or Node) side of the protocol
+export class PoolClient {
+  private nextId = 1;
+
+  constructor(readonly url: string = DEFAULT_POOL_URL) {}
+
+  private async call<T>(method: PoolMethod, params: unknown[], signal?: AbortSignal): Promise<T> {
+    const request: PoolRequest = { id: this.nextId++, method, params };
+    const response = await fetch(`${this.url.replace(/\/+$/, '')}/rpc`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+    if (!response.ok) throw new Error(`Pool responded with HTTP ${response.status}`);
+    const body = (await response.json()) as PoolResponse<T>;
+    if (body.error) throw new Error(body.error);
+    return body.result as T;
+  }
+
+  subscribe(): Promise<PoolSubscription> {
+    return this.call('mining.subscribe', []);
+  }
+
+  authorize(sessionId: string, address: string): Promise<boolean> {
+    return this.call('mining.authorize', [sessionId, address]);
+  }
+
+  // Resolves with the current job, or waits for the next one while `knownJobId` is current
+  async notify(sessionId: string, knownJobId: string | null, signal?: AbortSignal): Promise<PoolJob> {
+    return readJob(await this.call<PoolJob>('mining.notify', [sessionId, knownJobId], signal));
+  }
+
+  // Keep polling until a job other than `knownJobId` arrives
+  async nextJob(sessionId: string, knownJobId: string, signal?: AbortSignal): Promise<PoolJob> {
+    for (;;) {
+      const job = await this.notify(sessionId, knownJobId, signal);
+      if (job.jobId !== knownJobId) return job;
+    }
+  }
+
+  submit(sessionId: string, jobId: string, nonce: number): Promise<ShareResult> {
+    return this.call('mining.submit', [sessionId, jobId, nonce]);
+  }
+
+  getStats(): Promise<PoolStats> {
+    return this.call('pool.stats', []);
+  }
+
+  // The pool's chain in the wire format, for importing into the local store
+  getChain(): Promise<ChainDocument> {
+    return this.call('pool.chain', []);
+  }
+}
@@ -0,0 +1,90 @@
+// ============= PROOF OF WORK =============
+//
+// The nonce search itself, shared by the mining workers and the single-thread
+// fallback used where Web Workers are unavailable. Each search covers one
+// contiguous nonce range and yields between batches so it can be stopped.
+// Hashing works on raw header bytes through the active hash engine; digests
+// are only turned into hex for a solution or a progress report.
+
+import { bytesToHex } from '../crypto';
+import { blockNonceTemplate } from './consensus';
+import { createNonceHasher, meetsTarget, targetBytes } from './hashing';
+import type { Block } from './types';
+
+// Hashes between checks for a stop message; synchronous engines get through a batch in a few ms
+const BATCH_SIZE = 5000;
+const PROGRESS_INTERVAL = 250; // ms
+
+export interface MiningJob {
+  id: number;
+  header: Omit<Block, 'hash'>;
+  difficulty: number;
+  startNonce: number;
+  // Exclusive
+  endNonce: number;
+  // Pool mining: hashes meeting this easier target are reported as shares and the search goes on
+  shareDifficulty?: number;
+}
+
+export interface NonceSearchProgress {
+  hashes: number;
+  // Over the last progress interval
+  hashRate: number;
+  nonce: number;
+  lastHash: string;
+}
+
+export interface NonceSearchResult {
+  nonce: number;
+  hash: string;
+}
+
+// Messages between the mining pool and its workers
+export type MinerRequest = { type: 'start'; job: MiningJob } | { type: 'stop' };
+
+export type MinerResponse =
+  | { type: 'progress'; jobId: number; progress: NonceSearchProgress }
+  | { type: 'share'; jobId: number; result: NonceSearchResult }
+  | { type: 'found'; jobId: number; result: NonceSearchResult }
+  | { type: 'exhausted'; jobId: number };
+
+// Resolves with the first nonce in range that meets the difficulty, or null
+// when the range runs out or `isCancelled` turns true
+export async function searchNonces(
+  job: MiningJob,
+  isCancelled: () => boolean,
+  onProgress: (progress: NonceSearchProgress) => void,
+  onShare?: (share: NonceSearchResult) => void
+): Promise<NonceSearchResult | null> {
+  const hashNonce = createNonceHasher(blockNonceTemplate(job.header));
+  const target = targetBytes(job.difficulty);
+  const shareTarget = job.shareDifficulty !== undefined ? targetBytes(job.shareDifficulty) : null;
+  let hashes = 0;
+  let hash: Uint8Array = new Uint8Array(32);
+  let lastReport = Date.now();
+  let hashesAtLastReport = 0;
+
+  for (let nonce = job.startNonce; nonce < job.endNonce; ) {
+    const batchEnd = Math.min(job.endNonce, nonce + BATCH_SIZE);
+    for (; nonce < batchEnd; nonce++) {
+      const digest = hashNonce(nonce);
+      hash = digest instanceof Promise ? await digest : digest;
+      hashes++;
+      if (meetsTarget(hash, target)) return { nonce, hash: bytesToHex(hash) };
+      if (shareTarget && meetsTarget(hash, shareTarget)) onShare?.({ nonce, hash: bytesToHex(hash) });
+    }
+
+    const now = Date.now();
+    if (now - lastReport >= PROGRESS_INTERVAL) {
+      const hashRate = Math.round(((hashes - hashesAtLastReport) / (now - lastReport)) * 1000);
+      onProgress({ hashes, hashRate, nonce, lastHash: bytesToHex(hash) });
+      lastReport = now;
+      hashesAtLastReport = hashes;
+    }
+
+    // Give queued messages (a stop, a new job) a chance to run
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (isCancelled()) return null;
+  }
+  return null;
+}
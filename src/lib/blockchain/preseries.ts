@@ -0,0 +1,172 @@
+// ============= PRE-SERIES CHAINS =============
+//
+// Chains written before the current format start from a genesis block whose
+// hash is the placeholder "genesis_hash" and whose previous hash is "0". Their
+// headers hash nothing anyone can recompute, their signatures are placeholders
+// and their difficulty never retargets, so the full validator rejects every
+// one of them. What they can still prove is their bookkeeping: the blocks link
+// up, no transaction repeats, moves a non-positive amount or spends more than
+// its sender had, no coinbase pays more than the reward schedule plus fees,
+// nothing issues past MAX_SUPPLY, and the balances the snapshot claims are the
+// ones its blocks replay to.
+// A chain whose bookkeeping holds is converted into a current one: a single
+// genesis block allocating every balance it confirmed, stamped with its tip's
+// time, so every client converting the same chain gets the same genesis block.
+// Its pending transactions are dropped, their signatures being placeholders
+// too. The balances of legacy addresses are then moved by claiming them (see
+// legacy.ts).
+
+import { sha256Hex } from '../crypto';
+import { ChainDocument, fromGSCBlock, fromGSCTransaction, toGSCBlock } from './adapters';
+import { Amount, formatAmount } from './amount';
+import {
+  MAX_SUPPLY,
+  blockHashPreimage,
+  calculateMiningReward,
+  getBlockFees,
+  getCoinbaseAmount,
+  isCoinbaseSender,
+} from './consensus';
+import { INITIAL_DIFFICULTY } from './difficulty';
+import { ENCODING_VERSION, computeTransactionId } from './encoding';
+import { buildLedger, findBalanceDiscrepancies, replayChain } from './ledger';
+import { calculateMerkleRoot } from './merkle';
+import type { Block, Transaction } from './types';
+import type { ChainValidationReport, ChainViolation } from './validator';
+
+const PRE_SERIES_GENESIS_HASH = 'genesis_hash';
+
+export interface PreSeriesConversion {
+  // On the pre-series chain's bookkeeping; valid when it was converted
+  report: ChainValidationReport;
+  // The converted snapshot, when the report is valid
+  document?: ChainDocument;
+}
+
+export function isPreSeriesChain(document: ChainDocument): boolean {
+  const genesis = document.chain[0];
+  return genesis !== undefined && !genesis.version &&
+    (genesis.previous_hash === '0' || genesis.hash === PRE_SERIES_GENESIS_HASH);
+}
+
+// Everything a pre-series chain can prove about itself
+function checkBookkeeping(blocks: Block[], pending: Transaction[], claimed: Record<string, Amount>): ChainViolation[] {
+  const violations: ChainViolation[] = [];
+  const positions = new Map<string, { blockIndex: number; txIndex: number }>();
+  let issued = 0n;
+
+  blocks.forEach((block, blockIndex) => {
+    const at = { blockIndex };
+    if (blockIndex > 0 && (block.index !== blocks[blockIndex - 1].index + 1 || block.previousHash !== blocks[blockIndex - 1].hash)) {
+      violations.push({ ...at, kind: 'linkage', message: 'Does not follow the block before' });
+    }
+    // Genesis allocations are limited only by the cap
+    const paid = getCoinbaseAmount(block);
+    const allowed = calculateMiningReward(block.index) + getBlockFees(block);
+    if (blockIndex > 0 && paid > allowed) {
+      violations.push({ ...at, kind: 'coinbase', message: `Coinbase pays ${formatAmount(paid)} GSC, at most ${formatAmount(allowed)} GSC allowed` });
+    }
+    issued += paid;
+    if (issued > MAX_SUPPLY) {
+      violations.push({ ...at, kind: 'supply', message: `Issues past the ${formatAmount(MAX_SUPPLY, { decimals: 0, grouped: true })} GSC cap` });
+    }
+
+    block.transactions.forEach((tx, txIndex) => {
+      const position = { blockIndex, txIndex, txId: tx.id, address: tx.from };
+      if (positions.has(tx.id)) {
+        violations.push({ ...position, kind: 'duplicate', message: 'Transaction id already confirmed earlier' });
+        return;
+      }
+      positions.set(tx.id, { blockIndex, txIndex });
+      if (!isCoinbaseSender(tx.from) && (tx.amount <= 0n || tx.fee < 0n)) {
+        violations.push({ ...position, kind: 'amount', message: `Amount ${formatAmount(tx.amount)} with fee ${formatAmount(tx.fee)}` });
+      }
+    });
+  });
+
+  replayChain(blocks).overspends.forEach(overspend => violations.push({
+    kind: 'overspend',
+    ...positions.get(overspend.txId),
+    txId: overspend.txId,
+    address: overspend.address,
+    message: `Spends ${formatAmount(overspend.spent)} GSC with ${formatAmount(overspend.balanceBefore)} GSC available`,
+  }));
+
+  if (Object.keys(claimed).length > 0) {
+    findBalanceDiscrepancies(buildLedger(blocks, pending), claimed).forEach(discrepancy => violations.push({
+      kind: 'balance',
+      address: discrepancy.address,
+      message: `Claims ${formatAmount(discrepancy.imported)} GSC, the chain gives ${formatAmount(discrepancy.replayed)} GSC`,
+    }));
+  }
+
+  return violations;
+}
+
+// The genesis block of the converted chain: one allocation per address with a
+// positive confirmed balance, in address order
+function createConvertedGenesis(balances: Record<string, Amount>, timestamp: number): Block {
+  const transactions = Object.keys(balances)
+    .filter(address => !isCoinbaseSender(address) && balances[address] > 0n)
+    .sort()
+    .map(address => {
+      const tx: Transaction = {
+        version: ENCODING_VERSION,
+        id: '',
+        from: 'GENESIS',
+        to: address,
+        amount: balances[address],
+        fee: 0n,
+        timestamp,
+        isCoinbase: true,
+        status: 'confirmed',
+        blockNumber: 0,
+      };
+      return { ...tx, id: computeTransactionId(tx) };
+    });
+
+  const genesis: Omit<Block, 'hash'> = {
+    version: ENCODING_VERSION,
+    index: 0,
+    timestamp,
+    transactions,
+    previousHash: '0'.repeat(64),
+    nonce: 0,
+    difficulty: INITIAL_DIFFICULTY,
+    miner: 'GENESIS',
+    reward: 0n,
+    merkleRoot: calculateMerkleRoot(transactions),
+  };
+  return { ...genesis, hash: sha256Hex(blockHashPreimage(genesis)) };
+}
+
+// Check what a pre-series `document` can prove and, if it holds, convert it
+export function convertPreSeriesChain(document: ChainDocument): PreSeriesConversion {
+  const blocks = document.chain.map(fromGSCBlock);
+  const pending = document.pending_transactions.map(tx => fromGSCTransaction(tx));
+  const violations = checkBookkeeping(blocks, pending, document.balances);
+  const report: ChainValidationReport = {
+    valid: violations.length === 0,
+    blocks: blocks.length,
+    transactions: blocks.reduce((sum, block) => sum + block.transactions.length, 0),
+    violations,
+  };
+  if (!report.valid) return { report };
+
+  const { confirmed } = replayChain(blocks);
+  const genesis = createConvertedGenesis(confirmed, blocks[blocks.length - 1].timestamp);
+  const balances: Record<string, Amount> = {};
+  genesis.transactions.forEach(tx => {
+    balances[tx.to] = tx.amount;
+  });
+  return {
+    report,
+    document: {
+      ...document,
+      chain: [toGSCBlock(genesis)],
+      pending_transactions: [],
+      balances,
+      difficulty: INITIAL_DIFFICULTY,
+    },
+  };
+}
@@ -0,0 +1,111 @@
+// ============= PARTIALLY-SIGNED TRANSACTIONS =============
+//
+// A spend from a multisig address travels between cosigners as a file: the
+// transaction, the policy it spends under and the signatures gathered so far.
+// Each cosigner loads it, checks what it pays, adds their signature and passes
+// it on; once m cosigners have signed, whoever holds the file broadcasts it.
+// Every signature covers the same signing payload, so adding one never
+// invalidates the others and copies signed in parallel can be combined.
+
+import { bytesToHex, getPublicKey, signMessage } from '../crypto';
+import { fromGSCTransaction, toGSCTransaction, toWireTransaction } from './adapters';
+import type { GSCTransaction } from './adapters';
+import { stringifyWithAmounts } from './amount';
+import { transactionSigningPayload } from './consensus';
+import { MultisigPolicy, MultisigSignature, getValidSigners, policyMatchesAddress } from './multisig';
+import type { Transaction } from './types';
+
+export const PSBT_FORMAT = 'gsc-psbt';
+export const PSBT_VERSION = 1;
+
+// The file as written to disk, transaction in the wire format
+export interface PartiallySignedFile {
+  format: typeof PSBT_FORMAT;
+  version: number;
+  transaction: GSCTransaction;
+}
+
+export interface SigningStatus {
+  required: number;
+  // Cosigner keys with a valid signature
+  signers: string[];
+  // Cosigner keys that have not signed yet
+  missing: string[];
+  complete: boolean;
+}
+
+// Start a partially-signed spend of `tx` from the multisig address `policy` commits to
+export function createPartiallySignedTransaction(tx: Transaction, policy: MultisigPolicy): Transaction {
+  if (!policyMatchesAddress(policy, tx.from)) throw new Error('The policy does not match the sending address');
+  return { ...tx, publicKey: undefined, signature: undefined, multisig: policy, signatures: [] };
+}
+
+function requirePolicy(tx: Transaction): MultisigPolicy {
+  if (!tx.multisig || !policyMatchesAddress(tx.multisig, tx.from)) {
+    throw new Error('The policy does not match the sending address');
+  }
+  return tx.multisig;
+}
+
+export function getSigningStatus(tx: Transaction): SigningStatus {
+  const policy = requirePolicy(tx);
+  const signers = getValidSigners(policy, transactionSigningPayload(tx), tx.signatures ?? []);
+  return {
+    required: policy.m,
+    signers,
+    missing: policy.publicKeys.filter(key => !signers.includes(key)),
+    complete: signers.length >= policy.m,
+  };
+}
+
+// Add (or refresh) one cosigner's signature
+export function addMultisigSignature(tx: Transaction, privateKey: string): Transaction {
+  const policy = requirePolicy(tx);
+  const publicKey = getPublicKey(privateKey);
+  if (!policy.publicKeys.includes(publicKey)) throw new Error('This key is not a cosigner of the policy');
+  const signature = signMessage(transactionSigningPayload(tx), privateKey);
+  const others = (tx.signatures ?? []).filter(entry => entry.publicKey.toLowerCase() !== publicKey);
+  return { ...tx, signatures: [...others, { publicKey, signature }] };
+}
+
+// Merge the signatures of two copies of the same partially-signed transaction
+export function combinePartiallySigned(a: Transaction, b: Transaction): Transaction {
+  const policy = requirePolicy(a);
+  const payload = transactionSigningPayload(a);
+  if (bytesToHex(payload) !== bytesToHex(transactionSigningPayload(b)) || b.multisig === undefined
+    || b.multisig.m !== policy.m || b.multisig.publicKeys.join() !== policy.publicKeys.join()) {
+    throw new Error('These files hold different transactions');
+  }
+  const all = [...(a.signatures ?? []), ...(b.signatures ?? [])];
+  const signatures: MultisigSignature[] = getValidSigners(policy, payload, all)
+    .map(key => all.find(entry => entry.publicKey.toLowerCase() === key)!);
+  return { ...a, signatures };
+}
+
+export function serializePartiallySigned(tx: Transaction): string {
+  requirePolicy(tx);
+  const file: PartiallySignedFile = { format: PSBT_FORMAT, version: PSBT_VERSION, transaction: toGSCTransaction(tx) };
+  return stringifyWithAmounts(file, 2);
+}
+
+// Read a partially-signed transaction file. Throws when it is not one, when its
+// policy does not match the sender or when a signature does not verify.
+export function parsePartiallySigned(text: string): Transaction {
+  let raw: Partial<PartiallySignedFile>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a partially-signed transaction file');
+  }
+  if (raw?.format !== PSBT_FORMAT) throw new Error('Not a partially-signed transaction file');
+  if (raw.version !== PSBT_VERSION) throw new Error(`Unsupported partially-signed transaction version ${raw.version}`);
+
+  const wire = toWireTransaction(raw.transaction);
+  if (!wire) throw new Error('The file does not contain a readable transaction');
+  const parsed = fromGSCTransaction(wire);
+  const tx = { ...parsed, signatures: parsed.signatures ?? [] };
+  const { signers } = getSigningStatus(tx);
+  const invalid = tx.signatures.find(entry => !signers.includes(entry.publicKey.toLowerCase()));
+  if (invalid) throw new Error(`The signature by ${invalid.publicKey.slice(0, 16)}... does not match the transaction`);
+  return tx;
+}
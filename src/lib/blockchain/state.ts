@@ -0,0 +1,530 @@
+// ============= BLOCKCHAIN STATE (mining / explorer UI) =============
+
+import { getPublicKey, isValidPrivateKey } from '../crypto';
+import { publicKeyToAddress } from '../address';
+import { Amount, readAmount, stringifyWithAmounts } from './amount';
+import { createCoinbaseTransaction, signTransaction, validateTransaction } from './consensus';
+import { getNextDifficulty } from './difficulty';
+import { getBlockSubsidy, getIssuedSupply } from './emission';
+import { ENCODING_VERSION } from './encoding';
+import { FeeEstimates, estimateFees } from './fees';
+import type { ReorgEvent } from './forks';
+import { readChainDocument } from './adapters';
+import { DEFAULT_MINING_THREADS, MAX_MINING_THREADS, MiningPool } from './mining';
+import { PoolClient, PoolJob, ShareResult } from './pool';
+import type { NonceSearchResult } from './pow';
+import {
+  MempoolAdmission,
+  MempoolPolicy,
+  buildBlockTemplate,
+  createReplacementTransaction,
+  getMempoolFees,
+} from './mempool';
+import { MerkleProof, calculateMerkleRoot, getMerkleProof } from './merkle';
+import { ChainStore, chainStore } from './storage';
+import { UTXO, involvesAddress } from './utxo';
+import { formatChainReport, validateBlock, validateChainDocument, validateFullChain } from './validator';
+import { generateRandomHex, generateWalletAddress, walletFromMnemonic } from './wallet';
+import type { Block, MiningStats, Transaction, Wallet } from './types';
+
+// Blockchain state manager class. Chain, mempool and balances live in the shared
+// chain store; only this UI's wallets and mining session are kept here.
+export class BlockchainState {
+  private wallets: Wallet[] = [];
+  private miningActive: boolean = false;
+  private miningStats: MiningStats = {
+    isActive: false,
+    currentNonce: 0,
+    hashAttempts: 0,
+    hashRate: 0,
+    elapsedTime: 0,
+    currentBlock: null,
+    threads: DEFAULT_MINING_THREADS,
+    workers: [],
+  };
+  // Proof of work runs in worker threads; see mining.ts
+  private pool = new MiningPool();
+  private miningThreads = DEFAULT_MINING_THREADS;
+  // Cancels the outstanding job poll of a pool mining session
+  private poolAbort: AbortController | null = null;
+  private onUpdate: (() => void) | null = null;
+
+  constructor(private store: ChainStore = chainStore) {
+    this.loadState();
+    this.store.subscribe(() => this.triggerUpdate());
+  }
+
+  setUpdateCallback(callback: () => void) {
+    this.onUpdate = callback;
+  }
+
+  private triggerUpdate() {
+    if (this.onUpdate) {
+      this.onUpdate();
+    }
+  }
+
+  private loadState() {
+    try {
+      const storedWallets = localStorage.getItem('vags_wallets');
+      if (storedWallets) {
+        this.wallets = (JSON.parse(storedWallets) as Wallet[]).map(wallet => ({ ...wallet, balance: readAmount(wallet.balance) }));
+      }
+
+      const storedThreads = Number(localStorage.getItem('vags_mining_threads'));
+      if (storedThreads >= 1) this.miningThreads = Math.min(MAX_MINING_THREADS, Math.floor(storedThreads));
+      this.miningStats.threads = this.miningThreads;
+
+      // Wallets created before real keypairs and checksummed addresses are re-derived from their key
+      this.wallets.forEach(wallet => {
+        if (!isValidPrivateKey(wallet.privateKey)) return;
+        const publicKey = getPublicKey(wallet.privateKey);
+        wallet.publicKey = publicKey;
+        wallet.address = publicKeyToAddress(publicKey);
+      });
+    } catch (e) {
+      console.error('Failed to load blockchain state:', e);
+    }
+  }
+
+  private saveState() {
+    try {
+      localStorage.setItem('vags_wallets', stringifyWithAmounts(this.wallets));
+    } catch (e) {
+      console.error('Failed to save blockchain state:', e);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    this.store.ensureGenesis();
+    this.store.expireMempool();
+  }
+
+  private withBalance(wallet: Wallet): Wallet {
+    const { available, pendingIncoming, pendingOutgoing } = this.store.getAddressBalance(wallet.address);
+    return { ...wallet, balance: available, pendingBalance: pendingIncoming - pendingOutgoing };
+  }
+
+  // Wallet operations. With a mnemonic, the key is derived from its BIP39 seed.
+  async createWallet(label: string, mnemonic?: string[]): Promise<Wallet> {
+    const { address, privateKey, publicKey } = mnemonic
+      ? await walletFromMnemonic(mnemonic)
+      : await generateWalletAddress();
+    const wallet: Wallet = {
+      id: generateRandomHex(16),
+      address,
+      privateKey,
+      publicKey,
+      label,
+      balance: 0n,
+      createdAt: Date.now(),
+    };
+    this.wallets.push(wallet);
+    this.saveState();
+    this.triggerUpdate();
+    return this.withBalance(wallet);
+  }
+
+  getWallets(): Wallet[] {
+    return this.wallets.map(wallet => this.withBalance(wallet));
+  }
+
+  getWallet(address: string): Wallet | undefined {
+    const wallet = this.wallets.find(w => w.address === address);
+    return wallet && this.withBalance(wallet);
+  }
+
+  removeWallet(address: string): void {
+    this.wallets = this.wallets.filter(w => w.address !== address);
+    this.saveState();
+    this.triggerUpdate();
+  }
+
+  importWallet(privateKey: string, label: string): Wallet | null {
+    if (!isValidPrivateKey(privateKey)) return null;
+
+    const existingWallet = this.wallets.find(w => w.privateKey === privateKey);
+    if (existingWallet) return this.withBalance(existingWallet);
+
+    const publicKey = getPublicKey(privateKey);
+    const wallet: Wallet = {
+      id: generateRandomHex(16),
+      address: publicKeyToAddress(publicKey),
+      privateKey,
+      publicKey,
+      label,
+      balance: 0n,
+      createdAt: Date.now(),
+    };
+    this.wallets.push(wallet);
+    this.saveState();
+    this.triggerUpdate();
+    return this.withBalance(wallet);
+  }
+
+  // Transaction operations. Funding, conflicts and fees are left to the mempool policy.
+  async submitTransaction(tx: Transaction): Promise<MempoolAdmission> {
+    if (!validateTransaction(tx)) {
+      return { accepted: false, message: 'Invalid transaction or signature', evicted: [], replaced: [] };
+    }
+    return this.store.admitTransaction(tx);
+  }
+
+  // Replace a pending transaction sent from one of these wallets by fee: a bump
+  // keeps the payment, a cancel sends the funds back to the sender
+  async replaceTransaction(txId: string, fee: Amount, cancel: boolean = false): Promise<MempoolAdmission> {
+    const original = this.store.getMempool().find(tx => tx.id === txId);
+    if (!original) throw new Error('Transaction is no longer pending');
+    const wallet = this.wallets.find(w => w.address === original.from);
+    if (!wallet) throw new Error('The sending wallet is not in this browser');
+
+    const replacement = await createReplacementTransaction(original, fee, {
+      cancel,
+      utxos: this.store.getSpendableOutputs(original.from),
+    });
+    return this.submitTransaction(await signTransaction(replacement, wallet.privateKey));
+  }
+
+  async addTransaction(tx: Transaction): Promise<boolean> {
+    return (await this.submitTransaction(tx)).accepted;
+  }
+
+  getMempool(): Transaction[] {
+    return [...this.store.getMempool()];
+  }
+
+  // Account nonce for the address's next transaction
+  getNextNonce(address: string): number {
+    return this.store.getNextNonce(address);
+  }
+
+  getMempoolPolicy(): MempoolPolicy {
+    return this.store.mempoolPolicy;
+  }
+
+  // Fee presets for a transaction of `size` bytes (a typical transfer by default)
+  getFeeEstimates(size?: number): FeeEstimates {
+    return estimateFees(this.store.getBlocks(), this.store.getMempool(), size, this.store.mempoolPolicy);
+  }
+
+  // Coins an address can spend in a UTXO-style transaction
+  getUnspentOutputs(address: string): UTXO[] {
+    return this.store.getSpendableOutputs(address);
+  }
+
+  getMempoolFees(): Amount {
+    return getMempoolFees(this.store.getMempool());
+  }
+
+  // Blockchain operations
+  getBlockchain(): Block[] {
+    return [...this.store.getBlocks()];
+  }
+
+  getLatestBlock(): Block {
+    return this.store.getLatestBlock()!;
+  }
+
+  getBlock(index: number): Block | undefined {
+    return this.store.getBlocks()[index];
+  }
+
+  getBlockByHash(hash: string): Block | undefined {
+    return this.store.getBlocks().find(b => b.hash === hash);
+  }
+
+  getTransaction(txId: string): Transaction | undefined {
+    // Check mempool
+    const mempoolTx = this.store.getMempool().find(tx => tx.id === txId);
+    if (mempoolTx) return mempoolTx;
+
+    // Check blockchain
+    for (const block of this.store.getBlocks()) {
+      const tx = block.transactions.find(t => t.id === txId);
+      if (tx) return tx;
+    }
+    return undefined;
+  }
+
+  // Merkle inclusion proof for a confirmed transaction, or null if it is not in a block with a Merkle root
+  getTransactionProof(txId: string): { proof: MerkleProof; block: Block } | null {
+    for (const block of this.store.getBlocks()) {
+      if (!block.merkleRoot) continue;
+      const proof = getMerkleProof(block, txId);
+      if (proof) return { proof, block };
+    }
+    return null;
+  }
+
+  getTransactionsByAddress(address: string): Transaction[] {
+    const transactions: Transaction[] = [];
+
+    // Check mempool
+    this.store.getMempool().forEach(tx => {
+      if (involvesAddress(tx, address)) {
+        transactions.push(tx);
+      }
+    });
+
+    // Check blockchain (UTXO-style transactions may pay the address in any output)
+    this.store.getBlocks().forEach(block => {
+      block.transactions.forEach(tx => {
+        if (involvesAddress(tx, address)) {
+          transactions.push(tx);
+        }
+      });
+    });
+
+    return transactions;
+  }
+
+  // Competing blocks received or mined here that are not on the active chain
+  getSideBlocks(): Block[] {
+    return this.store.getSideBlocks();
+  }
+
+  getReorgHistory(): ReorgEvent[] {
+    return this.store.getReorgHistory();
+  }
+
+  onReorg(listener: (event: ReorgEvent) => void): () => void {
+    return this.store.onReorg(listener);
+  }
+
+  // The local chain answers to the same rules as an imported one
+  async validateChain(): Promise<boolean> {
+    const report = await validateFullChain(this.store.getBlocks());
+    if (!report.valid) console.error('Chain validation failed:', formatChainReport(report));
+    return report.valid;
+  }
+
+  // Mining operations
+  getMiningStats(): MiningStats {
+    return { ...this.miningStats };
+  }
+
+  isMiningActive(): boolean {
+    return this.miningActive;
+  }
+
+  stopMining(): void {
+    this.miningActive = false;
+    this.miningStats.isActive = false;
+    this.pool.terminate();
+    this.poolAbort?.abort();
+    this.poolAbort = null;
+    this.triggerUpdate();
+  }
+
+  getMiningThreads(): number {
+    return this.miningThreads;
+  }
+
+  // Takes effect immediately: a running job restarts on the new number of workers
+  setMiningThreads(threads: number): void {
+    this.miningThreads = Math.min(MAX_MINING_THREADS, Math.max(1, Math.floor(threads)));
+    localStorage.setItem('vags_mining_threads', String(this.miningThreads));
+    this.miningStats.threads = this.miningThreads;
+    if (this.miningActive) this.pool.stop();
+    this.triggerUpdate();
+  }
+
+  async startMining(
+    minerAddress: string,
+    onProgress: (stats: MiningStats) => void,
+    onBlockMined: (block: Block) => void
+  ): Promise<void> {
+    if (this.miningActive) return;
+
+    this.miningActive = true;
+    this.miningStats.isActive = true;
+
+    const startTime = Date.now();
+    const chain = this.store.getBlocks();
+    const previousBlock = chain[chain.length - 1];
+    const difficulty = getNextDifficulty(chain);
+    // The full subsidy for the height, or what is left of it under MAX_SUPPLY
+    const blockReward = getBlockSubsidy(previousBlock.index + 1, getIssuedSupply(chain));
+
+    // Highest fee rate first, re-checked against the chain being extended
+    this.store.expireMempool();
+    const { transactions: selectedTxs, fees: totalFees } = buildBlockTemplate(chain, this.store.getMempool());
+
+    // Create coinbase transaction
+    const coinbaseTx = await createCoinbaseTransaction(minerAddress, blockReward, totalFees);
+
+    // Build candidate block
+    const transactions = [coinbaseTx, ...selectedTxs];
+    const candidateBlock: Omit<Block, 'hash'> = {
+      version: ENCODING_VERSION,
+      index: previousBlock.index + 1,
+      timestamp: Date.now(),
+      transactions,
+      merkleRoot: calculateMerkleRoot(transactions),
+      previousHash: previousBlock.hash,
+      nonce: 0,
+      difficulty,
+      miner: minerAddress,
+      reward: blockReward + totalFees,
+    };
+
+    // Another UI or an import moved the tip: this candidate would only start a side branch
+    const unsubscribe = this.store.subscribe(() => {
+      if (this.getLatestBlock().hash !== previousBlock.hash) this.pool.stop();
+    });
+
+    const result = await this.pool.mine(candidateBlock, difficulty, this.miningThreads, progress => {
+      this.miningStats = {
+        isActive: this.miningActive,
+        currentNonce: Math.max(0, ...progress.workers.map(worker => worker.nonce)),
+        hashAttempts: progress.hashes,
+        hashRate: progress.hashRate,
+        elapsedTime: Date.now() - startTime,
+        currentBlock: { ...candidateBlock, hash: progress.lastHash },
+        threads: this.miningThreads,
+        workers: progress.workers,
+      };
+      onProgress(this.miningStats);
+    });
+    unsubscribe();
+    if (!this.miningActive) return;
+
+    // Validate against the parent it was mined on; the store decides which branch it joins
+    const minedBlock: Block | null = result ? { ...candidateBlock, nonce: result.nonce, hash: result.hash } : null;
+    if (!minedBlock || !(await validateBlock(minedBlock, chain))) {
+      // Stopped for a new tip or a new thread count: start over on a fresh candidate
+      this.miningActive = false;
+      return this.startMining(minerAddress, onProgress, onBlockMined);
+    }
+
+    // Extending removes mined transactions from the mempool; the ledger replay credits the coinbase
+    await this.store.submitBlock({
+      ...minedBlock,
+      transactions: minedBlock.transactions.map(tx => ({ ...tx, status: 'confirmed', blockNumber: minedBlock.index })),
+    });
+
+    this.miningActive = false;
+    this.miningStats.isActive = false;
+
+    onBlockMined(minedBlock);
+    this.triggerUpdate();
+  }
+
+  // Mine through a pool server instead of solo. Shares go to the pool, which
+  // pays blocks to recent shares; blocks it finds reach the local chain when it
+  // is re-synced from the pool on every new block.
+  async startPoolMining(
+    url: string,
+    minerAddress: string,
+    onProgress: (stats: MiningStats) => void,
+    onShare: (result: ShareResult) => void
+  ): Promise<void> {
+    if (this.miningActive) return;
+    this.miningActive = true;
+
+    const client = new PoolClient(url);
+    const startTime = Date.now();
+    const poolStats = { url, shareDifficulty: 0, acceptedShares: 0, rejectedShares: 0, blocksFound: 0 };
+    this.miningStats = { ...this.miningStats, isActive: true, hashAttempts: 0, hashRate: 0, workers: [], pool: poolStats };
+    this.triggerUpdate();
+
+    const fail = (error: unknown) => {
+      this.miningStats.pool = { ...poolStats, lastError: error instanceof Error ? error.message : String(error) };
+      this.stopMining();
+      onProgress(this.miningStats);
+    };
+
+    try {
+      const { sessionId, nonceRange } = await client.subscribe();
+      await client.authorize(sessionId, minerAddress);
+      // The pool's chain is verified like any other import, and one from another
+      // genesis block is a different network: stop rather than replace ours
+      const syncChain = async () => {
+        const document = readChainDocument(await client.getChain());
+        const report = await validateChainDocument(document);
+        if (!report.valid) throw new Error(`Pool chain rejected: ${formatChainReport(report, 1)}`);
+        const genesis = this.store.getBlocks()[0];
+        if (genesis && document.chain.length > 0 && document.chain[0].hash !== genesis.hash) {
+          throw new Error('The pool chain starts from a different genesis block');
+        }
+        const result = await this.store.importChain(document);
+        if (result.status === 'rejected') throw new Error(`Pool chain rejected: ${result.reason}`);
+      };
+      await syncChain();
+
+      const submit = (job: PoolJob, share: NonceSearchResult) => {
+        client.submit(sessionId, job.jobId, share.nonce).then(result => {
+          if (result.accepted) poolStats.acceptedShares++;
+          else poolStats.rejectedShares++;
+          if (result.block) poolStats.blocksFound++;
+          onShare(result);
+        }, error => {
+          poolStats.rejectedShares++;
+          onShare({ accepted: false, block: false, reason: error instanceof Error ? error.message : String(error) });
+        });
+      };
+
+      let job = await client.notify(sessionId, null);
+      while (this.miningActive) {
+        const current = job;
+        poolStats.shareDifficulty = current.shareDifficulty;
+        this.poolAbort = new AbortController();
+        let replacement: PoolJob | null = null;
+        const next = client.nextJob(sessionId, current.jobId, this.poolAbort.signal).then(nextJob => {
+          replacement = nextJob;
+          this.pool.stop();
+          return nextJob;
+        });
+        next.catch(() => undefined);
+
+        const found = await this.pool.mine(current.header, current.difficulty, this.miningThreads, progress => {
+          this.miningStats = {
+            isActive: this.miningActive,
+            currentNonce: Math.max(0, ...progress.workers.map(worker => worker.nonce)),
+            hashAttempts: progress.hashes,
+            hashRate: progress.hashRate,
+            elapsedTime: Date.now() - startTime,
+            currentBlock: { ...current.header, hash: progress.lastHash },
+            threads: this.miningThreads,
+            workers: progress.workers,
+            pool: { ...poolStats },
+          };
+          onProgress(this.miningStats);
+        }, { nonceRange, shareDifficulty: current.shareDifficulty, onShare: share => submit(current, share) });
+        if (!this.miningActive) break;
+
+        if (found) {
+          // A block candidate: submit it and wait for the pool's next job on top of it
+          submit(current, found);
+          job = await next;
+        } else if (replacement) {
+          job = replacement;
+        } else {
+          // Restarted for a new thread count; keep the same job
+          this.poolAbort.abort();
+          continue;
+        }
+        if (job.cleanJobs) await syncChain();
+      }
+    } catch (error) {
+      if (this.miningActive) fail(error);
+    }
+  }
+
+  // Stats
+  getTotalBlocks(): number {
+    return this.store.getBlocks().length;
+  }
+
+  // Coins issued so far: block rewards include the fees they collect, which are not new coins
+  getTotalSupply(): Amount {
+    return getIssuedSupply(this.store.getBlocks());
+  }
+
+  getGenesisBlock(): Block | undefined {
+    return this.store.getBlocks()[0];
+  }
+}
+
+// Singleton instance
+export const blockchainState = new BlockchainState();
@@ -0,0 +1,645 @@
+// ============= CHAIN STORAGE =============
+//
+// One chain and one mempool per browser, shared by every wallet UI. The
+// snapshot is persisted in the wire format under the key the server import
+// already writes to, so downloaded snapshots land here directly. Its
+// `balances` field is written from the replayed ledger, never read back as truth.
+// Blocks off the active chain are kept alongside it, so a heavier competing
+// branch, mined here or imported, can take over in a reorg once its blocks
+// past the fork point pass the full validator. Transactions enter
+// the mempool through its admission policy (see mempool.ts), and submitted
+// blocks must respect their senders' account nonces (see nonces.ts).
+
+import { Amount, stringifyWithAmounts } from './amount';
+import { createGenesisBlock, isCoinbaseSender, validateBlockTimestamp } from './consensus';
+import { getNextDifficulty } from './difficulty';
+import { BlockTree, ReorgEvent, findForkIndex } from './forks';
+import {
+  DEFAULT_MEMPOOL_POLICY,
+  MempoolAdmission,
+  MempoolPolicy,
+  checkMempoolAdmission,
+  enforceMempoolPolicy,
+  filterFundedTransactions,
+} from './mempool';
+import {
+  ChainDocument,
+  GSCBlock,
+  GSCTransaction,
+  fromGSCBlock,
+  fromGSCTransaction,
+  readChainDocument,
+  toGSCBlock,
+  toGSCTransaction,
+  toWireBlock,
+} from './adapters';
+import { validateBlockIssuance } from './emission';
+import { validateBlockHtlcs } from './htlc';
+import { LegacyClaims, getLegacyClaims } from './legacy';
+import {
+  AddressBalance,
+  BalanceDiscrepancy,
+  LedgerState,
+  buildLedger,
+  findBalanceDiscrepancies,
+  getAddressBalance,
+  getProjectedBalances,
+} from './ledger';
+import { validateBlockLockTimes } from './locktime';
+import { NonceState, applyBlockNonces, getNextNonce, getNonceState, validateBlockNonces } from './nonces';
+import { convertPreSeriesChain, isPreSeriesChain } from './preseries';
+import { UTXO, UTXOSet, getReservedOutpoints, outpointKey } from './utxo';
+import { findBalanceViolations, findInvalidBlock, formatChainReport } from './validator';
+import type { Block, Transaction } from './types';
+
+export const CHAIN_STORAGE_KEY = 'gsc_blockchain_data';
+
+// GSC wallets used to be saved inside the chain snapshot; they now have their own key
+export const WALLET_STORAGE_KEY = 'gsc_wallets';
+
+// Signed, time-locked transactions the GSC wallets hold back until they unlock
+export const SCHEDULED_STORAGE_KEY = 'gsc_scheduled_transactions';
+
+// Atomic swaps the GSC wallets are party to, with their secrets
+export const SWAP_STORAGE_KEY = 'gsc_swaps';
+
+// Keys used by the old in-browser chain model before both UIs shared this store
+const LEGACY_CHAIN_KEY = 'vags_blockchain';
+const LEGACY_MEMPOOL_KEY = 'vags_mempool';
+
+// Reorgs remembered for the UI
+const MAX_REORG_HISTORY = 50;
+
+type Listener = () => void;
+type ReorgListener = (event: ReorgEvent) => void;
+
+// Side branches and past reorgs, persisted next to the chain document
+interface ForkDocument {
+  side_blocks: GSCBlock[];
+  reorgs: ReorgEvent[];
+}
+
+export type BlockSubmissionStatus =
+  | 'extended' // appended to the active chain
+  | 'side-branch' // stored on a competing branch that is not heavier
+  | 'reorg' // made a competing branch the heaviest, which is now active
+  | 'known' // already stored
+  | 'orphan' // parent unknown, not stored
+  | 'invalid'; // wrong height, unproven work, a replayed transaction or a broken nonce order, not stored
+
+export interface BlockSubmission {
+  status: BlockSubmissionStatus;
+  reorg?: ReorgEvent;
+}
+
+export interface ChainImport {
+  // 'replaced' when a snapshot from a different genesis block was adopted,
+  // 'rejected' when it claims balances its own chain does not give, or comes
+  // from a different genesis block and proves no more work than the local chain
+  status: 'replaced' | 'rejected' | 'merged';
+  // Why the snapshot was rejected
+  reason?: string;
+  // Set when an imported branch outweighed the local one
+  reorg?: ReorgEvent;
+  // Imported blocks that did not link to any known block, did not prove their
+  // work or broke a rule
+  orphans: number;
+}
+
+export class ChainStore {
+  private document: ChainDocument;
+  private blocksView: Block[] | null = null;
+  private mempoolView: Transaction[] | null = null;
+  private ledgerView: LedgerState | null = null;
+  private nonceView: NonceState | null = null;
+  private legacyClaimsView: LegacyClaims | null = null;
+  // Kept across changes and advanced block by block; rebuilt only when the chain is replaced
+  private utxoSet: UTXOSet | null = null;
+  private discrepancies: BalanceDiscrepancy[] = [];
+  // Every known block, built lazily from the chain plus the stored side blocks
+  private tree: BlockTree | null = null;
+  private reorgs: ReorgEvent[] = [];
+  private listeners = new Set<Listener>();
+  private reorgListeners = new Set<ReorgListener>();
+
+  constructor(
+    private storageKey: string = CHAIN_STORAGE_KEY,
+    readonly mempoolPolicy: MempoolPolicy = DEFAULT_MEMPOOL_POLICY
+  ) {
+    this.document = this.load();
+    this.reorgs = this.loadForks().reorgs;
+    this.reconcileBalances();
+  }
+
+  private get forkStorageKey(): string {
+    return `${this.storageKey}_forks`;
+  }
+
+  private load(): ChainDocument {
+    let document = readChainDocument({});
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (stored) {
+        const raw = JSON.parse(stored);
+        this.extractLegacyWallets(raw);
+        document = readChainDocument(raw);
+        if (document.unreadable) {
+          console.error('Stored chain has entries that cannot be read; they are left out:', document.unreadable);
+          delete document.unreadable;
+        }
+      }
+    } catch (e) {
+      console.error('Failed to load chain:', e);
+    }
+    return this.convertPreSeriesState(this.migrateLegacyState(document));
+  }
+
+  private get preSeriesStorageKey(): string {
+    return `${this.storageKey}_pre_series`;
+  }
+
+  // A chain stored before the current format is converted (see preseries.ts),
+  // its original kept under its own key. One whose bookkeeping does not hold is
+  // left as it was.
+  private convertPreSeriesState(document: ChainDocument): ChainDocument {
+    if (!isPreSeriesChain(document)) return document;
+    try {
+      const conversion = convertPreSeriesChain(document);
+      if (!conversion.document) {
+        console.error('Stored pre-series chain cannot be converted:', conversion.report.violations);
+        return document;
+      }
+      localStorage.setItem(this.preSeriesStorageKey, stringifyWithAmounts(document));
+      localStorage.setItem(this.storageKey, stringifyWithAmounts(conversion.document));
+      console.log(`Converted the stored pre-series chain of ${document.chain.length} blocks`);
+      return conversion.document;
+    } catch (e) {
+      console.error('Failed to convert pre-series chain:', e);
+      return document;
+    }
+  }
+
+  // Move wallets out of a snapshot saved before they had their own key, so
+  // rewriting the snapshot in the document format does not drop them
+  private extractLegacyWallets(raw: unknown): void {
+    const wallets = (raw as { wallets?: unknown })?.wallets;
+    if (Array.isArray(wallets) && localStorage.getItem(WALLET_STORAGE_KEY) === null) {
+      localStorage.setItem(WALLET_STORAGE_KEY, JSON.stringify(wallets.filter(Boolean)));
+    }
+  }
+
+  // The old in-browser model kept its chain under separate keys. Adopt it when it
+  // is longer than the stored chain; otherwise leave it in place untouched.
+  private migrateLegacyState(document: ChainDocument): ChainDocument {
+    try {
+      const legacyChain = localStorage.getItem(LEGACY_CHAIN_KEY);
+      const legacyMempool = localStorage.getItem(LEGACY_MEMPOOL_KEY);
+      if (!legacyChain && !legacyMempool) return document;
+
+      const legacy = readChainDocument({
+        chain: legacyChain ? JSON.parse(legacyChain) : [],
+        pending_transactions: legacyMempool ? JSON.parse(legacyMempool) : [],
+      });
+      if (legacy.chain.length > 1 && legacy.chain.length <= document.chain.length) {
+        console.warn(`Keeping stored chain; legacy chain of ${legacy.chain.length} blocks left under ${LEGACY_CHAIN_KEY}`);
+        return document;
+      }
+
+      if (legacy.chain.length > document.chain.length) {
+        // The legacy model had no balances field; they are replayed from the adopted chain
+        const ledger = buildLedger(legacy.chain.map(fromGSCBlock), legacy.pending_transactions.map(tx => fromGSCTransaction(tx)));
+        document = { ...document, chain: legacy.chain, pending_transactions: legacy.pending_transactions, balances: getProjectedBalances(ledger) };
+      }
+
+      localStorage.removeItem(LEGACY_CHAIN_KEY);
+      localStorage.removeItem(LEGACY_MEMPOOL_KEY);
+      localStorage.setItem(this.storageKey, stringifyWithAmounts(document));
+    } catch (e) {
+      console.error('Failed to migrate legacy chain:', e);
+    }
+    return document;
+  }
+
+  private loadForks(): ForkDocument {
+    try {
+      const stored = localStorage.getItem(this.forkStorageKey);
+      if (stored) {
+        const raw = JSON.parse(stored);
+        return {
+          side_blocks: (Array.isArray(raw.side_blocks) ? raw.side_blocks : [])
+            .map((block: unknown) => toWireBlock(block))
+            .filter((block: GSCBlock | null): block is GSCBlock => block !== null),
+          reorgs: Array.isArray(raw.reorgs) ? raw.reorgs : [],
+        };
+      }
+    } catch (e) {
+      console.error('Failed to load side branches:', e);
+    }
+    return { side_blocks: [], reorgs: [] };
+  }
+
+  private saveForks(): void {
+    try {
+      const tree = this.getBlockTree();
+      tree.prune(this.getBlocks());
+      const forks: ForkDocument = {
+        side_blocks: tree.getSideBlocks(this.getBlocks()).map(toGSCBlock),
+        reorgs: this.reorgs,
+      };
+      localStorage.setItem(this.forkStorageKey, stringifyWithAmounts(forks));
+    } catch (e) {
+      console.error('Failed to save side branches:', e);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, stringifyWithAmounts(this.document));
+    } catch (e) {
+      console.error('Failed to save chain:', e);
+    }
+  }
+
+  private invalidate(): void {
+    this.blocksView = null;
+    this.mempoolView = null;
+    this.ledgerView = null;
+    this.nonceView = null;
+    this.legacyClaimsView = null;
+  }
+
+  // Check the document's balances against the replay, then overwrite them with it.
+  // A snapshot without balances makes no claim, so there is nothing to flag.
+  private reconcileBalances(): void {
+    this.invalidate();
+    this.utxoSet = null;
+    this.tree = null;
+    const claimed = this.document.balances;
+    this.discrepancies = Object.keys(claimed).length > 0 ? findBalanceDiscrepancies(this.getLedger(), claimed) : [];
+    if (this.discrepancies.length > 0) {
+      console.warn(`Stored balances disagree with the chain for ${this.discrepancies.length} address(es)`, this.discrepancies);
+    }
+    this.updateDerivedFields();
+  }
+
+  // Fields of the wire document that are computed from the chain rather than stored
+  private updateDerivedFields(): void {
+    this.document.balances = getProjectedBalances(this.getLedger());
+    if (this.document.chain.length > 0) this.document.difficulty = getNextDifficulty(this.getBlocks());
+  }
+
+  private changed(): void {
+    this.invalidate();
+    this.updateDerivedFields();
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Called after each reorganisation, before the general change listeners
+  onReorg(listener: ReorgListener): () => void {
+    this.reorgListeners.add(listener);
+    return () => {
+      this.reorgListeners.delete(listener);
+    };
+  }
+
+  // Re-read storage, e.g. after another tab or a server import replaced it
+  reload(): void {
+    this.document = this.load();
+    this.reorgs = this.loadForks().reorgs;
+    this.reconcileBalances();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Wire-format snapshot. Treat as read-only; mutate through the methods below.
+  getDocument(): Readonly<ChainDocument> {
+    return this.document;
+  }
+
+  getGSCBlocks(): GSCBlock[] {
+    return this.document.chain;
+  }
+
+  getGSCMempool(): GSCTransaction[] {
+    return this.document.pending_transactions;
+  }
+
+  getBlocks(): Block[] {
+    if (!this.blocksView) this.blocksView = this.document.chain.map(fromGSCBlock);
+    return this.blocksView;
+  }
+
+  getMempool(): Transaction[] {
+    if (!this.mempoolView) this.mempoolView = this.document.pending_transactions.map(tx => fromGSCTransaction(tx));
+    return this.mempoolView;
+  }
+
+  getLatestBlock(): Block | undefined {
+    const blocks = this.getBlocks();
+    return blocks[blocks.length - 1];
+  }
+
+  getBlockTree(): BlockTree {
+    if (!this.tree) {
+      const tree = new BlockTree(this.getBlocks());
+      // Stored side blocks are sorted by height, so parents are added first
+      this.loadForks().side_blocks.forEach(block => tree.add(fromGSCBlock(block)));
+      this.tree = tree;
+    }
+    return this.tree;
+  }
+
+  // Blocks known here that are not on the active chain
+  getSideBlocks(): Block[] {
+    return this.getBlockTree().getSideBlocks(this.getBlocks());
+  }
+
+  // Most recent reorg first
+  getReorgHistory(): ReorgEvent[] {
+    return [...this.reorgs].reverse();
+  }
+
+  ensureGenesis(): void {
+    if (this.document.chain.length > 0) return;
+    this.document.chain.push(toGSCBlock(createGenesisBlock()));
+    this.changed();
+  }
+
+  // Balances replayed from the chain, with the mempool tracked separately
+  getLedger(): LedgerState {
+    if (!this.ledgerView) this.ledgerView = buildLedger(this.getBlocks(), this.getMempool());
+    return this.ledgerView;
+  }
+
+  getAddressBalance(address: string): AddressBalance {
+    return getAddressBalance(this.getLedger(), address);
+  }
+
+  // Projected balances of every address the chain or mempool touches
+  getBalances(): Readonly<Record<string, Amount>> {
+    return this.document.balances;
+  }
+
+  // Highest confirmed nonce of every sender on the active chain
+  getNonces(): NonceState {
+    if (!this.nonceView) this.nonceView = getNonceState(this.getBlocks());
+    return this.nonceView;
+  }
+
+  // Legacy address commitments and the keys claimed addresses are bound to
+  getLegacyClaims(): LegacyClaims {
+    if (!this.legacyClaimsView) this.legacyClaimsView = getLegacyClaims(this.getBlocks());
+    return this.legacyClaimsView;
+  }
+
+  // The nonce to sign into the address's next transaction
+  getNextNonce(address: string): number {
+    return getNextNonce(this.getNonces(), this.getMempool(), address);
+  }
+
+  getUTXOSet(): UTXOSet {
+    if (!this.utxoSet) this.utxoSet = UTXOSet.fromChain(this.getBlocks());
+    return this.utxoSet;
+  }
+
+  // Unspent outputs of an address that no pending transaction has claimed yet
+  getSpendableOutputs(address: string): UTXO[] {
+    const reserved = getReservedOutpoints(this.getMempool());
+    return this.getUTXOSet()
+      .getUnspent(address)
+      .filter(utxo => !reserved.has(outpointKey(utxo.txId, utxo.outputIndex)));
+  }
+
+  // Addresses whose stored balance did not match the replayed chain when it was loaded
+  getBalanceDiscrepancies(): BalanceDiscrepancy[] {
+    return [...this.discrepancies];
+  }
+
+  // Queue a transaction that passes the mempool policy, evicting lower fee
+  // rates if the pool is full and anything it replaces by fee. It counts as
+  // pending until a block confirms it.
+  admitTransaction(tx: Transaction, now: number = Date.now()): MempoolAdmission {
+    this.expireMempool(now);
+    const blocks = this.getBlocks();
+    const admission = checkMempoolAdmission(tx, {
+      chain: blocks,
+      mempool: this.getMempool(),
+      confirmed: this.getLedger().confirmed,
+      utxoSet: this.getUTXOSet(),
+      nonces: this.getNonces(),
+      isConfirmed: txId => blocks.some(block => block.transactions.some(confirmed => confirmed.id === txId)),
+      now,
+    }, this.mempoolPolicy);
+    if (!admission.accepted) return admission;
+
+    const removed = new Set([...admission.evicted, ...admission.replaced].map(removedTx => removedTx.id));
+    this.document.pending_transactions = this.document.pending_transactions.filter(pending => !removed.has(pending.tx_id));
+    this.document.pending_transactions.push(toGSCTransaction(tx));
+    this.changed();
+    return admission;
+  }
+
+  // Drop expired transactions (and any excess over the size limit); returns what was removed
+  expireMempool(now: number = Date.now()): Transaction[] {
+    const { kept, expired, evicted } = enforceMempoolPolicy(this.getMempool(), this.getBlocks(), now, this.mempoolPolicy);
+    if (expired.length === 0 && evicted.length === 0) return [];
+    this.document.pending_transactions = kept.map(toGSCTransaction);
+    this.changed();
+    return [...expired, ...evicted];
+  }
+
+  // Add a validated block to the tree. It extends the active chain, waits on a
+  // side branch, or triggers a reorg when its branch becomes the heaviest and
+  // holds up to every rule.
+  async submitBlock(block: Block): Promise<BlockSubmission> {
+    const tree = this.getBlockTree();
+    if (tree.has(block.hash)) return { status: 'known' };
+
+    const tip = this.getLatestBlock();
+    const parentChain = tip && block.previousHash === tip.hash ? this.getBlocks() : tree.getBranch(block.previousHash);
+    if (parentChain.length > 0 && !validateBlockTimestamp(block, parentChain)) return { status: 'invalid' };
+    if (parentChain.length > 0 && !validateBlockNonces(block, parentChain)) return { status: 'invalid' };
+    if (parentChain.length > 0 && !validateBlockIssuance(block, parentChain)) return { status: 'invalid' };
+    if (parentChain.length > 0 && !validateBlockLockTimes(block, parentChain)) return { status: 'invalid' };
+    if (parentChain.length > 0 && !validateBlockHtlcs(block, parentChain)) return { status: 'invalid' };
+    if (!tree.add(block)) return { status: tree.has(block.previousHash) ? 'invalid' : 'orphan' };
+
+    if (tip && block.previousHash === tip.hash) {
+      this.connectBlock(block);
+      return { status: 'extended' };
+    }
+
+    const reorg = await this.adoptBestBranch();
+    if (!this.getBlockTree().has(block.hash)) return { status: 'invalid' };
+    if (reorg) return { status: 'reorg', reorg };
+    this.saveForks();
+    return { status: 'side-branch' };
+  }
+
+  // Make the heaviest branch active once its blocks past the fork point, which
+  // only proved their work to enter the tree, pass every rule of the validator.
+  // A block that fails is removed with its descendants and the next heaviest
+  // branch is tried, so only validated blocks count towards the work.
+  private async adoptBestBranch(incoming: Transaction[] = []): Promise<ReorgEvent | undefined> {
+    for (;;) {
+      const tree = this.getBlockTree();
+      const tip = this.getLatestBlock();
+      const best = tree.getBestTip(tip?.hash);
+      if (!best || best.block.hash === tip?.hash) return undefined;
+
+      const branch = tree.getBranch(best.block.hash);
+      const invalid = await findInvalidBlock(branch, findForkIndex(this.getBlocks(), branch));
+      if (invalid < branch.length) {
+        this.getBlockTree().remove(branch[invalid].hash);
+        this.saveForks();
+      } else if (this.getLatestBlock()?.hash === tip?.hash && this.getBlockTree().has(best.block.hash)) {
+        return this.reorganize(branch, incoming);
+      }
+    }
+  }
+
+  // Append a block, dropping its transactions from the mempool and advancing the UTXO set
+  private connectBlock(block: Block): void {
+    const wire = toGSCBlock(block);
+    const minedIds = new Set(wire.transactions.map(tx => tx.tx_id));
+    const minedNonces: NonceState = new Map();
+    applyBlockNonces(minedNonces, block);
+
+    const utxoSet = this.getUTXOSet();
+    this.document.chain.push(wire);
+    utxoSet.applyBlock(fromGSCBlock(wire));
+    // A replacement of a transaction that got mined after all would pay twice,
+    // and anything else reusing a mined nonce can no longer confirm
+    this.document.pending_transactions = this.document.pending_transactions.filter(
+      tx => !minedIds.has(tx.tx_id)
+        && !(tx.replaces && minedIds.has(tx.replaces))
+        && !(tx.nonce !== undefined && tx.nonce <= (minedNonces.get(tx.sender) ?? -1))
+    );
+    this.changed();
+    if (this.getSideBlocks().length > 0) this.saveForks();
+  }
+
+  // Switch the active chain to `branch`. Blocks after the fork point are rolled
+  // back: their transactions go back to the mempool unless the new branch
+  // confirms them, and the mempool is then trimmed to what the new branch funds.
+  private reorganize(branch: Block[], incoming: Transaction[] = []): ReorgEvent {
+    const current = this.getBlocks();
+    const forkIndex = findForkIndex(current, branch);
+    const disconnected = current.slice(forkIndex);
+    const confirmedIds = new Set(branch.slice(forkIndex).flatMap(block => block.transactions.map(tx => tx.id)));
+
+    const returned: Transaction[] = disconnected
+      .flatMap(block => block.transactions)
+      .filter(tx => !isCoinbaseSender(tx.from) && !confirmedIds.has(tx.id))
+      .map(tx => ({ ...tx, status: 'pending', blockNumber: undefined }));
+    const candidates = [...returned, ...this.getMempool(), ...incoming].filter(tx => !confirmedIds.has(tx.id));
+    const mempool = enforceMempoolPolicy(filterFundedTransactions(branch, candidates), branch, Date.now(), this.mempoolPolicy).kept;
+    const kept = new Set(mempool.map(tx => tx.id));
+
+    const event: ReorgEvent = {
+      depth: disconnected.length,
+      forkHeight: forkIndex - 1,
+      oldTip: current[current.length - 1]?.hash ?? '',
+      newTip: branch[branch.length - 1].hash,
+      returnedTransactions: returned.filter(tx => kept.has(tx.id)).length,
+      droppedTransactions: new Set(candidates.filter(tx => !kept.has(tx.id)).map(tx => tx.id)).size,
+      timestamp: Date.now(),
+    };
+    console.warn(`Chain reorganised at height ${event.forkHeight}: ${event.depth} block(s) replaced`, event);
+
+    this.document.chain = branch.map(toGSCBlock);
+    this.document.pending_transactions = mempool.map(toGSCTransaction);
+    this.utxoSet = null;
+    this.reorgs = [...this.reorgs, event].slice(-MAX_REORG_HISTORY);
+
+    this.invalidate();
+    this.updateDerivedFields();
+    this.save();
+    this.saveForks();
+    this.reorgListeners.forEach(listener => listener(event));
+    this.listeners.forEach(listener => listener());
+    return event;
+  }
+
+  // Merge a downloaded or uploaded snapshot into the block tree instead of
+  // overwriting local blocks: the heavier branch wins, and its pending
+  // transactions join the mempool. A snapshot from a different genesis block is
+  // a different network. It replaces the local chain only when the work its
+  // blocks prove exceeds the local chain's, or the local chain has nothing past
+  // its genesis block to lose.
+  async importChain(document: ChainDocument): Promise<ChainImport> {
+    const imported = document.chain.map(fromGSCBlock);
+    const importedMempool = document.pending_transactions.map(tx => fromGSCTransaction(tx));
+
+    // The snapshot's balances must be the ones its own chain gives, whichever branch wins
+    const violations = imported.length > 0 ? findBalanceViolations(imported, importedMempool, document.balances) : [];
+    if (violations.length > 0) {
+      const reason = formatChainReport({
+        valid: false,
+        blocks: imported.length,
+        transactions: imported.reduce((sum, block) => sum + block.transactions.length, 0),
+        violations,
+      }, 3);
+      console.error('Imported balances disagree with the imported chain:', violations);
+      return { status: 'rejected', orphans: 0, reason };
+    }
+
+    const local = this.getBlocks();
+    if (imported.length > 0 && (local.length === 0 || local[0].hash !== imported[0].hash)) {
+      // Only the work of blocks that pass every rule counts
+      const foreign = new BlockTree(imported.slice(0, 1));
+      imported.slice(1).forEach(block => foreign.add(block));
+      const heaviest = foreign.getBestTip();
+      const proven = heaviest ? foreign.getBranch(heaviest.block.hash) : [];
+      const branch = proven.slice(0, await findInvalidBlock(proven, 0));
+      const orphans = imported.length - branch.length;
+      const work = branch.length > 0 ? foreign.get(branch[branch.length - 1].hash)!.cumulativeWork : 0;
+      const current = this.getBlocks();
+      const localWork = current.length > 0 ? this.getBlockTree().get(current[current.length - 1].hash)?.cumulativeWork ?? 0 : 0;
+      if (branch.length === 0 || (current.length > 1 && work <= localWork)) {
+        const reason = 'It starts from a different genesis block and proves no more work than the local chain';
+        console.warn(`${reason}; keeping the local chain`);
+        return { status: 'rejected', orphans, reason };
+      }
+
+      const funded = filterFundedTransactions(branch, [...importedMempool, ...this.getMempool()]);
+      const mempool = enforceMempoolPolicy(funded, branch, Date.now(), this.mempoolPolicy).kept;
+      this.replace({ ...document, chain: branch.map(toGSCBlock), pending_transactions: mempool.map(toGSCTransaction), balances: {} });
+      this.saveForks();
+      return { status: 'replaced', orphans };
+    }
+
+    this.discrepancies = [];
+
+    const tree = this.getBlockTree();
+    imported.forEach(block => tree.add(block));
+    const reorg = await this.adoptBestBranch(importedMempool);
+    const orphans = imported.filter(block => !this.getBlockTree().has(block.hash)).length;
+    if (reorg) return { status: 'merged', orphans, reorg };
+
+    const active = this.getBlocks();
+    const funded = filterFundedTransactions(active, [...this.getMempool(), ...importedMempool]);
+    const mempool = enforceMempoolPolicy(funded, active, Date.now(), this.mempoolPolicy).kept;
+    this.document.pending_transactions = mempool.map(toGSCTransaction);
+    this.changed();
+    this.saveForks();
+    return { status: 'merged', orphans };
+  }
+
+  // Replace the whole snapshot, e.g. with a server download or an uploaded file
+  replace(document: ChainDocument): void {
+    this.document = document;
+    this.reconcileBalances();
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const chainStore = new ChainStore();
@@ -0,0 +1,122 @@
+// ============= CORE TYPES =============
+//
+// Canonical in-memory shapes shared by every wallet UI. Timestamps are
+// milliseconds and amounts are base units (see amount.ts). The persisted/wire format (snake_case, seconds) lives in
+// adapters.ts.
+
+import type { Amount } from './amount';
+import type { HtlcContract } from './htlc';
+import type { MultisigPolicy, MultisigSignature } from './multisig';
+
+// Reference to an output of an earlier transaction
+export interface TxInput {
+  txId: string;
+  outputIndex: number;
+}
+
+export interface TxOutput {
+  address: string;
+  amount: Amount;
+}
+
+// Account-style by default. A UTXO-style transaction also lists the outputs it
+// spends and creates; `from` owns every input, `to` is the first payee and
+// `amount` is the total paid to recipients, change excluded.
+export interface Transaction {
+  // Encoding the id and signature are computed over (see encoding.ts); absent
+  // on transactions that predate it, which sign a JSON payload instead
+  version?: number;
+  id: string;
+  from: string;
+  to: string;
+  amount: Amount;
+  fee: Amount;
+  timestamp: number;
+  publicKey?: string;
+  signature?: string;
+  isCoinbase?: boolean;
+  status: 'pending' | 'confirmed';
+  blockNumber?: number;
+  inputs?: TxInput[];
+  outputs?: TxOutput[];
+  // Replace-by-fee: id of the pending transaction this one supersedes
+  replaces?: string;
+  // The sender's account nonce: used once across their transactions, so a
+  // signed transaction cannot be replayed. Absent on coinbases and on legacy
+  // transactions confirmed before nonces existed.
+  nonce?: number;
+  // Not valid before this block height, or Unix time in seconds (see locktime.ts)
+  lockTime?: number;
+  // Spends from a multisig address: the policy it commits to and the cosigners'
+  // signatures, in place of `publicKey` / `signature`
+  multisig?: MultisigPolicy;
+  signatures?: MultisigSignature[];
+  // Spends from an HTLC address: the contract it commits to, and on a claim the
+  // secret that unlocks it (see htlc.ts)
+  htlc?: HtlcContract;
+  preimage?: string;
+  // Claims on a legacy address (see legacy.ts): a zero-value commitment to its
+  // secret and the key it will be bound to, then a spend from it revealing the secret
+  claimCommitment?: string;
+  legacySecret?: string;
+}
+
+export interface Block {
+  // Encoding the hash is computed over (see encoding.ts); absent on blocks
+  // that predate it, which hash a JSON header instead
+  version?: number;
+  index: number;
+  timestamp: number;
+  transactions: Transaction[];
+  previousHash: string;
+  hash: string;
+  nonce: number;
+  difficulty: number;
+  miner: string;
+  reward: Amount;
+  merkleRoot?: string;
+}
+
+export interface Wallet {
+  id: string;
+  address: string;
+  privateKey: string;
+  publicKey: string;
+  label: string;
+  // Confirmed funds not committed to pending transactions
+  balance: Amount;
+  // Net effect of this address's mempool transactions, confirmed once mined
+  pendingBalance?: Amount;
+  createdAt: number;
+}
+
+// One mining worker's share of the search
+export interface WorkerHashRate {
+  workerId: number;
+  hashRate: number;
+  hashes: number;
+  nonce: number;
+}
+
+// Counters of this client's pool mining session
+export interface PoolSessionStats {
+  url: string;
+  shareDifficulty: number;
+  acceptedShares: number;
+  rejectedShares: number;
+  blocksFound: number;
+  lastError?: string;
+}
+
+export interface MiningStats {
+  isActive: boolean;
+  currentNonce: number;
+  hashAttempts: number;
+  hashRate: number;
+  elapsedTime: number;
+  currentBlock: Block | null;
+  threads: number;
+  workers: WorkerHashRate[];
+  // Present while mining through a pool
+  pool?: PoolSessionStats;
+}
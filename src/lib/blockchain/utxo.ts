@@ -0,0 +1,311 @@
+// ============= UTXO MODEL =============
+//
+// Optional unspent-output view of the chain. UTXO-style transactions spend
+// explicit outputs; account-style transactions are mapped onto the same set so
+// both models share one history: each credits output 0 to `to`, and spends the
+// sender's coins oldest-first with any change as output 1 back to `from`.
+
+import { Amount, COIN, compareAmounts, sumAmounts } from './amount';
+import { isCoinbaseSender } from './consensus';
+import { ENCODING_VERSION, computeTransactionId } from './encoding';
+import type { Block, Transaction, TxInput, TxOutput } from './types';
+
+export interface UTXO {
+  txId: string;
+  outputIndex: number;
+  address: string;
+  amount: Amount;
+  blockIndex: number;
+}
+
+export type CoinSelectionStrategy = 'largest-first' | 'branch-and-bound' | 'privacy';
+
+export interface CoinSelection {
+  inputs: UTXO[];
+  total: Amount;
+  // Zero when the excess is too small to be worth an output and goes to the fee
+  change: Amount;
+}
+
+export interface CoinSelectionOptions {
+  // Excess below this is not returned as change (branch-and-bound's match window)
+  costOfChange?: Amount;
+  // Used by the privacy strategy's random draw; injectable for tests
+  random?: () => number;
+}
+
+export function outpointKey(txId: string, outputIndex: number): string {
+  return `${txId}:${outputIndex}`;
+}
+
+export function isUtxoTransaction(tx: Transaction): tx is Transaction & { inputs: TxInput[]; outputs: TxOutput[] } {
+  return Array.isArray(tx.inputs) && Array.isArray(tx.outputs);
+}
+
+// Outputs a transaction credits, whichever model it uses
+export function getTransactionOutputs(tx: Transaction): TxOutput[] {
+  return isUtxoTransaction(tx) ? tx.outputs : [{ address: tx.to, amount: tx.amount }];
+}
+
+// What the sender gives up: everything it sends out (change included) plus the fee
+export function getTransactionDebit(tx: Transaction): Amount {
+  return sumAmounts(getTransactionOutputs(tx).map(output => output.amount)) + tx.fee;
+}
+
+export function involvesAddress(tx: Transaction, address: string): boolean {
+  return tx.from === address || getTransactionOutputs(tx).some(output => output.address === address);
+}
+
+// Net effect of a transaction on one address
+export function getAddressDelta(tx: Transaction, address: string): Amount {
+  const credited = sumAmounts(getTransactionOutputs(tx)
+    .filter(output => output.address === address)
+    .map(output => output.amount));
+  const debited = tx.from === address && !isCoinbaseSender(tx.from) ? getTransactionDebit(tx) : 0n;
+  return credited - debited;
+}
+
+export class UTXOSet {
+  private outputs = new Map<string, UTXO>();
+  private byAddress = new Map<string, Set<string>>();
+
+  static fromChain(blocks: Block[]): UTXOSet {
+    const set = new UTXOSet();
+    blocks.forEach(block => set.applyBlock(block));
+    return set;
+  }
+
+  applyBlock(block: Block): void {
+    block.transactions.forEach(tx => this.applyTransaction(tx, block.index));
+  }
+
+  applyTransaction(tx: Transaction, blockIndex: number): void {
+    if (isUtxoTransaction(tx)) {
+      tx.inputs.forEach(input => this.spend(outpointKey(input.txId, input.outputIndex)));
+      tx.outputs.forEach((output, index) => this.add({ txId: tx.id, outputIndex: index, ...output, blockIndex }));
+      return;
+    }
+
+    let change = 0n;
+    if (!isCoinbaseSender(tx.from)) {
+      let needed = tx.amount + tx.fee;
+      for (const coin of this.getUnspent(tx.from)) {
+        if (needed <= 0n) break;
+        this.spend(outpointKey(coin.txId, coin.outputIndex));
+        needed -= coin.amount;
+      }
+      if (needed < 0n) change = -needed;
+    }
+    // Legacy address commitments pay nothing, and leave no empty coin behind
+    if (tx.amount > 0n) this.add({ txId: tx.id, outputIndex: 0, address: tx.to, amount: tx.amount, blockIndex });
+    if (change > 0n) {
+      this.add({ txId: tx.id, outputIndex: 1, address: tx.from, amount: change, blockIndex });
+    }
+  }
+
+  get(txId: string, outputIndex: number): UTXO | undefined {
+    return this.outputs.get(outpointKey(txId, outputIndex));
+  }
+
+  // Unspent outputs of an address, oldest first
+  getUnspent(address: string): UTXO[] {
+    const keys = this.byAddress.get(address);
+    if (!keys) return [];
+    return [...keys]
+      .map(key => this.outputs.get(key)!)
+      .sort((a, b) => a.blockIndex - b.blockIndex);
+  }
+
+  getBalance(address: string): Amount {
+    return sumAmounts(this.getUnspent(address).map(utxo => utxo.amount));
+  }
+
+  get size(): number {
+    return this.outputs.size;
+  }
+
+  private add(utxo: UTXO): void {
+    if (utxo.amount <= 0n) return;
+    const key = outpointKey(utxo.txId, utxo.outputIndex);
+    this.outputs.set(key, utxo);
+    if (!this.byAddress.has(utxo.address)) this.byAddress.set(utxo.address, new Set());
+    this.byAddress.get(utxo.address)!.add(key);
+  }
+
+  private spend(key: string): void {
+    const utxo = this.outputs.get(key);
+    if (!utxo) return;
+    this.outputs.delete(key);
+    this.byAddress.get(utxo.address)?.delete(key);
+  }
+}
+
+// Outpoints already claimed by UTXO-style transactions in the mempool
+export function getReservedOutpoints(mempool: Transaction[]): Set<string> {
+  const reserved = new Set<string>();
+  mempool.filter(isUtxoTransaction).forEach(tx => {
+    tx.inputs.forEach(input => reserved.add(outpointKey(input.txId, input.outputIndex)));
+  });
+  return reserved;
+}
+
+function accumulate(coins: UTXO[], target: Amount, costOfChange: Amount): CoinSelection | null {
+  const inputs: UTXO[] = [];
+  let total = 0n;
+  for (const coin of coins) {
+    if (total >= target) break;
+    inputs.push(coin);
+    total += coin.amount;
+  }
+  return total >= target ? withChange(inputs, total, target, costOfChange) : null;
+}
+
+function withChange(inputs: UTXO[], total: Amount, target: Amount, costOfChange: Amount): CoinSelection {
+  const excess = total - target;
+  return { inputs, total, change: excess > costOfChange ? excess : 0n };
+}
+
+function largestFirst(utxos: UTXO[], target: Amount, costOfChange: Amount): CoinSelection | null {
+  return accumulate([...utxos].sort((a, b) => compareAmounts(b.amount, a.amount)), target, costOfChange);
+}
+
+// Depth-first search for a set of coins landing in [target, target + costOfChange],
+// so no change output is needed. Falls back to largest-first when none exists.
+function branchAndBound(utxos: UTXO[], target: Amount, costOfChange: Amount): CoinSelection | null {
+  const coins = [...utxos].sort((a, b) => compareAmounts(b.amount, a.amount));
+  const remainingAfter: Amount[] = [];
+  coins.reduceRight((sum, coin, index) => (remainingAfter[index] = sum + coin.amount), 0n);
+
+  const MAX_TRIES = 100000;
+  let tries = 0;
+  let best: UTXO[] | null = null;
+  let bestExcess: Amount | null = null;
+  const selected: UTXO[] = [];
+
+  const search = (index: number, total: Amount): void => {
+    if (++tries > MAX_TRIES || bestExcess === 0n) return;
+    if (total > target + costOfChange) return;
+    if (total >= target) {
+      if (bestExcess === null || total - target < bestExcess) {
+        best = [...selected];
+        bestExcess = total - target;
+      }
+      return;
+    }
+    if (index >= coins.length || total + remainingAfter[index] < target) return;
+
+    selected.push(coins[index]);
+    search(index + 1, total + coins[index].amount);
+    selected.pop();
+    search(index + 1, total);
+  };
+  search(0, 0n);
+
+  if (best) {
+    const inputs: UTXO[] = best;
+    return { inputs, total: sumAmounts(inputs.map(coin => coin.amount)), change: 0n };
+  }
+  return largestFirst(utxos, target, costOfChange);
+}
+
+// Reveal as little of the wallet as possible: one coin when a single coin covers
+// the payment (the smallest such), otherwise a random draw instead of a
+// predictable order that links the same coins together again and again.
+function privacyFirst(utxos: UTXO[], target: Amount, costOfChange: Amount, random: () => number): CoinSelection | null {
+  const single = utxos
+    .filter(coin => coin.amount >= target)
+    .sort((a, b) => compareAmounts(a.amount, b.amount))[0];
+  if (single) return withChange([single], single.amount, target, costOfChange);
+
+  const shuffled = [...utxos];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return accumulate(shuffled, target, costOfChange);
+}
+
+// Choose coins worth at least `target` (payment plus fee), or null if the coins cannot cover it
+export function selectCoins(
+  utxos: UTXO[],
+  target: Amount,
+  strategy: CoinSelectionStrategy = 'largest-first',
+  options: CoinSelectionOptions = {}
+): CoinSelection | null {
+  const costOfChange = options.costOfChange ?? COIN / 100n;
+  switch (strategy) {
+    case 'branch-and-bound':
+      return branchAndBound(utxos, target, costOfChange);
+    case 'privacy':
+      return privacyFirst(utxos, target, costOfChange, options.random ?? Math.random);
+    default:
+      return largestFirst(utxos, target, costOfChange);
+  }
+}
+
+// Build an unsigned UTXO-style transaction paying `recipients` from `from`'s coins.
+// Change goes to `changeAddress` (default `from`); excess too small for change is added to the fee.
+export async function createUtxoTransaction(params: {
+  from: string;
+  recipients: TxOutput[];
+  fee: Amount;
+  utxos: UTXO[];
+  strategy?: CoinSelectionStrategy;
+  changeAddress?: string;
+  options?: CoinSelectionOptions;
+  // The sender's next account nonce (see nonces.ts)
+  nonce?: number;
+}): Promise<Transaction> {
+  const { from, recipients, fee, strategy, changeAddress = from, options, nonce } = params;
+  if (recipients.length === 0 || recipients.some(r => r.amount <= 0n)) {
+    throw new Error('Every recipient needs a positive amount');
+  }
+
+  const payment = sumAmounts(recipients.map(r => r.amount));
+  const ownCoins = params.utxos.filter(utxo => utxo.address === from);
+  const selection = selectCoins(ownCoins, payment + fee, strategy, options);
+  if (!selection) {
+    throw new Error('Insufficient funds');
+  }
+
+  const { change } = selection;
+  const outputs: TxOutput[] = recipients.map(r => ({ address: r.address, amount: r.amount }));
+  if (change > 0n) outputs.push({ address: changeAddress, amount: change });
+  const inputs: TxInput[] = selection.inputs.map(utxo => ({ txId: utxo.txId, outputIndex: utxo.outputIndex }));
+
+  const tx: Transaction = {
+    version: ENCODING_VERSION,
+    id: '',
+    from,
+    to: recipients[0].address,
+    amount: payment,
+    fee: selection.total - payment - change,
+    timestamp: Date.now(),
+    status: 'pending',
+    inputs,
+    outputs,
+  };
+  if (nonce !== undefined) tx.nonce = nonce;
+  return { ...tx, id: computeTransactionId(tx) };
+}
+
+// Check a UTXO-style transaction against the UTXO set: every input must exist,
+// belong to the sender and not be claimed by another pending transaction, and
+// inputs must cover outputs plus the fee exactly.
+export function validateUtxoTransaction(tx: Transaction, utxoSet: UTXOSet, reserved: Set<string> = new Set()): boolean {
+  if (!isUtxoTransaction(tx)) return false;
+  if (tx.inputs.length === 0 || tx.outputs.length === 0) return false;
+  if (tx.outputs.some(output => output.amount <= 0n)) return false;
+
+  const seen = new Set<string>();
+  let inputTotal = 0n;
+  for (const input of tx.inputs) {
+    const key = outpointKey(input.txId, input.outputIndex);
+    const utxo = utxoSet.get(input.txId, input.outputIndex);
+    if (!utxo || utxo.address !== tx.from || seen.has(key) || reserved.has(key)) return false;
+    seen.add(key);
+    inputTotal += utxo.amount;
+  }
+
+  return inputTotal === getTransactionDebit(tx);
+}
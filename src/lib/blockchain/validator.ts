@@ -0,0 +1,403 @@
+// ============= FULL-CHAIN VALIDATION =============
+//
+// Re-verifies a whole chain from genesis before it is accepted from a file or
+// a server: every block's linkage, hash, proof of work, timestamp, Merkle root
+// and weight, what its coinbase issues against the halving schedule and the
+// supply cap, and every transaction's size, signature, nonce, inputs, lock time
+// and HTLC timing. The ledger is then replayed to find overspends and compared
+// with the `balances` the snapshot claims, and every block or transaction the
+// snapshot reader had to leave out is reported where it was.
+// Nothing stops at the first problem: the report lists every violation with
+// the position of the block and transaction it was found in. validateBlock
+// applies the same rules to one new block, so mined, pooled and imported
+// blocks all answer to a single definition of a valid chain.
+
+import { isLegacyAddress } from '../address';
+import { ChainDocument, fromGSCBlock, fromGSCTransaction } from './adapters';
+import { Amount, formatAmount } from './amount';
+import {
+  MAX_BLOCK_WEIGHT,
+  MAX_SUPPLY,
+  MAX_TRANSACTION_SIZE,
+  calculateBlockHash,
+  getBlockFees,
+  getCoinbaseAmount,
+  isBlockCoinbase,
+  isCoinbaseSender,
+  verifyTransactionSignature,
+} from './consensus';
+import { MAX_FUTURE_BLOCK_TIME, getExpectedDifficulty, getMedianTimePast, meetsDifficulty } from './difficulty';
+import { getBlockIssuance, getBlockSubsidy } from './emission';
+import { getBlockWeight, getTransactionSize } from './encoding';
+import { isHtlcSpendOpen } from './htlc';
+import { LEGACY_SPEND_ERRORS, LegacyClaims, applyLegacyClaim, checkLegacySpend, getLegacyClaims } from './legacy';
+import { buildLedger, findBalanceDiscrepancies, replayChain } from './ledger';
+import { describeLockTime, isTransactionFinal } from './locktime';
+import { calculateMerkleRoot } from './merkle';
+import { NonceState, checkTransactionNonce, getAccountNonce, getNonceState } from './nonces';
+import { convertPreSeriesChain, isPreSeriesChain } from './preseries';
+import { UTXOSet, isUtxoTransaction, validateUtxoTransaction } from './utxo';
+import type { Block, Transaction } from './types';
+
+const GENESIS_PREVIOUS_HASH = '0'.repeat(64);
+
+export type ChainViolationKind =
+  | 'empty' // no blocks at all
+  | 'genesis' // the first block is not a genesis block
+  | 'linkage' // index or previous hash does not follow the block before
+  | 'hash' // the stored hash is not the hash of the header
+  | 'proof-of-work' // not the scheduled difficulty, or the hash does not meet it
+  | 'timestamp' // not after the median time past, or too far in the future
+  | 'merkle-root' // the header does not commit to the transactions
+  | 'size' // a block over MAX_BLOCK_WEIGHT, or a transaction over MAX_TRANSACTION_SIZE
+  | 'coinbase' // pays or records more than the subsidy plus fees, or is not the first transaction
+  | 'supply' // takes issuance past MAX_SUPPLY
+  | 'duplicate' // a transaction id seen earlier in the chain
+  | 'amount' // a non-positive amount, a commitment moving any, or a negative fee
+  | 'signature' // missing, or not by the sender
+  | 'nonce' // not above the sender's previous nonce
+  | 'lock-time' // mined before its lock time
+  | 'htlc' // an HTLC claim after the timeout, or a refund before it
+  | 'inputs' // spends outputs that are missing, already spent or not the sender's
+  | 'overspend' // spends more than the sender had at that point
+  | 'balance' // a claimed balance the replay does not reproduce
+  | 'unreadable'; // a block or transaction of the snapshot that could not be read
+
+export interface ChainViolation {
+  kind: ChainViolationKind;
+  message: string;
+  // Position in the chain, absent for pending transactions and balances
+  blockIndex?: number;
+  // Position in the block, or in the mempool for pending transactions
+  txIndex?: number;
+  txId?: string;
+  address?: string;
+}
+
+export interface ChainValidationReport {
+  valid: boolean;
+  blocks: number;
+  transactions: number;
+  violations: ChainViolation[];
+}
+
+// Legacy senders answer to the claim rules of legacy.ts, everything else to
+// verifyTransactionSignature. Returns why the signature does not count, or null.
+function checkSignature(tx: Transaction, claims: LegacyClaims, height: number): string | null {
+  if (!isLegacyAddress(tx.from)) return verifyTransactionSignature(tx) ? null : 'Signature is missing or not by the sender';
+  const check = checkLegacySpend(tx, claims, height);
+  return check === 'ok' ? null : LEGACY_SPEND_ERRORS[check];
+}
+
+// A commitment moves nothing; every other transaction pays something
+function hasValidAmount(tx: Transaction): boolean {
+  return tx.fee >= 0n && (tx.claimCommitment ? tx.amount === 0n : tx.amount > 0n);
+}
+
+// `issued` is what the blocks before `position` issued
+async function checkHeader(block: Block, blocks: Block[], position: number, issued: Amount): Promise<ChainViolation[]> {
+  const violations: ChainViolation[] = [];
+  const at = { blockIndex: position };
+
+  if (position === 0) {
+    if (block.index !== 0 || block.previousHash !== GENESIS_PREVIOUS_HASH) {
+      violations.push({ ...at, kind: 'genesis', message: 'The first block is not a genesis block' });
+    }
+  } else {
+    const previous = blocks[position - 1];
+    if (block.index !== previous.index + 1) {
+      violations.push({ ...at, kind: 'linkage', message: `Index ${block.index} does not follow ${previous.index}` });
+    }
+    if (block.previousHash !== previous.hash) {
+      violations.push({ ...at, kind: 'linkage', message: 'Previous hash does not match the block before' });
+    }
+  }
+
+  if (await calculateBlockHash(block) !== block.hash) {
+    violations.push({ ...at, kind: 'hash', message: 'Stored hash does not match the header' });
+  }
+
+  // The genesis block is not mined
+  if (position > 0) {
+    const expected = getExpectedDifficulty(blocks, position);
+    if (block.difficulty !== expected) {
+      violations.push({ ...at, kind: 'proof-of-work', message: `Difficulty ${block.difficulty}, scheduled ${expected}` });
+    } else if (!meetsDifficulty(block.hash, block.difficulty)) {
+      violations.push({ ...at, kind: 'proof-of-work', message: `Hash does not meet difficulty ${block.difficulty}` });
+    }
+  }
+
+  const stamped = new Date(block.timestamp).toLocaleString();
+  const medianTimePast = getMedianTimePast(blocks, position);
+  if (position > 0 && block.timestamp <= medianTimePast) {
+    violations.push({ ...at, kind: 'timestamp', message: `Stamped ${stamped}, not after the median time past ${new Date(medianTimePast).toLocaleString()}` });
+  }
+  if (block.timestamp > Date.now() + MAX_FUTURE_BLOCK_TIME) {
+    violations.push({ ...at, kind: 'timestamp', message: `Stamped ${stamped}, more than ${MAX_FUTURE_BLOCK_TIME / 60_000} minutes ahead` });
+  }
+
+  if ((block.version || block.merkleRoot) && block.merkleRoot !== calculateMerkleRoot(block.transactions)) {
+    violations.push({ ...at, kind: 'merkle-root', message: 'Merkle root does not match the transactions' });
+  }
+
+  const weight = getBlockWeight(block);
+  if (weight > MAX_BLOCK_WEIGHT) {
+    violations.push({ ...at, kind: 'size', message: `Weighs ${weight} bytes, at most ${MAX_BLOCK_WEIGHT} allowed` });
+  }
+
+  // Genesis allocations are limited only by the cap; every later block pays at
+  // most its subsidy plus the fees it collects
+  if (position > 0) {
+    const allowed = getBlockSubsidy(block.index, issued) + getBlockFees(block);
+    const paid = getCoinbaseAmount(block);
+    if (paid > allowed) {
+      violations.push({ ...at, kind: 'coinbase', message: `Coinbase pays ${formatAmount(paid)} GSC, at most ${formatAmount(allowed)} GSC allowed` });
+    }
+    if (block.reward > allowed) {
+      violations.push({ ...at, kind: 'coinbase', message: `Block reward ${formatAmount(block.reward)} GSC, at most ${formatAmount(allowed)} GSC allowed` });
+    }
+  }
+  if (issued + getBlockIssuance(block) > MAX_SUPPLY) {
+    violations.push({ ...at, kind: 'supply', message: `Issues past the ${formatAmount(MAX_SUPPLY, { decimals: 0, grouped: true })} GSC cap` });
+  }
+
+  return violations;
+}
+
+// What the rules carry from each block to the next
+interface ChainState {
+  issued: Amount;
+  positions: Map<string, { blockIndex: number; txIndex: number }>;
+  nonces: NonceState;
+  utxos: UTXOSet;
+  legacyClaims: LegacyClaims;
+}
+
+// The state after `blocks`, taken as valid
+function getChainState(blocks: Block[]): ChainState {
+  const positions = new Map<string, { blockIndex: number; txIndex: number }>();
+  blocks.forEach((block, blockIndex) => block.transactions.forEach((tx, txIndex) => {
+    if (!positions.has(tx.id)) positions.set(tx.id, { blockIndex, txIndex });
+  }));
+  return {
+    issued: blocks.reduce((sum, block) => sum + getBlockIssuance(block), 0n),
+    positions,
+    nonces: getNonceState(blocks),
+    utxos: UTXOSet.fromChain(blocks),
+    legacyClaims: getLegacyClaims(blocks),
+  };
+}
+
+// The transaction at `position` of `block`. Lock times and HTLC timeouts are
+// judged by `medianTimePast`, that of the blocks before `block`.
+function checkTransaction(
+  tx: Transaction,
+  position: number,
+  block: Block,
+  medianTimePast: number,
+  state: ChainState
+): Omit<ChainViolation, 'blockIndex' | 'txIndex'>[] {
+  const at = { txId: tx.id, address: tx.from };
+  // Genesis allocations may be several; every later block has one coinbase, first
+  if (block.index === 0 ? isCoinbaseSender(tx.from) : isBlockCoinbase(tx, position)) return [];
+  if (tx.isCoinbase || isCoinbaseSender(tx.from)) {
+    return [{ ...at, kind: 'coinbase', message: 'Paid by the network but not the block\'s first transaction' }];
+  }
+  const violations: Omit<ChainViolation, 'blockIndex' | 'txIndex'>[] = [];
+  const { nonces } = state;
+
+  const size = getTransactionSize(tx);
+  if (size > MAX_TRANSACTION_SIZE) {
+    violations.push({ ...at, kind: 'size', message: `${size} bytes, at most ${MAX_TRANSACTION_SIZE} allowed` });
+  }
+  if (!hasValidAmount(tx)) {
+    violations.push({ ...at, kind: 'amount', message: `Amount ${formatAmount(tx.amount)} with fee ${formatAmount(tx.fee)}` });
+  }
+  const signatureError = checkSignature(tx, state.legacyClaims, block.index);
+  if (signatureError) violations.push({ ...at, kind: 'signature', message: signatureError });
+  // Transactions confirmed before nonces existed have none
+  if (checkTransactionNonce(tx, nonces) === 'reused') {
+    violations.push({ ...at, kind: 'nonce', message: `Nonce ${tx.nonce} is not above the sender's previous ${getAccountNonce(nonces, tx.from)}` });
+  }
+  if (tx.nonce !== undefined) nonces.set(tx.from, tx.nonce);
+  if (isUtxoTransaction(tx) && !validateUtxoTransaction(tx, state.utxos)) {
+    violations.push({ ...at, kind: 'inputs', message: 'Spends outputs that are missing, already spent or not the sender\'s' });
+  }
+  if (!isTransactionFinal(tx, block.index, medianTimePast)) {
+    violations.push({ ...at, kind: 'lock-time', message: `Mined before its lock time, ${describeLockTime(tx.lockTime!)}` });
+  }
+  if (!isHtlcSpendOpen(tx, block.index, medianTimePast)) {
+    violations.push({ ...at, kind: 'htlc', message: `HTLC ${tx.preimage ? 'claim' : 'refund'} on the wrong side of its timeout` });
+  }
+  if (violations.length === 0) applyLegacyClaim(tx, state.legacyClaims, block.index);
+  return violations;
+}
+
+// The block at `position` of `blocks`, with `state` after the blocks before it,
+// which it then advances past this block
+async function checkBlock(blocks: Block[], position: number, state: ChainState): Promise<ChainViolation[]> {
+  const block = blocks[position];
+  const violations = await checkHeader(block, blocks, position, state.issued);
+  state.issued += getBlockIssuance(block);
+  const medianTimePast = getMedianTimePast(blocks, position);
+
+  block.transactions.forEach((tx, txIndex) => {
+    const at = { blockIndex: position, txIndex };
+    if (state.positions.has(tx.id)) {
+      violations.push({ kind: 'duplicate', ...at, txId: tx.id, message: 'Transaction id already confirmed earlier' });
+      return;
+    }
+    state.positions.set(tx.id, at);
+    checkTransaction(tx, txIndex, block, medianTimePast, state).forEach(violation => violations.push({ ...violation, ...at }));
+    state.utxos.applyTransaction(tx, block.index);
+  });
+  return violations;
+}
+
+// Confirmed transactions of `blocks` that spend more than their sender had
+function findOverspends(blocks: Block[], positions: ChainState['positions']): ChainViolation[] {
+  return replayChain(blocks).overspends.map(overspend => ({
+    kind: 'overspend',
+    ...positions.get(overspend.txId),
+    txId: overspend.txId,
+    address: overspend.address,
+    message: `Spends ${formatAmount(overspend.spent)} GSC with ${formatAmount(overspend.balanceBefore)} GSC available`,
+  }));
+}
+
+// The `claimed` balances (projected, as GSC snapshots count pending
+// transactions) that `blocks` and `mempool` do not give. Claiming none is fine.
+export function findBalanceViolations(
+  blocks: Block[],
+  mempool: Transaction[],
+  claimed: Record<string, Amount>
+): ChainViolation[] {
+  if (Object.keys(claimed).length === 0) return [];
+  return findBalanceDiscrepancies(buildLedger(blocks, mempool), claimed).map(discrepancy => ({
+    kind: 'balance',
+    address: discrepancy.address,
+    message: `Claims ${formatAmount(discrepancy.imported)} GSC, the chain gives ${formatAmount(discrepancy.replayed)} GSC`,
+  }));
+}
+
+// Verify `blocks` from genesis, `mempool` signatures, and `claimed` balances
+// (projected, as GSC snapshots count pending transactions) against the replay
+export async function validateFullChain(
+  blocks: Block[],
+  mempool: Transaction[] = [],
+  claimed: Record<string, Amount> = {}
+): Promise<ChainValidationReport> {
+  const violations: ChainViolation[] = [];
+  const state = getChainState([]);
+
+  if (blocks.length === 0) {
+    violations.push({ kind: 'empty', message: 'The chain has no blocks' });
+  }
+
+  for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
+    violations.push(...await checkBlock(blocks, blockIndex, state));
+  }
+
+  mempool.forEach((tx, txIndex) => {
+    const signatureError = isCoinbaseSender(tx.from) ? null : checkSignature(tx, state.legacyClaims, blocks.length);
+    if (signatureError) {
+      violations.push({ kind: 'signature', txIndex, txId: tx.id, address: tx.from, message: `Pending transaction: ${signatureError}` });
+    }
+  });
+
+  violations.push(...findOverspends(blocks, state.positions));
+
+  violations.push(...findBalanceViolations(blocks, mempool, claimed));
+
+  return {
+    valid: violations.length === 0,
+    blocks: blocks.length,
+    transactions: blocks.reduce((sum, block) => sum + block.transactions.length, 0),
+    violations,
+  };
+}
+
+// The rules of validateFullChain for the blocks of `branch` from position
+// `from` on, those before it taken as already verified. Returns the position of
+// the first block that breaks one, or branch.length when none does.
+export async function findInvalidBlock(branch: Block[], from: number): Promise<number> {
+  const state = getChainState(branch.slice(0, from));
+  let position = from;
+  let violations: ChainViolation[] = [];
+  for (; position < branch.length && violations.length === 0; position++) {
+    violations = await checkBlock(branch, position, state);
+  }
+  const checked = violations.length > 0 ? position - 1 : branch.length;
+  // An overspend in an earlier block than the one that failed comes first
+  const overspends = findOverspends(branch.slice(0, checked + 1), state.positions)
+    .filter(violation => violation.blockIndex !== undefined && violation.blockIndex >= from);
+  const first = Math.min(checked, ...overspends.map(violation => violation.blockIndex!));
+  if (first < branch.length) {
+    const failed = first === checked ? violations : overspends.filter(violation => violation.blockIndex === first);
+    const block = branch[first];
+    console.error(`Block ${block.index} rejected:`, formatChainReport({ valid: false, blocks: 1, transactions: block.transactions.length, violations: failed }));
+  }
+  return first;
+}
+
+// The rules of validateFullChain for `block` on top of `chain`, the blocks
+// before it up to its parent, which are taken as already verified
+export async function validateBlock(block: Block, chain: Block[]): Promise<boolean> {
+  return await findInvalidBlock([...chain, block], chain.length) > chain.length;
+}
+
+// `report` failed by every entry readChainDocument had to leave out of `document`
+function withUnreadable(report: ChainValidationReport, document: ChainDocument): ChainValidationReport {
+  const unreadable: ChainViolation[] = (document.unreadable ?? []).map(entry => ({
+    kind: 'unreadable',
+    ...entry,
+    message: entry.txIndex === undefined ? 'Block could not be read' : 'Transaction could not be read',
+  }));
+  if (unreadable.length === 0) return report;
+  return { ...report, valid: false, violations: [...unreadable, ...report.violations] };
+}
+
+export async function validateChainDocument(document: ChainDocument): Promise<ChainValidationReport> {
+  const report = await validateFullChain(
+    document.chain.map(fromGSCBlock),
+    document.pending_transactions.map(tx => fromGSCTransaction(tx)),
+    document.balances
+  );
+  return withUnreadable(report, document);
+}
+
+// A snapshot read with readChainDocument, as it is to be imported: a pre-series
+// chain is checked as far as its data allows and converted first (see
+// preseries.ts), and the report is on the chain that would be imported
+export async function validateImportedChain(
+  document: ChainDocument
+): Promise<{ document: ChainDocument; report: ChainValidationReport }> {
+  if (!isPreSeriesChain(document)) return { document, report: await validateChainDocument(document) };
+  const conversion = convertPreSeriesChain(document);
+  if (!conversion.document) return { document, report: withUnreadable(conversion.report, document) };
+  return { document: conversion.document, report: await validateChainDocument(conversion.document) };
+}
+
+function describeLocation(violation: ChainViolation): string {
+  const parts = [
+    violation.blockIndex !== undefined ? `block ${violation.blockIndex}` : violation.txIndex !== undefined ? 'mempool' : '',
+    violation.txIndex !== undefined ? `tx ${violation.txIndex}` : '',
+    violation.address && violation.txIndex === undefined ? violation.address : '',
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+// One line per violation, the first `limit` of them, for logs and error messages
+export function formatChainReport(report: ChainValidationReport, limit = 5): string {
+  if (report.valid) return `${report.blocks} blocks and ${report.transactions} transactions verified`;
+  const lines = report.violations.slice(0, limit).map(violation => {
+    const location = describeLocation(violation);
+    return location ? `${location}: ${violation.message}` : violation.message;
+  });
+  const more = report.violations.length - lines.length;
+  return [
+    `${report.violations.length} problem${report.violations.length === 1 ? '' : 's'} in ${report.blocks} blocks`,
+    ...lines,
+    ...(more > 0 ? [`and ${more} more`] : []),
+  ].join('\n');
+}
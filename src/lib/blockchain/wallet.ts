@@ -0,0 +1,34 @@
+// ============= WALLET KEYS =============
+
+import { generateKeyPair, getPublicKey } from '../crypto';
+import { publicKeyToAddress } from '../address';
+import { generateMnemonic as generateBip39Mnemonic, mnemonicToPrivateKey } from '../mnemonic';
+
+// Generate random hex string
+export function generateRandomHex(length: number): string {
+  const array = new Uint8Array(length / 2);
+  crypto.getRandomValues(array);
+  return Array.from(array).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Generate wallet address
+export async function generateWalletAddress(): Promise<{ address: string; privateKey: string; publicKey: string }> {
+  const { privateKey, publicKey } = generateKeyPair();
+  const address = publicKeyToAddress(publicKey);
+  return { address, privateKey, publicKey };
+}
+
+// Generate 12-word BIP39 mnemonic seed phrase
+export function generateMnemonic(): string[] {
+  return generateBip39Mnemonic(128);
+}
+
+// Derive wallet keys and address from a BIP39 mnemonic
+export async function walletFromMnemonic(
+  mnemonic: string[],
+  passphrase = ''
+): Promise<{ address: string; privateKey: string; publicKey: string }> {
+  const privateKey = await mnemonicToPrivateKey(mnemonic, passphrase);
+  const publicKey = getPublicKey(privateKey);
+  return { address: publicKeyToAddress(publicKey), privateKey, publicKey };
+}
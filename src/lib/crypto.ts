@@ -0,0 +1,86 @@
+// ============= KEYS & SIGNATURES (secp256k1 ECDSA) =============
+
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+
+export interface KeyPair {
+  privateKey: string; // 32-byte secret key, hex
+  publicKey: string;  // 33-byte compressed public key, hex
+}
+
+export type SigningPayload = Record<string, string | number | boolean | null | undefined>;
+
+const HEX_REGEX = /^[0-9a-fA-F]*$/;
+
+function isHex(value: string, byteLength: number): boolean {
+  return typeof value === 'string' && value.length === byteLength * 2 && HEX_REGEX.test(value);
+}
+
+// Synchronous SHA-256 helpers (used where WebCrypto's async digest is impractical)
+export function sha256Bytes(data: string | Uint8Array): Uint8Array {
+  return sha256(typeof data === 'string' ? utf8ToBytes(data) : data);
+}
+
+export function sha256Hex(data: string | Uint8Array): string {
+  return bytesToHex(sha256Bytes(data));
+}
+
+export { bytesToHex, hexToBytes, utf8ToBytes };
+
+// Generate a new secp256k1 keypair using the platform CSPRNG
+export function generateKeyPair(): KeyPair {
+  const secretKey = secp256k1.utils.randomSecretKey();
+  return {
+    privateKey: bytesToHex(secretKey),
+    publicKey: bytesToHex(secp256k1.getPublicKey(secretKey, true)),
+  };
+}
+
+export function isValidPrivateKey(privateKey: string): boolean {
+  if (!isHex(privateKey, 32)) return false;
+  return secp256k1.utils.isValidSecretKey(hexToBytes(privateKey));
+}
+
+export function isValidPublicKey(publicKey: string): boolean {
+  if (!isHex(publicKey, 33) && !isHex(publicKey, 65)) return false;
+  return secp256k1.utils.isValidPublicKey(hexToBytes(publicKey));
+}
+
+// Derive the compressed public key for a private key
+export function getPublicKey(privateKey: string): string {
+  if (!isValidPrivateKey(privateKey)) {
+    throw new Error('Invalid private key');
+  }
+  return bytesToHex(secp256k1.getPublicKey(hexToBytes(privateKey), true));
+}
+
+// Canonical serialization: keys sorted, undefined fields dropped, UTF-8 encoded.
+// Both the signer and the verifier must build the payload from the same fields.
+export function serializeForSigning(payload: SigningPayload): Uint8Array {
+  const canonical: SigningPayload = {};
+  Object.keys(payload)
+    .sort()
+    .forEach(key => {
+      if (payload[key] !== undefined) canonical[key] = payload[key];
+    });
+  return utf8ToBytes(JSON.stringify(canonical));
+}
+
+// Sign a message (SHA-256 prehashed) and return the 64-byte compact signature as hex
+export function signMessage(message: Uint8Array, privateKey: string): string {
+  if (!isValidPrivateKey(privateKey)) {
+    throw new Error('Invalid private key');
+  }
+  return bytesToHex(secp256k1.sign(message, hexToBytes(privateKey)));
+}
+
+// Verify a compact signature. Malformed input is treated as an invalid signature.
+export function verifySignature(signature: string, message: Uint8Array, publicKey: string): boolean {
+  if (!signature || !isHex(signature, 64) || !isValidPublicKey(publicKey)) return false;
+  try {
+    return secp256k1.verify(hexToBytes(signature), message, hexToBytes(publicKey));
+  } catch {
+    return false;
+  }
+}
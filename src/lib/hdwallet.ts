@@ -0,0 +1,113 @@
+// ============= HD WALLETS (BIP32 / BIP44-style) =============
+//
+// One BIP39 seed derives an account key at m/44'/7337'/account'. Below it,
+// chain 0 holds receive addresses and chain 1 holds change addresses:
+//   m/44'/7337'/0'/0/i   receive
+//   m/44'/7337'/0'/1/i   change
+// Both chains are non-hardened, so addresses can be derived from the account
+// xpub alone and new receive addresses don't need the wallet to be unlocked.
+
+import { HDKey } from '@scure/bip32';
+import { bytesToHex } from './crypto';
+import { publicKeyToAddress } from './address';
+import { GSC_COIN_TYPE } from './mnemonic';
+
+export const HD_RECEIVE_CHAIN = 0;
+export const HD_CHANGE_CHAIN = 1;
+
+// Consecutive unused addresses after which a chain is assumed to be exhausted
+export const HD_GAP_LIMIT = 20;
+
+export type HDChain = typeof HD_RECEIVE_CHAIN | typeof HD_CHANGE_CHAIN;
+
+export interface HDAccount {
+  path: string;
+  xprv: string;
+  xpub: string;
+}
+
+export interface HDAddress {
+  chain: HDChain;
+  index: number;
+  path: string;
+  address: string;
+  publicKey: string;
+}
+
+export interface HDScanResult {
+  // Addresses with activity on either chain, in derivation order
+  used: HDAddress[];
+  // First index after the last used address of each chain
+  nextReceiveIndex: number;
+  nextChangeIndex: number;
+}
+
+export function getAccountPath(account = 0): string {
+  return `m/44'/${GSC_COIN_TYPE}'/${account}'`;
+}
+
+export function deriveAccount(seed: Uint8Array, account = 0): HDAccount {
+  const path = getAccountPath(account);
+  const key = HDKey.fromMasterSeed(seed).derive(path);
+  return { path, xprv: key.privateExtendedKey, xpub: key.publicExtendedKey };
+}
+
+function chainKey(accountKey: string, chain: HDChain): HDKey {
+  return HDKey.fromExtendedKey(accountKey).deriveChild(chain);
+}
+
+function toHDAddress(key: HDKey, accountPath: string, chain: HDChain, index: number): HDAddress {
+  const publicKey = bytesToHex(key.publicKey!);
+  return {
+    chain,
+    index,
+    path: `${accountPath}/${chain}/${index}`,
+    address: publicKeyToAddress(publicKey),
+    publicKey,
+  };
+}
+
+// Derive one address from the account xpub (an xprv works too)
+export function deriveAddress(account: { path: string; xpub: string }, chain: HDChain, index: number): HDAddress {
+  return toHDAddress(chainKey(account.xpub, chain).deriveChild(index), account.path, chain, index);
+}
+
+// Derive the signing key (hex) for one address; needs the account xprv
+export function deriveAddressPrivateKey(xprv: string, chain: HDChain, index: number): string {
+  const key = chainKey(xprv, chain).deriveChild(index);
+  if (!key.privateKey) {
+    throw new Error('Account key cannot sign - an extended private key is required');
+  }
+  return bytesToHex(key.privateKey);
+}
+
+// Walk both chains until `gapLimit` consecutive addresses are unused
+export function scanAccount(
+  account: { path: string; xpub: string },
+  isUsed: (address: string) => boolean,
+  gapLimit: number = HD_GAP_LIMIT
+): HDScanResult {
+  const used: HDAddress[] = [];
+  const nextIndex = { [HD_RECEIVE_CHAIN]: 0, [HD_CHANGE_CHAIN]: 0 };
+
+  for (const chain of [HD_RECEIVE_CHAIN, HD_CHANGE_CHAIN] as HDChain[]) {
+    const parent = chainKey(account.xpub, chain);
+    let gap = 0;
+    for (let index = 0; gap < gapLimit; index++) {
+      const derived = toHDAddress(parent.deriveChild(index), account.path, chain, index);
+      if (isUsed(derived.address)) {
+        used.push(derived);
+        nextIndex[chain] = index + 1;
+        gap = 0;
+      } else {
+        gap++;
+      }
+    }
+  }
+
+  return {
+    used,
+    nextReceiveIndex: nextIndex[HD_RECEIVE_CHAIN],
+    nextChangeIndex: nextIndex[HD_CHANGE_CHAIN],
+  };
+}
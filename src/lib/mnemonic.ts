@@ -0,0 +1,139 @@
+// ============= BIP39 RECOVERY PHRASES =============
+
+import * as bip39 from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { HDKey } from '@scure/bip32';
+import { bytesToHex } from './crypto';
+
+// SLIP-44 has no registered coin type for GSC; this value is fixed for all GSC wallets
+export const GSC_COIN_TYPE = 7337;
+export const GSC_ACCOUNT_PATH = `m/44'/${GSC_COIN_TYPE}'/0'`;
+export const GSC_DEFAULT_KEY_PATH = `${GSC_ACCOUNT_PATH}/0/0`;
+
+export const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+export { wordlist as BIP39_WORDLIST };
+
+export interface MnemonicValidation {
+  valid: boolean;
+  // Zero-based positions of words that are not in the BIP39 list
+  invalidWords: { index: number; word: string; suggestions: string[] }[];
+  checksumValid: boolean;
+  error?: string;
+}
+
+const WORD_SET = new Set(wordlist);
+
+// Split user input into normalised lowercase words
+export function normalizeMnemonic(input: string | string[]): string[] {
+  const raw = Array.isArray(input) ? input.join(' ') : input;
+  return raw.normalize('NFKD').trim().toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Generate a new phrase from CSPRNG entropy (128 bits = 12 words, 256 bits = 24 words)
+export function generateMnemonic(strength: 128 | 160 | 192 | 224 | 256 = 128): string[] {
+  return bip39.generateMnemonic(wordlist, strength).split(' ');
+}
+
+export function isBip39Word(word: string): boolean {
+  return WORD_SET.has(word.toLowerCase());
+}
+
+// Autocomplete: words starting with the prefix, or nearest by edit distance when none do
+export function suggestWords(prefix: string, limit = 5): string[] {
+  const needle = prefix.trim().toLowerCase();
+  if (!needle) return [];
+
+  const byPrefix = wordlist.filter(word => word.startsWith(needle));
+  if (byPrefix.length > 0) return byPrefix.slice(0, limit);
+
+  return wordlist
+    .map(word => ({ word, distance: editDistance(needle, word) }))
+    .filter(candidate => candidate.distance <= 2)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(candidate => candidate.word);
+}
+
+export function validateMnemonic(input: string | string[]): MnemonicValidation {
+  const words = normalizeMnemonic(input);
+
+  const invalidWords = words
+    .map((word, index) => ({ index, word }))
+    .filter(({ word }) => !WORD_SET.has(word))
+    .map(({ index, word }) => ({ index, word, suggestions: suggestWords(word, 3) }));
+
+  if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    return {
+      valid: false,
+      invalidWords,
+      checksumValid: false,
+      error: `Recovery phrase must have ${MNEMONIC_WORD_COUNTS.join(', ')} words (found ${words.length})`,
+    };
+  }
+
+  if (invalidWords.length > 0) {
+    const first = invalidWords[0];
+    return {
+      valid: false,
+      invalidWords,
+      checksumValid: false,
+      error: `Word ${first.index + 1} ("${first.word}") is not in the BIP39 word list`,
+    };
+  }
+
+  const checksumValid = bip39.validateMnemonic(words.join(' '), wordlist);
+  return {
+    valid: checksumValid,
+    invalidWords,
+    checksumValid,
+    error: checksumValid
+      ? undefined
+      : 'Checksum mismatch - a word is wrong or the words are out of order',
+  };
+}
+
+// BIP39 seed: PBKDF2-HMAC-SHA512, 2048 rounds, salt "mnemonic" + passphrase
+export async function mnemonicToSeed(input: string | string[], passphrase = ''): Promise<Uint8Array> {
+  const validation = validateMnemonic(input);
+  if (!validation.valid) {
+    throw new Error(validation.error || 'Invalid recovery phrase');
+  }
+  return bip39.mnemonicToSeedWebcrypto(normalizeMnemonic(input).join(' '), passphrase);
+}
+
+// Derive the private key (hex) at a BIP32 path from a seed
+export function derivePrivateKey(seed: Uint8Array, path: string = GSC_DEFAULT_KEY_PATH): string {
+  const key = HDKey.fromMasterSeed(seed).derive(path);
+  if (!key.privateKey) {
+    throw new Error(`Unable to derive private key at ${path}`);
+  }
+  return bytesToHex(key.privateKey);
+}
+
+export async function mnemonicToPrivateKey(
+  input: string | string[],
+  passphrase = '',
+  path: string = GSC_DEFAULT_KEY_PATH
+): Promise<string> {
+  const seed = await mnemonicToSeed(input, passphrase);
+  return derivePrivateKey(seed, path);
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
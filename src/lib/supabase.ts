@@ -9,7 +9,8 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
-// Database Types
+// Database Types. Amount columns are numeric GSC: read back as JSON numbers,
+// written as numbers or exact decimal strings (see amountToJson / readAmount).
 export interface GSCBlockchainData {
   id: string
   version: number
@@ -17,8 +18,8 @@ export interface GSCBlockchainData {
   balances: any
   mempool: any
   difficulty: number
-  mining_reward: number
-  total_supply: number
+  mining_reward: number | string
+  total_supply: number | string
   last_updated: string
   created_at: string
 }
@@ -28,8 +29,8 @@ export interface GSCTransaction {
   tx_id: string
   sender: string
   receiver: string
-  amount: number
-  fee: number
+  amount: number | string
+  fee: number | string
   timestamp: number
   signature: string
   block_index?: number
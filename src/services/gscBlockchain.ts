@@ -1,27 +1,110 @@
 import { toast } from "@/hooks/use-toast";
-
-// GSC Blockchain Types
-export interface GSCTransaction {
-  sender: string;
-  receiver: string;
-  amount: number;
-  fee: number;
-  timestamp: number;
-  signature: string;
-  tx_id: string;
+import {
+  generateKeyPair,
+  getPublicKey,
+  isValidPrivateKey,
+  signMessage,
+  verifySignature,
+} from "@/lib/crypto";
+import { addressMatchesPublicKey, getLegacyAddress, isLegacyAddress, publicKeyToAddress, validateAddress } from "@/lib/address";
+import { generateMnemonic as generateBip39Mnemonic, mnemonicToPrivateKey, mnemonicToSeed } from "@/lib/mnemonic";
+import {
+  HD_GAP_LIMIT,
+  HD_RECEIVE_CHAIN,
+  HDAddress,
+  HDChain,
+  deriveAccount,
+  deriveAddress,
+  deriveAddressPrivateKey,
+  scanAccount,
+} from "@/lib/hdwallet";
+import {
+  Amount,
+  AddressBalance,
+  BalanceDiscrepancy,
+  ChainDocument,
+  ENCODING_VERSION,
+  FeeEstimates,
+  GSCBlock,
+  GSCHtlcContract,
+  GSCMultisigPolicy,
+  GSCTransaction,
+  HtlcContract,
+  MIN_TRANSACTION_FEE,
+  MultisigPolicy,
+  SCHEDULED_STORAGE_KEY,
+  SWAP_STORAGE_KEY,
+  SigningStatus,
+  TYPICAL_TRANSACTION_SIZE,
+  Transaction,
+  WALLET_STORAGE_KEY,
+  addMultisigSignature,
+  amountToJson,
+  chainStore,
+  checkLegacySpend,
+  compareAmounts,
+  computeTransactionId,
+  createHtlcContract,
+  createLegacyCommitment,
+  createMultisigPolicy,
+  createPartiallySignedTransaction,
+  describeLockTime,
+  estimateFees,
+  findRevealedSecret,
+  formatAmount,
+  formatChainReport,
+  formatHtlcContract,
+  formatMultisigDescriptor,
+  fromGSCTransaction,
+  getBlockSubsidy,
+  getEmissionSchedule,
+  getHtlcAddress,
+  getHtlcSpendKind,
+  getIssuedSupply,
+  getMedianTimePast,
+  getMultisigAddress,
+  getNextHalvingHeight,
+  getSigningStatus,
+  hashHtlcSecret,
+  isCoinbaseSender,
+  isFinalForNextBlock,
+  isLockTimeReached,
+  minAmount,
+  parseHtlcContract,
+  parseMultisigDescriptor,
+  parsePartiallySigned,
+  readAmount,
+  readChainDocument,
+  serializePartiallySigned,
+  stringifyWithAmounts,
+  sumAmounts,
+  toGSCTransaction,
+  toWireTransaction,
+  transactionSigningPayload,
+  validateImportedChain,
+  verifyTransactionSignature,
+} from "@/lib/blockchain";
+
+// Chain types come from the shared core; re-exported for existing imports
+export type { GSCBlock, GSCTransaction };
+
+// GSC Wallet Types
+export interface GSCHDAddress {
+  address: string;
+  public_key: string;
+  path: string;
+  chain: HDChain;
+  index: number;
 }
 
-export interface GSCBlock {
-  index: number;
-  timestamp: number;
-  transactions: GSCTransaction[];
-  previous_hash: string;
-  nonce: number;
-  hash: string;
-  merkle_root: string;
-  difficulty: number;
-  miner: string;
-  reward: number;
+// HD account state. The account xprv lives in the wallet's private_key field.
+export interface GSCHDAccount {
+  path: string;
+  xpub: string;
+  next_receive_index: number;
+  next_change_index: number;
+  gap_limit: number;
+  addresses: GSCHDAddress[];
 }
 
 export interface GSCWallet {
@@ -29,25 +112,77 @@ export interface GSCWallet {
   address: string;
   private_key: string;
   public_key: string;
-  balance: number;
+  balance: Amount;
   created: string;
   encrypted: boolean;
+  // Present on HD wallets; address/public_key then describe the first receive address
+  hd?: GSCHDAccount;
+  // Present on multisig wallets, which hold no key: private_key and public_key are empty
+  multisig?: GSCMultisigPolicy;
+  // Legacy wallets only: the name of the wallet whose key the address is claimed for
+  legacy_claim?: string;
+}
+
+// A time-locked payment held locally until it can be mined. It is signed, with
+// the sender's next nonce, only when it is broadcast: nonces must increase, so
+// one taken when scheduling would be used up by any payment sent meanwhile.
+export interface GSCScheduledTransaction {
+  wallet: string;
+  // Unsigned and without a nonce; the tx_id only identifies the entry until it is sent
+  transaction: GSCTransaction;
+  created: string;
+  // Why the last broadcast attempt failed, if it did
+  last_error?: string;
 }
 
-export interface GSCBlockchain {
-  chain: GSCBlock[];
-  pending_transactions: GSCTransaction[];
+// An atomic swap one of the wallets is party to: an HTLC it funded (`sender`)
+// or can claim (`recipient`). Keyed by the contract's address.
+export interface GSCSwap {
+  address: string;
+  wallet: string;
+  role: "sender" | "recipient";
+  contract: GSCHtlcContract;
+  // Known to whoever generated it, and to everyone once a claim reveals it
+  secret?: string;
+  created: string;
+}
+
+// How far a legacy wallet's claim has got (see claimLegacyWallet)
+export type GSCLegacyClaimState =
+  | "unclaimed" // no commitment yet
+  | "committing" // the commitment is pending
+  | "committed" // the commitment is mined, so the claim can be sent
+  | "claimed"; // the address is bound to a key
+
+export type GSCSwapState =
+  | "awaiting-funding" // nothing paid to the contract yet
+  | "funded" // funded, and claimable until the timeout
+  | "claiming" // a claim is pending
+  | "claimed"
+  | "refundable" // still funded after the timeout
+  | "refunding" // a refund is pending
+  | "refunded";
+
+export interface GSCSwapStatus {
+  state: GSCSwapState;
+  // Funds held by the contract, net of pending spends
+  balance: Amount;
+  timed_out: boolean;
+  // The secret, from the swap record or revealed by a claim
+  secret?: string;
+}
+
+// Exported snapshot: the shared chain document plus this wallet's keys
+export interface GSCBlockchain extends ChainDocument {
   wallets: GSCWallet[];
-  total_supply: number;
-  mempool?: GSCTransaction[];
-  balances?: { [address: string]: number };
-  difficulty?: number;
-  mining_reward?: number;
 }
 
 class GSCBlockchainService {
-  private blockchain: GSCBlockchain | null = null;
-  private storage_key = "gsc_blockchain_data";
+  // Chain, mempool and balances live in the shared chain store; only wallets are kept here
+  private wallets: GSCWallet[] = [];
+  private storage_key = WALLET_STORAGE_KEY;
+  private scheduled: GSCScheduledTransaction[] = [];
+  private swaps: GSCSwap[] = [];
 
   constructor() {
     this.loadBlockchain();
@@ -56,205 +191,188 @@ class GSCBlockchainService {
   private loadBlockchain(): void {
     try {
       console.log("=== LOADING BLOCKCHAIN ===");
+      this.wallets = this.loadWallets();
+      this.scheduled = this.loadScheduledTransactions();
+      this.swaps = this.loadSwaps();
       
-      // Check for imported blockchain data first
-      const imported = localStorage.getItem('gsc_blockchain');
-      if (imported) {
-        console.log("Found imported blockchain data, loading...");
-        const importedData = JSON.parse(imported);
-        
-        this.blockchain = {
-          chain: importedData.chain || [],
-          pending_transactions: importedData.mempool || importedData.pending_transactions || [],
-          wallets: [],
-          total_supply: importedData.total_supply || 21750000000000,
-          balances: importedData.balances || {},
-          difficulty: importedData.difficulty || 4,
-          mining_reward: importedData.mining_reward || 50,
-          mempool: importedData.mempool || importedData.pending_transactions || []
-        };
-        
-        // Create wallets from imported balances
-        if (importedData.balances) {
-          Object.entries(importedData.balances).forEach(([address, balance]) => {
-            if (address !== "GENESIS" && address !== "COINBASE" && address.startsWith("GSC1")) {
-              const shortAddress = address.substring(4, 14);
-              const wallet: GSCWallet = {
-                name: `Wallet_${shortAddress}`,
-                address: address,
-                private_key: "",
-                public_key: "",
-                balance: Math.max(0, balance as number),
-                created: new Date().toISOString(),
-                encrypted: false
-              };
-              this.blockchain!.wallets.push(wallet);
-            }
-          });
-        }
-        
-        localStorage.removeItem('gsc_blockchain');
-        this.saveBlockchain();
-        return;
-      }
+      chainStore.ensureGenesis();
       
-      // Load existing blockchain
-      const stored = localStorage.getItem(this.storage_key);
-      if (stored) {
-        this.blockchain = JSON.parse(stored);
-        this.initializeBlockchainAfterImport();
-      } else {
-        this.createGenesisBlock();
+      // Imported blockchain data is verified in full before it is merged
+      if (localStorage.getItem('gsc_blockchain')) {
+        void this.refreshBlockchainData();
       }
     } catch (error) {
       console.error("Error loading blockchain:", error);
-      this.createGenesisBlock();
-    }
-  }
-
-  private createGenesisBlock(): void {
-    console.log("Creating genesis block...");
-    this.blockchain = {
-      chain: [{
-        index: 0,
-        timestamp: Date.now(),
-        transactions: [],
-        previous_hash: "0",
-        nonce: 0,
-        hash: "genesis_hash",
-        merkle_root: "",
-        difficulty: 4,
-        miner: "GENESIS",
-        reward: 0
-      }],
-      pending_transactions: [],
-      wallets: [],
-      total_supply: 21750000000000,
-      balances: {},
-      difficulty: 4,
-      mining_reward: 50
-    };
-    this.saveBlockchain();
+      chainStore.ensureGenesis();
+    }
   }
 
-  private saveBlockchain(): void {
+  private loadWallets(): GSCWallet[] {
+    const stored = localStorage.getItem(this.storage_key);
+    const wallets = stored ? JSON.parse(stored) : [];
+    return Array.isArray(wallets)
+      ? wallets.filter(Boolean).map((wallet: GSCWallet) => ({ ...wallet, balance: readAmount(wallet.balance) }))
+      : [];
+  }
+
+  private saveWallets(): void {
     try {
-      if (this.blockchain) {
-        localStorage.setItem(this.storage_key, JSON.stringify(this.blockchain));
-      }
+      localStorage.setItem(this.storage_key, stringifyWithAmounts(this.wallets));
     } catch (error) {
-      console.error("Error saving blockchain:", error);
+      console.error("Error saving wallets:", error);
     }
   }
 
+  private loadScheduledTransactions(): GSCScheduledTransaction[] {
+    const stored = localStorage.getItem(SCHEDULED_STORAGE_KEY);
+    const scheduled = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(scheduled)) return [];
+    return scheduled
+      .map(entry => entry && { ...entry, transaction: toWireTransaction(entry.transaction) })
+      .filter(entry => entry && entry.transaction);
+  }
+
+  private saveScheduledTransactions(): void {
+    try {
+      localStorage.setItem(SCHEDULED_STORAGE_KEY, stringifyWithAmounts(this.scheduled));
+    } catch (error) {
+      console.error("Error saving scheduled transactions:", error);
+    }
+  }
+
+  private loadSwaps(): GSCSwap[] {
+    const stored = localStorage.getItem(SWAP_STORAGE_KEY);
+    const swaps = stored ? JSON.parse(stored) : [];
+    return Array.isArray(swaps) ? swaps.filter(swap => swap && swap.contract) : [];
+  }
+
+  private saveSwaps(): void {
+    try {
+      localStorage.setItem(SWAP_STORAGE_KEY, JSON.stringify(this.swaps));
+    } catch (error) {
+      console.error("Error saving swaps:", error);
+    }
+  }
+
+  // Watch-only wallets for funded addresses in an imported snapshot that no wallet owns yet
+  private addWatchOnlyWallets(balances: Readonly<Record<string, Amount>>): void {
+    Object.entries(balances).forEach(([address, balance]) => {
+      if (address !== "GENESIS" && address !== "COINBASE" && address.startsWith("GSC1")) {
+        if (this.findWalletByAddress(address)) return;
+        const shortAddress = address.substring(4, 14);
+        this.wallets.push({
+          name: `Wallet_${shortAddress}`,
+          address: address,
+          private_key: "",
+          public_key: "",
+          balance: this.getWalletBalance(address),
+          created: new Date().toISOString(),
+          encrypted: false
+        });
+        console.log(`Added new wallet for ${address} with balance ${formatAmount(balance)} GSC`);
+      }
+    });
+  }
+
   // Get all wallets
   getWallets(): GSCWallet[] {
-    if (!this.blockchain || !Array.isArray(this.blockchain.wallets)) {
-      return [];
-    }
-    return this.blockchain.wallets;
+    return this.wallets;
   }
 
   // Get all transactions
   getAllTransactions(): GSCTransaction[] {
-    if (!this.blockchain || !Array.isArray(this.blockchain.chain)) {
-      return [];
-    }
-    
     const allTransactions: GSCTransaction[] = [];
-    for (const block of this.blockchain.chain) {
-      if (block && Array.isArray(block.transactions)) {
-        allTransactions.push(...block.transactions);
-      }
+    for (const block of chainStore.getGSCBlocks()) {
+      allTransactions.push(...block.transactions);
     }
     
     // Add pending transactions
-    if (Array.isArray(this.blockchain.pending_transactions)) {
-      allTransactions.push(...this.blockchain.pending_transactions);
-    }
+    allTransactions.push(...chainStore.getGSCMempool());
     
     return allTransactions;
   }
 
-  // Get wallet balance
-  getWalletBalance(address: string): number {
-    if (!this.blockchain) return 0;
-    
-    // Check balances object first
-    if (this.blockchain.balances && this.blockchain.balances[address] !== undefined) {
-      return this.blockchain.balances[address];
-    }
-    
-    // Check wallet object
-    if (Array.isArray(this.blockchain.wallets)) {
-      const wallet = this.blockchain.wallets.find(w => w && w.address === address);
-      if (wallet && wallet.balance !== undefined) {
-        return wallet.balance;
-      }
+  // Get wallet balance: confirmed funds not already committed to pending transactions
+  getWalletBalance(address: string): Amount {
+    return chainStore.getAddressBalance(address).available;
+  }
+
+  // Confirmed, pending and available amounts of a wallet across all of its addresses
+  getWalletBalanceDetails(wallet: GSCWallet): AddressBalance {
+    const total: AddressBalance = { confirmed: 0n, pendingIncoming: 0n, pendingOutgoing: 0n, available: 0n, projected: 0n };
+    for (const address of this.getWalletAddresses(wallet)) {
+      const balance = chainStore.getAddressBalance(address);
+      total.confirmed += balance.confirmed;
+      total.pendingIncoming += balance.pendingIncoming;
+      total.pendingOutgoing += balance.pendingOutgoing;
+      total.available += balance.available;
+      total.projected += balance.projected;
     }
-    
-    return 0;
+    return total;
+  }
+
+  // Addresses whose stored balance did not match the replayed chain
+  getBalanceDiscrepancies(): BalanceDiscrepancy[] {
+    return chainStore.getBalanceDiscrepancies();
   }
 
   // Get transaction history for address
   getTransactionHistory(address: string): GSCTransaction[] {
-    if (!this.blockchain || !Array.isArray(this.blockchain.chain)) {
-      return [];
-    }
-
     const transactions: GSCTransaction[] = [];
     
-    // Search through all blocks
-    for (const block of this.blockchain.chain) {
-      if (!block || !Array.isArray(block.transactions)) continue;
-      
+    // Search through all blocks (UTXO-style transactions may pay the address in any output)
+    const involves = (tx: GSCTransaction) =>
+      tx.sender === address || tx.receiver === address || !!tx.outputs?.some(output => output.address === address);
+    for (const block of chainStore.getGSCBlocks()) {
       for (const tx of block.transactions) {
-        if (tx && (tx.sender === address || tx.receiver === address)) {
+        if (involves(tx)) {
           transactions.push(tx);
         }
       }
     }
     
     // Add pending transactions
-    if (Array.isArray(this.blockchain.pending_transactions)) {
-      for (const tx of this.blockchain.pending_transactions) {
-        if (tx && (tx.sender === address || tx.receiver === address)) {
-          transactions.push(tx);
-        }
+    for (const tx of chainStore.getGSCMempool()) {
+      if (involves(tx)) {
+        transactions.push(tx);
       }
     }
     
     return transactions.sort((a, b) => b.timestamp - a.timestamp);
   }
 
-  // Create new wallet with enhanced security - Following GSC Specifications
-  async createWallet(name: string, passphrase?: string): Promise<GSCWallet> {
-    if (!this.blockchain) {
-      this.createGenesisBlock();
-    }
+  // Still waiting in the mempool, so it can be bumped or cancelled
+  isTransactionPending(txId: string): boolean {
+    return chainStore.getGSCMempool().some(tx => tx.tx_id === txId);
+  }
 
+  // Create new wallet with enhanced security - Following GSC Specifications.
+  // When a mnemonic is given the key is derived from it, so the phrase restores the wallet.
+  async createWallet(name: string, passphrase?: string, mnemonic?: string[]): Promise<GSCWallet> {
     // Validate wallet name
     if (!name || !name.trim()) {
       throw new Error("Wallet name is required");
     }
 
     // Check for duplicate wallet names
-    const existingWallet = this.blockchain.wallets.find(w => w && w.name === name.trim());
+    const existingWallet = this.wallets.find(w => w && w.name === name.trim());
     if (existingWallet) {
       throw new Error("Wallet name already exists");
     }
 
     // Generate cryptographically secure private key
-    const privateKey = this.generateSecurePrivateKey();
+    const privateKey = mnemonic
+      ? await mnemonicToPrivateKey(mnemonic)
+      : this.generateSecurePrivateKey();
     
-    // Generate public key hash from private key
-    const publicKey = await this.generatePublicKeyFromPrivate(privateKey);
+    // Derive secp256k1 public key from private key
+    const publicKey = this.generatePublicKeyFromPrivate(privateKey);
     
-    // Create GSC address in proper format: GSC1{first32chars_of_private_key}
-    const address = `GSC1${privateKey.substring(0, 32)}`;
+    // Create checksummed GSC1 address from the public key hash
+    const address = publicKeyToAddress(publicKey);
     
     // Check for duplicate addresses (extremely unlikely but good practice)
-    const existingAddress = this.blockchain.wallets.find(w => w && w.address === address);
+    const existingAddress = this.wallets.find(w => w && w.address === address);
     if (existingAddress) {
       throw new Error("Address collision detected, please try again");
     }
@@ -264,23 +382,19 @@ class GSCBlockchainService {
       address: address,
       private_key: passphrase ? await this.encryptPrivateKey(privateKey, passphrase) : privateKey,
       public_key: publicKey,
-      balance: 0,
+      balance: 0n,
       created: new Date().toISOString(),
       encrypted: !!passphrase
     };
 
-    this.blockchain!.wallets.push(wallet);
-    this.saveBlockchain();
+    this.wallets.push(wallet);
+    this.saveWallets();
     
     return wallet;
   }
 
   // Import wallet using private key - Following GSC Specifications
   async importWallet(name: string, privateKey: string): Promise<GSCWallet> {
-    if (!this.blockchain) {
-      this.createGenesisBlock();
-    }
-
     // Validate wallet name
     if (!name || !name.trim()) {
       throw new Error("Wallet name is required");
@@ -298,23 +412,33 @@ class GSCBlockchainService {
       throw new Error("Invalid private key format. Must be 64-character hexadecimal string");
     }
 
+    // Validate private key is a usable secp256k1 secret key
+    if (!isValidPrivateKey(cleanPrivateKey)) {
+      throw new Error("Invalid private key. Value is outside the secp256k1 key range");
+    }
+
     // Check for duplicate wallet names
-    const existingWalletByName = this.blockchain.wallets.find(w => w && w.name === name.trim());
+    const existingWalletByName = this.wallets.find(w => w && w.name === name.trim());
     if (existingWalletByName) {
       throw new Error("Wallet name already exists");
     }
 
-    // Generate address from private key
-    const address = `GSC1${cleanPrivateKey.substring(0, 32)}`;
+    // Generate public key from private key
+    const publicKey = this.generatePublicKeyFromPrivate(cleanPrivateKey);
+
+    // Derive checksummed address, falling back to the legacy address when only it holds
+    // funds, which then have to be claimed for a new key to be spent (see claimLegacyWallet)
+    let address = publicKeyToAddress(publicKey);
+    const legacyAddress = getLegacyAddress(cleanPrivateKey);
+    if (!this.hasAddressActivity(address) && this.hasAddressActivity(legacyAddress)) {
+      address = legacyAddress;
+    }
 
     // Check for duplicate addresses
-    const existingWalletByAddress = this.blockchain.wallets.find(w => w && w.address === address);
+    const existingWalletByAddress = this.findWalletByAddress(address);
     if (existingWalletByAddress) {
       throw new Error("Wallet with this address already exists");
     }
-
-    // Generate public key from private key
-    const publicKey = await this.generatePublicKeyFromPrivate(cleanPrivateKey);
     
     // Get current balance
     const balance = this.getWalletBalance(address);
@@ -329,20 +453,16 @@ class GSCBlockchainService {
       encrypted: false
     };
 
-    this.blockchain!.wallets.push(wallet);
-    this.saveBlockchain();
+    this.wallets.push(wallet);
+    this.saveWallets();
     
     return wallet;
   }
 
   // Legacy method - Import wallet with address (for backward compatibility)
-  async importWalletWithAddress(name: string, address: string, private_key: string, public_key?: string): Promise<GSCWallet> {
-    if (!this.blockchain) {
-      this.createGenesisBlock();
-    }
-
+  async importWalletWithAddress(name: string, address: string, private_key: string, public_key?: string, hd?: GSCHDAccount): Promise<GSCWallet> {
     // Check if wallet already exists
-    const existingWallet = this.blockchain!.wallets.find(w => w && w.address === address);
+    const existingWallet = this.findWalletByAddress(address);
     if (existingWallet) {
       throw new Error("Wallet with this address already exists");
     }
@@ -353,100 +473,301 @@ class GSCBlockchainService {
       name: name,
       address: address,
       private_key: private_key,
-      public_key: public_key || await this.generatePublicKeyFromPrivate(private_key),
+      public_key: public_key || (isValidPrivateKey(private_key) ? this.generatePublicKeyFromPrivate(private_key) : ""),
       balance: balance,
       created: new Date().toISOString(),
-      encrypted: false
+      encrypted: false,
+      hd
     };
+    if (hd) {
+      wallet.balance = this.getWalletTotalBalance(wallet);
+    }
 
-    this.blockchain!.wallets.push(wallet);
-    this.saveBlockchain();
+    this.wallets.push(wallet);
+    this.saveWallets();
     
     return wallet;
   }
 
-  // Generate cryptographically secure private key - Following GSC Specifications
+  // Create an m-of-n multisig wallet from its cosigners' public keys
+  async createMultisigWallet(name: string, m: number, publicKeys: string[]): Promise<GSCWallet> {
+    return this.addMultisigWallet(name, createMultisigPolicy(m, publicKeys));
+  }
+
+  // Import a multisig wallet from the descriptor another cosigner shared
+  async importMultisigWallet(name: string, descriptor: string): Promise<GSCWallet> {
+    return this.addMultisigWallet(name, parseMultisigDescriptor(descriptor));
+  }
+
+  private async addMultisigWallet(name: string, policy: MultisigPolicy): Promise<GSCWallet> {
+    if (!name || !name.trim()) {
+      throw new Error("Wallet name is required");
+    }
+
+    if (this.wallets.find(w => w && w.name === name.trim())) {
+      throw new Error("Wallet name already exists");
+    }
+
+    const address = getMultisigAddress(policy);
+    if (this.findWalletByAddress(address)) {
+      throw new Error("Wallet with this address already exists");
+    }
+
+    const wallet: GSCWallet = {
+      name: name.trim(),
+      address,
+      private_key: "",
+      public_key: "",
+      balance: this.getWalletBalance(address),
+      created: new Date().toISOString(),
+      encrypted: false,
+      multisig: { m: policy.m, public_keys: policy.publicKeys }
+    };
+
+    this.wallets.push(wallet);
+    this.saveWallets();
+
+    return wallet;
+  }
+
+  // The descriptor cosigners share to import a multisig wallet, e.g. multi(2,<key>,<key>,<key>)
+  getMultisigDescriptor(wallet: GSCWallet): string {
+    if (!wallet.multisig) {
+      throw new Error("Not a multisig wallet");
+    }
+    return formatMultisigDescriptor({ m: wallet.multisig.m, publicKeys: wallet.multisig.public_keys });
+  }
+
+  // Local wallets holding one of the policy's cosigner keys, directly or on an HD address
+  getCosignerWallets(policy: MultisigPolicy): GSCWallet[] {
+    return this.wallets.filter(wallet => wallet && wallet.private_key && (
+      wallet.hd
+        ? wallet.hd.addresses.some(entry => policy.publicKeys.includes(entry.public_key.toLowerCase()))
+        : policy.publicKeys.includes(wallet.public_key.toLowerCase())
+    ));
+  }
+
+  // Generate cryptographically secure secp256k1 private key - Following GSC Specifications
   private generateSecurePrivateKey(): string {
-    // Use crypto.getRandomValues() for cryptographically secure randomness
-    const array = new Uint8Array(32); // 256 bits = 32 bytes
-    crypto.getRandomValues(array);
-    
-    // Convert to 64-character hex string
-    return Array.from(array).map(b => b.toString(16).padStart(2, '0')).join('');
+    // 256-bit secret key from crypto.getRandomValues(), checked to be in curve range
+    return generateKeyPair().privateKey;
+  }
+
+  // Derive compressed secp256k1 public key from private key - Following GSC Specifications
+  private generatePublicKeyFromPrivate(privateKey: string): string {
+    return getPublicKey(privateKey);
   }
 
-  // Generate public key hash from private key - Following GSC Specifications
-  private async generatePublicKeyFromPrivate(privateKey: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(privateKey);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  // Whether an address has a balance or any transaction in the chain
+  private hasAddressActivity(address: string): boolean {
+    if (this.getWalletBalance(address) > 0) return true;
+    return this.getTransactionHistory(address).length > 0;
   }
 
-  // Generate 12-word mnemonic seed phrase - Following GSC Specifications
+  // Generate 12-word BIP39 mnemonic seed phrase (128 bits of CSPRNG entropy + checksum)
   generateMnemonic(): string[] {
-    const wordList = [
-      'abandon', 'ability', 'able', 'about', 'above', 'absent', 'absorb', 'abstract',
-      'absurd', 'abuse', 'access', 'accident', 'account', 'accuse', 'achieve', 'acid',
-      'acoustic', 'acquire', 'across', 'act', 'action', 'actor', 'actress', 'actual',
-      'adapt', 'add', 'addict', 'address', 'adjust', 'admit', 'adult', 'advance',
-      'advice', 'aerobic', 'affair', 'afford', 'afraid', 'again', 'age', 'agent',
-      'agree', 'ahead', 'aim', 'air', 'airport', 'aisle', 'alarm', 'album',
-      'alcohol', 'alert', 'alien', 'all', 'alley', 'allow', 'almost', 'alone',
-      'alpha', 'already', 'also', 'alter', 'always', 'amateur', 'amazing', 'among',
-      'amount', 'amused', 'analyst', 'anchor', 'ancient', 'anger', 'angle', 'angry',
-      'animal', 'ankle', 'announce', 'annual', 'another', 'answer', 'antenna', 'antique',
-      'anxiety', 'any', 'apart', 'apology', 'appear', 'apple', 'approve', 'april',
-      'arch', 'arctic', 'area', 'arena', 'argue', 'arm', 'armed', 'armor',
-      'army', 'around', 'arrange', 'arrest', 'arrive', 'arrow', 'art', 'artefact',
-      'artist', 'artwork', 'ask', 'aspect', 'assault', 'asset', 'assist', 'assume',
-      'asthma', 'athlete', 'atom', 'attack', 'attend', 'attitude', 'attract', 'auction',
-      'audit', 'august', 'aunt', 'author', 'auto', 'autumn', 'average', 'avocado',
-      'avoid', 'awake', 'aware', 'away', 'awesome', 'awful', 'awkward', 'axis',
-      'baby', 'bachelor', 'bacon', 'badge', 'bag', 'balance', 'balcony', 'ball',
-      'bamboo', 'banana', 'banner', 'bar', 'barely', 'bargain', 'barrel', 'base',
-      'basic', 'basket', 'battle', 'beach', 'bean', 'beauty', 'because', 'become',
-      'beef', 'before', 'begin', 'behave', 'behind', 'believe', 'below', 'belt',
-      'bench', 'benefit', 'best', 'betray', 'better', 'between', 'beyond', 'bicycle',
-      'bid', 'bike', 'bind', 'biology', 'bird', 'birth', 'bitter', 'black', 'blade',
-      'blame', 'blanket', 'blast', 'bleak', 'bless', 'blind', 'blood', 'blossom',
-      'blouse', 'blue', 'blur', 'blush', 'board', 'boat', 'body', 'boil', 'bomb',
-      'bone', 'bonus', 'book', 'boost', 'border', 'boring', 'borrow', 'boss',
-      'bottom', 'bounce', 'box', 'boy', 'bracket', 'brain', 'brand', 'brass',
-      'brave', 'bread', 'breeze', 'brick', 'bridge', 'brief', 'bright', 'bring',
-      'brisk', 'broccoli', 'broken', 'bronze', 'broom', 'brother', 'brown', 'brush',
-      'bubble', 'buddy', 'budget', 'buffalo', 'build', 'bulb', 'bulk', 'bullet',
-      'bundle', 'bunker', 'burden', 'burger', 'burst', 'bus', 'business', 'busy'
-    ];
-    
-    const mnemonic: string[] = [];
-    for (let i = 0; i < 12; i++) {
-      const randomIndex = Math.floor(Math.random() * wordList.length);
-      mnemonic.push(wordList[randomIndex]);
-    }
-    return mnemonic;
+    return generateBip39Mnemonic(128);
   }
 
-  // Generate address from mnemonic - Following GSC Specifications
-  async generateAddressFromMnemonic(mnemonic: string[]): Promise<{ address: string; privateKey: string; publicKey: string }> {
-    // Create seed from mnemonic
-    const seed = mnemonic.join(' ');
-    const encoder = new TextEncoder();
-    const seedData = encoder.encode(seed);
-    
-    // Generate private key from seed using SHA-256
-    const hashBuffer = await crypto.subtle.digest('SHA-256', seedData);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const privateKey = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  // Generate address from mnemonic - BIP39 seed (PBKDF2, optional passphrase) and GSC derivation path
+  async generateAddressFromMnemonic(mnemonic: string[], passphrase: string = ""): Promise<{ address: string; privateKey: string; publicKey: string }> {
+    const privateKey = await mnemonicToPrivateKey(mnemonic, passphrase);
     
     // Generate public key and address
-    const publicKey = await this.generatePublicKeyFromPrivate(privateKey);
-    const address = `GSC1${privateKey.substring(0, 32)}`;
+    const publicKey = this.generatePublicKeyFromPrivate(privateKey);
+    const address = publicKeyToAddress(publicKey);
     
     return { address, privateKey, publicKey };
   }
 
+  // ============= HD WALLETS =============
+
+  // Create an HD wallet: one recovery phrase derives all of its receive and change addresses
+  async createHDWallet(name: string, mnemonic: string[], passphrase?: string, mnemonicPassphrase: string = ""): Promise<GSCWallet> {
+    return this.addHDWallet(name, mnemonic, mnemonicPassphrase, passphrase, false);
+  }
+
+  // Restore an HD wallet, rediscovering its used addresses from the chain by gap-limit scanning
+  async restoreHDWallet(name: string, mnemonic: string[], mnemonicPassphrase: string = "", passphrase?: string): Promise<GSCWallet> {
+    return this.addHDWallet(name, mnemonic, mnemonicPassphrase, passphrase, true);
+  }
+
+  private async addHDWallet(
+    name: string,
+    mnemonic: string[],
+    mnemonicPassphrase: string,
+    passphrase: string | undefined,
+    scan: boolean
+  ): Promise<GSCWallet> {
+    if (!name || !name.trim()) {
+      throw new Error("Wallet name is required");
+    }
+
+    const existingWallet = this.wallets.find(w => w && w.name === name.trim());
+    if (existingWallet) {
+      throw new Error("Wallet name already exists");
+    }
+
+    const seed = await mnemonicToSeed(mnemonic, mnemonicPassphrase);
+    const account = deriveAccount(seed);
+
+    const hd: GSCHDAccount = {
+      path: account.path,
+      xpub: account.xpub,
+      next_receive_index: 0,
+      next_change_index: 0,
+      gap_limit: HD_GAP_LIMIT,
+      addresses: [],
+    };
+    if (scan) {
+      this.applyHDScan(hd);
+    }
+
+    // The first receive address is the wallet's primary address
+    let primary = hd.addresses.find(a => a.chain === HD_RECEIVE_CHAIN && a.index === 0);
+    if (!primary) {
+      primary = this.toGSCHDAddress(deriveAddress(hd, HD_RECEIVE_CHAIN, 0));
+      hd.addresses.unshift(primary);
+      hd.next_receive_index = Math.max(hd.next_receive_index, 1);
+    }
+
+    this.claimHDAddresses(hd);
+
+    const wallet: GSCWallet = {
+      name: name.trim(),
+      address: primary.address,
+      private_key: passphrase ? await this.encryptPrivateKey(account.xprv, passphrase) : account.xprv,
+      public_key: primary.public_key,
+      balance: 0n,
+      created: new Date().toISOString(),
+      encrypted: !!passphrase,
+      hd,
+    };
+    wallet.balance = this.getWalletTotalBalance(wallet);
+
+    this.wallets.push(wallet);
+    this.saveWallets();
+
+    return wallet;
+  }
+
+  // Hand out a fresh address. Refuses to run more than gap_limit unused addresses
+  // ahead of the last used one, since a restore would not find them.
+  deriveNextAddress(walletName: string, chain: HDChain = HD_RECEIVE_CHAIN): GSCHDAddress {
+    const wallet = this.wallets.find(w => w && w.name === walletName);
+    if (!wallet || !wallet.hd) {
+      throw new Error(`"${walletName}" is not an HD wallet`);
+    }
+
+    const hd = wallet.hd;
+    const active = this.getActiveAddresses();
+    const chainAddresses = hd.addresses.filter(a => a.chain === chain);
+    const lastUsed = chainAddresses.reduce((last, a) => (active.has(a.address) ? Math.max(last, a.index) : last), -1);
+    const nextIndex = chain === HD_RECEIVE_CHAIN ? hd.next_receive_index : hd.next_change_index;
+    if (nextIndex - lastUsed > hd.gap_limit) {
+      throw new Error(`${hd.gap_limit} unused addresses already issued - use one of those first`);
+    }
+
+    const entry = this.toGSCHDAddress(deriveAddress(hd, chain, nextIndex));
+    hd.addresses.push(entry);
+    if (chain === HD_RECEIVE_CHAIN) {
+      hd.next_receive_index = nextIndex + 1;
+    } else {
+      hd.next_change_index = nextIndex + 1;
+    }
+    this.saveWallets();
+
+    return entry;
+  }
+
+  // Newest issued receive address that has not been used yet, else the newest one
+  getCurrentReceiveAddress(wallet: GSCWallet): string {
+    if (!wallet.hd) return wallet.address;
+    const active = this.getActiveAddresses();
+    const receive = wallet.hd.addresses.filter(a => a.chain === HD_RECEIVE_CHAIN);
+    const unused = receive.filter(a => !active.has(a.address));
+    return (unused[unused.length - 1] || receive[receive.length - 1])?.address || wallet.address;
+  }
+
+  // Re-run gap-limit scanning, e.g. after new blocks arrive. Returns how many addresses were found.
+  rescanHDWallet(walletName: string): number {
+    const wallet = this.wallets.find(w => w && w.name === walletName);
+    if (!wallet || !wallet.hd) return 0;
+
+    const found = this.applyHDScan(wallet.hd);
+    if (found > 0) {
+      this.claimHDAddresses(wallet.hd, wallet);
+      wallet.balance = this.getWalletTotalBalance(wallet);
+      this.saveWallets();
+    }
+    return found;
+  }
+
+  // All addresses owned by a wallet
+  getWalletAddresses(wallet: GSCWallet): string[] {
+    return wallet.hd ? wallet.hd.addresses.map(a => a.address) : [wallet.address];
+  }
+
+  // Balance of a wallet across all of its addresses
+  getWalletTotalBalance(wallet: GSCWallet): Amount {
+    return sumAmounts(this.getWalletAddresses(wallet).map(address => this.getWalletBalance(address)));
+  }
+
+  private findWalletByAddress(address: string): GSCWallet | undefined {
+    return this.wallets.find(w => w && (w.address === address || w.hd?.addresses.some(a => a.address === address)));
+  }
+
+  private toGSCHDAddress(derived: HDAddress): GSCHDAddress {
+    return {
+      address: derived.address,
+      public_key: derived.publicKey,
+      path: derived.path,
+      chain: derived.chain,
+      index: derived.index,
+    };
+  }
+
+  // Addresses seen in the chain, the mempool or the balance sheet
+  private getActiveAddresses(): Set<string> {
+    const active = new Set<string>();
+    for (const tx of this.getAllTransactions()) {
+      if (!tx) continue;
+      active.add(tx.sender);
+      active.add(tx.receiver);
+    }
+    Object.entries(chainStore.getBalances()).forEach(([address, balance]) => {
+      if (balance > 0n) active.add(address);
+    });
+    return active;
+  }
+
+  private applyHDScan(hd: GSCHDAccount): number {
+    const active = this.getActiveAddresses();
+    const result = scanAccount(hd, address => active.has(address), hd.gap_limit);
+
+    const known = new Set(hd.addresses.map(a => a.address));
+    const found = result.used.filter(a => !known.has(a.address)).map(a => this.toGSCHDAddress(a));
+    hd.addresses.push(...found);
+    hd.addresses.sort((a, b) => a.chain - b.chain || a.index - b.index);
+    hd.next_receive_index = Math.max(hd.next_receive_index, result.nextReceiveIndex);
+    hd.next_change_index = Math.max(hd.next_change_index, result.nextChangeIndex);
+
+    return found.length;
+  }
+
+  // Imported chains create watch-only wallets for every funded address. Fold the
+  // ones that belong to this HD account into it; refuse if a spendable wallet has one.
+  private claimHDAddresses(hd: GSCHDAccount, owner?: GSCWallet): void {
+    const owned = new Set(hd.addresses.map(a => a.address));
+    const overlapping = this.wallets.filter(w => w && w !== owner && owned.has(w.address));
+    if (overlapping.some(w => w.private_key)) {
+      throw new Error("Wallet with this address already exists");
+    }
+    if (overlapping.length > 0) {
+      this.wallets = this.wallets.filter(w => !overlapping.includes(w));
+    }
+  }
+
   // Encrypt private key with passphrase - Following GSC Specifications
   private async encryptPrivateKey(privateKey: string, passphrase: string): Promise<string> {
     try {
@@ -541,14 +862,17 @@ class GSCBlockchainService {
     }
   }
 
-  // Create transaction - GSC Compatible
-  async createTransaction(sender: string, receiver: string, amount: number, fee: number = 0.1): Promise<GSCTransaction> {
-    // Use GSC minimum fee of 0.1 GSC
-    const gscFee = fee || 0.1;
+  // Create transaction - GSC Compatible. Signed when the sender's private key is supplied.
+  // A replace-by-fee replacement names the pending transaction it supersedes in `replaces`
+  // and reuses its nonce; anything else takes the sender's next account nonce. A
+  // `lockTime` keeps it from being mined before that block height or Unix time.
+  async createTransaction(sender: string, receiver: string, amount: Amount, fee: Amount = MIN_TRANSACTION_FEE, privateKey?: string, replaces?: string, nonce?: number, lockTime?: number): Promise<GSCTransaction> {
+    // Default to the GSC minimum fee
+    const gscFee = fee || MIN_TRANSACTION_FEE;
     
     // Ensure minimum fee requirement
-    if (sender !== "COINBASE" && sender !== "GENESIS" && gscFee < 0.1) {
-      throw new Error("Minimum transaction fee is 0.1 GSC");
+    if (sender !== "COINBASE" && sender !== "GENESIS" && gscFee < MIN_TRANSACTION_FEE) {
+      throw new Error(`Minimum transaction fee is ${formatAmount(MIN_TRANSACTION_FEE, { trim: true })} GSC`);
     }
 
     const transaction: GSCTransaction = {
@@ -559,99 +883,279 @@ class GSCBlockchainService {
       timestamp: Date.now() / 1000, // Unix timestamp with decimal precision (like GSC exe)
       signature: "",
       tx_id: "",
+      version: ENCODING_VERSION,
     };
+    if (replaces) transaction.replaces = replaces;
+    if (!isCoinbaseSender(sender)) transaction.nonce = nonce ?? this.getNextNonce(sender);
+    if (lockTime) transaction.lock_time = lockTime;
 
-    // Calculate transaction ID using GSC-compatible hash (64-character hex)
-    transaction.tx_id = await this.calculateGSCTransactionHash(transaction);
+    // The id is the SHA-256 of the canonical encoding (64-character hex)
+    transaction.tx_id = this.calculateGSCTransactionHash(transaction);
     
-    // Sign transaction (GSC exe compatible)
-    transaction.signature = await this.signGSCTransaction(transaction);
+    // Sign transaction with the sender's key
+    if (privateKey) {
+      transaction.public_key = this.generatePublicKeyFromPrivate(privateKey);
+      transaction.signature = this.signGSCTransaction(transaction, privateKey);
+    }
 
     return transaction;
   }
 
-  // Generate GSC hash - Exact Reference Implementation
-  private async generateGSCHash(input: string, length: number = 64): Promise<string> {
-    // Use Web Crypto API to generate SHA256 hash (matching GSC exe)
-    const encoder = new TextEncoder();
-    const data = encoder.encode(input);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-    
-    // Return full 64-character SHA256 hash (matching GSC exe exactly)
-    return hashHex;
+  // Transaction id over the canonical binary encoding of the core fields.
+  // The nonce keeps otherwise identical payments apart.
+  private calculateGSCTransactionHash(tx: GSCTransaction): string {
+    return computeTransactionId(fromGSCTransaction(tx));
   }
 
-  private async calculateGSCTransactionHash(tx: GSCTransaction): Promise<string> {
-    // Match original GSC transaction hash calculation - create 64-character hex
-    const txString = `${tx.sender}${tx.receiver}${tx.amount}${tx.fee}${tx.timestamp}`;
-    return await this.generateGSCHash(txString, 64);
+  // The sender's next account nonce, after everything confirmed and pending
+  private getNextNonce(sender: string): number {
+    return chainStore.getNextNonce(sender);
   }
 
-  // Sign GSC transaction
-  private async signGSCTransaction(tx: GSCTransaction): Promise<string> {
+  // Fields covered by a GSC transaction signature, in canonical form
+  private getSigningPayload(tx: GSCTransaction): Uint8Array {
+    return transactionSigningPayload(fromGSCTransaction(tx));
+  }
+
+  // Sign GSC transaction (secp256k1 ECDSA over the canonical payload)
+  private signGSCTransaction(tx: GSCTransaction, privateKey: string): string {
     if (!tx.tx_id) return "";
-    const signatureData = `${tx.tx_id}${tx.sender}${tx.timestamp}`;
-    return await this.generateGSCHash(signatureData, 16);
+    return signMessage(this.getSigningPayload(tx), privateKey);
   }
 
-  // Send transaction
-  async sendTransaction(senderWallet: GSCWallet, receiver: string, amount: number): Promise<boolean> {
+  // Verify GSC transaction signature against the sender's public key
+  private verifyGSCTransactionSignature(tx: GSCTransaction): boolean {
+    if (tx.multisig || tx.htlc) return verifyTransactionSignature(fromGSCTransaction(tx));
+    if (!tx.signature || !tx.public_key) return false;
+    // Encoded transactions do not sign their id, so it must be the hash of what they do sign
+    if (tx.version && tx.tx_id !== this.calculateGSCTransactionHash(tx)) return false;
+
+    if (isLegacyAddress(tx.sender)) {
+      // Legacy addresses are not derived from a key; only a claim binds one to a key
+      return checkLegacySpend(fromGSCTransaction(tx), chainStore.getLegacyClaims(), chainStore.getBlocks().length) === "ok";
+    }
+    if (!addressMatchesPublicKey(tx.sender, tx.public_key)) return false;
+
+    return verifySignature(tx.signature, this.getSigningPayload(tx), tx.public_key);
+  }
+
+  // Decrypt a wallet's key material: a private key, or the account xprv for HD wallets
+  private async unlockWalletSecret(wallet: GSCWallet, passphrase?: string): Promise<string> {
+    if (!wallet.private_key) {
+      throw new Error("This wallet has no private key and cannot sign transactions");
+    }
+    
+    if (wallet.encrypted && !passphrase) {
+      throw new Error("Passphrase required to unlock this wallet");
+    }
+    
+    return wallet.encrypted
+      ? await this.decryptPrivateKey(wallet.private_key, passphrase!)
+      : wallet.private_key;
+  }
+
+  // Validate, queue and broadcast a signed transaction. It stays pending until mined.
+  private async submitTransaction(transaction: GSCTransaction): Promise<void> {
+    if (!this.validateGSCTransaction(transaction, transaction.sender)) {
+      throw new Error("Transaction validation failed");
+    }
+    
+    const admission = chainStore.admitTransaction(fromGSCTransaction(transaction));
+    if (!admission.accepted) {
+      throw new Error(admission.message ?? "Transaction rejected by the mempool");
+    }
+    
+    this.syncWalletBalance(transaction.sender);
+    this.syncWalletBalance(transaction.receiver);
+    
+    this.saveWallets();
+    
+    // Broadcast transaction to network (Telegram)
+    await this.broadcastTransaction(transaction);
+  }
+
+  // Slow / normal / fast fee presets from recent blocks and the mempool backlog
+  getFeeEstimates(): FeeEstimates {
+    return estimateFees(chainStore.getBlocks(), chainStore.getMempool(), TYPICAL_TRANSACTION_SIZE, chainStore.mempoolPolicy);
+  }
+
+  // Send transaction. Encrypted wallets need their passphrase to sign.
+  async sendTransaction(
+    senderWallet: GSCWallet,
+    receiver: string,
+    amount: Amount,
+    passphrase?: string,
+    fee: Amount = MIN_TRANSACTION_FEE
+  ): Promise<boolean> {
     try {
-      if (!this.blockchain || !senderWallet) {
-        console.error("Blockchain or sender wallet not initialized");
+      if (!senderWallet) {
+        console.error("Sender wallet not initialized");
         return false;
       }
       
-      let balance = this.getWalletBalance(senderWallet.address);
-      const fee = 0.1; // Minimum transaction fee is 0.1 GSC
+      if (senderWallet.hd) {
+        return await this.sendFromHDWallet(senderWallet, receiver, amount, passphrase, fee);
+      }
       
-      if (balance === 0 && senderWallet.balance > 0) {
-        balance = senderWallet.balance;
-        if (!this.blockchain.balances) {
-          this.blockchain.balances = {};
-        }
-        this.blockchain.balances[senderWallet.address] = senderWallet.balance;
+      if (senderWallet.multisig) {
+        throw new Error("Multisig wallets spend through a partially-signed transaction signed by their cosigners");
       }
       
-      if (!receiver.startsWith("GSC1")) {
-        throw new Error("Invalid GSC address format");
+      if (isLegacyAddress(senderWallet.address)) {
+        throw new Error("Legacy wallets move their funds by claiming them for a new key");
       }
       
-      if (amount <= 0) {
+      const balance = this.getWalletBalance(senderWallet.address);
+      
+      const receiverValidation = validateAddress(receiver);
+      if (!receiverValidation.valid) {
+        throw new Error(`Invalid GSC address: ${receiverValidation.error}`);
+      }
+      
+      if (amount <= 0n) {
         throw new Error("Amount must be greater than 0");
       }
       
       if (balance < amount + fee) {
-        throw new Error(`Insufficient balance. Need ${(amount + fee).toFixed(8)} GSC, have ${balance.toFixed(8)} GSC`);
+        throw new Error(`Insufficient balance. Need ${formatAmount(amount + fee)} GSC, have ${formatAmount(balance)} GSC`);
       }
       
-      const transaction = await this.createTransaction(senderWallet.address, receiver, amount, fee);
+      const privateKey = await this.unlockWalletSecret(senderWallet, passphrase);
       
-      if (!this.validateGSCTransaction(transaction, senderWallet.address)) {
-        throw new Error("Transaction validation failed");
+      // Wallets created before secp256k1 keys stored a hash as their public key
+      const publicKey = this.generatePublicKeyFromPrivate(privateKey);
+      const storedWallet = this.wallets.find(w => w && w.address === senderWallet.address);
+      if (storedWallet && storedWallet.public_key !== publicKey) {
+        storedWallet.public_key = publicKey;
       }
       
-      if (!Array.isArray(this.blockchain.pending_transactions)) {
-        this.blockchain.pending_transactions = [];
+      const transaction = await this.createTransaction(senderWallet.address, receiver, amount, fee, privateKey);
+      await this.submitTransaction(transaction);
+      
+      toast({
+        title: "GSC Transaction Sent",
+        description: `Successfully sent ${formatAmount(amount, { trim: true })} GSC to ${receiver.substring(0, 20)}... (Fee: ${formatAmount(fee, { trim: true })} GSC)`,
+      });
+      
+      return true;
+    } catch (error) {
+      toast({
+        title: "Transaction Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+  }
+
+  // Replace one of the wallet's pending transactions by fee. A bump pays the same
+  // receiver at a higher fee; a cancel pays the amount back to the sender instead,
+  // so only the fee is spent if the replacement is mined first.
+  async replaceTransaction(wallet: GSCWallet, txId: string, fee: Amount, cancel: boolean = false, passphrase?: string): Promise<boolean> {
+    try {
+      const original = chainStore.getGSCMempool().find(tx => tx.tx_id === txId);
+      if (!original) {
+        throw new Error("Transaction is no longer pending");
+      }
+      if (fee <= original.fee) {
+        throw new Error(`The new fee must be above ${formatAmount(original.fee, { trim: true })} GSC`);
       }
-      this.blockchain.pending_transactions.push(transaction);
       
-      this.updateWalletBalance(senderWallet.address, balance - amount - fee);
-      const receiverBalance = this.getWalletBalance(receiver);
-      this.updateWalletBalance(receiver, receiverBalance + amount);
+      const secret = await this.unlockWalletSecret(wallet, passphrase);
+      const entry = wallet.hd?.addresses.find(address => address.address === original.sender);
+      if (!entry && wallet.address !== original.sender) {
+        throw new Error("This wallet did not send the transaction");
+      }
+      const privateKey = entry ? deriveAddressPrivateKey(secret, entry.chain, entry.index) : secret;
       
-      this.saveBlockchain();
+      const receiver = cancel ? original.sender : original.receiver;
+      const replacement = await this.createTransaction(original.sender, receiver, original.amount, fee, privateKey, original.tx_id, original.nonce);
+      await this.submitTransaction(replacement);
       
-      // Broadcast transaction to network (Telegram)
-      await this.broadcastTransaction(transaction);
+      toast({
+        title: cancel ? "Cancellation Sent" : "Fee Bumped",
+        description: cancel
+          ? `The ${formatAmount(original.amount, { trim: true })} GSC payment will return to ${original.sender.substring(0, 20)}... once the replacement is mined`
+          : `Transaction now pays ${formatAmount(fee, { trim: true })} GSC in fees`,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Replacement Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+  }
+
+  // Propose a spend from a multisig wallet. Returns the partially-signed transaction
+  // file, unsigned, for the cosigners to sign in turn.
+  async proposeMultisigTransaction(wallet: GSCWallet, receiver: string, amount: Amount, fee: Amount = MIN_TRANSACTION_FEE): Promise<string> {
+    if (!wallet.multisig) {
+      throw new Error("Not a multisig wallet");
+    }
+    
+    const receiverValidation = validateAddress(receiver);
+    if (!receiverValidation.valid) {
+      throw new Error(`Invalid GSC address: ${receiverValidation.error}`);
+    }
+    
+    if (amount <= 0n) {
+      throw new Error("Amount must be greater than 0");
+    }
+    
+    const balance = this.getWalletBalance(wallet.address);
+    if (balance < amount + fee) {
+      throw new Error(`Insufficient balance. Need ${formatAmount(amount + fee)} GSC, have ${formatAmount(balance)} GSC`);
+    }
+    
+    const policy = { m: wallet.multisig.m, publicKeys: wallet.multisig.public_keys };
+    const transaction = await this.createTransaction(wallet.address, receiver, amount, fee);
+    return serializePartiallySigned(createPartiallySignedTransaction(fromGSCTransaction(transaction), policy));
+  }
+
+  // Signatures gathered so far on a partially-signed transaction file
+  getPartiallySignedStatus(file: string): { transaction: GSCTransaction; status: SigningStatus } {
+    const transaction = parsePartiallySigned(file);
+    return { transaction: toGSCTransaction(transaction), status: getSigningStatus(transaction) };
+  }
+
+  // Add this wallet's cosigner signature to a partially-signed transaction file and
+  // return the updated file. HD wallets sign with the address holding the cosigner key.
+  async cosignPartiallySignedTransaction(file: string, wallet: GSCWallet, passphrase?: string): Promise<string> {
+    const transaction = parsePartiallySigned(file);
+    const policy = transaction.multisig!;
+    const secret = await this.unlockWalletSecret(wallet, passphrase);
+    
+    let privateKey = secret;
+    if (wallet.hd) {
+      const entry = wallet.hd.addresses.find(address => policy.publicKeys.includes(address.public_key.toLowerCase()));
+      if (!entry) {
+        throw new Error("This wallet holds none of the cosigner keys");
+      }
+      privateKey = deriveAddressPrivateKey(secret, entry.chain, entry.index);
+    }
+    
+    return serializePartiallySigned(addMultisigSignature(transaction, privateKey));
+  }
+
+  // Broadcast a partially-signed transaction once enough cosigners have signed
+  async broadcastPartiallySignedTransaction(file: string): Promise<boolean> {
+    try {
+      const transaction = parsePartiallySigned(file);
+      const status = getSigningStatus(transaction);
+      if (!status.complete) {
+        throw new Error(`${status.signers.length} of ${status.required} required signatures`);
+      }
+      
+      const wire = toGSCTransaction(transaction);
+      await this.submitTransaction(wire);
       
       toast({
         title: "GSC Transaction Sent",
-        description: `Successfully sent ${amount} GSC to ${receiver.substring(0, 20)}... (Fee: ${fee} GSC)`,
+        description: `Successfully sent ${formatAmount(wire.amount, { trim: true })} GSC to ${wire.receiver.substring(0, 20)}... (Fee: ${formatAmount(wire.fee, { trim: true })} GSC)`,
       });
-      
       return true;
     } catch (error) {
       toast({
@@ -663,140 +1167,529 @@ class GSCBlockchainService {
     }
   }
 
-  // Validate GSC transaction
-  private validateGSCTransaction(transaction: GSCTransaction, senderAddress: string): boolean {
-    if (transaction.amount <= 0) return false;
-    if (transaction.fee < 0) return false;
-    if (transaction.sender === transaction.receiver) return false;
-    if (!this.validateGSCAddress(transaction.sender)) return false;
-    if (!this.validateGSCAddress(transaction.receiver)) return false;
-    if (!transaction.tx_id || transaction.tx_id.length !== 64) return false;
+  // Hold a payment locally that cannot be mined before `lockTime` (a block
+  // height, or Unix time in seconds); releaseScheduledTransactions signs and
+  // broadcasts it then. It is paid from a single address, for HD wallets the one
+  // with the most funds. Signing later needs the key without a passphrase.
+  async scheduleTransaction(wallet: GSCWallet, receiver: string, amount: Amount, lockTime: number, fee: Amount = MIN_TRANSACTION_FEE): Promise<boolean> {
+    try {
+      if (wallet.multisig) {
+        throw new Error("Multisig wallets spend through a partially-signed transaction signed by their cosigners");
+      }
+      
+      if (wallet.encrypted || !wallet.private_key) {
+        throw new Error("Scheduled payments are signed when they are sent, which needs a wallet without a passphrase");
+      }
+      
+      const receiverValidation = validateAddress(receiver);
+      if (!receiverValidation.valid) {
+        throw new Error(`Invalid GSC address: ${receiverValidation.error}`);
+      }
+      
+      if (amount <= 0n) {
+        throw new Error("Amount must be greater than 0");
+      }
+      
+      if (!Number.isSafeInteger(lockTime) || lockTime <= 0) {
+        throw new Error("Choose a block height or a time to send at");
+      }
+      
+      const source = wallet.hd
+        ? [...wallet.hd.addresses].sort((a, b) => compareAmounts(this.getWalletBalance(b.address), this.getWalletBalance(a.address)))[0]
+        : undefined;
+      const sender = source?.address ?? wallet.address;
+      const balance = this.getWalletBalance(sender);
+      if (balance < amount + fee) {
+        throw new Error(`Insufficient balance. Need ${formatAmount(amount + fee)} GSC on one address, have ${formatAmount(balance)} GSC`);
+      }
+      
+      // Checked like a signed payment, then stored without its nonce and signature
+      const privateKey = await this.getAddressPrivateKey(wallet, sender);
+      const signed = await this.createTransaction(sender, receiver, amount, fee, privateKey, undefined, undefined, lockTime);
+      if (!this.validateGSCTransaction(signed, sender)) {
+        throw new Error("Transaction validation failed");
+      }
+      const transaction: GSCTransaction = { ...signed, nonce: undefined, public_key: undefined, signature: "" };
+      transaction.tx_id = this.calculateGSCTransactionHash(transaction);
+      
+      this.scheduled.push({ wallet: wallet.name, transaction, created: new Date().toISOString() });
+      this.saveScheduledTransactions();
+      
+      toast({
+        title: "Payment Scheduled",
+        description: `${formatAmount(amount, { trim: true })} GSC to ${receiver.substring(0, 20)}... will be sent at ${describeLockTime(lockTime)}`,
+      });
+      
+      await this.releaseScheduledTransactions();
+      return true;
+    } catch (error) {
+      toast({
+        title: "Scheduling Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+  }
+
+  getScheduledTransactions(walletName?: string): GSCScheduledTransaction[] {
+    return this.scheduled.filter(entry => walletName === undefined || entry.wallet === walletName);
+  }
+
+  // Drop a scheduled payment before it is broadcast
+  cancelScheduledTransaction(txId: string): boolean {
+    const remaining = this.scheduled.filter(entry => entry.transaction.tx_id !== txId);
+    if (remaining.length === this.scheduled.length) return false;
+    this.scheduled = remaining;
+    this.saveScheduledTransactions();
+    return true;
+  }
+
+  // Sign and broadcast every scheduled payment the next block could include,
+  // each with the sender's next nonce. One that is rejected stays queued with
+  // the reason, to be retried or cancelled. Returns how many were broadcast.
+  async releaseScheduledTransactions(): Promise<number> {
+    const blocks = chainStore.getBlocks();
+    const due = this.scheduled.filter(entry => isFinalForNextBlock(fromGSCTransaction(entry.transaction), blocks));
+    let released = 0;
+    
+    for (const entry of due) {
+      try {
+        const wallet = this.wallets.find(candidate => candidate.name === entry.wallet);
+        if (!wallet) {
+          throw new Error(`Wallet ${entry.wallet} is no longer here to sign it`);
+        }
+        const { sender, receiver, amount, fee, lock_time } = entry.transaction;
+        const privateKey = await this.getAddressPrivateKey(wallet, sender);
+        await this.submitTransaction(await this.createTransaction(sender, receiver, amount, fee, privateKey, undefined, undefined, lock_time));
+        this.scheduled = this.scheduled.filter(other => other !== entry);
+        released++;
+        toast({
+          title: "Scheduled Payment Sent",
+          description: `${formatAmount(entry.transaction.amount, { trim: true })} GSC to ${entry.transaction.receiver.substring(0, 20)}... is now pending`,
+        });
+      } catch (error) {
+        entry.last_error = error instanceof Error ? error.message : `${error}`;
+      }
+    }
+    
+    if (due.length > 0) this.saveScheduledTransactions();
+    return released;
+  }
+
+  // Lock `amount` in an HTLC that `recipient` can claim with the secret behind
+  // `hashLock` until `timeout` (a block height, or Unix time in seconds),
+  // refundable to this wallet after it. The swap's initiator passes the secret
+  // they generated, to be kept with the swap; a participant only the hash lock
+  // of the initiator's contract. Funded from getSwapFundingAddress.
+  async createSwap(wallet: GSCWallet, recipient: string, amount: Amount, timeout: number, hashLock: string, secret?: string, passphrase?: string, fee: Amount = MIN_TRANSACTION_FEE): Promise<GSCSwap> {
+    if (wallet.multisig) {
+      throw new Error("Multisig wallets cannot fund a swap");
+    }
+    
+    if (amount <= 0n) {
+      throw new Error("Amount must be greater than 0");
+    }
+    
+    const sender = this.getSwapFundingAddress(wallet);
+    const contract = createHtlcContract(sender, recipient, hashLock, timeout);
+    if (secret !== undefined && hashHtlcSecret(secret) !== contract.hashLock) {
+      throw new Error("The secret does not match the hash lock");
+    }
+    const blocks = chainStore.getBlocks();
+    if (isLockTimeReached(contract.timeout, blocks.length, getMedianTimePast(blocks))) {
+      throw new Error(`The timeout ${describeLockTime(contract.timeout)} has already passed`);
+    }
+    
+    const balance = this.getWalletBalance(sender);
+    if (balance < amount + fee) {
+      throw new Error(`Insufficient balance. Need ${formatAmount(amount + fee)} GSC on one address, have ${formatAmount(balance)} GSC`);
+    }
+    
+    const address = getHtlcAddress(contract);
+    const privateKey = await this.getAddressPrivateKey(wallet, sender, passphrase);
+    const funding = await this.createTransaction(sender, address, amount, fee, privateKey);
+    await this.submitTransaction(funding);
+    
+    const swap: GSCSwap = { address, wallet: wallet.name, role: "sender", contract: this.toGSCHtlcContract(contract), secret: secret?.toLowerCase(), created: new Date().toISOString() };
+    this.swaps = [...this.swaps.filter(other => other.address !== address), swap];
+    this.saveSwaps();
+    return swap;
+  }
+
+  // The address a wallet funds swaps from and takes refunds to: for HD wallets the
+  // one with the most funds
+  getSwapFundingAddress(wallet: GSCWallet): string {
+    return wallet.hd
+      ? [...wallet.hd.addresses].sort((a, b) => compareAmounts(this.getWalletBalance(b.address), this.getWalletBalance(a.address)))[0].address
+      : wallet.address;
+  }
+
+  // Track a contract someone else funded (or will fund) for one of our addresses
+  importSwap(contractText: string): GSCSwap {
+    const contract = parseHtlcContract(contractText);
+    const address = getHtlcAddress(contract);
+    const recipient = this.findWalletByAddress(contract.recipient);
+    const sender = this.findWalletByAddress(contract.sender);
+    const wallet = recipient ?? sender;
+    if (!wallet) {
+      throw new Error("Neither party of this contract is one of your wallets");
+    }
+    
+    const existing = this.swaps.find(swap => swap.address === address);
+    if (existing) return existing;
+    
+    const swap: GSCSwap = { address, wallet: wallet.name, role: recipient ? "recipient" : "sender", contract: this.toGSCHtlcContract(contract), created: new Date().toISOString() };
+    this.swaps.push(swap);
+    this.saveSwaps();
+    return swap;
+  }
+
+  getSwaps(walletName?: string): GSCSwap[] {
+    return this.swaps.filter(swap => walletName === undefined || swap.wallet === walletName);
+  }
+
+  // Stop tracking a swap. Forgetting a secret nobody has claimed with yet loses it.
+  removeSwap(address: string): boolean {
+    const remaining = this.swaps.filter(swap => swap.address !== address);
+    if (remaining.length === this.swaps.length) return false;
+    this.swaps = remaining;
+    this.saveSwaps();
     return true;
   }
 
-  // Validate GSC address
-  private validateGSCAddress(address: string): boolean {
-    if (!address || typeof address !== 'string') return false;
-    if (address === "COINBASE" || address === "GENESIS" || address === "Genesis") return true;
-    if (!address.startsWith("GSC1")) return false;
-    if (address.length < 35 || address.length > 36) return false;
+  getSwapContractText(swap: GSCSwap): string {
+    return formatHtlcContract(this.fromGSCHtlcContract(swap.contract));
+  }
+
+  // Where a swap stands, read from the chain and the mempool
+  getSwapStatus(swap: GSCSwap): GSCSwapStatus {
+    const blocks = chainStore.getBlocks();
+    const confirmed = blocks.flatMap(block => block.transactions);
+    const pending = chainStore.getMempool();
+    const spend = (transactions: Transaction[]) => transactions.find(tx => tx.from === swap.address && tx.htlc);
+    const timedOut = isLockTimeReached(swap.contract.timeout, blocks.length, getMedianTimePast(blocks));
+    const status = {
+      balance: this.getWalletBalance(swap.address),
+      timed_out: timedOut,
+      secret: swap.secret ?? findRevealedSecret(swap.address, [...confirmed, ...pending]) ?? undefined,
+    };
     
-    const hexPart = address.substring(4);
+    const mined = spend(confirmed);
+    if (mined) return { ...status, state: getHtlcSpendKind(mined) === "claim" ? "claimed" : "refunded" };
+    const queued = spend(pending);
+    if (queued) return { ...status, state: getHtlcSpendKind(queued) === "claim" ? "claiming" : "refunding" };
+    if (chainStore.getAddressBalance(swap.address).confirmed <= 0n) return { ...status, state: "awaiting-funding" };
+    return { ...status, state: timedOut ? "refundable" : "funded" };
+  }
+
+  // Claim a swap's funds for its recipient by revealing the secret, before the timeout
+  async claimSwap(swap: GSCSwap, secret?: string, passphrase?: string, fee: Amount = MIN_TRANSACTION_FEE): Promise<boolean> {
+    try {
+      const preimage = (secret ?? this.getSwapStatus(swap).secret ?? "").trim().toLowerCase();
+      if (!/^([0-9a-f]{2})+$/.test(preimage) || hashHtlcSecret(preimage) !== swap.contract.hash_lock) {
+        throw new Error("That secret does not match the contract's hash lock");
+      }
+      
+      const amount = await this.spendSwap(swap, swap.contract.recipient, fee, passphrase, preimage);
+      const stored = this.swaps.find(other => other.address === swap.address);
+      if (stored && !stored.secret) {
+        stored.secret = preimage;
+        this.saveSwaps();
+      }
+      
+      toast({
+        title: "Swap Claimed",
+        description: `Claiming ${formatAmount(amount)} GSC to ${swap.contract.recipient.substring(0, 20)}...`,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Claim Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+      return false;
+    }
+  }
+
+  // Take a swap's funds back to its sender, once the timeout has passed
+  async refundSwap(swap: GSCSwap, passphrase?: string, fee: Amount = MIN_TRANSACTION_FEE): Promise<boolean> {
     try {
-      parseInt(hexPart, 16);
+      const amount = await this.spendSwap(swap, swap.contract.sender, fee, passphrase);
+      toast({
+        title: "Swap Refunded",
+        description: `Refunding ${formatAmount(amount)} GSC to ${swap.contract.sender.substring(0, 20)}...`,
+      });
       return true;
     } catch (error) {
+      toast({
+        title: "Refund Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
       return false;
     }
   }
 
-  // Update wallet balance
-  private updateWalletBalance(address: string, newBalance: number): void {
-    if (!this.blockchain.balances) {
-      this.blockchain.balances = {};
+  // Pay everything the contract holds, less the fee, to `party`, signed with its key.
+  // A preimage makes it a claim, otherwise a refund. Returns the amount paid.
+  private async spendSwap(swap: GSCSwap, party: string, fee: Amount, passphrase?: string, preimage?: string): Promise<Amount> {
+    const wallet = this.findWalletByAddress(party);
+    if (!wallet) {
+      throw new Error("None of your wallets holds the key for this side of the swap");
     }
-    this.blockchain.balances[address] = Math.max(0, newBalance);
     
-    if (Array.isArray(this.blockchain.wallets)) {
-      const wallet = this.blockchain.wallets.find(w => w && w.address === address);
-      if (wallet) {
-        wallet.balance = Math.max(0, newBalance);
+    const amount = this.getWalletBalance(swap.address) - fee;
+    if (amount <= 0n) {
+      throw new Error("The contract holds nothing to spend");
+    }
+    
+    const privateKey = await this.getAddressPrivateKey(wallet, party, passphrase);
+    const transaction = await this.createTransaction(swap.address, party, amount, fee);
+    transaction.htlc = { ...swap.contract };
+    if (preimage) {
+      // The secret is part of what the id commits to
+      transaction.preimage = preimage;
+      transaction.tx_id = this.calculateGSCTransactionHash(transaction);
+    }
+    transaction.public_key = this.generatePublicKeyFromPrivate(privateKey);
+    transaction.signature = this.signGSCTransaction(transaction, privateKey);
+    await this.submitTransaction(transaction);
+    return amount;
+  }
+
+  // Where a legacy wallet's claim stands, read from the chain and the mempool
+  getLegacyClaimState(wallet: GSCWallet): GSCLegacyClaimState {
+    if (chainStore.getLegacyClaims().keys.has(wallet.address)) return "claimed";
+    const claimWallet = this.wallets.find(w => w && wallet.legacy_claim && w.name === wallet.legacy_claim);
+    if (!claimWallet) return "unclaimed";
+    const isCommitment = (tx: Transaction) => tx.from === claimWallet.address && tx.claimCommitment !== undefined;
+    if (chainStore.getBlocks().some(block => block.transactions.some(isCommitment))) return "committed";
+    return chainStore.getMempool().some(isCommitment) ? "committing" : "unclaimed";
+  }
+
+  // Move a legacy wallet's funds to a new wallet, in two steps (see legacy.ts).
+  // The first call creates the new wallet and commits to the claim from it; the
+  // next, once the commitment is mined, sends the balance there, revealing the
+  // legacy key. That key is public from then on, and only the new one can spend
+  // from the address: later calls sweep whatever it receives to the new wallet.
+  async claimLegacyWallet(wallet: GSCWallet, passphrase?: string, fee: Amount = MIN_TRANSACTION_FEE): Promise<boolean> {
+    try {
+      if (!isLegacyAddress(wallet.address)) {
+        throw new Error("Only legacy wallets need claiming");
       }
+      
+      const secret = await this.unlockWalletSecret(wallet, passphrase);
+      const claimWallet = await this.getLegacyClaimWallet(wallet, passphrase);
+      const claimKey = await this.unlockWalletSecret(claimWallet, passphrase);
+      const claimPublicKey = this.generatePublicKeyFromPrivate(claimKey);
+      const state = this.getLegacyClaimState(wallet);
+      
+      if (state === "committing") {
+        throw new Error("The commitment is not mined yet; claim again once it is");
+      }
+      if (state === "unclaimed") {
+        const commitment = toGSCTransaction(createLegacyCommitment(secret, claimPublicKey, this.getNextNonce(claimWallet.address)));
+        commitment.public_key = claimPublicKey;
+        commitment.signature = this.signGSCTransaction(commitment, claimKey);
+        await this.submitTransaction(commitment);
+        toast({
+          title: "Claim Committed",
+          description: `Claim again once the commitment is mined to move the funds to ${claimWallet.name}`,
+        });
+        return true;
+      }
+      
+      const bound = chainStore.getLegacyClaims().keys.get(wallet.address);
+      if (bound !== undefined && bound !== claimPublicKey) {
+        throw new Error("This legacy address is already claimed for another key");
+      }
+      const amount = this.getWalletBalance(wallet.address) - fee;
+      if (amount <= 0n) {
+        throw new Error("The legacy address holds nothing to move");
+      }
+      const transaction = await this.createTransaction(wallet.address, claimWallet.address, amount, fee);
+      if (bound === undefined) {
+        // The secret is part of what the id commits to
+        transaction.legacy_secret = secret;
+        transaction.tx_id = this.calculateGSCTransactionHash(transaction);
+      }
+      transaction.public_key = claimPublicKey;
+      transaction.signature = this.signGSCTransaction(transaction, claimKey);
+      await this.submitTransaction(transaction);
+      
+      toast({
+        title: "Legacy Funds Claimed",
+        description: `Moving ${formatAmount(amount)} GSC to ${claimWallet.name}`,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Claim Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+      return false;
     }
   }
 
-  // Get blockchain stats
-  getBlockchainStats() {
-    if (!this.blockchain) {
-      return {
-        totalBlocks: 0,
-        totalWallets: 0,
-        totalSupply: 0,
-        pendingTransactions: 0,
-        difficulty: 4,
-        miningReward: 50,
-        circulatingSupply: 0
-      };
+  // The wallet a legacy wallet is claimed for, created by its first claim
+  private async getLegacyClaimWallet(wallet: GSCWallet, passphrase?: string): Promise<GSCWallet> {
+    const existing = this.wallets.find(w => w && wallet.legacy_claim && w.name === wallet.legacy_claim);
+    if (existing) return existing;
+    
+    const claimWallet = await this.createWallet(`${wallet.name} (claimed)`, passphrase);
+    const stored = this.findWalletByAddress(wallet.address);
+    if (stored) stored.legacy_claim = claimWallet.name;
+    wallet.legacy_claim = claimWallet.name;
+    this.saveWallets();
+    return claimWallet;
+  }
+
+  // The private key of one of a wallet's addresses
+  private async getAddressPrivateKey(wallet: GSCWallet, address: string, passphrase?: string): Promise<string> {
+    const secret = await this.unlockWalletSecret(wallet, passphrase);
+    if (!wallet.hd) return secret;
+    const entry = wallet.hd.addresses.find(candidate => candidate.address === address);
+    if (!entry) {
+      throw new Error(`${address.substring(0, 20)}... is not an address of this wallet`);
+    }
+    return deriveAddressPrivateKey(secret, entry.chain, entry.index);
+  }
+
+  private toGSCHtlcContract(contract: HtlcContract): GSCHtlcContract {
+    return { sender: contract.sender, recipient: contract.recipient, hash_lock: contract.hashLock, timeout: contract.timeout };
+  }
+
+  private fromGSCHtlcContract(contract: GSCHtlcContract): HtlcContract {
+    return { sender: contract.sender, recipient: contract.recipient, hashLock: contract.hash_lock, timeout: contract.timeout };
+  }
+
+  // Spend from an HD wallet. Each transaction has a single sender, so the amount is
+  // drawn from the wallet's funded addresses, largest first, one transaction (and fee) each.
+  private async sendFromHDWallet(wallet: GSCWallet, receiver: string, amount: Amount, passphrase: string | undefined, fee: Amount): Promise<boolean> {
+    
+    const receiverValidation = validateAddress(receiver);
+    if (!receiverValidation.valid) {
+      throw new Error(`Invalid GSC address: ${receiverValidation.error}`);
+    }
+    
+    if (amount <= 0n) {
+      throw new Error("Amount must be greater than 0");
+    }
+    
+    const funded = wallet.hd!.addresses
+      .filter(entry => entry.address !== receiver)
+      .map(entry => ({ entry, balance: this.getWalletBalance(entry.address) }))
+      .filter(source => source.balance > fee)
+      .sort((a, b) => compareAmounts(b.balance, a.balance));
+    
+    const plan: { entry: GSCHDAddress; balance: Amount; amount: Amount }[] = [];
+    let remaining = amount;
+    for (const source of funded) {
+      if (remaining <= 0n) break;
+      const portion = minAmount(remaining, source.balance - fee);
+      plan.push({ ...source, amount: portion });
+      remaining -= portion;
     }
     
+    if (remaining > 0n) {
+      const total = this.getWalletTotalBalance(wallet);
+      throw new Error(`Insufficient balance. Need ${formatAmount(amount + fee * BigInt(Math.max(1, plan.length)))} GSC, have ${formatAmount(total)} GSC`);
+    }
+    
+    const xprv = await this.unlockWalletSecret(wallet, passphrase);
+    for (const step of plan) {
+      const privateKey = deriveAddressPrivateKey(xprv, step.entry.chain, step.entry.index);
+      const transaction = await this.createTransaction(step.entry.address, receiver, step.amount, fee, privateKey);
+      await this.submitTransaction(transaction);
+    }
+    
+    toast({
+      title: "GSC Transaction Sent",
+      description: `Successfully sent ${formatAmount(amount, { trim: true })} GSC to ${receiver.substring(0, 20)}... from ${plan.length} address${plan.length === 1 ? "" : "es"} (Fee: ${formatAmount(fee * BigInt(plan.length), { trim: true })} GSC)`,
+    });
+    
+    return true;
+  }
+
+  // Validate GSC transaction
+  private validateGSCTransaction(transaction: GSCTransaction, senderAddress: string): boolean {
+    // Legacy address commitments move nothing; everything else must
+    if (transaction.claim_commitment ? transaction.amount !== 0n : transaction.amount <= 0n) return false;
+    if (transaction.fee < 0n) return false;
+    // Only a cancellation (a replacement paying the sender back) or a commitment may send to itself
+    if (transaction.sender === transaction.receiver && !transaction.replaces && !transaction.claim_commitment) return false;
+    if (!this.validateGSCAddress(transaction.sender)) return false;
+    if (!this.validateGSCAddress(transaction.receiver)) return false;
+    if (!transaction.tx_id || transaction.tx_id.length !== 64) return false;
+    if (!this.verifyGSCTransactionSignature(transaction)) return false;
+    return true;
+  }
+
+  // Validate GSC address - checksummed addresses must pass the Bech32 checksum,
+  // legacy GSC1 hex addresses are still accepted for imported chains
+  validateGSCAddress(address: string): boolean {
+    return validateAddress(address).valid;
+  }
+
+  // Copy an address's ledger balance onto the wallet that owns it
+  private syncWalletBalance(address: string): void {
+    const wallet = this.findWalletByAddress(address);
+    if (wallet) {
+      wallet.balance = this.getWalletTotalBalance(wallet);
+    }
+  }
+
+  // Get blockchain stats. `totalSupply` is the cap; `issuedSupply` what the chain has issued so far.
+  getBlockchainStats() {
+    const document = chainStore.getDocument();
+    const blocks = chainStore.getBlocks();
+    const issuedSupply = getIssuedSupply(blocks);
     return {
-      totalBlocks: Array.isArray(this.blockchain.chain) ? this.blockchain.chain.length : 0,
-      totalWallets: Array.isArray(this.blockchain.wallets) ? this.blockchain.wallets.length : 0,
-      pendingTransactions: Array.isArray(this.blockchain.pending_transactions) ? this.blockchain.pending_transactions.length : 0,
-      totalSupply: this.blockchain.total_supply || 0,
-      difficulty: this.blockchain.difficulty || 4,
-      miningReward: this.blockchain.mining_reward || 50,
-      circulatingSupply: Array.isArray(this.blockchain.wallets) ? this.blockchain.wallets.reduce((sum, wallet) => sum + (wallet?.balance || 0), 0) : 0,
+      totalBlocks: document.chain.length,
+      totalWallets: this.wallets.length,
+      pendingTransactions: document.pending_transactions.length,
+      totalSupply: document.total_supply,
+      issuedSupply,
+      difficulty: document.difficulty,
+      miningReward: document.mining_reward,
+      blockSubsidy: getBlockSubsidy(blocks.length, issuedSupply),
+      nextHalving: getNextHalvingHeight(blocks.length),
+      emissionSchedule: getEmissionSchedule(blocks),
+      circulatingSupply: sumAmounts(this.wallets.map(wallet => wallet?.balance ?? 0n)),
     };
   }
 
   // Search for transaction by ID
   searchTransactionById(txId: string): GSCTransaction | null {
-    if (!txId || !this.blockchain || !Array.isArray(this.blockchain.chain)) {
+    if (!txId) {
       return null;
     }
 
     // Search in all blocks
-    for (const block of this.blockchain.chain) {
-      if (!block || !Array.isArray(block.transactions)) continue;
-      
+    for (const block of chainStore.getGSCBlocks()) {
       for (const transaction of block.transactions) {
-        if (transaction && transaction.tx_id === txId) {
+        if (transaction.tx_id === txId) {
           return transaction;
         }
       }
     }
     
     // Search in pending transactions
-    if (Array.isArray(this.blockchain.pending_transactions)) {
-      for (const transaction of this.blockchain.pending_transactions) {
-        if (transaction && transaction.tx_id === txId) {
-          return transaction;
-        }
+    for (const transaction of chainStore.getGSCMempool()) {
+      if (transaction.tx_id === txId) {
+        return transaction;
       }
     }
     
     return null;
   }
 
-  // Initialize blockchain after import
-  initializeBlockchainAfterImport(): void {
-    if (!this.blockchain) {
-      this.blockchain = {
-        chain: [],
-        wallets: [],
-        pending_transactions: [],
-        balances: {},
-        difficulty: 4,
-        mining_reward: 50,
-        total_supply: 0
-      };
-      return;
-    }
-
-    if (!Array.isArray(this.blockchain.chain)) {
-      this.blockchain.chain = [];
-    }
-    
-    if (!Array.isArray(this.blockchain.wallets)) {
-      this.blockchain.wallets = [];
-    }
-    
-    if (!Array.isArray(this.blockchain.pending_transactions)) {
-      this.blockchain.pending_transactions = [];
-    }
-    
-    if (!this.blockchain.balances || typeof this.blockchain.balances !== 'object') {
-      this.blockchain.balances = {};
-    }
-
-    this.blockchain.difficulty = this.blockchain.difficulty || 4;
-    this.blockchain.mining_reward = this.blockchain.mining_reward || 50;
-    this.blockchain.total_supply = this.blockchain.total_supply || 0;
-  }
-
-  // Refresh blockchain data while preserving existing wallets
-  refreshBlockchainData(): void {
+  // Refresh blockchain data while preserving existing wallets. Returns whether
+  // imported data was found and passed validation.
+  async refreshBlockchainData(): Promise<boolean> {
     try {
       console.log("=== REFRESHING BLOCKCHAIN DATA ===");
       
@@ -804,77 +1697,77 @@ class GSCBlockchainService {
       const imported = localStorage.getItem('gsc_blockchain');
       if (!imported) {
         console.log("No new blockchain data to refresh");
-        return;
+        return false;
       }
 
       console.log("Found new blockchain data, refreshing...");
       const importedData = JSON.parse(imported);
       
-      if (!this.blockchain) {
-        // If no existing blockchain, create new one
-        this.loadBlockchain();
-        return;
+      // Every block, signature and balance is re-verified before anything is
+      // accepted; a pre-series chain is converted first
+      const { document, report } = await validateImportedChain(readChainDocument(importedData));
+      if (!report.valid) {
+        console.error("Imported blockchain failed validation:", report.violations);
+        localStorage.removeItem('gsc_blockchain');
+        toast({
+          title: "Imported Blockchain Rejected",
+          description: formatChainReport(report, 3),
+          variant: "destructive",
+        });
+        return false;
       }
-
+      
       // Preserve existing wallets
-      const existingWallets = [...this.blockchain.wallets];
+      const existingWallets = [...this.wallets];
       console.log(`Preserving ${existingWallets.length} existing wallets`);
 
-      // Update blockchain data
-      this.blockchain.chain = importedData.chain || this.blockchain.chain;
-      this.blockchain.pending_transactions = importedData.mempool || importedData.pending_transactions || this.blockchain.pending_transactions;
-      this.blockchain.total_supply = importedData.total_supply || this.blockchain.total_supply;
-      this.blockchain.balances = importedData.balances || this.blockchain.balances;
-      this.blockchain.difficulty = importedData.difficulty || this.blockchain.difficulty;
-      this.blockchain.mining_reward = importedData.mining_reward || this.blockchain.mining_reward;
-      this.blockchain.mempool = importedData.mempool || importedData.pending_transactions || this.blockchain.mempool;
+      // Merge into the shared chain: the heavier branch wins and local blocks it
+      // replaces are reorganised away, not overwritten. Imported balances must
+      // match the replayed chain, and are never adopted.
+      const result = await chainStore.importChain(document);
+      if (result.status === 'rejected') {
+        localStorage.removeItem('gsc_blockchain');
+        toast({
+          title: "Imported Blockchain Rejected",
+          description: result.reason,
+          variant: "destructive",
+        });
+        return false;
+      }
+      if (result.orphans > 0) {
+        console.warn(`${result.orphans} imported block(s) did not connect to the chain, prove their work or pass validation`);
+      }
 
       // Update existing wallet balances from new blockchain data
       existingWallets.forEach(wallet => {
-        if (wallet && wallet.address && this.blockchain!.balances) {
-          const newBalance = this.blockchain!.balances[wallet.address];
-          if (newBalance !== undefined) {
-            console.log(`Updating balance for ${wallet.name}: ${wallet.balance} -> ${newBalance} GSC`);
-            wallet.balance = Math.max(0, newBalance as number);
+        if (wallet && wallet.hd) {
+          // HD wallets may have received to addresses beyond the ones issued locally
+          this.applyHDScan(wallet.hd);
+          wallet.balance = this.getWalletTotalBalance(wallet);
+        } else if (wallet && wallet.address) {
+          const newBalance = this.getWalletBalance(wallet.address);
+          if (newBalance !== wallet.balance) {
+            console.log(`Updating balance for ${wallet.name}: ${formatAmount(wallet.balance)} -> ${formatAmount(newBalance)} GSC`);
+            wallet.balance = newBalance;
           }
         }
       });
 
-      // Create wallets for new addresses that don't exist in current wallets
+      // Update wallets array, then create wallets for new addresses that don't exist yet
+      this.wallets = existingWallets;
       if (importedData.balances) {
-        Object.entries(importedData.balances).forEach(([address, balance]) => {
-          if (address !== "GENESIS" && address !== "COINBASE" && address.startsWith("GSC1")) {
-            // Check if wallet already exists
-            const existingWallet = existingWallets.find(w => w && w.address === address);
-            if (!existingWallet) {
-              const shortAddress = address.substring(4, 14);
-              const newWallet: GSCWallet = {
-                name: `Wallet_${shortAddress}`,
-                address: address,
-                private_key: "",
-                public_key: "",
-                balance: Math.max(0, balance as number),
-                created: new Date().toISOString(),
-                encrypted: false
-              };
-              existingWallets.push(newWallet);
-              console.log(`Added new wallet for ${address} with balance ${balance} GSC`);
-            }
-          }
-        });
+        this.addWatchOnlyWallets(chainStore.getBalances());
       }
 
-      // Update wallets array
-      this.blockchain.wallets = existingWallets;
-
       // Clean up and save
       localStorage.removeItem('gsc_blockchain');
-      this.saveBlockchain();
-      
-      console.log(`Blockchain refreshed successfully. Total wallets: ${this.blockchain.wallets.length}`);
+      this.saveWallets();
       
+      console.log(`Blockchain refreshed successfully. Total wallets: ${this.wallets.length}`);
+      return true;
     } catch (error) {
       console.error("Error refreshing blockchain data:", error);
+      return false;
     }
   }
 
@@ -907,10 +1800,11 @@ class GSCBlockchainService {
           tx_id: transaction.tx_id,
           sender: transaction.sender,
           receiver: transaction.receiver,
-          amount: transaction.amount,
-          fee: transaction.fee,
+          amount: amountToJson(transaction.amount),
+          fee: amountToJson(transaction.fee),
           timestamp: transaction.timestamp,
-          signature: transaction.signature || ""
+          signature: transaction.signature || "",
+          public_key: transaction.public_key || ""
         }
       };
       
@@ -920,8 +1814,8 @@ class GSCBlockchainService {
       console.log("Transaction validation:");
       console.log("- Sender valid:", this.validateGSCAddress(transaction.sender));
       console.log("- Receiver valid:", this.validateGSCAddress(transaction.receiver));
-      console.log("- Amount > 0:", transaction.amount > 0);
-      console.log("- Fee >= 0:", transaction.fee >= 0);
+      console.log("- Amount > 0:", transaction.amount > 0n);
+      console.log("- Fee >= 0:", transaction.fee >= 0n);
       console.log("- TX ID length:", transaction.tx_id.length);
       console.log("- TX ID valid hex:", /^[0-9a-fA-F]{64}$/.test(transaction.tx_id));
       
@@ -1033,19 +1927,11 @@ class GSCBlockchainService {
 
   // Export blockchain
   exportBlockchain(): string {
-    if (!this.blockchain) {
-      return JSON.stringify({});
-    }
-    
-    return JSON.stringify({
-      chain: this.blockchain.chain || [],
-      wallets: this.blockchain.wallets || [],
-      pending_transactions: this.blockchain.pending_transactions || [],
-      balances: this.blockchain.balances || {},
-      difficulty: this.blockchain.difficulty || 4,
-      mining_reward: this.blockchain.mining_reward || 50,
-      total_supply: this.blockchain.total_supply || 0
-    }, null, 2);
+    const snapshot: GSCBlockchain = {
+      ...chainStore.getDocument(),
+      wallets: this.wallets,
+    };
+    return stringifyWithAmounts(snapshot, 2);
   }
 }
 
@@ -1,5 +1,15 @@
 import { supabase } from '@/lib/supabase';
 import { toast } from '@/hooks/use-toast';
+import {
+  INITIAL_REWARD,
+  MAX_SUPPLY,
+  amountToJson,
+  chainStore,
+  formatChainReport,
+  readChainDocument,
+  stringifyWithAmounts,
+  validateImportedChain,
+} from '@/lib/blockchain';
 
 export class SupabaseBlockchainService {
   private isOnline = true;
@@ -13,13 +23,32 @@ export class SupabaseBlockchainService {
   private setupAutoUpdateListener() {
     try {
       // Listen for admin blockchain updates
-      window.addEventListener('adminBlockchainUpdate', (event: any) => {
+      window.addEventListener('adminBlockchainUpdate', async (event: any) => {
         const blockchainData = event.detail;
         if (blockchainData) {
           console.log('🔄 Auto-updating blockchain from admin upload...');
           
-          // Update local storage immediately
-          localStorage.setItem('gsc_blockchain_data', JSON.stringify(blockchainData));
+          const { document, report } = await validateImportedChain(readChainDocument(blockchainData));
+          if (!report.valid) {
+            console.error('Admin blockchain update failed validation:', report.violations);
+            toast({
+              title: "Blockchain Update Rejected",
+              description: formatChainReport(report, 3),
+              variant: "destructive",
+            });
+            return;
+          }
+          
+          // Merge into the local chain; a heavier uploaded branch triggers a reorg
+          const result = await chainStore.importChain(document);
+          if (result.status === 'rejected') {
+            toast({
+              title: "Blockchain Update Rejected",
+              description: result.reason,
+              variant: "destructive",
+            });
+            return;
+          }
           
           toast({
             title: "Blockchain Auto-Updated",
@@ -60,6 +89,9 @@ export class SupabaseBlockchainService {
     }
 
     try {
+      // Amounts are bigints in memory; the row holds them as JSON numbers or decimal strings
+      const row = JSON.parse(stringifyWithAmounts(blockchainData));
+
       // First, delete ALL existing blockchain records to keep only the latest
       const { error: deleteError } = await supabase
         .from('gsc_blockchain')
@@ -76,12 +108,12 @@ export class SupabaseBlockchainService {
         .from('gsc_blockchain')
         .insert({
           version: 1, // Always version 1 since we delete old ones
-          chain_data: blockchainData.chain || [],
-          balances: blockchainData.balances || {},
-          mempool: blockchainData.mempool || blockchainData.pending_transactions || [],
-          difficulty: blockchainData.difficulty || 4,
-          mining_reward: blockchainData.mining_reward || 50,
-          total_supply: blockchainData.total_supply || 21750000000000
+          chain_data: row.chain || [],
+          balances: row.balances || {},
+          mempool: row.mempool || row.pending_transactions || [],
+          difficulty: row.difficulty || 4,
+          mining_reward: row.mining_reward || amountToJson(INITIAL_REWARD),
+          total_supply: row.total_supply || amountToJson(MAX_SUPPLY)
         });
 
       if (error) {
@@ -151,8 +183,8 @@ export class SupabaseBlockchainService {
         mempool: latestData.mempool || [],
         pending_transactions: latestData.mempool || [],
         difficulty: latestData.difficulty || 4,
-        mining_reward: latestData.mining_reward || 50,
-        total_supply: latestData.total_supply || 21750000000000
+        mining_reward: latestData.mining_reward || amountToJson(INITIAL_REWARD),
+        total_supply: latestData.total_supply || amountToJson(MAX_SUPPLY)
       };
 
       console.log('✅ Latest blockchain downloaded from server successfully');
@@ -173,7 +205,17 @@ export class SupabaseBlockchainService {
 
       const serverData = await this.downloadBlockchain();
       if (serverData) {
-        localStorage.setItem('gsc_blockchain_data', JSON.stringify(serverData));
+        const { document, report } = await validateImportedChain(readChainDocument(serverData));
+        if (!report.valid) {
+          console.error('Server blockchain failed validation:', report.violations);
+          throw new Error(`the server's chain failed validation. ${formatChainReport(report, 3)}`);
+        }
+        
+        // Merged, not overwritten: local blocks survive unless the server's branch is heavier
+        const result = await chainStore.importChain(document);
+        if (result.status === 'rejected') {
+          throw new Error(`the server's chain was rejected. ${result.reason}`);
+        }
         
         toast({
           title: "Blockchain Imported",
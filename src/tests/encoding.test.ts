@@ -0,0 +1,289 @@
+// Round-trip tests for the canonical binary encoding of transactions and blocks, the size limits counted in it, and reading snapshots in the wire format
+import {
+  Amount,
+  Block,
+  ENCODING_VERSION,
+  GENESIS_HASH,
+  MAX_BLOCK_WEIGHT,
+  MAX_SUPPLY,
+  MAX_TEMPLATE_WEIGHT,
+  MAX_TRANSACTION_SIZE,
+  Transaction,
+  amountFromNumber,
+  calculateBlockHash,
+  calculateMerkleRoot,
+  computeTransactionId,
+  createGenesisBlock,
+  decodeBlock,
+  decodeTransaction,
+  encodeBlock,
+  encodeBlockHeader,
+  encodeTransaction,
+  encodeUnsignedTransaction,
+  getBlockWeight,
+  getTransactionSize,
+  parseAmount,
+  readChainDocument,
+  selectTransactionsForBlock,
+  signTransaction,
+  toGSCBlock,
+  validateBlockSize,
+  validateChainDocument,
+  verifyTransactionSignature,
+} from '@/lib/blockchain';
+import { bytesToHex, generateKeyPair } from '@/lib/crypto';
+import { publicKeyToAddress } from '@/lib/address';
+
+// Test data
+const keys = generateKeyPair();
+const sender = publicKeyToAddress(keys.publicKey);
+
+const gsc = (text: string): Amount => parseAmount(text)!;
+
+const withId = (tx: Transaction): Transaction => ({ ...tx, id: computeTransactionId(tx) });
+
+const payment = withId({
+  version: ENCODING_VERSION,
+  id: '',
+  from: sender,
+  to: 'GSC1QRECIPIENT',
+  amount: gsc('12.5'),
+  fee: gsc('0.1'),
+  timestamp: 1_700_000_000_123,
+  status: 'pending',
+  nonce: 7,
+  lockTime: 840_000,
+  replaces: 'ab'.repeat(32),
+});
+
+const utxoSpend = withId({
+  version: ENCODING_VERSION,
+  id: '',
+  from: sender,
+  to: 'GSC1QPAYEE',
+  amount: gsc('3'),
+  fee: gsc('0.25'),
+  timestamp: 1_700_000_000_456,
+  status: 'pending',
+  inputs: [{ txId: 'cd'.repeat(32), outputIndex: 0 }, { txId: 'ef'.repeat(32), outputIndex: 300 }],
+  outputs: [{ address: 'GSC1QPAYEE', amount: gsc('3') }, { address: sender, amount: gsc('1.75') }],
+  nonce: 0,
+});
+
+const multisigSpend: Transaction = {
+  ...withId({ version: ENCODING_VERSION, id: '', from: 'GSC1PMULTISIG', to: sender, amount: gsc('1'), fee: gsc('0.1'), timestamp: 1_700_000_001_000, status: 'pending', nonce: 2 }),
+  multisig: { m: 2, publicKeys: ['02' + 'aa'.repeat(32), '03' + 'bb'.repeat(32), '02' + 'cc'.repeat(32)] },
+  signatures: [{ publicKey: '02' + 'aa'.repeat(32), signature: '11'.repeat(64) }],
+};
+
+const htlcClaim: Transaction = {
+  ...withId({ version: ENCODING_VERSION, id: '', from: 'GSC1ZCONTRACT', to: sender, amount: gsc('5'), fee: gsc('0.1'), timestamp: 1_700_000_002_000, status: 'pending', nonce: 0, preimage: '42'.repeat(32) }),
+  htlc: { sender: 'GSC1QSENDER', recipient: sender, hashLock: '99'.repeat(32), timeout: 1_800_000_000 },
+  publicKey: keys.publicKey,
+  signature: '22'.repeat(64),
+};
+
+const coinbase = withId({
+  version: ENCODING_VERSION,
+  id: '',
+  from: 'NETWORK',
+  to: sender,
+  amount: gsc('50.3'),
+  fee: 0n,
+  timestamp: 1_700_000_003_000,
+  isCoinbase: true,
+  status: 'pending',
+});
+
+const legacy: Transaction = {
+  id: 'LEGACY0000000001',
+  from: sender,
+  to: 'GSC1QRECIPIENT',
+  amount: amountFromNumber(0.1 + 0.2),
+  fee: gsc('0.1'),
+  timestamp: 1_600_000_000_000,
+  status: 'pending',
+  publicKey: keys.publicKey,
+  signature: '33'.repeat(64),
+};
+
+// Key order is not part of a transaction; amounts are compared as exact digits
+const canonicalJson = (value: object) => JSON.stringify(value, (_key, field) =>
+  typeof field === 'bigint'
+    ? `${field}n`
+    : field && typeof field === 'object' && !Array.isArray(field)
+      ? Object.fromEntries(Object.entries(field).filter(([, entry]) => entry !== undefined).sort(([a], [b]) => a.localeCompare(b)))
+      : field
+);
+
+const assertEqual = (actual: unknown, expected: unknown, what: string) => {
+  const a = typeof actual === 'object' && actual ? canonicalJson(actual) : String(actual);
+  const b = typeof expected === 'object' && expected ? canonicalJson(expected) : String(expected);
+  if (a !== b) throw new Error(`${what}: expected ${b}, got ${a}`);
+};
+
+const assertThrows = (fn: () => unknown, what: string) => {
+  try {
+    fn();
+  } catch {
+    return;
+  }
+  throw new Error(`${what} should have thrown`);
+};
+
+// Test Cases
+export const runEncodingTests = async () => {
+  console.log('🚀 Starting canonical encoding tests...');
+
+  let passedTests = 0;
+  let totalTests = 0;
+
+  const test = async (name: string, testFn: () => void | Promise<void>) => {
+    totalTests++;
+    try {
+      await testFn();
+      console.log(`✅ ${name}: PASSED`);
+      passedTests++;
+    } catch (error) {
+      console.log(`❌ ${name}: FAILED -`, error);
+    }
+  };
+
+  // Test 1: Every transaction shape survives encode / decode
+  await test('Transaction round trip', () => {
+    [payment, utxoSpend, multisigSpend, htlcClaim, coinbase, legacy].forEach(tx => {
+      const bytes = encodeTransaction(tx);
+      assertEqual(decodeTransaction(bytes), tx, tx.id);
+      assertEqual(bytesToHex(encodeTransaction(decodeTransaction(bytes))), bytesToHex(bytes), `${tx.id} re-encoded`);
+    });
+  });
+
+  // Test 2: Field order and bookkeeping do not change the bytes
+  await test('Encoding is canonical', () => {
+    const reordered = Object.fromEntries(Object.entries(payment).reverse()) as unknown as Transaction;
+    assertEqual(bytesToHex(encodeTransaction(reordered)), bytesToHex(encodeTransaction(payment)), 'reordered');
+    const confirmed: Transaction = { ...payment, status: 'confirmed', blockNumber: 12 };
+    assertEqual(bytesToHex(encodeTransaction(confirmed)), bytesToHex(encodeTransaction(payment)), 'confirmed');
+  });
+
+  // Test 3: Amounts keep every base unit, well past what a double holds exactly
+  await test('Amounts are exact', () => {
+    [1n, MAX_SUPPLY, MAX_SUPPLY + 1n, -gsc('0.00000001')].forEach(amount => {
+      const decoded = decodeTransaction(encodeTransaction({ ...payment, amount }));
+      assertEqual(decoded.amount === amount, true, `amount ${amount}`);
+    });
+    assertEqual(legacy.amount, gsc('0.3'), 'amount read from a double');
+  });
+
+  // Test 4: The first byte is the encoding version, and others are refused
+  await test('Encoding is versioned', () => {
+    const bytes = encodeTransaction(payment);
+    assertEqual(bytes[0], ENCODING_VERSION, 'version byte');
+    const future = bytes.slice();
+    future[0] = ENCODING_VERSION + 1;
+    assertThrows(() => decodeTransaction(future), 'unknown version');
+  });
+
+  // Test 5: Truncated, padded and malformed input is rejected
+  await test('Malformed encodings are rejected', () => {
+    const bytes = encodeTransaction(utxoSpend);
+    assertThrows(() => decodeTransaction(bytes.slice(0, bytes.length - 1)), 'truncated');
+    assertThrows(() => decodeTransaction(new Uint8Array([...bytes, 0])), 'trailing byte');
+    assertThrows(() => decodeTransaction(new Uint8Array(0)), 'empty');
+    assertThrows(() => encodeTransaction({ ...payment, nonce: 1.5 }), 'fractional nonce');
+    assertThrows(() => encodeTransaction({ ...payment, nonce: -1 }), 'negative nonce');
+  });
+
+  // Test 6: Ids and signatures cover the content, not the witness
+  await test('Ids and signatures use the unsigned encoding', async () => {
+    const signed = await signTransaction(payment, keys.privateKey);
+    if (!verifyTransactionSignature(signed)) throw new Error('signature does not verify');
+    if (verifyTransactionSignature({ ...signed, amount: gsc('13') })) throw new Error('changed amount still verifies');
+    if (verifyTransactionSignature({ ...signed, id: 'ff'.repeat(32) })) throw new Error('relabelled id still verifies');
+    assertEqual(computeTransactionId(signed), payment.id, 'id after signing');
+    assertEqual(bytesToHex(encodeUnsignedTransaction(signed)), bytesToHex(encodeUnsignedTransaction(payment)), 'unsigned bytes');
+    assertEqual(payment.id === utxoSpend.id, false, 'distinct ids');
+  });
+
+  // Test 7: Blocks survive encode / decode with their transactions confirmed
+  await test('Block round trip', async () => {
+    const transactions = [coinbase, payment, utxoSpend, multisigSpend, htlcClaim];
+    const header: Omit<Block, 'hash'> = {
+      version: ENCODING_VERSION,
+      index: 12,
+      timestamp: 1_700_000_004_000,
+      transactions,
+      merkleRoot: calculateMerkleRoot(transactions),
+      previousHash: '00'.repeat(32),
+      nonce: 2 ** 40 + 17,
+      difficulty: 4.25,
+      miner: sender,
+      reward: gsc('50.3'),
+    };
+    const block: Block = { ...header, hash: await calculateBlockHash(header) };
+    const decoded = decodeBlock(encodeBlock(block));
+    assertEqual(decoded, {
+      ...block,
+      transactions: transactions.map(tx => ({ ...tx, status: 'confirmed', blockNumber: 12 })),
+    }, 'block');
+    assertEqual(await calculateBlockHash(decoded), block.hash, 'hash of decoded block');
+  });
+
+  // Test 8: The header ends with the nonce, and nothing else changes with it
+  await test('Header nonce is the last eight bytes', () => {
+    const header = { version: ENCODING_VERSION, index: 1, timestamp: 1, previousHash: 'aa', merkleRoot: 'bb', nonce: 0, difficulty: 1, miner: 'm', reward: gsc('50') };
+    const zero = encodeBlockHeader(header);
+    const one = encodeBlockHeader({ ...header, nonce: 258 });
+    assertEqual(bytesToHex(zero.slice(0, -8)), bytesToHex(one.slice(0, -8)), 'prefix');
+    assertEqual(bytesToHex(one.slice(-8)), '0000000000000102', 'nonce bytes');
+  });
+
+  // Test 9: Sizes are the encoded bytes, and blocks and templates stay within the limits
+  await test('Size and weight limits', () => {
+    assertEqual(getTransactionSize(utxoSpend), encodeTransaction(utxoSpend).length, 'transaction size');
+    const block: Block = { version: ENCODING_VERSION, index: 1, timestamp: 1, transactions: [coinbase, payment], merkleRoot: 'bb', previousHash: 'aa', nonce: 0, difficulty: 1, miner: sender, reward: gsc('50'), hash: 'cc' };
+    assertEqual(getBlockWeight(block), encodeBlock(block).length, 'block weight');
+    assertEqual(validateBlockSize(block), true, 'small block');
+
+    const oversized = { ...payment, to: 'GSC1Q' + 'X'.repeat(MAX_TRANSACTION_SIZE) };
+    assertEqual(validateBlockSize({ ...block, transactions: [coinbase, oversized] }), false, 'oversized transaction');
+    // In a block a transaction is encoded without the leading version byte
+    const filler = Array<Transaction>(Math.ceil(MAX_BLOCK_WEIGHT / (getTransactionSize(utxoSpend) - 1)) + 1).fill(utxoSpend);
+    assertEqual(validateBlockSize({ ...block, transactions: filler }), false, 'overweight block');
+
+    // One transaction per sender, each ~2 kB: the weight runs out well before the count
+    const pending = Array.from({ length: 800 }, (_, i) => ({ ...payment, id: `p${i}`, from: `GSC1QSENDER${i}`, to: 'GSC1Q' + 'X'.repeat(1900) }));
+    const selected = selectTransactionsForBlock(pending);
+    const weight = selected.reduce((sum, tx) => sum + getTransactionSize(tx), 0);
+    assertEqual(selected.length > 0 && selected.length < pending.length, true, 'template is cut short');
+    assertEqual(weight <= MAX_TEMPLATE_WEIGHT, true, `template weight ${weight}`);
+    assertEqual(selectTransactionsForBlock([oversized]).length, 0, 'oversized transaction left out');
+  });
+
+  // Test 10: Every client bootstraps the same genesis block
+  await test('Genesis block is fixed', async () => {
+    const genesis = createGenesisBlock();
+    assertEqual(genesis.hash, GENESIS_HASH, 'genesis hash');
+    assertEqual(await calculateBlockHash(genesis), GENESIS_HASH, 'recomputed hash');
+  });
+
+  // Test 11: Entries of a snapshot that cannot be read fail its report, by position
+  await test('Unreadable snapshot entries are reported', async () => {
+    const genesis = { ...toGSCBlock(createGenesisBlock()), transactions: [{ note: 'not a transaction' }] };
+    const document = readChainDocument({ chain: [genesis, 'not a block'], pending_transactions: [42] });
+    const report = await validateChainDocument(document);
+    const unreadable = report.violations.filter(violation => violation.kind === 'unreadable');
+    assertEqual(report.valid, false, 'valid');
+    assertEqual(JSON.stringify(unreadable.map(({ blockIndex, txIndex }) => [blockIndex, txIndex])), '[[0,0],[1,null],[null,0]]', 'positions');
+  });
+
+  console.log(`\n📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests === totalTests) {
+    console.log('🎉 All tests passed! The encoding round-trips.');
+    return true;
+  } else {
+    console.log('⚠️ Some tests failed. Please check the encoding implementation.');
+    return false;
+  }
+};
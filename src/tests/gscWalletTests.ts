@@ -5,6 +5,7 @@
  */
 
 import { gscBlockchainService, GSCWallet, GSCTransaction } from '../services/gscBlockchain';
+import { COIN, MIN_TRANSACTION_FEE } from '../lib/blockchain';
 
 class GSCWalletTester {
   private testResults: Array<{name: string, passed: boolean, error?: string}> = [];
@@ -74,7 +75,7 @@ class GSCWalletTester {
       // Initial balance should be 0
       const initialBalance = gscBlockchainService.getWalletBalance(wallet.address);
       
-      const isValid = initialBalance === 0;
+      const isValid = initialBalance === 0n;
       this.addResult('Balance Calculation', isValid);
       return isValid;
     } catch (error) {
@@ -88,8 +89,8 @@ class GSCWalletTester {
     try {
       const senderAddress = "GSC1test1234567890abcdef1234567890";
       const receiverAddress = "GSC1test0987654321fedcba0987654321";
-      const amount = 10.5;
-      const fee = 0.1;
+      const amount = 21n * COIN / 2n; // 10.5 GSC
+      const fee = COIN / 10n;
 
       const transaction = gscBlockchainService.createTransaction(
         senderAddress, 
@@ -120,8 +121,8 @@ class GSCWalletTester {
       const validTx = gscBlockchainService.createTransaction(
         "GSC1valid123456789012345678901234",
         "GSC1receiver123456789012345678901",
-        5.0,
-        0.1
+        5n * COIN,
+        COIN / 10n
       );
 
       // Test minimum fee validation
@@ -129,8 +130,8 @@ class GSCWalletTester {
         const invalidFeeTx = gscBlockchainService.createTransaction(
           "GSC1valid123456789012345678901234",
           "GSC1receiver123456789012345678901",
-          5.0,
-          0.05 // Below minimum
+          5n * COIN,
+          MIN_TRANSACTION_FEE - 1n // Below minimum
         );
         this.addResult('Transaction Validation', false, 'Should reject low fee');
         return false;
@@ -263,7 +264,7 @@ class GSCWalletTester {
       const isValid = stats.hasOwnProperty('totalBlocks') &&
                      stats.hasOwnProperty('totalWallets') &&
                      stats.hasOwnProperty('totalSupply') &&
-                     stats.totalSupply === 21750000000000; // GSC total supply
+                     stats.totalSupply === 21_750_000_000_000n * COIN; // GSC total supply
 
       this.addResult('Blockchain Stats', isValid);
       return isValid;
@@ -340,10 +341,10 @@ class GSCWalletTester {
       const receiverAddress = "GSC1receiver123456789012345678901";
       
       // Mock balance for sender (in real scenario, this would come from blockchain)
-      (senderWallet as any).balance = 100.0;
+      (senderWallet as any).balance = 100n * COIN;
       
       // Attempt to send transaction
-      const success = gscBlockchainService.sendTransaction(senderWallet, receiverAddress, 10.0);
+      const success = gscBlockchainService.sendTransaction(senderWallet, receiverAddress, 10n * COIN);
       
       // Should fail due to insufficient balance in actual blockchain
       // But the method should handle it gracefully
@@ -1,5 +1,7 @@
 // Error handling utilities for the GSC application
 
+import { ChainDocument, ChainValidationReport, formatChainReport, readChainDocument, validateImportedChain } from '@/lib/blockchain';
+
 export interface ErrorInfo {
   message: string;
   code?: string;
@@ -34,6 +36,17 @@ export const ErrorCodes = {
   STORAGE_ERROR: 'STORAGE_ERROR',
 } as const;
 
+// An imported chain that failed full validation, with every violation found
+export class ChainValidationError extends AppError {
+  public report: ChainValidationReport;
+
+  constructor(report: ChainValidationReport, component?: string, action?: string) {
+    super(`Invalid blockchain: ${formatChainReport(report)}`, ErrorCodes.VALIDATION_ERROR, component, action);
+    this.name = 'ChainValidationError';
+    this.report = report;
+  }
+}
+
 export const handleError = (error: unknown, component?: string, action?: string): ErrorInfo => {
   console.error(`Error in ${component || 'Unknown'} during ${action || 'unknown action'}:`, error);
 
@@ -109,6 +122,18 @@ export const validateBlockchainData = (data: any): void => {
   });
 };
 
+// Check the structure, then re-verify every block, transaction and balance,
+// converting a pre-series chain first. Returns the chain to import; throws a
+// ChainValidationError carrying the report when anything fails.
+export const validateBlockchainFile = async (data: unknown): Promise<ChainDocument> => {
+  validateBlockchainData(data);
+  const { document, report } = await validateImportedChain(readChainDocument(data));
+  if (!report.valid) {
+    throw new ChainValidationError(report);
+  }
+  return document;
+};
+
 export const validateFileUpload = (file: File): void => {
   if (!file) {
     throw new AppError('No file selected', ErrorCodes.FILE_UPLOAD_ERROR);